@@ -1,7 +1,20 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { mkdtempSync, rmSync } from 'fs';
 import OpenAI from 'openai';
-import { AIProviderFactory, ClaudeProvider, OpenAIProvider } from '../src/ai-provider';
-import { AIProviderError, CodeChunk, Config } from '../src/types';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AIProviderFactory,
+  ClaudeProvider,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+} from '../src/ai-provider';
+import { ConsensusAIProvider } from '../src/ai-provider/consensus-provider';
+import { FallbackAIProvider } from '../src/ai-provider/fallback-provider';
+import { AIProviderError, CassetteMissError, CodeChunk, Config, ReviewComment } from '../src/types';
+import { Cassette } from '../src/utils/cassette';
+import { PromptTemplates } from '../src/utils/prompt-templates';
 
 jest.mock('openai');
 jest.mock('@anthropic-ai/sdk');
@@ -40,6 +53,19 @@ describe('AIProvider', () => {
       },
     });
 
+  // Split a response into small fragments, the way tokens arrive from a streaming API
+  const fragmentsOf = (text: string, size = 7): string[] =>
+    Array.from({ length: Math.ceil(text.length / size) }, (_, i) =>
+      text.slice(i * size, (i + 1) * size)
+    );
+
+  async function* streamOf<T>(items: T[]): AsyncGenerator<T> {
+    for (const item of items) {
+      await Promise.resolve();
+      yield item;
+    }
+  }
+
   describe('OpenAIProvider', () => {
     let provider: OpenAIProvider;
     let mockCreateFn: jest.Mock;
@@ -79,6 +105,18 @@ describe('AIProvider', () => {
       expect(result.comments[0].line).toBe(5);
       expect(result.comments[0].severity).toBe('error');
       expect(result.summary).toContain('REQUEST_CHANGES');
+      expect(result.metadata).toEqual({ aiProvider: 'openai', model: 'gpt-4' });
+    });
+
+    it('should capture token usage', async () => {
+      mockCreateFn.mockResolvedValue({
+        choices: [{ message: { content: createValidAIResponse() } }],
+        usage: { prompt_tokens: 1200, completion_tokens: 340 },
+      });
+
+      const result = await provider.reviewCode(createMockChunks(), []);
+
+      expect(result.metadata?.usage).toEqual({ promptTokens: 1200, completionTokens: 340 });
     });
 
     it('should include global rules in prompt', async () => {
@@ -150,6 +188,13 @@ describe('AIProvider', () => {
       expect(result.comments[2].severity).toBe('warning'); // Medium
       expect(result.comments[3].severity).toBe('suggestion'); // Low
       expect(result.comments[4].severity).toBe('info'); // Nitpick
+      expect(result.comments.map((comment) => comment.critical)).toEqual([
+        true,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+      ]);
     });
 
     it('should handle empty response', async () => {
@@ -185,6 +230,312 @@ describe('AIProvider', () => {
       expect(prompt).toContain('dep1');
       expect(prompt).toContain('dep2');
     });
+
+    it('should request the review schema as a native JSON-schema response format', async () => {
+      mockCreateFn.mockResolvedValue({
+        choices: [{ message: { content: createValidAIResponse() } }],
+      });
+
+      await provider.reviewCode(createMockChunks(), []);
+
+      expect(mockCreateFn.mock.calls[0][0]).toMatchObject({
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'code_review',
+            schema: { type: 'object', properties: { bugs: { type: 'array' } } },
+          },
+        },
+      });
+    });
+
+    it('should send invalid responses back for repair and count the repairs', async () => {
+      const invalid = JSON.stringify({
+        bugs: [{ severity: 'Huge', file: 'src/file.ts', line: 'five', description: 'Issue' }],
+      });
+      mockCreateFn
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: invalid } }],
+          usage: { prompt_tokens: 1000, completion_tokens: 100 },
+        })
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: createValidAIResponse() } }],
+          usage: { prompt_tokens: 300, completion_tokens: 120 },
+        });
+
+      const result = await provider.reviewCode(createMockChunks(), []);
+
+      const repairPrompt = (
+        mockCreateFn.mock.calls[1][0] as { messages: Array<{ content: string }> }
+      ).messages[1].content;
+      expect(repairPrompt).toContain('bugs.0.severity');
+      expect(repairPrompt).toContain('bugs.0.line: Expected number, received string');
+      expect(repairPrompt).toContain(invalid);
+      expect(result.comments).toHaveLength(1);
+      expect(result.metadata).toEqual({
+        aiProvider: 'openai',
+        model: 'gpt-4',
+        usage: { promptTokens: 1300, completionTokens: 220 },
+        repairs: 1,
+      });
+    });
+
+    it('should stop repairing after maxRepairs attempts', async () => {
+      provider.configureStructuredOutput({ maxRepairs: 1 });
+      mockCreateFn.mockResolvedValue({
+        choices: [{ message: { content: 'Still not JSON' } }],
+      });
+
+      const result = await provider.reviewCode(createMockChunks(), []);
+
+      expect(mockCreateFn).toHaveBeenCalledTimes(2);
+      expect(result.summary).toContain('parsing failed');
+      expect(result.metadata?.repairs).toBe(1);
+    });
+
+    it('should fall back to prompt-only JSON when the model rejects the schema', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockCreateFn
+        .mockRejectedValueOnce(
+          Object.assign(new Error('response_format is not supported'), { status: 400 })
+        )
+        .mockResolvedValue({ choices: [{ message: { content: createValidAIResponse() } }] });
+
+      await provider.reviewCode(createMockChunks(), []);
+      await provider.reviewCode(createMockChunks(), []);
+
+      expect(mockCreateFn).toHaveBeenCalledTimes(3);
+      expect(mockCreateFn.mock.calls[1][0]).toMatchObject({ response_format: undefined });
+      expect(mockCreateFn.mock.calls[2][0]).toMatchObject({ response_format: undefined });
+    });
+
+    it('should send repository prompt templates for the requested pass', async () => {
+      mockCreateFn.mockResolvedValue({
+        choices: [{ message: { content: createValidAIResponse() } }],
+      });
+      provider.configurePrompts(
+        new PromptTemplates([
+          PromptTemplates.parse('naming.md', '---\npass: naming\n---\nRename things in {{files}}'),
+        ])
+      );
+
+      await provider.reviewCode(createMockChunks(), [], { pass: 'naming' });
+      await provider.reviewCode(createMockChunks(), []);
+
+      const userPrompt = (call: number): string =>
+        (mockCreateFn.mock.calls[call][0] as { messages: Array<{ content: string }> }).messages[1]
+          .content;
+      expect(userPrompt(0)).toBe('Rename things in - src/file.ts');
+      expect(userPrompt(1)).toContain('Code Review Request');
+    });
+
+    describe('cassettes', () => {
+      let dir: string;
+
+      beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'sherlock-provider-cassette-'));
+      });
+
+      afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+      });
+
+      it('should replay a recorded review without calling the API', async () => {
+        const path = join(dir, 'cassette.json');
+        mockCreateFn.mockResolvedValue({
+          choices: [{ message: { content: createValidAIResponse() } }],
+          usage: { prompt_tokens: 500, completion_tokens: 40 },
+        });
+        provider.useCassette(new Cassette({ path, mode: 'record' }));
+        const recorded = await provider.reviewCode(createMockChunks(), ['rule1']);
+
+        mockCreateFn.mockClear();
+        const replaying = new OpenAIProvider('test-key', 'gpt-4');
+        replaying.useCassette(new Cassette({ path, mode: 'replay' }));
+        const streamed: ReviewComment[] = [];
+        const replayed = await replaying.reviewCode(createMockChunks(), ['rule1'], {
+          onComment: (comment) => streamed.push(comment),
+        });
+
+        expect(mockCreateFn).not.toHaveBeenCalled();
+        expect(replayed.comments).toEqual(recorded.comments);
+        expect(streamed).toEqual(recorded.comments);
+        expect(replayed.metadata?.usage).toEqual({ promptTokens: 500, completionTokens: 40 });
+      });
+
+      it('should replay each consensus provider its own answer', async () => {
+        const path = join(dir, 'cassette.json');
+        const answer = (recommendation: string) => ({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  ...(JSON.parse(createValidAIResponse()) as object),
+                  summary: { recommendation, top_issues: [] },
+                }),
+              },
+            },
+          ],
+        });
+        // gpt-4 is asked first but answers last, so recordings are out of request order
+        mockCreateFn.mockImplementation(({ model }: { model: string }) =>
+          model === 'gpt-4'
+            ? new Promise((resolve) => setTimeout(() => resolve(answer('REQUEST_CHANGES')), 5))
+            : Promise.resolve(answer('APPROVE'))
+        );
+        const createPanel = (cassette: Cassette) => {
+          const members = ['gpt-4', 'gpt-4o'].map((model) => {
+            const member = new OpenAIProvider('test-key', model);
+            member.useCassette(cassette);
+            return { name: model, provider: member };
+          });
+          return new ConsensusAIProvider(members);
+        };
+
+        const recorded = await createPanel(new Cassette({ path, mode: 'record' })).reviewCode(
+          createMockChunks(),
+          []
+        );
+        mockCreateFn.mockClear();
+        const replayed = await createPanel(new Cassette({ path, mode: 'replay' })).reviewCode(
+          createMockChunks(),
+          []
+        );
+
+        expect(mockCreateFn).not.toHaveBeenCalled();
+        // The panel's summary is the first provider's, so a swapped answer would show here
+        expect(recorded.summary).toContain('REQUEST_CHANGES');
+        expect(replayed.summary).toBe(recorded.summary);
+        expect(replayed.comments).toEqual(recorded.comments);
+      });
+
+      it('should fail clearly when a replayed prompt was never recorded', async () => {
+        const path = join(dir, 'cassette.json');
+        new Cassette({ path, mode: 'record' }).record(
+          { prompt: 'other' },
+          { text: '{}' },
+          'x',
+          'y'
+        );
+        provider.useCassette(new Cassette({ path, mode: 'replay' }));
+
+        await expect(provider.reviewCode(createMockChunks(), [])).rejects.toThrow(
+          CassetteMissError
+        );
+        await expect(provider.scoutReview(createMockChunks())).rejects.toThrow(CassetteMissError);
+        expect(mockCreateFn).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('tool-calling deep dives', () => {
+      const toolRequest = (...names: string[]) => ({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                tool_calls: names.map((name) => ({ name: 'find_symbol', arguments: { name } })),
+              }),
+            },
+          },
+        ],
+        usage: { prompt_tokens: 100, completion_tokens: 10 },
+      });
+      const userPrompt = (call: number): string =>
+        (mockCreateFn.mock.calls[call][0] as { messages: Array<{ content: string }> }).messages[1]
+          .content;
+
+      it('should run requested tools and feed the results back', async () => {
+        const tools = {
+          definitions: [],
+          budget: 4,
+          run: jest.fn().mockResolvedValue('src/util.ts:3\n3: export function sanitize() {}'),
+        };
+        mockCreateFn.mockResolvedValueOnce(toolRequest('sanitize')).mockResolvedValueOnce({
+          choices: [{ message: { content: createValidAIResponse() } }],
+          usage: { prompt_tokens: 200, completion_tokens: 50 },
+        });
+
+        const result = await provider.deepDiveReview(createMockChunks(), [], { tools });
+
+        expect(tools.run).toHaveBeenCalledWith({
+          name: 'find_symbol',
+          arguments: { name: 'sanitize' },
+        });
+        const system = (mockCreateFn.mock.calls[0][0] as { messages: Array<{ content: string }> })
+          .messages[0].content;
+        expect(system).toContain('"tool_calls"');
+        expect(userPrompt(1)).toContain('## Tool Results');
+        expect(userPrompt(1)).toContain('export function sanitize() {}');
+        expect(userPrompt(1)).toContain('3 tool call(s) left');
+        expect(result.comments).toHaveLength(1);
+        expect(result.metadata).toMatchObject({
+          usage: { promptTokens: 300, completionTokens: 60 },
+          toolCalls: 1,
+        });
+      });
+
+      it('should stop offering tools once the budget is spent', async () => {
+        const tools = { definitions: [], budget: 2, run: jest.fn().mockResolvedValue('found') };
+        mockCreateFn
+          .mockResolvedValueOnce(toolRequest('a', 'b', 'c'))
+          .mockResolvedValueOnce(toolRequest('d'))
+          .mockResolvedValueOnce({
+            choices: [{ message: { content: createValidAIResponse() } }],
+          });
+
+        const result = await provider.deepDiveReview(createMockChunks(), [], { tools });
+
+        expect(tools.run).toHaveBeenCalledTimes(2);
+        expect(userPrompt(1)).toContain('The tool budget is used up');
+        const finalSystem = (
+          mockCreateFn.mock.calls[2][0] as { messages: Array<{ content: string }> }
+        ).messages[0].content;
+        expect(finalSystem).not.toContain('tool_calls');
+        expect(result.comments).toHaveLength(1);
+        expect(result.metadata?.toolCalls).toBe(2);
+      });
+
+      it('should ignore tools outside deep dives', async () => {
+        const tools = { definitions: [], budget: 2, run: jest.fn() };
+        mockCreateFn.mockResolvedValue({
+          choices: [{ message: { content: createValidAIResponse() } }],
+        });
+
+        await provider.reviewCode(createMockChunks(), [], { tools });
+
+        expect(tools.run).not.toHaveBeenCalled();
+        expect(mockCreateFn).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should stream findings before the response completes', async () => {
+      const streamed: ReviewComment[] = [];
+      let resultReady = false;
+      mockCreateFn.mockResolvedValue(
+        streamOf([
+          ...fragmentsOf(createValidAIResponse()).map((content) => ({
+            choices: [{ delta: { content } }],
+          })),
+          { choices: [], usage: { prompt_tokens: 700, completion_tokens: 60 } },
+        ])
+      );
+
+      const result = await provider.reviewCode(createMockChunks(), [], {
+        onComment: (comment) => {
+          expect(resultReady).toBe(false);
+          streamed.push(comment);
+        },
+      });
+      resultReady = true;
+
+      expect(mockCreateFn.mock.calls[0][0]).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      expect(streamed).toEqual(result.comments);
+      expect(streamed).toHaveLength(1);
+      expect(result.metadata?.usage).toEqual({ promptTokens: 700, completionTokens: 60 });
+    });
   });
 
   describe('ClaudeProvider', () => {
@@ -202,6 +553,7 @@ describe('AIProvider', () => {
         messages: {
           create: mockCreateFn,
         },
+        beta: { tools: { messages: { create: mockCreateFn } } },
       };
 
       (Anthropic as jest.MockedClass<typeof Anthropic>).mockImplementation(
@@ -240,6 +592,28 @@ describe('AIProvider', () => {
       expect(prompt).toContain('Follow best practices');
     });
 
+    it('should read the review from the submit_review tool input', async () => {
+      mockCreateFn.mockResolvedValue({
+        content: [
+          { type: 'text', text: 'Submitting the review.' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'submit_review',
+            input: JSON.parse(createValidAIResponse()) as unknown,
+          },
+        ],
+      });
+
+      const result = await provider.reviewCode(createMockChunks(), []);
+
+      expect(mockCreateFn.mock.calls[0][0]).toMatchObject({
+        tools: [{ name: 'submit_review', input_schema: { type: 'object' } }],
+      });
+      expect(result.comments).toHaveLength(1);
+      expect(result.metadata?.repairs).toBeUndefined();
+    });
+
     it('should handle non-text response content', async () => {
       const chunks = createMockChunks();
       mockCreateFn.mockResolvedValue({
@@ -250,6 +624,181 @@ describe('AIProvider', () => {
 
       expect(result.summary).toContain('parsing failed');
     });
+
+    it('should stream findings from text deltas', async () => {
+      const onComment = jest.fn();
+      mockCreateFn.mockResolvedValue(
+        streamOf([
+          { type: 'message_start', message: { usage: { input_tokens: 900, output_tokens: 1 } } },
+          ...fragmentsOf(createValidAIResponse()).map((text) => ({
+            type: 'content_block_delta',
+            delta: { type: 'text_delta', text },
+          })),
+          { type: 'message_delta', delta: {}, usage: { output_tokens: 85 } },
+          { type: 'message_stop' },
+        ])
+      );
+
+      const result = await provider.reviewCode(createMockChunks(), [], { onComment });
+
+      expect(mockCreateFn.mock.calls[0][0]).toMatchObject({ stream: true });
+      expect(onComment).toHaveBeenCalledTimes(1);
+      expect(onComment).toHaveBeenCalledWith(result.comments[0]);
+      expect(result.metadata?.usage).toEqual({ promptTokens: 900, completionTokens: 85 });
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    let mockChatCreate: jest.Mock;
+    let mockResponsesCreate: jest.Mock;
+
+    const createProvider = (mode: 'chat' | 'responses'): OpenAICompatibleProvider =>
+      new OpenAICompatibleProvider({
+        baseUrl: 'http://gateway.internal/v1',
+        model: 'qwen2.5-coder-32b',
+        headers: { 'X-Team': 'platform' },
+        mode,
+      });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockChatCreate = jest.fn();
+      mockResponsesCreate = jest.fn();
+      (OpenAI as jest.MockedClass<typeof OpenAI>).mockImplementation(
+        () =>
+          ({
+            chat: { completions: { create: mockChatCreate } },
+            responses: { create: mockResponsesCreate },
+          }) as unknown as OpenAI
+      );
+    });
+
+    it('should point the client at the configured server', () => {
+      createProvider('chat');
+
+      expect(OpenAI).toHaveBeenCalledWith({
+        apiKey: 'not-needed',
+        baseURL: 'http://gateway.internal/v1',
+        defaultHeaders: { 'X-Team': 'platform' },
+      });
+    });
+
+    it('should review through chat completions in chat mode', async () => {
+      mockChatCreate.mockResolvedValue({
+        choices: [{ message: { content: createValidAIResponse() } }],
+      });
+
+      const result = await createProvider('chat').deepDiveReview(createMockChunks(), []);
+
+      expect(mockChatCreate.mock.calls[0][0]).toMatchObject({ model: 'qwen2.5-coder-32b' });
+      expect(mockResponsesCreate).not.toHaveBeenCalled();
+      expect(result.comments).toHaveLength(1);
+      expect(result.metadata).toEqual({
+        aiProvider: 'openai-compatible',
+        model: 'qwen2.5-coder-32b',
+      });
+    });
+
+    it('should review through the responses API in responses mode', async () => {
+      mockResponsesCreate.mockResolvedValue({ output_text: createValidAIResponse() });
+
+      const result = await createProvider('responses').reviewCode(createMockChunks(), []);
+
+      expect(mockResponsesCreate.mock.calls[0][0]).toMatchObject({
+        model: 'qwen2.5-coder-32b',
+        input: expect.stringContaining('src/file.ts') as string,
+      });
+      expect(mockChatCreate).not.toHaveBeenCalled();
+      expect(result.comments[0].line).toBe(5);
+    });
+
+    it('should stream output text deltas in responses mode', async () => {
+      const onComment = jest.fn();
+      mockResponsesCreate.mockResolvedValue(
+        streamOf([
+          { type: 'response.created' },
+          ...fragmentsOf(createValidAIResponse()).map((delta) => ({
+            type: 'response.output_text.delta',
+            delta,
+          })),
+          {
+            type: 'response.completed',
+            response: { usage: { input_tokens: 300, output_tokens: 45 } },
+          },
+        ])
+      );
+
+      const result = await createProvider('responses').reviewCode(createMockChunks(), [], {
+        onComment,
+      });
+
+      expect(mockResponsesCreate.mock.calls[0][0]).toMatchObject({ stream: true });
+      expect(onComment).toHaveBeenCalledWith(result.comments[0]);
+      expect(result.metadata?.usage).toEqual({ promptTokens: 300, completionTokens: 45 });
+    });
+
+    it('should run scout reviews against the same endpoint', async () => {
+      mockResponsesCreate.mockResolvedValue({
+        output_text: JSON.stringify({ complexityScore: 8, criticalFiles: ['src/file.ts'] }),
+        usage: { input_tokens: 150, output_tokens: 20 },
+      });
+
+      const scout = await createProvider('responses').scoutReview(createMockChunks());
+
+      expect(scout).toEqual({
+        complexityScore: 8,
+        criticalFiles: ['src/file.ts'],
+        usage: { promptTokens: 150, completionTokens: 20 },
+        model: 'qwen2.5-coder-32b',
+      });
+    });
+
+    it('should name the compatible endpoint in errors', async () => {
+      mockChatCreate.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(createProvider('chat').reviewCode(createMockChunks(), [])).rejects.toThrow(
+        'OpenAI-compatible API call failed: connect ECONNREFUSED'
+      );
+    });
+  });
+
+  describe('OllamaProvider', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should stream findings from newline-delimited JSON', async () => {
+      const lines = fragmentsOf(createValidAIResponse()).map(
+        (response) => `${JSON.stringify({ response, done: false })}\n`
+      );
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          // Chunk boundaries deliberately split the NDJSON lines
+          const encoded = new TextEncoder().encode(
+            `${lines.join('')}{"done":true,"prompt_eval_count":400,"eval_count":90}\n`
+          );
+          for (let i = 0; i < encoded.length; i += 50) {
+            controller.enqueue(encoded.slice(i, i + 50));
+          }
+          controller.close();
+        },
+      });
+      const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200, body });
+      global.fetch = mockFetch;
+      const onComment = jest.fn();
+
+      const result = await new OllamaProvider('codellama').reviewCode(createMockChunks(), [], {
+        onComment,
+      });
+
+      const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(init.body as string)).toMatchObject({ stream: true });
+      expect(result.comments).toHaveLength(1);
+      expect(onComment).toHaveBeenCalledWith(result.comments[0]);
+      expect(result.metadata?.usage).toEqual({ promptTokens: 400, completionTokens: 90 });
+    });
   });
 
   describe('AIProviderFactory', () => {
@@ -356,5 +905,128 @@ describe('AIProvider', () => {
       expect(() => AIProviderFactory.create(config)).toThrow(AIProviderError);
       expect(() => AIProviderFactory.create(config)).toThrow('Claude API key is required');
     });
+
+    it('should wrap an ordered provider list in a fallback chain', () => {
+      const config: Config = {
+        aiProvider: 'claude',
+        aiProviders: ['claude', 'openai', 'ollama', 'openai'],
+        claude: { apiKey: 'claude-key', model: 'claude-3-5-sonnet-20241022' },
+        openai: { apiKey: 'openai-key', model: 'gpt-4' },
+        globalRules: [],
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+      };
+
+      const provider = AIProviderFactory.create(config);
+
+      expect(provider).toBeInstanceOf(FallbackAIProvider);
+      expect((provider as FallbackAIProvider).getCircuitStates().map(({ name }) => name)).toEqual([
+        'claude',
+        'openai',
+        'ollama',
+      ]);
+    });
+
+    it('should put consensus providers on a panel', () => {
+      const config: Config = {
+        aiProvider: 'claude',
+        consensus: { providers: ['claude', 'openai'] },
+        claude: { apiKey: 'claude-key', model: 'claude-3-5-sonnet-20241022' },
+        openai: { apiKey: 'openai-key', model: 'gpt-4' },
+        globalRules: [],
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+      };
+
+      expect(AIProviderFactory.create(config)).toBeInstanceOf(ConsensusAIProvider);
+      expect(() =>
+        AIProviderFactory.create({ ...config, consensus: { providers: ['claude', 'claude'] } })
+      ).toThrow('at least two');
+    });
+
+    it('should build a provider per route with the route model', async () => {
+      const mockCreateFn = jest.fn().mockResolvedValue({
+        choices: [{ message: { content: createValidAIResponse() } }],
+      });
+      (OpenAI as jest.MockedClass<typeof OpenAI>).mockImplementation(
+        () => ({ chat: { completions: { create: mockCreateFn } } }) as unknown as OpenAI
+      );
+      const config: Config = {
+        aiProvider: 'openai',
+        openai: { apiKey: 'openai-key', model: 'gpt-4' },
+        routing: {
+          routes: { cheap: { provider: 'openai', model: 'gpt-4o-mini' } },
+          rules: [{ route: 'cheap', maxComplexity: 3 }],
+        },
+        globalRules: [],
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+      };
+
+      const router = AIProviderFactory.createRouter(config);
+      await router
+        .forReview({ complexityScore: 1, criticalFiles: [] })
+        .reviewCode(createMockChunks(), []);
+      await router
+        .forReview({ complexityScore: 8, criticalFiles: [] })
+        .reviewCode(createMockChunks(), []);
+
+      expect(
+        mockCreateFn.mock.calls.map(([params]) => (params as { model: string }).model)
+      ).toEqual(['gpt-4o-mini', 'gpt-4']);
+      expect(() =>
+        AIProviderFactory.createRouter({
+          ...config,
+          routing: { routes: {}, rules: [{ route: 'cheap' }] },
+        })
+      ).toThrow('unknown route "cheap"');
+    });
+
+    it('should create an OpenAI-compatible provider', () => {
+      const config: Config = {
+        aiProvider: 'openai-compatible',
+        openaiCompatible: { baseUrl: 'http://localhost:8000/v1', model: 'llama3', mode: 'chat' },
+        globalRules: [],
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+      };
+
+      expect(AIProviderFactory.create(config)).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(() => AIProviderFactory.create({ ...config, openaiCompatible: undefined })).toThrow(
+        AIProviderError
+      );
+    });
+
+    it('should require API keys for every provider in the chain', () => {
+      const config: Config = {
+        aiProvider: 'claude',
+        aiProviders: ['claude', 'openai'],
+        claude: { apiKey: 'claude-key', model: 'claude-3-5-sonnet-20241022' },
+        globalRules: [],
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+      };
+
+      expect(() => AIProviderFactory.create(config)).toThrow('OpenAI API key is required');
+    });
+
+    it('should apply the structured output settings to created providers', async () => {
+      const create = jest.fn().mockResolvedValue({ choices: [{ message: { content: '{}' } }] });
+      (OpenAI as jest.MockedClass<typeof OpenAI>).mockImplementation(
+        () => ({ chat: { completions: { create } } }) as unknown as OpenAI
+      );
+      const config: Config = {
+        aiProvider: 'openai',
+        openai: { apiKey: 'test-key', model: 'gpt-4' },
+        structuredOutput: { native: false },
+        globalRules: [],
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+      };
+
+      await AIProviderFactory.create(config).reviewCode(createMockChunks(), []);
+
+      expect(create.mock.calls[0][0]).toMatchObject({ response_format: undefined });
+    });
   });
 });
@@ -0,0 +1,189 @@
+import { AzureDevOpsCommentService } from '../src/pr-comments/azure-devops';
+import { Config, PRCommentError, ReviewComment, ReviewResult } from '../src/types';
+
+describe('AzureDevOpsCommentService', () => {
+  const config: Config = {
+    aiProvider: 'openai',
+    openai: { apiKey: 'test-key', model: 'gpt-4' },
+    globalRules: [],
+    repository: { owner: 'org', repo: 'repo', baseBranch: 'main' },
+    pr: { number: 7 },
+    azureDevOps: { organization: 'org', project: 'proj', repositoryId: 'repo', pat: 'pat' },
+  };
+
+  const threadsUrl =
+    'https://dev.azure.com/org/proj/_apis/git/repositories/repo/pullRequests/7/threads';
+
+  const result: ReviewResult = {
+    comments: [],
+    summary: 'Looks fine',
+    stats: { errors: 0, warnings: 0, suggestions: 0 },
+  };
+
+  const finding: ReviewComment = {
+    file: 'src/app.ts',
+    line: 12,
+    body: 'Possible null dereference',
+    severity: 'error',
+  };
+
+  const jsonResponse = (data: unknown, status = 200): Response =>
+    ({
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? 'OK' : 'Error',
+      json: jest.fn().mockResolvedValue(data),
+    }) as unknown as Response;
+
+  let mockFetch: jest.Mock;
+  let existingThreads: unknown[];
+
+  const callsTo = (method: string, urlPart: string): Array<[string, RequestInit]> =>
+    (mockFetch.mock.calls as Array<[string, RequestInit]>).filter(
+      ([url, init]) => url.includes(urlPart) && (init.method ?? 'GET') === method
+    );
+
+  const bodyOf = (init: RequestInit): Record<string, unknown> =>
+    JSON.parse(init.body as string) as Record<string, unknown>;
+
+  /** Post a finding once and return the content of the created thread */
+  const createdThreadContent = async (service: AzureDevOpsCommentService): Promise<string> => {
+    await service.postComments([finding], 7);
+    const [[, init]] = callsTo('POST', '/pullRequests/7/threads');
+    const { comments } = bodyOf(init) as { comments: Array<{ content: string }> };
+    mockFetch.mockClear();
+    return comments[0].content;
+  };
+
+  beforeEach(() => {
+    existingThreads = [];
+    mockFetch = jest.fn().mockImplementation((url: string, init: RequestInit) => {
+      if (url.includes('/connectionData')) {
+        return Promise.resolve(jsonResponse({ authenticatedUser: { id: 'user-guid' } }));
+      }
+      if (url.startsWith(`${threadsUrl}?`) && (init.method ?? 'GET') === 'GET') {
+        return Promise.resolve(jsonResponse({ value: existingThreads }));
+      }
+      return Promise.resolve(jsonResponse({}));
+    });
+    global.fetch = mockFetch;
+  });
+
+  it('should require a personal access token', () => {
+    expect(() => new AzureDevOpsCommentService({ ...config, azureDevOps: undefined })).toThrow(
+      PRCommentError
+    );
+  });
+
+  it('should post threads anchored to the file and line', async () => {
+    const service = new AzureDevOpsCommentService(config);
+
+    await service.postComments([finding], 7);
+
+    const posts = callsTo('POST', '/pullRequests/7/threads');
+    expect(posts).toHaveLength(1);
+    const [[url, init]] = posts;
+    expect(url).toBe(`${threadsUrl}?api-version=7.1`);
+    expect(bodyOf(init).threadContext).toEqual({
+      filePath: '/src/app.ts',
+      rightFileStart: { line: 12, offset: 1 },
+      rightFileEnd: { line: 12, offset: 1 },
+    });
+    expect(JSON.stringify(bodyOf(init))).toMatch(/<!-- code-sherlock:[a-f0-9]{16} -->/);
+    expect((init.headers as Record<string, string>).Authorization).toBe(
+      `Basic ${Buffer.from(':pat').toString('base64')}`
+    );
+  });
+
+  it('should not repost a finding that already has a thread', async () => {
+    const service = new AzureDevOpsCommentService(config);
+    const content = await createdThreadContent(service);
+    existingThreads = [{ id: 3, status: 'active', comments: [{ content }] }];
+
+    await service.postComments([finding], 7);
+
+    expect(callsTo('POST', '/pullRequests/7/threads')).toHaveLength(0);
+    expect(callsTo('PATCH', '/threads/3')).toHaveLength(0);
+  });
+
+  it('should mark threads fixed when the issue goes away and reactivate them when it returns', async () => {
+    const service = new AzureDevOpsCommentService(config);
+    const content = await createdThreadContent(service);
+    const threadContext = { filePath: '/src/app.ts', rightFileStart: { line: 12, offset: 1 } };
+
+    service.setReviewedRanges([{ file: 'src/app.ts', startLine: 1, endLine: 20 }]);
+    existingThreads = [{ id: 3, status: 'active', comments: [{ content }], threadContext }];
+    await service.postComments([], 7);
+    const fixed = callsTo('PATCH', '/threads/3');
+    expect(fixed).toHaveLength(1);
+    expect(bodyOf(fixed[0][1])).toEqual({ status: 'fixed' });
+
+    mockFetch.mockClear();
+    existingThreads = [{ id: 3, status: 'fixed', comments: [{ content }], threadContext }];
+    await service.postComments([finding], 7);
+    const reactivated = callsTo('PATCH', '/threads/3');
+    expect(reactivated).toHaveLength(1);
+    expect(bodyOf(reactivated[0][1])).toEqual({ status: 'active' });
+  });
+
+  it('should leave threads open when their code was not reviewed in this run', async () => {
+    const service = new AzureDevOpsCommentService(config);
+    const content = await createdThreadContent(service);
+    const threadContext = { filePath: '/src/app.ts', rightFileStart: { line: 12, offset: 1 } };
+    existingThreads = [{ id: 3, status: 'active', comments: [{ content }], threadContext }];
+
+    // e.g. an incremental review that skipped the chunk holding line 12
+    service.setReviewedRanges([{ file: 'src/app.ts', startLine: 30, endLine: 60 }]);
+    await service.postComments([], 7);
+
+    expect(callsTo('PATCH', '/threads/3')).toHaveLength(0);
+  });
+
+  it('should keep one thread per finding when the same text appears twice in a file', async () => {
+    const service = new AzureDevOpsCommentService(config);
+
+    await service.postComments([finding, { ...finding, line: 40 }], 7);
+
+    const posts = callsTo('POST', '/pullRequests/7/threads');
+    expect(posts).toHaveLength(2);
+    const markers = posts.map(
+      ([, init]) => JSON.stringify(bodyOf(init)).match(/code-sherlock:([a-f0-9]{16})/)?.[1]
+    );
+    expect(new Set(markers).size).toBe(2);
+  });
+
+  it('should ignore threads that were not created by the reviewer', async () => {
+    existingThreads = [{ id: 9, status: 'active', comments: [{ content: 'LGTM' }] }];
+    const service = new AzureDevOpsCommentService(config);
+
+    await service.postComments([], 7);
+
+    expect(callsTo('PATCH', '/threads/9')).toHaveLength(0);
+  });
+
+  it('should cast a reviewer vote for the token user', async () => {
+    const service = new AzureDevOpsCommentService(config);
+
+    await service.postReviewDecision(result, 7, 'REQUEST_CHANGES');
+    await service.postReviewDecision(result, 7, 'APPROVE');
+
+    expect(callsTo('GET', '/_apis/connectionData?api-version=7.1-preview')).toHaveLength(1);
+    const votes = callsTo('PUT', '/pullRequests/7/reviewers/user-guid');
+    expect(votes.map(([, init]) => bodyOf(init))).toEqual([{ vote: -5 }, { vote: 10 }]);
+  });
+
+  it('should not vote on a plain comment decision', async () => {
+    const service = new AzureDevOpsCommentService(config);
+
+    await service.postReviewDecision(result, 7, 'COMMENT');
+
+    expect(callsTo('PUT', '/reviewers/')).toHaveLength(0);
+  });
+
+  it('should throw PRCommentError when a plain comment fails', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}, 401));
+    const service = new AzureDevOpsCommentService(config);
+
+    await expect(service.postComment('hello', 7)).rejects.toThrow(PRCommentError);
+  });
+});
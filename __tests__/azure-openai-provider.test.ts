@@ -0,0 +1,224 @@
+import { createServer, IncomingHttpHeaders, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { AIProviderFactory, AzureOpenAIProvider } from '../src/ai-provider';
+import { getHTTPStatus } from '../src/ai-provider/fallback-provider';
+import { AIProviderError, CodeChunk, Config, ReviewComment } from '../src/types';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: {
+    model?: string;
+    stream?: boolean;
+    messages?: Array<{ role: string; content: string }>;
+    response_format?: { type: string };
+  };
+}
+
+type Handler = (request: RecordedRequest, response: ServerResponse) => void;
+
+/**
+ * Local stand-in for an Azure OpenAI resource: records requests and answers them
+ * with the queued handlers in order
+ */
+describe('AzureOpenAIProvider', () => {
+  let server: Server;
+  let endpoint: string;
+  let requests: RecordedRequest[];
+  let handlers: Handler[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk: Buffer) => (data += chunk.toString()));
+      req.on('end', () => {
+        const request: RecordedRequest = {
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: data ? (JSON.parse(data) as RecordedRequest['body']) : {},
+        };
+        requests.push(request);
+        const handler = handlers.shift();
+        if (handler) {
+          handler(request, res);
+        } else {
+          res.writeHead(500).end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handlers = [];
+  });
+
+  const chunks: CodeChunk[] = [
+    {
+      id: 'chunk1',
+      name: 'loadUser',
+      type: 'function',
+      file: 'src/users.ts',
+      startLine: 3,
+      endLine: 9,
+      content: 'export async function loadUser(id) { return cache[id].profile; }',
+    },
+  ];
+
+  const review = JSON.stringify({
+    bugs: [
+      {
+        severity: 'High',
+        file: 'src/users.ts',
+        line: 4,
+        description: 'cache[id] may be undefined',
+      },
+    ],
+    security: [],
+    performance: [],
+    code_quality: [],
+    architecture: [],
+    summary: { recommendation: 'REQUEST_CHANGES', top_issues: ['Missing cache guard'] },
+  });
+
+  const reply =
+    (content: string): Handler =>
+    (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(
+        JSON.stringify({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          model: 'gpt-4o-2024-08-06',
+          choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+          usage: { prompt_tokens: 1200, completion_tokens: 95, total_tokens: 1295 },
+        })
+      );
+    };
+
+  const createProvider = (): AzureOpenAIProvider =>
+    new AzureOpenAIProvider({
+      endpoint: `${endpoint}/`,
+      apiKey: 'azure-key',
+      deployment: 'gpt-4o-review',
+      apiVersion: '2024-10-21',
+    });
+
+  it('should call the deployment with the api-version and api-key', async () => {
+    handlers.push(reply(review));
+
+    const result = await createProvider().reviewCode(chunks, []);
+
+    const [request] = requests as [RecordedRequest];
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe(
+      '/openai/deployments/gpt-4o-review/chat/completions?api-version=2024-10-21'
+    );
+    expect(request.headers['api-key']).toBe('azure-key');
+    expect(request.body.model).toBe('gpt-4o-review');
+    expect(request.body.response_format?.type).toBe('json_schema');
+    expect(request.body.messages?.[1]?.content).toContain('src/users.ts');
+    expect(result.comments).toEqual([
+      expect.objectContaining({ file: 'src/users.ts', line: 4, severity: 'error' }),
+    ]);
+    expect(result.metadata).toEqual({
+      aiProvider: 'azure-openai',
+      model: 'gpt-4o-review',
+      usage: { promptTokens: 1200, completionTokens: 95 },
+    });
+  });
+
+  it('should stream findings from server-sent events', async () => {
+    handlers.push((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const content of [review.slice(0, 100), review.slice(100)]) {
+        response.write(
+          `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`
+        );
+      }
+      response.write(
+        `data: ${JSON.stringify({
+          choices: [],
+          usage: { prompt_tokens: 1200, completion_tokens: 60 },
+        })}\n\n`
+      );
+      response.end('data: [DONE]\n\n');
+    });
+    const streamed: ReviewComment[] = [];
+
+    const result = await createProvider().reviewCode(chunks, [], {
+      onComment: (comment) => streamed.push(comment),
+    });
+
+    expect(requests[0]?.body.stream).toBe(true);
+    expect(streamed).toEqual(result.comments);
+    expect(streamed).toHaveLength(1);
+    expect(result.metadata?.usage).toEqual({ promptTokens: 1200, completionTokens: 60 });
+  });
+
+  it('should name Azure in errors and keep the status', async () => {
+    handlers.push((_request, response) => {
+      response.writeHead(401, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: { code: '401', message: 'Access denied' } }));
+    });
+
+    const error = (await createProvider()
+      .reviewCode(chunks, [])
+      .catch((caught: unknown) => caught)) as AIProviderError;
+
+    expect(error).toBeInstanceOf(AIProviderError);
+    expect(error.message).toContain('Azure OpenAI API call failed');
+    expect(getHTTPStatus(error)).toBe(401);
+  });
+
+  describe('AIProviderFactory', () => {
+    const config: Config = {
+      aiProvider: 'azure-openai',
+      azureOpenai: {
+        endpoint: 'https://contoso.openai.azure.com',
+        apiKey: 'azure-key',
+        deployment: 'gpt-4o-review',
+        apiVersion: '2024-10-21',
+      },
+      repository: { owner: 'o', repo: 'r', baseBranch: 'main' },
+      pr: { number: 1 },
+      globalRules: [],
+    };
+
+    it('should create the Azure OpenAI provider', () => {
+      expect(AIProviderFactory.create(config)).toBeInstanceOf(AzureOpenAIProvider);
+    });
+
+    it('should route to another deployment by model', async () => {
+      const router = AIProviderFactory.createRouter({
+        ...config,
+        azureOpenai: { ...config.azureOpenai!, endpoint },
+        routing: {
+          routes: { small: { provider: 'azure-openai', model: 'gpt-4o-mini' } },
+          rules: [{ route: 'small' }],
+        },
+      });
+      handlers.push(reply(review));
+
+      await router.forReview({ complexityScore: 1, criticalFiles: [] }).reviewCode(chunks, []);
+
+      expect(requests[0]?.url).toBe(
+        '/openai/deployments/gpt-4o-mini/chat/completions?api-version=2024-10-21'
+      );
+    });
+
+    it('should require the Azure settings', () => {
+      expect(() => AIProviderFactory.create({ ...config, azureOpenai: undefined })).toThrow(
+        'Azure OpenAI provider requires an endpoint, API key and deployment'
+      );
+    });
+  });
+});
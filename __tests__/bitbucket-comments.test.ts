@@ -0,0 +1,185 @@
+import { BitbucketCloudCommentService } from '../src/pr-comments/bitbucket-cloud';
+import { BitbucketServerCommentService } from '../src/pr-comments/bitbucket-server';
+import { Config, PRCommentError, ReviewComment, ReviewResult } from '../src/types';
+
+describe('Bitbucket comment services', () => {
+  const createConfig = (overrides: Partial<Config> = {}): Config => ({
+    aiProvider: 'openai',
+    openai: { apiKey: 'test-key', model: 'gpt-4' },
+    globalRules: [],
+    repository: { owner: 'test-ws', repo: 'test-repo', baseBranch: 'main' },
+    pr: { number: 5 },
+    ...overrides,
+  });
+
+  const createResult = (comments: ReviewComment[] = []): ReviewResult => ({
+    comments,
+    summary: 'Looks fine',
+    stats: { errors: 0, warnings: 0, suggestions: 0 },
+  });
+
+  const jsonResponse = (data: unknown, status = 200): Response =>
+    ({
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? 'OK' : 'Error',
+      json: jest.fn().mockResolvedValue(data),
+      text: jest.fn().mockResolvedValue(typeof data === 'string' ? data : JSON.stringify(data)),
+    }) as unknown as Response;
+
+  let mockFetch: jest.Mock;
+
+  const callsTo = (method: string, suffix: string): Array<[string, RequestInit]> =>
+    (mockFetch.mock.calls as Array<[string, RequestInit]>).filter(
+      ([url, init]) => url.endsWith(suffix) && (init.method ?? 'GET') === method
+    );
+
+  const bodyOf = (init: RequestInit): Record<string, unknown> =>
+    JSON.parse(init.body as string) as Record<string, unknown>;
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockResolvedValue(jsonResponse({}));
+    global.fetch = mockFetch;
+  });
+
+  describe('BitbucketCloudCommentService', () => {
+    const diff = [
+      'diff --git a/src/app.ts b/src/app.ts',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -10,2 +10,3 @@',
+      ' const a = 1;',
+      '+const b = 2;',
+      ' const c = 3;',
+    ].join('\n');
+
+    it('should require a token or an app password', () => {
+      expect(() => new BitbucketCloudCommentService(createConfig())).toThrow(PRCommentError);
+      expect(
+        () =>
+          new BitbucketCloudCommentService(
+            createConfig({ bitbucket: { username: 'bot', appPassword: 'secret' } })
+          )
+      ).not.toThrow();
+    });
+
+    it('should anchor comments on diff lines and summarize the rest', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(jsonResponse(url.endsWith('/diff') ? diff : {}))
+      );
+      const service = new BitbucketCloudCommentService(
+        createConfig({ bitbucket: { token: 'bb-token' } })
+      );
+
+      await service.postComments(
+        [
+          { file: 'src/app.ts', line: 11, body: 'Inline issue', severity: 'error' },
+          { file: 'src/app.ts', line: 40, body: 'Far away', severity: 'warning' },
+        ],
+        5
+      );
+
+      const posts = callsTo('POST', '/repositories/test-ws/test-repo/pullrequests/5/comments');
+      expect(posts).toHaveLength(2);
+      expect(bodyOf(posts[0][1])).toEqual({
+        content: { raw: expect.stringContaining('Inline issue') as string },
+        inline: { path: 'src/app.ts', to: 11 },
+      });
+      expect(bodyOf(posts[1][1]).inline).toBeUndefined();
+      expect(JSON.stringify(bodyOf(posts[1][1]))).toContain('Far away');
+      expect((posts[0][1].headers as Record<string, string>).Authorization).toBe('Bearer bb-token');
+    });
+
+    it('should approve or request changes', async () => {
+      const service = new BitbucketCloudCommentService(
+        createConfig({ bitbucket: { token: 'bb-token' } })
+      );
+
+      await service.postReviewDecision(createResult(), 5, 'APPROVE');
+      expect(callsTo('POST', '/pullrequests/5/approve')).toHaveLength(1);
+
+      await service.postReviewDecision(createResult(), 5, 'REQUEST_CHANGES');
+      expect(callsTo('POST', '/pullrequests/5/request-changes')).toHaveLength(1);
+      expect(callsTo('DELETE', '/pullrequests/5/approve')).toHaveLength(1);
+    });
+
+    it('should throw PRCommentError when a plain comment fails', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({}, 403));
+      const service = new BitbucketCloudCommentService(
+        createConfig({ bitbucket: { token: 'bb-token' } })
+      );
+
+      await expect(service.postComment('hello', 5)).rejects.toThrow(PRCommentError);
+    });
+  });
+
+  describe('BitbucketServerCommentService', () => {
+    const serverConfig = createConfig({
+      bitbucketServer: {
+        baseUrl: 'https://bitbucket.example.com/',
+        token: 'bbs-token',
+        projectKey: 'PROJ',
+      },
+    });
+
+    const diffResponse = {
+      diffs: [
+        {
+          destination: { toString: 'src/app.ts' },
+          hunks: [
+            {
+              segments: [
+                { type: 'CONTEXT', lines: [{ destination: 10 }] },
+                { type: 'REMOVED', lines: [{ destination: 11 }] },
+                { type: 'ADDED', lines: [{ destination: 11 }] },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    it('should anchor comments with the matching line type', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(jsonResponse(url.endsWith('/diff') ? diffResponse : {}))
+      );
+      const service = new BitbucketServerCommentService(serverConfig);
+
+      await service.postComments(
+        [
+          { file: 'src/app.ts', line: 10, body: 'Context issue', severity: 'info' },
+          { file: 'src/app.ts', line: 11, body: 'Added issue', severity: 'error' },
+        ],
+        5
+      );
+
+      const posts = callsTo(
+        'POST',
+        '/rest/api/1.0/projects/PROJ/repos/test-repo/pull-requests/5/comments'
+      );
+      expect(posts.map(([, init]) => bodyOf(init).anchor)).toEqual([
+        {
+          path: 'src/app.ts',
+          line: 10,
+          lineType: 'CONTEXT',
+          fileType: 'TO',
+          diffType: 'EFFECTIVE',
+        },
+        { path: 'src/app.ts', line: 11, lineType: 'ADDED', fileType: 'TO', diffType: 'EFFECTIVE' },
+      ]);
+    });
+
+    it('should set participant status for the token user', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(jsonResponse(url.endsWith('/whoami') ? 'sherlock-bot\n' : {}))
+      );
+      const service = new BitbucketServerCommentService(serverConfig);
+
+      await service.postReviewDecision(createResult(), 5, 'REQUEST_CHANGES');
+
+      const updates = callsTo('PUT', '/pull-requests/5/participants/sherlock-bot');
+      expect(updates).toHaveLength(1);
+      expect(bodyOf(updates[0][1])).toEqual({ status: 'NEEDS_WORK' });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CassetteMissError, ConfigurationError } from '../src/types';
+import { Cassette } from '../src/utils/cassette';
+
+describe('Cassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sherlock-cassette-'));
+    path = join(dir, 'nested', 'review.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('keyOf', () => {
+    it('should ignore line endings, trailing whitespace and blank-line runs', () => {
+      const key = Cassette.keyOf({ system: 'Review.', prompt: 'line one\n\nline two' });
+
+      expect(
+        Cassette.keyOf({ system: 'Review.', prompt: 'line one  \r\n\r\n\r\nline two\n' })
+      ).toBe(key);
+      expect(key).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should distinguish system prompts and prompt text', () => {
+      const key = Cassette.keyOf({ system: 'Review.', prompt: 'code' });
+
+      expect(Cassette.keyOf({ system: 'Scout.', prompt: 'code' })).not.toBe(key);
+      expect(Cassette.keyOf({ system: 'Review.', prompt: 'other code' })).not.toBe(key);
+    });
+  });
+
+  it('should replay what was recorded', () => {
+    const recorder = new Cassette({ path, mode: 'record' });
+    recorder.record(
+      { system: 'Review.', prompt: 'code' },
+      { text: '{"bugs":[]}', usage: { promptTokens: 10, completionTokens: 2 } },
+      'openai',
+      'gpt-4'
+    );
+
+    const file = JSON.parse(readFileSync(path, 'utf-8')) as { interactions: unknown[] };
+    expect(file.interactions).toHaveLength(1);
+
+    const player = new Cassette({ path, mode: 'replay' });
+    expect(player.replay({ system: 'Review.', prompt: 'code\n' }, 'openai', 'gpt-4')).toEqual({
+      text: '{"bugs":[]}',
+      usage: { promptTokens: 10, completionTokens: 2 },
+    });
+  });
+
+  it('should replay repeated prompts in recording order, then repeat the last', () => {
+    const recorder = new Cassette({ path, mode: 'record' });
+    recorder.record({ prompt: 'fix it' }, { text: 'first' }, 'claude', 'claude-3');
+    recorder.record({ prompt: 'fix it' }, { text: 'second' }, 'claude', 'claude-3');
+
+    const player = new Cassette({ path, mode: 'replay' });
+    const texts = [1, 2, 3].map(
+      () => player.replay({ prompt: 'fix it' }, 'claude', 'claude-3').text
+    );
+
+    expect(texts).toEqual(['first', 'second', 'second']);
+  });
+
+  it('should replay the answer of the provider and model asking', () => {
+    // Consensus providers get the same prompt; the slower one is recorded last
+    const recorder = new Cassette({ path, mode: 'record' });
+    recorder.record({ prompt: 'review' }, { text: 'from gpt' }, 'openai', 'gpt-4');
+    recorder.record({ prompt: 'review' }, { text: 'from claude' }, 'claude', 'claude-3');
+
+    const player = new Cassette({ path, mode: 'replay' });
+
+    expect(player.replay({ prompt: 'review' }, 'claude', 'claude-3').text).toBe('from claude');
+    expect(player.replay({ prompt: 'review' }, 'openai', 'gpt-4').text).toBe('from gpt');
+    expect(() => player.replay({ prompt: 'review' }, 'openai', 'gpt-4o')).toThrow(
+      CassetteMissError
+    );
+  });
+
+  it('should name the prompt hash and cassette when a prompt has no recording', () => {
+    new Cassette({ path, mode: 'record' }).record(
+      { prompt: 'recorded' },
+      { text: 'ok' },
+      'ollama',
+      'codellama'
+    );
+    const player = new Cassette({ path, mode: 'replay' });
+    const key = Cassette.keyOf({ prompt: 'never sent' });
+
+    expect(() => player.replay({ prompt: 'never sent' }, 'ollama', 'codellama')).toThrow(
+      CassetteMissError
+    );
+    expect(() => player.replay({ prompt: 'never sent' }, 'ollama', 'codellama')).toThrow(
+      new RegExp(
+        `No recording for prompt ${key} of ollama \\(codellama\\) in cassette .*review\\.json \\("never sent`
+      )
+    );
+  });
+
+  it('should reject a missing or malformed cassette in replay mode', () => {
+    expect(() => new Cassette({ path, mode: 'replay' })).toThrow(ConfigurationError);
+
+    const bad = join(dir, 'bad.json');
+    writeFileSync(bad, '{"version":2}');
+    expect(() => new Cassette({ path: bad, mode: 'replay' })).toThrow(/Invalid cassette/);
+  });
+});
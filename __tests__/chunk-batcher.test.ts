@@ -131,6 +131,39 @@ describe('ChunkBatcher', () => {
     });
   });
 
+  describe('limitToTokenBudget', () => {
+    it('should drop the batches that no longer fit the budget', () => {
+      // 400 characters ≈ 100 estimated tokens per chunk
+      const batches = [
+        [createMockChunk('1', 'a.ts', 'a'.repeat(400))],
+        [createMockChunk('2', 'b.ts', 'b'.repeat(400))],
+        [createMockChunk('3', 'c.ts', 'c'.repeat(400)), createMockChunk('4', 'c.ts', 'd')],
+      ];
+
+      const { batches: kept, unreviewed } = batcher.limitToTokenBudget(batches, 250, 0);
+
+      expect(kept).toEqual(batches.slice(0, 2));
+      expect(unreviewed.map((chunk) => chunk.id)).toEqual(['3', '4']);
+    });
+
+    it('should reserve completion tokens for each batch', () => {
+      const batches = [
+        [createMockChunk('1', 'a.ts', 'a'.repeat(400))],
+        [createMockChunk('2', 'b.ts', 'b'.repeat(400))],
+      ];
+
+      // 100 prompt + 1024 completion tokens per batch
+      expect(batcher.limitToTokenBudget(batches, 2_000).batches).toEqual(batches.slice(0, 1));
+      expect(batcher.limitToTokenBudget(batches, 2_248).batches).toEqual(batches);
+    });
+
+    it('should always keep the first batch', () => {
+      const batches = [[createMockChunk('1', 'a.ts', 'a'.repeat(400))]];
+
+      expect(batcher.limitToTokenBudget(batches, 10)).toEqual({ batches, unreviewed: [] });
+    });
+  });
+
   describe('getBatchStats', () => {
     it('should return correct statistics', () => {
       const chunks: CodeChunk[] = [
@@ -68,7 +68,10 @@ describe('ChunkService', () => {
         .mockResolvedValueOnce(mockChunks1 as never)
         .mockResolvedValueOnce(mockChunks2 as never);
 
-      (fs.readFileSync as jest.Mock).mockReturnValue(createFileContent(30));
+      // The branch's version matches the checkout, so chunkyyy parses it
+      const fileContent = createFileContent(30);
+      mockGitService.getFileContent.mockResolvedValue(fileContent);
+      (fs.readFileSync as jest.Mock).mockReturnValue(fileContent);
       (fs.existsSync as jest.Mock).mockReturnValue(true);
       mockGitService.getCurrentBranch.mockResolvedValue('feature-branch');
 
@@ -77,6 +80,7 @@ describe('ChunkService', () => {
       expect(chunks).toHaveLength(2);
       expect(chunks[0].file).toBe('src/file1.ts');
       expect(chunks[1].file).toBe('src/file2.ts');
+      expect(mockGitService.getFileContent).toHaveBeenCalledWith('src/file1.ts', 'feature-branch');
     });
 
     it('should skip deleted files', async () => {
@@ -97,7 +101,9 @@ describe('ChunkService', () => {
 
       mockChunkyyy.chunkFile.mockResolvedValueOnce(mockChunks as never);
 
-      (fs.readFileSync as jest.Mock).mockReturnValue(createFileContent(10));
+      const fileContent = createFileContent(10);
+      mockGitService.getFileContent.mockResolvedValue(fileContent);
+      (fs.readFileSync as jest.Mock).mockReturnValue(fileContent);
       (fs.existsSync as jest.Mock).mockReturnValue(true);
       mockGitService.getCurrentBranch.mockResolvedValue('feature-branch');
 
@@ -117,7 +123,9 @@ describe('ChunkService', () => {
         .mockResolvedValueOnce([{ id: 'chunk1', startLine: 1, endLine: 10 }] as never)
         .mockRejectedValueOnce(new Error('Failed to parse'));
 
-      (fs.readFileSync as jest.Mock).mockReturnValue(createFileContent(10));
+      const fileContent = createFileContent(10);
+      mockGitService.getFileContent.mockResolvedValue(fileContent);
+      (fs.readFileSync as jest.Mock).mockReturnValue(fileContent);
       (fs.existsSync as jest.Mock).mockReturnValue(true);
       mockGitService.getCurrentBranch.mockResolvedValue('feature-branch');
 
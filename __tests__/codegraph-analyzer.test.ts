@@ -252,6 +252,40 @@ export function app() { return helper(); }`
     });
   });
 
+  describe('findExporters and findCallers', () => {
+    beforeEach(async () => {
+      const file1 = path.join(testDir, 'lib.ts');
+      const file2 = path.join(testDir, 'app.ts');
+
+      fs.writeFileSync(
+        file1,
+        `export function helper() { return 'help'; }
+export function wrapper() {
+  return helper();
+}`
+      );
+      fs.writeFileSync(
+        file2,
+        `import { helper } from './lib';
+export function app() { return helper(); }`
+      );
+
+      await analyzer.buildGraph([file1, file2]);
+    });
+
+    it('should list files exporting a symbol relative to the root', () => {
+      expect(analyzer.findExporters('helper')).toEqual(['lib.ts']);
+      expect(analyzer.findExporters('missing')).toEqual([]);
+    });
+
+    it('should list calls found in the graph', () => {
+      expect(analyzer.findCallers('helper')).toContainEqual(
+        expect.objectContaining({ file: 'lib.ts', line: 3 })
+      );
+      expect(analyzer.findCallers('missing')).toEqual([]);
+    });
+  });
+
   describe('generateVisualization', () => {
     beforeEach(async () => {
       const file1 = path.join(testDir, 'a.ts');
@@ -20,9 +20,23 @@ describe('ConfigLoader', () => {
     delete process.env.GITHUB_TOKEN;
     delete process.env.GITLAB_TOKEN;
     delete process.env.AI_PROVIDER;
+    delete process.env.AI_PROVIDERS;
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    delete process.env.OPENAI_COMPATIBLE_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_MODEL;
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GEMINI_MODEL;
+    delete process.env.GEMINI_BASE_URL;
+    delete process.env.AZURE_OPENAI_ENDPOINT;
+    delete process.env.AZURE_OPENAI_API_KEY;
+    delete process.env.AZURE_OPENAI_DEPLOYMENT;
+    delete process.env.AZURE_OPENAI_API_VERSION;
     delete process.env.OPENAI_MODEL;
     delete process.env.CLAUDE_MODEL;
     delete process.env.GITLAB_PROJECT_ID;
+    delete process.env.GITHUB_APP_ID;
+    delete process.env.GITHUB_APP_PRIVATE_KEY;
+    delete process.env.GITHUB_APP_INSTALLATION_ID;
   });
 
   afterEach(() => {
@@ -88,6 +102,31 @@ describe('ConfigLoader', () => {
       expect(config.github?.token).toBe('env-token');
     });
 
+    it('should load GitHub App credentials from environment variables', () => {
+      process.env.OPENAI_API_KEY = 'env-key';
+      process.env.GITHUB_APP_ID = '12345';
+      process.env.GITHUB_APP_PRIVATE_KEY = '-----BEGIN KEY-----\\nabc\\n-----END KEY-----';
+      process.env.GITHUB_APP_INSTALLATION_ID = '678';
+
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          aiProvider: 'openai',
+          repository: { owner: 'test-org', repo: 'test-repo' },
+          pr: { number: 1 },
+        })
+      );
+
+      const config = ConfigLoader.load();
+
+      expect(config.github?.token).toBeUndefined();
+      expect(config.github?.app).toEqual({
+        appId: '12345',
+        privateKey: '-----BEGIN KEY-----\nabc\n-----END KEY-----',
+        installationId: 678,
+      });
+    });
+
     it('should throw error when config file is invalid JSON', () => {
       mockExistsSync.mockReturnValue(true);
       mockReadFileSync.mockReturnValue('{ invalid json }');
@@ -158,6 +197,97 @@ describe('ConfigLoader', () => {
       expect(config.claude?.model).toBe('claude-3-opus');
     });
 
+    it('should load the provider fallback chain from environment', () => {
+      process.env.AI_PROVIDERS = 'claude, openai,ollama';
+      process.env.CLAUDE_API_KEY = 'claude-env-key';
+      process.env.OPENAI_API_KEY = 'openai-env-key';
+
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          repository: { owner: 'test-org', repo: 'test-repo' },
+          pr: { number: 123 },
+          aiFallback: { retries: 1, cooldown: 5000 },
+        })
+      );
+
+      const config = ConfigLoader.load();
+
+      expect(config.aiProviders).toEqual(['claude', 'openai', 'ollama']);
+      expect(config.aiProvider).toBe('claude');
+      expect(config.aiFallback).toEqual({ retries: 1, cooldown: 5000 });
+    });
+
+    it('should load an OpenAI-compatible endpoint from environment', () => {
+      process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://vllm.internal:8000/v1';
+      process.env.OPENAI_COMPATIBLE_MODEL = 'qwen2.5-coder';
+
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          aiProvider: 'openai-compatible',
+          openaiCompatible: { headers: { 'X-Team': 'platform' }, mode: 'responses' },
+          repository: { owner: 'test-org', repo: 'test-repo' },
+          pr: { number: 123 },
+        })
+      );
+
+      const config = ConfigLoader.load();
+
+      expect(config.openaiCompatible).toEqual({
+        baseUrl: 'http://vllm.internal:8000/v1',
+        model: 'qwen2.5-coder',
+        headers: { 'X-Team': 'platform' },
+        mode: 'responses',
+      });
+    });
+
+    it('should load Gemini config from environment with defaults', () => {
+      process.env.GEMINI_API_KEY = 'gemini-key';
+
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          aiProvider: 'gemini',
+          repository: { owner: 'test-org', repo: 'test-repo' },
+          pr: { number: 123 },
+        })
+      );
+
+      const config = ConfigLoader.load();
+
+      expect(config.gemini).toEqual({
+        apiKey: 'gemini-key',
+        model: 'gemini-2.5-pro',
+        baseUrl: 'https://generativelanguage.googleapis.com',
+      });
+    });
+
+    it('should load an Azure OpenAI deployment from environment', () => {
+      process.env.AZURE_OPENAI_ENDPOINT = 'https://contoso.openai.azure.com';
+      process.env.AZURE_OPENAI_API_KEY = 'azure-key';
+      process.env.AZURE_OPENAI_DEPLOYMENT = 'gpt-4o-review';
+
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          aiProvider: 'azure-openai',
+          azureOpenai: { apiVersion: '2024-06-01', deployment: 'from-file' },
+          repository: { owner: 'test-org', repo: 'test-repo' },
+          pr: { number: 123 },
+        })
+      );
+
+      const config = ConfigLoader.load();
+
+      expect(config.azureOpenai).toEqual({
+        endpoint: 'https://contoso.openai.azure.com',
+        apiKey: 'azure-key',
+        deployment: 'gpt-4o-review',
+        apiVersion: '2024-06-01',
+      });
+    });
+
     it('should load GitLab config from environment', () => {
       process.env.GITLAB_TOKEN = 'gitlab-env-token';
       process.env.GITLAB_PROJECT_ID = 'project-123';
@@ -259,6 +389,47 @@ describe('ConfigLoader', () => {
       expect(() => ConfigLoader.validate(config)).toThrow('Claude API key is required');
     });
 
+    it('should require API keys for fallback providers', () => {
+      const config = {
+        aiProvider: 'ollama' as const,
+        aiProviders: ['ollama' as const, 'claude' as const],
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+        github: { token: 'test-token' },
+        globalRules: [],
+      };
+
+      expect(() => ConfigLoader.validate(config)).toThrow('Claude API key is required');
+    });
+
+    it('should require API keys for consensus providers', () => {
+      const config = {
+        aiProvider: 'ollama' as const,
+        consensus: { providers: ['ollama' as const, 'openai' as const] },
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+        github: { token: 'test-token' },
+        globalRules: [],
+      };
+
+      expect(() => ConfigLoader.validate(config)).toThrow('OpenAI API key is required');
+    });
+
+    it('should require Gemini and Azure OpenAI settings for those providers', () => {
+      const config = {
+        aiProvider: 'gemini' as const,
+        repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+        pr: { number: 123 },
+        github: { token: 'test-token' },
+        globalRules: [],
+      };
+
+      expect(() => ConfigLoader.validate(config)).toThrow('Gemini API key is required');
+      expect(() => ConfigLoader.validate({ ...config, aiProvider: 'azure-openai' })).toThrow(
+        'deployment are required when using the Azure OpenAI provider'
+      );
+    });
+
     it('should throw error if neither GitHub nor GitLab token is provided', () => {
       const config = {
         aiProvider: 'openai' as const,
@@ -279,7 +450,7 @@ describe('ConfigLoader', () => {
 
       expect(() => ConfigLoader.validate(config)).toThrow(ConfigurationError);
       expect(() => ConfigLoader.validate(config)).toThrow(
-        'Either GitHub or GitLab token is required'
+        'A GitHub, GitLab, Bitbucket, Azure DevOps or Gitea token is required'
       );
     });
 
@@ -0,0 +1,263 @@
+import type { AIProviderInterface } from '../src/ai-provider';
+import { ConsensusAIProvider, findConsensus } from '../src/ai-provider/consensus-provider';
+import {
+  AIProviderError,
+  CassetteMissError,
+  CodeChunk,
+  ReviewComment,
+  ReviewResult,
+} from '../src/types';
+
+describe('ConsensusAIProvider', () => {
+  const chunks: CodeChunk[] = [
+    {
+      id: 'chunk1',
+      name: 'handler',
+      type: 'function',
+      file: 'src/app.ts',
+      startLine: 1,
+      endLine: 40,
+      content: 'function handler() {}',
+    },
+  ];
+
+  const comment = (line: number, body: string, extra: Partial<ReviewComment> = {}) => ({
+    file: 'src/app.ts',
+    line,
+    body,
+    severity: 'warning' as const,
+    category: 'bugs',
+    ...extra,
+  });
+
+  const result = (
+    model: string,
+    comments: ReviewComment[],
+    usage = { promptTokens: 100, completionTokens: 10 }
+  ): ReviewResult => ({
+    comments,
+    summary: `Reviewed by ${model}`,
+    stats: { errors: 0, warnings: comments.length, suggestions: 0 },
+    metadata: { aiProvider: model.split('-')[0], model, usage },
+  });
+
+  const createProvider = (): jest.Mocked<AIProviderInterface> => ({
+    reviewCode: jest.fn(),
+    deepDiveReview: jest.fn(),
+    scoutReview: jest.fn(),
+  });
+
+  let claude: jest.Mocked<AIProviderInterface>;
+  let openai: jest.Mocked<AIProviderInterface>;
+  let ollama: jest.Mocked<AIProviderInterface>;
+  let panel: ConsensusAIProvider;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    claude = createProvider();
+    openai = createProvider();
+    ollama = createProvider();
+    panel = new ConsensusAIProvider(
+      [
+        { name: 'claude', provider: claude },
+        { name: 'openai', provider: openai },
+        { name: 'ollama', provider: ollama },
+      ],
+      {},
+      { 'gpt-4': { prompt: 10, completion: 30 } }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep findings a majority agrees on and count the agreement', async () => {
+    claude.reviewCode.mockResolvedValue(
+      result('claude-3', [
+        comment(10, 'Possible null dereference of user'),
+        comment(30, 'Loop never terminates'),
+      ])
+    );
+    openai.reviewCode.mockResolvedValue(
+      result('gpt-4', [comment(12, 'Possible null dereference of the user object')])
+    );
+    ollama.reviewCode.mockResolvedValue(result('codellama', []));
+
+    const review = await panel.reviewCode(chunks, []);
+
+    expect(review.comments).toHaveLength(1);
+    expect(review.comments[0]).toMatchObject({ line: 10, agreement: 2 });
+    expect(review.stats).toEqual({ errors: 0, warnings: 1, suggestions: 0 });
+    expect(review.recommendation).toBe('APPROVE_WITH_NITS');
+    expect(review.summary).toBe('Reviewed by claude-3');
+    expect(review.metadata).toMatchObject({
+      aiProvider: 'claude + gpt + codellama',
+      model: 'claude-3 + gpt-4 + codellama',
+      usage: { promptTokens: 300, completionTokens: 30, cost: 0.0013 },
+    });
+  });
+
+  it('should keep a Critical finding even without agreement', async () => {
+    claude.deepDiveReview.mockResolvedValue(
+      result('claude-3', [
+        comment(5, 'SQL injection in query', { severity: 'error', critical: true }),
+      ])
+    );
+    openai.deepDiveReview.mockResolvedValue(result('gpt-4', []));
+    ollama.deepDiveReview.mockResolvedValue(result('codellama', []));
+
+    const review = await panel.deepDiveReview(chunks, []);
+
+    expect(review.comments).toEqual([
+      comment(5, 'SQL injection in query', { severity: 'error', critical: true, agreement: 1 }),
+    ]);
+    expect(review.recommendation).toBe('BLOCK');
+  });
+
+  it('should not stream findings before every provider has voted', async () => {
+    const onComment = jest.fn();
+    [claude, openai, ollama].forEach((provider) =>
+      provider.reviewCode.mockResolvedValue(result('gpt-4', []))
+    );
+
+    await panel.reviewCode(chunks, [], { onComment, pass: 'naming' });
+
+    expect(claude.reviewCode).toHaveBeenCalledWith(chunks, [], {
+      onComment: undefined,
+      pass: 'naming',
+    });
+    expect(onComment).not.toHaveBeenCalled();
+  });
+
+  it('should keep the quorum when a provider fails', async () => {
+    claude.reviewCode.mockResolvedValue(
+      result('claude-3', [comment(10, 'Unchecked error'), comment(30, 'Loop never terminates')])
+    );
+    openai.reviewCode.mockResolvedValue(result('gpt-4', [comment(10, 'Unchecked error')]));
+    ollama.reviewCode.mockRejectedValue(new AIProviderError('connection refused'));
+
+    const review = await panel.reviewCode(chunks, []);
+
+    expect(review.comments).toEqual([comment(10, 'Unchecked error', { agreement: 2 })]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('2 of 3 providers'));
+  });
+
+  it('should fail when fewer providers answer than the quorum', async () => {
+    claude.reviewCode.mockResolvedValue(result('claude-3', [comment(10, 'Unchecked error')]));
+    openai.reviewCode.mockRejectedValue(new AIProviderError('rate limited'));
+    ollama.reviewCode.mockRejectedValue(new AIProviderError('connection refused'));
+
+    await expect(panel.reviewCode(chunks, [])).rejects.toThrow(
+      'Only 1 of 3 consensus providers answered, below the quorum of 2'
+    );
+  });
+
+  it('should fail when no provider answers', async () => {
+    [claude, openai, ollama].forEach((provider) =>
+      provider.reviewCode.mockRejectedValue(new AIProviderError('down'))
+    );
+
+    await expect(panel.reviewCode(chunks, [])).rejects.toThrow('All consensus providers failed');
+  });
+
+  it('should count a provider without a cassette recording as not answering', async () => {
+    claude.reviewCode.mockResolvedValue(result('claude-3', []));
+    openai.reviewCode.mockRejectedValue(new CassetteMissError('No recording for prompt 0123abcd'));
+    ollama.reviewCode.mockResolvedValue(result('codellama', []));
+
+    await expect(panel.reviewCode(chunks, [])).resolves.toMatchObject({
+      metadata: { aiProvider: 'claude + codellama' },
+    });
+  });
+
+  it('should fail on a missing cassette recording when no provider has one', async () => {
+    const miss = new CassetteMissError('No recording for prompt 0123abcd');
+    [claude, openai, ollama].forEach((provider) => provider.reviewCode.mockRejectedValue(miss));
+
+    await expect(panel.reviewCode(chunks, [])).rejects.toBe(miss);
+  });
+
+  it('should scout with the first provider that answers', async () => {
+    claude.scoutReview.mockRejectedValue(new AIProviderError('down'));
+    openai.scoutReview.mockResolvedValue({ complexityScore: 7, criticalFiles: ['src/app.ts'] });
+
+    await expect(panel.scoutReview(chunks)).resolves.toEqual({
+      complexityScore: 7,
+      criticalFiles: ['src/app.ts'],
+    });
+    expect(ollama.scoutReview).not.toHaveBeenCalled();
+  });
+
+  it('should reject panels that cannot reach a quorum', () => {
+    const entries = [
+      { name: 'claude', provider: claude },
+      { name: 'openai', provider: openai },
+    ];
+
+    expect(() => new ConsensusAIProvider(entries.slice(0, 1))).toThrow('at least two');
+    expect(() => new ConsensusAIProvider(entries, { quorum: 3 })).toThrow('exceeds');
+  });
+});
+
+describe('findConsensus', () => {
+  const options = { quorum: 2, lineTolerance: 3, similarityThreshold: 0.6 };
+  const finding = (file: string, line: number, body: string): ReviewComment => ({
+    file,
+    line,
+    body,
+    severity: 'warning',
+  });
+
+  it('should only match findings in the same file within the line tolerance', () => {
+    const comments = findConsensus(
+      [
+        { name: 'a', comments: [finding('a.ts', 10, 'Missing await on save')] },
+        {
+          name: 'b',
+          comments: [
+            finding('b.ts', 10, 'Missing await on save'),
+            finding('a.ts', 20, 'Missing await on save'),
+          ],
+        },
+      ],
+      options
+    );
+
+    expect(comments).toEqual([]);
+  });
+
+  it('should count a provider once per finding', () => {
+    const comments = findConsensus(
+      [
+        {
+          name: 'a',
+          comments: [
+            finding('a.ts', 10, 'Missing await on save'),
+            finding('a.ts', 11, 'Missing await on save call'),
+          ],
+        },
+      ],
+      { ...options, quorum: 1 }
+    );
+
+    expect(comments.map((comment) => comment.agreement)).toEqual([1, 1]);
+  });
+
+  it('should keep the most severe wording of a matched finding', () => {
+    const comments = findConsensus(
+      [
+        { name: 'a', comments: [finding('a.ts', 10, 'Missing await on save')] },
+        {
+          name: 'b',
+          comments: [{ ...finding('a.ts', 9, 'Missing await on save'), severity: 'error' }],
+        },
+      ],
+      options
+    );
+
+    expect(comments).toEqual([
+      { ...finding('a.ts', 9, 'Missing await on save'), severity: 'error', agreement: 2 },
+    ]);
+  });
+});
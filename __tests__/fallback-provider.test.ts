@@ -0,0 +1,233 @@
+import type { AIProviderInterface } from '../src/ai-provider';
+import {
+  CircuitBreaker,
+  FallbackAIProvider,
+  getRetryAfter,
+  isRetryable,
+} from '../src/ai-provider/fallback-provider';
+import { AIProviderError, CassetteMissError, CodeChunk, ReviewResult } from '../src/types';
+
+describe('FallbackAIProvider', () => {
+  const chunks: CodeChunk[] = [
+    {
+      id: 'chunk1',
+      name: 'handler',
+      type: 'function',
+      file: 'src/app.ts',
+      startLine: 1,
+      endLine: 5,
+      content: 'function handler() {}',
+    },
+  ];
+
+  const result = (model: string): ReviewResult => ({
+    comments: [],
+    summary: `Reviewed by ${model}`,
+    stats: { errors: 0, warnings: 0, suggestions: 0 },
+    metadata: { model },
+  });
+
+  const httpError = (status: number, headers: Record<string, string> = {}): AIProviderError => {
+    const cause = Object.assign(new Error(`HTTP ${status}`), { status, headers });
+    return new AIProviderError(`API call failed: HTTP ${status}`, cause);
+  };
+
+  const createProvider = (): jest.Mocked<AIProviderInterface> => ({
+    reviewCode: jest.fn(),
+    deepDiveReview: jest.fn(),
+    scoutReview: jest.fn(),
+  });
+
+  let primary: jest.Mocked<AIProviderInterface>;
+  let secondary: jest.Mocked<AIProviderInterface>;
+  let chain: FallbackAIProvider;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    primary = createProvider();
+    secondary = createProvider();
+    chain = new FallbackAIProvider(
+      [
+        { name: 'claude', provider: primary },
+        { name: 'openai', provider: secondary },
+      ],
+      { retries: 2, baseDelay: 1, maxDelay: 50, failureThreshold: 2, cooldown: 60000 }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should record the provider that produced the result', async () => {
+    primary.reviewCode.mockResolvedValue(result('claude-3-5-sonnet'));
+
+    const review = await chain.reviewCode(chunks, []);
+
+    expect(review.metadata).toEqual({ aiProvider: 'claude', model: 'claude-3-5-sonnet' });
+    expect(secondary.reviewCode).not.toHaveBeenCalled();
+  });
+
+  it('should retry transient failures before succeeding', async () => {
+    primary.reviewCode
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+      .mockResolvedValue(result('claude-3-5-sonnet'));
+
+    const review = await chain.reviewCode(chunks, []);
+
+    expect(primary.reviewCode).toHaveBeenCalledTimes(3);
+    expect(review.metadata?.aiProvider).toBe('claude');
+  });
+
+  it('should fall back to the next provider once retries are exhausted', async () => {
+    primary.deepDiveReview.mockRejectedValue(httpError(500));
+    secondary.deepDiveReview.mockResolvedValue(result('gpt-4'));
+
+    const review = await chain.deepDiveReview(chunks, []);
+
+    expect(primary.deepDiveReview).toHaveBeenCalledTimes(3);
+    expect(review.metadata).toEqual({ aiProvider: 'openai', model: 'gpt-4' });
+  });
+
+  it('should not retry errors that will not go away', async () => {
+    primary.reviewCode.mockRejectedValue(httpError(401));
+    secondary.reviewCode.mockResolvedValue(result('gpt-4'));
+
+    await chain.reviewCode(chunks, []);
+
+    expect(primary.reviewCode).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay the fallback when the primary has no recording, without retrying', async () => {
+    // The primary failed while recording, so only the secondary's answer was saved
+    primary.reviewCode.mockRejectedValue(new CassetteMissError('No recording for prompt 0123abcd'));
+    secondary.reviewCode.mockResolvedValue(result('gpt-4'));
+
+    const review = await chain.reviewCode(chunks, []);
+
+    expect(primary.reviewCode).toHaveBeenCalledTimes(1);
+    expect(review.metadata?.aiProvider).toBe('openai');
+  });
+
+  it('should fail with the miss when no provider has a recording', async () => {
+    const miss = new CassetteMissError('No recording for prompt 0123abcd');
+    primary.reviewCode.mockRejectedValue(miss);
+    secondary.reviewCode.mockRejectedValue(
+      new CassetteMissError('No recording for prompt 0123abcd')
+    );
+
+    await expect(chain.reviewCode(chunks, [])).rejects.toBe(miss);
+    expect(primary.reviewCode).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back instead of waiting out a long Retry-After', async () => {
+    primary.reviewCode.mockRejectedValue(httpError(429, { 'retry-after': '120' }));
+    secondary.reviewCode.mockResolvedValue(result('gpt-4'));
+
+    const review = await chain.reviewCode(chunks, []);
+
+    expect(primary.reviewCode).toHaveBeenCalledTimes(1);
+    expect(review.metadata?.aiProvider).toBe('openai');
+  });
+
+  it('should skip a provider whose circuit is open', async () => {
+    primary.reviewCode.mockRejectedValue(httpError(400));
+    secondary.reviewCode.mockResolvedValue(result('gpt-4'));
+
+    await chain.reviewCode(chunks, []);
+    await chain.reviewCode(chunks, []);
+    await chain.reviewCode(chunks, []);
+
+    expect(primary.reviewCode).toHaveBeenCalledTimes(2);
+    expect(chain.getCircuitStates()).toEqual([
+      { name: 'claude', state: 'open' },
+      { name: 'openai', state: 'closed' },
+    ]);
+  });
+
+  it('should report every failure when the whole chain fails', async () => {
+    primary.reviewCode.mockRejectedValue(httpError(401));
+    secondary.reviewCode.mockRejectedValue(new AIProviderError('quota exceeded'));
+
+    await expect(chain.reviewCode(chunks, [])).rejects.toThrow(
+      /All AI providers failed \(claude: .*HTTP 401; openai: quota exceeded\)/
+    );
+  });
+
+  it('should route scout reviews through the chain', async () => {
+    primary.scoutReview.mockRejectedValue(httpError(401));
+    secondary.scoutReview.mockResolvedValue({ complexityScore: 3, criticalFiles: ['a.ts'] });
+
+    await expect(chain.scoutReview(chunks)).resolves.toEqual({
+      complexityScore: 3,
+      criticalFiles: ['a.ts'],
+    });
+  });
+
+  it('should require at least one provider', () => {
+    expect(() => new FallbackAIProvider([])).toThrow(AIProviderError);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker(2, 1000, () => now);
+  });
+
+  it('should open after consecutive failures and half-open after the cooldown', () => {
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should close after a successful probe and re-open after a failed one', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+
+    breaker.allowRequest();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+
+    now = 2000;
+    breaker.allowRequest();
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+});
+
+describe('Retry helpers', () => {
+  const withHeaders = (headers: Headers | Record<string, string>, status = 429): Error =>
+    new AIProviderError('rate limited', Object.assign(new Error('429'), { status, headers }));
+
+  it('should read Retry-After in seconds, as an HTTP date and in milliseconds', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(getRetryAfter(withHeaders({ 'retry-after': '2' }))).toBe(2000);
+    expect(
+      getRetryAfter(withHeaders({ 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }), now)
+    ).toBe(5000);
+    expect(getRetryAfter(withHeaders(new Headers({ 'retry-after-ms': '250' })))).toBe(250);
+    expect(getRetryAfter(new Error('network down'))).toBeUndefined();
+  });
+
+  it('should treat rate limits, server and network errors as retryable', () => {
+    expect(isRetryable(withHeaders({}, 429))).toBe(true);
+    expect(isRetryable(withHeaders({}, 502))).toBe(true);
+    expect(isRetryable(new Error('ECONNRESET'))).toBe(true);
+    expect(isRetryable(withHeaders({}, 400))).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { FileClassifier, formatSkippedFiles } from '../src/utils/file-classifier';
+
+describe('FileClassifier', () => {
+  it('should recognize lockfiles, vendored code and generated paths', () => {
+    const classifier = new FileClassifier();
+
+    expect(classifier.classify('package-lock.json')).toBe('lockfile');
+    expect(classifier.classify('services/api/go.sum')).toBe('lockfile');
+    expect(classifier.classify('vendor/github.com/pkg/errors/errors.go')).toBe('vendored');
+    expect(classifier.classify('web/node_modules/react/index.js')).toBe('vendored');
+    expect(classifier.classify('api/v1/user.pb.go')).toBe('generated');
+    expect(classifier.classify('proto/user_pb2.py')).toBe('generated');
+    expect(classifier.classify('src/__generated__/QueryRoot.graphql.ts')).toBe('generated');
+    expect(classifier.classify('node_modules/.prisma/client/index.d.ts')).toBe('vendored');
+    expect(classifier.classify('src/generated/prisma/index.d.ts')).toBe('generated');
+    expect(classifier.classify('public/app.min.js')).toBe('generated');
+    expect(classifier.classify('src/app.ts')).toBeUndefined();
+  });
+
+  it('should recognize generated headers and minified code', () => {
+    const classifier = new FileClassifier();
+
+    expect(
+      classifier.classify('api/user.go', '// Code generated by protoc-gen-go. DO NOT EDIT.\n')
+    ).toBe('generated');
+    expect(
+      classifier.classify('src/gql/graphql.ts', '/* eslint-disable */\n// @generated\nexport {}')
+    ).toBe('generated');
+    expect(classifier.classify('dist/bundle.js', `!function(){${'var a=1;'.repeat(200)}}();`)).toBe(
+      'generated'
+    );
+    expect(classifier.classify('src/app.js', 'const a = 1;\nexport default a;\n')).toBeUndefined();
+  });
+
+  it('should follow .gitattributes, with later lines overriding earlier ones', () => {
+    const classifier = new FileClassifier(
+      [
+        '# Linguist overrides',
+        'docs/api/** linguist-generated',
+        'docs/api/index.md linguist-generated=false',
+        'lib/vendor/** -linguist-vendored',
+        '*.snap -diff',
+        '/schema.json linguist-generated=true',
+        '*.ts text eol=lf',
+      ].join('\n')
+    );
+
+    expect(classifier.classify('docs/api/client.md')).toBe('generated');
+    expect(classifier.classify('docs/api/index.md')).toBeUndefined();
+    expect(classifier.classify('lib/vendor/patched.js')).toBeUndefined();
+    expect(classifier.classify('__tests__/__snapshots__/app.test.ts.snap')).toBe('binary');
+    expect(classifier.classify('schema.json')).toBe('generated');
+    expect(classifier.classify('config/schema.json')).toBeUndefined();
+    expect(classifier.classify('src/app.ts')).toBeUndefined();
+  });
+
+  it('should summarize skipped files in one line by category', () => {
+    expect(
+      formatSkippedFiles([
+        { path: 'yarn.lock', kind: 'lockfile' },
+        { path: 'vendor/lib.go', kind: 'vendored' },
+        { path: 'api/user.pb.go', kind: 'generated' },
+      ])
+    ).toBe('⏭️ Not reviewed: 📦 Dependencies (2), ⚙️ Configuration (1)');
+  });
+});
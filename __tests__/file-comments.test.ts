@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitService } from '../src/git';
+import type { PRCommentService } from '../src/pr-comments';
+import { FileCommentService } from '../src/pr-comments/file-comments';
+import { Config, PRCommentError, ReviewComment, ReviewResult } from '../src/types';
+
+jest.mock('../src/git');
+
+describe('FileCommentService', () => {
+  const patch = [
+    'diff --git a/src/app.ts b/src/app.ts',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -1,2 +1,3 @@',
+    ' const a = 1;',
+    '+const b = 2;',
+    ' const c = 3;',
+    '@@ -20,2 +21,2 @@',
+    '-const old = 1;',
+    '+const updated = 1;',
+  ].join('\n');
+
+  const comments: ReviewComment[] = [
+    { file: 'src/app.ts', line: 2, body: 'Added line issue', severity: 'error' },
+    { file: 'src/app.ts', line: 21, body: 'Second hunk issue', severity: 'warning' },
+    { file: 'src/app.ts', line: 50, body: 'Outside the diff', severity: 'info' },
+  ];
+
+  const result: ReviewResult = {
+    comments,
+    summary: 'Two problems found',
+    stats: { errors: 1, warnings: 1, suggestions: 0 },
+  };
+
+  let tempDir: string;
+  let config: Config;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sherlock-bundle-'));
+    config = {
+      aiProvider: 'openai',
+      openai: { apiKey: 'test-key', model: 'gpt-4' },
+      globalRules: [],
+      repository: { owner: 'team', repo: 'app', baseBranch: 'main' },
+      pr: { number: 12 },
+      bundle: { path: 'bundle' },
+    };
+    (GitService.prototype.getDiffForFile as jest.Mock).mockResolvedValue(patch);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeReview = async (): Promise<void> => {
+    const service = new FileCommentService(config, tempDir);
+    service.setReviewRange('feature', 'main');
+    service.setReviewedRanges([{ file: 'src/app.ts', startLine: 1, endLine: 60 }]);
+    await service.postComments(comments, 12);
+    await service.postReviewSummary(result, 12);
+    await service.postSuggestions(result, 12);
+    await service.postComment('Thanks for the fix!', 12);
+    await service.postReviewDecision(result, 12, 'REQUEST_CHANGES');
+  };
+
+  it('should require a bundle path', () => {
+    expect(() => new FileCommentService({ ...config, bundle: undefined }, tempDir)).toThrow(
+      PRCommentError
+    );
+  });
+
+  it('should write comments with their diff positions', async () => {
+    await writeReview();
+
+    const bundle = FileCommentService.readBundle(path.join(tempDir, 'bundle'));
+    expect(bundle.prNumber).toBe(12);
+    expect(bundle.repository).toEqual({ owner: 'team', repo: 'app' });
+    expect(bundle.range).toEqual({ targetBranch: 'feature', baseBranch: 'main' });
+    expect(bundle.comments.map(({ inDiff, position }) => ({ inDiff, position }))).toEqual([
+      { inDiff: true, position: 2 },
+      { inDiff: true, position: 6 },
+      { inDiff: false, position: undefined },
+    ]);
+    expect(GitService.prototype.getDiffForFile).toHaveBeenCalledWith(
+      'src/app.ts',
+      'feature',
+      'main'
+    );
+  });
+
+  it('should record the summary, messages and decision', async () => {
+    await writeReview();
+
+    const bundle = FileCommentService.readBundle(path.join(tempDir, 'bundle', 'review.json'));
+    expect(bundle.summary?.summary).toBe('Two problems found');
+    expect(bundle.suggestions).toBeUndefined();
+    expect(bundle.messages).toEqual(['Thanks for the fix!']);
+    expect(bundle.decision?.decision).toBe('REQUEST_CHANGES');
+
+    const markdown = fs.readFileSync(path.join(tempDir, 'bundle', 'review.md'), 'utf-8');
+    expect(markdown).toContain('# Review bundle for PR #12');
+    expect(markdown).toContain('`src/app.ts:2` (diff position 2)');
+    expect(markdown).toContain('`src/app.ts:50` (outside the diff)');
+    expect(markdown).toContain('## Decision: REQUEST_CHANGES');
+  });
+
+  it('should replay a bundle against a live service', async () => {
+    await writeReview();
+    const calls: string[] = [];
+    const service: PRCommentService = {
+      setReviewedRanges: jest.fn(),
+      postComments: jest.fn((posted: ReviewComment[]) => {
+        calls.push(`comments:${posted.length}`);
+        return Promise.resolve();
+      }),
+      postReviewSummary: jest.fn(() => {
+        calls.push('summary');
+        return Promise.resolve();
+      }),
+      postSuggestions: jest.fn(() => Promise.resolve()),
+      postComment: jest.fn((body: string) => {
+        calls.push(`comment:${body}`);
+        return Promise.resolve();
+      }),
+      postReviewDecision: jest.fn((_result: ReviewResult, prNumber: number, decision: string) => {
+        calls.push(`decision:${decision}:${prNumber}`);
+        return Promise.resolve();
+      }),
+    };
+
+    await FileCommentService.publish(
+      FileCommentService.readBundle(path.join(tempDir, 'bundle')),
+      service,
+      99
+    );
+
+    expect(calls).toEqual([
+      'comments:3',
+      'summary',
+      'comment:Thanks for the fix!',
+      'decision:REQUEST_CHANGES:99',
+    ]);
+    expect(service.postComments).toHaveBeenCalledWith(comments, 99);
+    expect(service.setReviewedRanges).toHaveBeenCalledWith([
+      { file: 'src/app.ts', startLine: 1, endLine: 60 },
+    ]);
+    expect(service.postSuggestions).not.toHaveBeenCalled();
+  });
+
+  it('should reject unreadable bundles', () => {
+    expect(() => FileCommentService.readBundle(path.join(tempDir, 'missing'))).toThrow(
+      PRCommentError
+    );
+  });
+});
@@ -0,0 +1,218 @@
+import { createServer, IncomingHttpHeaders, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { AIProviderFactory, GeminiProvider } from '../src/ai-provider';
+import { getHTTPStatus } from '../src/ai-provider/fallback-provider';
+import { AIProviderError, CodeChunk, Config, ReviewComment } from '../src/types';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: {
+    systemInstruction?: { parts: Array<{ text: string }> };
+    contents?: Array<{ role: string; parts: Array<{ text: string }> }>;
+    generationConfig?: Record<string, unknown>;
+  };
+}
+
+type Handler = (request: RecordedRequest, response: ServerResponse) => void;
+
+/**
+ * Local stand-in for the Generative Language API: records requests and answers
+ * them with the queued handlers in order
+ */
+describe('GeminiProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let handlers: Handler[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk: Buffer) => (data += chunk.toString()));
+      req.on('end', () => {
+        const request: RecordedRequest = {
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: data ? (JSON.parse(data) as RecordedRequest['body']) : {},
+        };
+        requests.push(request);
+        const handler = handlers.shift();
+        if (handler) {
+          handler(request, res);
+        } else {
+          res.writeHead(500).end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handlers = [];
+  });
+
+  const chunks: CodeChunk[] = [
+    {
+      id: 'chunk1',
+      name: 'handler',
+      type: 'function',
+      file: 'src/api.ts',
+      startLine: 1,
+      endLine: 12,
+      content: 'export function handler(req) { return db.query(req.query.sql); }',
+    },
+  ];
+
+  const review = JSON.stringify({
+    bugs: [],
+    security: [
+      {
+        severity: 'Critical',
+        file: 'src/api.ts',
+        line: 1,
+        description: 'Raw SQL from the request is executed',
+        fix: 'Use a parameterized query',
+      },
+    ],
+    performance: [],
+    code_quality: [],
+    architecture: [],
+    summary: { recommendation: 'BLOCK', top_issues: ['SQL injection'] },
+  });
+
+  const reply =
+    (text: string, usage = { promptTokenCount: 900, candidatesTokenCount: 80 }): Handler =>
+    (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(
+        JSON.stringify({
+          candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+          usageMetadata: usage,
+        })
+      );
+    };
+
+  const fail =
+    (status: number, message: string): Handler =>
+    (_request, response) => {
+      response.writeHead(status, { 'Content-Type': 'application/json', 'Retry-After': '2' });
+      response.end(JSON.stringify({ error: { code: status, message } }));
+    };
+
+  const createProvider = (): GeminiProvider =>
+    new GeminiProvider({ apiKey: 'gemini-key', model: 'gemini-2.5-pro', baseUrl: `${baseUrl}/` });
+
+  it('should review through generateContent with a JSON schema', async () => {
+    handlers.push(reply(review));
+
+    const result = await createProvider().reviewCode(chunks, ['No raw SQL']);
+
+    const [request] = requests as [RecordedRequest];
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/v1beta/models/gemini-2.5-pro:generateContent');
+    expect(request.headers['x-goog-api-key']).toBe('gemini-key');
+    expect(request.body.systemInstruction?.parts[0]?.text).toBeTruthy();
+    expect(request.body.contents?.[0]?.parts[0]?.text).toContain('src/api.ts');
+    expect(request.body.generationConfig).toMatchObject({
+      responseMimeType: 'application/json',
+      responseJsonSchema: expect.objectContaining({ type: 'object' }) as unknown,
+    });
+    expect(result.comments).toEqual([
+      expect.objectContaining({ file: 'src/api.ts', line: 1, severity: 'error', critical: true }),
+    ]);
+    expect(result.recommendation).toBe('BLOCK');
+    expect(result.metadata).toEqual({
+      aiProvider: 'gemini',
+      model: 'gemini-2.5-pro',
+      usage: { promptTokens: 900, completionTokens: 80 },
+    });
+  });
+
+  it('should stream findings from server-sent events', async () => {
+    handlers.push((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const parts = [review.slice(0, 120), review.slice(120, 260), review.slice(260)];
+      parts.forEach((text, index) =>
+        response.write(
+          `data: ${JSON.stringify({
+            candidates: [{ content: { parts: [{ text }] } }],
+            usageMetadata: { promptTokenCount: 900, candidatesTokenCount: (index + 1) * 30 },
+          })}\r\n\r\n`
+        )
+      );
+      response.end();
+    });
+    const streamed: ReviewComment[] = [];
+
+    const result = await createProvider().reviewCode(chunks, [], {
+      onComment: (comment) => streamed.push(comment),
+    });
+
+    expect(requests[0]?.url).toBe('/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse');
+    expect(streamed).toEqual(result.comments);
+    expect(streamed).toHaveLength(1);
+    expect(result.metadata?.usage).toEqual({ promptTokens: 900, completionTokens: 90 });
+  });
+
+  it('should fall back to prompt-only JSON when the schema is rejected', async () => {
+    handlers.push(fail(400, 'Invalid JSON payload received'), reply(review));
+
+    const result = await createProvider().reviewCode(chunks, []);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1]?.body.generationConfig).not.toHaveProperty('responseJsonSchema');
+    expect(result.comments).toHaveLength(1);
+  });
+
+  it('should surface API errors with their status for the fallback chain', async () => {
+    handlers.push(fail(429, 'Resource has been exhausted'));
+
+    const error = (await createProvider()
+      .reviewCode(chunks, [])
+      .catch((caught: unknown) => caught)) as AIProviderError;
+
+    expect(error).toBeInstanceOf(AIProviderError);
+    expect(error.message).toBe(
+      'Gemini API call failed: Gemini API error: 429 Resource has been exhausted'
+    );
+    expect(getHTTPStatus(error)).toBe(429);
+  });
+
+  it('should run scout reviews', async () => {
+    handlers.push(reply(JSON.stringify({ complexityScore: 7, criticalFiles: ['src/api.ts'] })));
+
+    const scout = await createProvider().scoutReview(chunks);
+
+    expect(requests[0]?.body.generationConfig).not.toHaveProperty('responseJsonSchema');
+    expect(scout).toMatchObject({ complexityScore: 7, criticalFiles: ['src/api.ts'] });
+  });
+
+  describe('AIProviderFactory', () => {
+    const config: Config = {
+      aiProvider: 'gemini',
+      gemini: { apiKey: 'gemini-key', model: 'gemini-2.5-pro', baseUrl: 'http://127.0.0.1:1' },
+      repository: { owner: 'o', repo: 'r', baseBranch: 'main' },
+      pr: { number: 1 },
+      globalRules: [],
+    };
+
+    it('should create the Gemini provider', () => {
+      expect(AIProviderFactory.create(config)).toBeInstanceOf(GeminiProvider);
+    });
+
+    it('should require an API key', () => {
+      expect(() => AIProviderFactory.create({ ...config, gemini: undefined })).toThrow(
+        'Gemini API key is required'
+      );
+    });
+  });
+});
@@ -1,11 +1,13 @@
 import * as fs from 'fs';
+import * as fsPromises from 'fs/promises';
 import * as path from 'path';
 import simpleGit, { SimpleGit } from 'simple-git';
-import { GitService } from '../src/git';
+import { GitService, STAGED_REF, WORKING_TREE_REF } from '../src/git';
 import { GitError } from '../src/types';
 
 jest.mock('simple-git');
 jest.mock('fs');
+jest.mock('fs/promises');
 jest.mock('path');
 
 describe('GitService', () => {
@@ -64,6 +66,117 @@ describe('GitService', () => {
     });
   });
 
+  describe('worktrees', () => {
+    it('should add a detached worktree in a temporary directory', async () => {
+      (fsPromises.mkdtemp as jest.Mock).mockResolvedValue('/tmp/sherlock-worktree-abc');
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+      mockGit.raw.mockResolvedValue('');
+
+      const dir = await gitService.addWorktree('origin/pr-7');
+
+      expect(dir).toBe('/tmp/sherlock-worktree-abc');
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'worktree',
+        'add',
+        '--detach',
+        '/tmp/sherlock-worktree-abc',
+        'origin/pr-7',
+      ]);
+      expect(mockGit.checkout).not.toHaveBeenCalled();
+    });
+
+    it('should clean up and throw GitError when the ref cannot be checked out', async () => {
+      (fsPromises.mkdtemp as jest.Mock).mockResolvedValue('/tmp/sherlock-worktree-abc');
+      mockGit.raw.mockRejectedValue(new Error('invalid reference: nope'));
+
+      await expect(gitService.addWorktree('nope')).rejects.toThrow(GitError);
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/sherlock-worktree-abc', {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it('should remove a worktree and fall back to deleting and pruning', async () => {
+      (fsPromises.rm as jest.Mock).mockResolvedValue(undefined);
+      mockGit.raw.mockResolvedValueOnce('');
+
+      await gitService.removeWorktree('/tmp/sherlock-worktree-abc');
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'worktree',
+        'remove',
+        '--force',
+        '/tmp/sherlock-worktree-abc',
+      ]);
+
+      mockGit.raw.mockRejectedValueOnce(new Error('locked')).mockResolvedValueOnce('');
+      await expect(gitService.removeWorktree('/tmp/sherlock-worktree-abc')).resolves.toBe(
+        undefined
+      );
+      expect(fsPromises.rm).toHaveBeenCalled();
+      expect(mockGit.raw).toHaveBeenLastCalledWith(['worktree', 'prune']);
+    });
+
+    it('should write the index to a temporary directory and delete it afterwards', async () => {
+      (fsPromises.mkdtemp as jest.Mock).mockResolvedValue('/tmp/sherlock-index-abc');
+      (fsPromises.rm as jest.Mock).mockResolvedValue(undefined);
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+      mockGit.raw.mockResolvedValue('');
+
+      const dir = await gitService.checkoutIndex();
+
+      expect(dir).toBe('/tmp/sherlock-index-abc');
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'checkout-index',
+        '--all',
+        '--prefix=/tmp/sherlock-index-abc/',
+      ]);
+
+      await gitService.removeIndexCheckout(dir);
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/sherlock-index-abc', {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it('should apply a patch in the worktree and return its tree', async () => {
+      (fsPromises.writeFile as jest.Mock).mockResolvedValue(undefined);
+      (fsPromises.rm as jest.Mock).mockResolvedValue(undefined);
+      mockGit.raw.mockResolvedValueOnce('').mockResolvedValueOnce('4b825dc\n');
+
+      const tree = await gitService.applyPatch('/tmp/sherlock-worktree-abc', 'diff --git ...');
+
+      expect(tree).toBe('4b825dc');
+      expect(simpleGit).toHaveBeenLastCalledWith('/tmp/sherlock-worktree-abc');
+      expect(fsPromises.writeFile).toHaveBeenCalledWith(
+        '/tmp/sherlock-worktree-abc.patch',
+        'diff --git ...'
+      );
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'apply',
+        '--index',
+        '--whitespace=nowarn',
+        '/tmp/sherlock-worktree-abc.patch',
+      ]);
+      expect(mockGit.raw).toHaveBeenLastCalledWith(['write-tree']);
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/sherlock-worktree-abc.patch', {
+        force: true,
+      });
+    });
+
+    it('should throw GitError when the patch does not apply', async () => {
+      (fsPromises.writeFile as jest.Mock).mockResolvedValue(undefined);
+      (fsPromises.rm as jest.Mock).mockResolvedValue(undefined);
+      mockGit.raw.mockRejectedValueOnce(new Error('patch does not apply'));
+
+      await expect(gitService.applyPatch('/tmp/sherlock-worktree-abc', 'x')).rejects.toThrow(
+        GitError
+      );
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/sherlock-worktree-abc.patch', {
+        force: true,
+      });
+    });
+  });
+
   describe('getChangedFiles', () => {
     it('should return changed files with correct status', async () => {
       // Mock for detectBaseBranch - first candidate succeeds
@@ -71,7 +184,8 @@ describe('GitService', () => {
         .mockResolvedValueOnce('abc123') // merge-base for origin/main (detectBaseBranch)
         .mockResolvedValueOnce('abc123') // merge-base for actual comparison
         .mockResolvedValueOnce('commit1\ncommit2\ncommit3') // log
-        .mockResolvedValueOnce('10\t0\tsrc/file1.ts\n0\t5\tsrc/file2.ts\n5\t3\tsrc/file3.ts') // numstat
+        .mockResolvedValueOnce('A\0src/file1.ts\0D\0src/file2.ts\0M\0src/file3.ts\0') // name-status
+        .mockResolvedValueOnce('10\t0\tsrc/file1.ts\x000\t5\tsrc/file2.ts\x005\t3\tsrc/file3.ts\0') // numstat
         .mockResolvedValueOnce('@@ -1,1 +1,11 @@\n+new content') // file1 diff
         .mockResolvedValueOnce('@@ -1,5 +1,0 @@\n-old content') // file2 diff
         .mockResolvedValueOnce('@@ -1,3 +1,5 @@\n+modified content'); // file3 diff
@@ -104,7 +218,8 @@ describe('GitService', () => {
         .mockResolvedValueOnce('abc123') // merge-base for origin/main (detectBaseBranch)
         .mockResolvedValueOnce('abc123') // merge-base for actual comparison
         .mockResolvedValueOnce('commit1') // log
-        .mockResolvedValueOnce('10\t0\tsrc/file.ts\n-\t-\timage.png') // numstat
+        .mockResolvedValueOnce('A\0src/file.ts\0M\0image.png\0') // name-status
+        .mockResolvedValueOnce('10\t0\tsrc/file.ts\0-\t-\timage.png\0') // numstat
         .mockResolvedValueOnce('@@ -1,1 +1,11 @@\n+new content'); // file diff
 
       const changedFiles = await gitService.getChangedFiles('feature-branch');
@@ -113,6 +228,69 @@ describe('GitService', () => {
       expect(changedFiles[0].path).toBe('src/file.ts');
     });
 
+    it('should report renames with the old path and only their edited lines', async () => {
+      mockGit.raw
+        .mockResolvedValueOnce('abc123') // merge-base for origin/main (detectBaseBranch)
+        .mockResolvedValueOnce('abc123') // merge-base for actual comparison
+        .mockResolvedValueOnce('commit1') // log
+        .mockResolvedValueOnce('R087\0src/old.ts\0src/new.ts\0R100\0a.ts\0lib/a.ts\0') // name-status
+        .mockResolvedValueOnce('1\t1\t\0src/old.ts\0src/new.ts\x000\t0\t\0a.ts\0lib/a.ts\0') // numstat
+        .mockResolvedValueOnce(
+          'diff --git a/src/old.ts b/src/new.ts\nsimilarity index 87%\n@@ -4,1 +4,1 @@\n-a\n+b'
+        ) // src/new.ts diff
+        .mockResolvedValueOnce(''); // lib/a.ts diff
+
+      const changedFiles = await gitService.getChangedFiles('feature-branch');
+
+      expect(changedFiles).toEqual([
+        {
+          path: 'src/new.ts',
+          status: 'renamed',
+          previousPath: 'src/old.ts',
+          additions: 1,
+          deletions: 1,
+          changedLines: new Set([4]),
+        },
+        {
+          path: 'lib/a.ts',
+          status: 'renamed',
+          previousPath: 'a.ts',
+          additions: 0,
+          deletions: 0,
+          changedLines: new Set(),
+        },
+      ]);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'diff',
+        '-M',
+        '-C',
+        'abc123..feature-branch',
+        '--',
+        'src/old.ts',
+        'src/new.ts',
+      ]);
+    });
+
+    it('should report copies and skip modifications without line changes', async () => {
+      mockGit.raw
+        .mockResolvedValueOnce('abc123') // merge-base for origin/main (detectBaseBranch)
+        .mockResolvedValueOnce('abc123') // merge-base for actual comparison
+        .mockResolvedValueOnce('commit1') // log
+        .mockResolvedValueOnce('C075\0src/a.ts\0src/b.ts\0M\0run.sh\0') // name-status
+        .mockResolvedValueOnce('3\t0\t\0src/a.ts\0src/b.ts\x000\t0\trun.sh\0') // numstat
+        .mockResolvedValueOnce('@@ -1,0 +2,3 @@\n+x\n+y\n+z'); // src/b.ts diff
+
+      const changedFiles = await gitService.getChangedFiles('feature-branch');
+
+      expect(changedFiles).toHaveLength(1);
+      expect(changedFiles[0]).toMatchObject({
+        path: 'src/b.ts',
+        status: 'copied',
+        previousPath: 'src/a.ts',
+        additions: 3,
+      });
+    });
+
     it('should return empty array when no commits found', async () => {
       mockGit.raw.mockResolvedValueOnce('abc123').mockResolvedValueOnce('');
 
@@ -125,7 +303,8 @@ describe('GitService', () => {
       mockGit.raw
         .mockResolvedValueOnce('abc123')
         .mockResolvedValueOnce('commit1')
-        .mockResolvedValueOnce('5\t2\tsrc/file.ts')
+        .mockResolvedValueOnce('M\0src/file.ts\0')
+        .mockResolvedValueOnce('5\t2\tsrc/file.ts\0')
         .mockResolvedValueOnce('@@ -1,2 +1,5 @@\n+new');
 
       await gitService.getChangedFiles('feature-branch', 'develop');
@@ -134,6 +313,97 @@ describe('GitService', () => {
     });
   });
 
+  describe('listUniqueCommits', () => {
+    it('should list commits unique to the branch, oldest first', async () => {
+      mockGit.raw
+        .mockResolvedValueOnce('abc123') // merge-base
+        .mockResolvedValueOnce('c3c3c3c Fix review nits\nb2b2b2b Add parser\n'); // log
+
+      const commits = await gitService.listUniqueCommits('feature-branch', 'main');
+
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'log',
+        '--oneline',
+        '--no-decorate',
+        'abc123..feature-branch',
+      ]);
+      expect(commits).toEqual([
+        { sha: 'b2b2b2b', subject: 'Add parser' },
+        { sha: 'c3c3c3c', subject: 'Fix review nits' },
+      ]);
+    });
+  });
+
+  describe('getChangedFiles for uncommitted changes', () => {
+    it('should diff the index against HEAD without fetching or checking out', async () => {
+      mockGit.raw
+        .mockResolvedValueOnce('head123\n') // merge-base HEAD HEAD
+        .mockResolvedValueOnce('M\0src/file.ts\0') // name-status
+        .mockResolvedValueOnce('2\t1\tsrc/file.ts\0') // numstat
+        .mockResolvedValueOnce('@@ -3,1 +3,2 @@\n-a\n+b\n+c'); // file diff
+
+      const changedFiles = await gitService.getChangedFiles(STAGED_REF);
+
+      expect(changedFiles).toEqual([
+        {
+          path: 'src/file.ts',
+          status: 'modified',
+          additions: 2,
+          deletions: 1,
+          changedLines: new Set([3, 4]),
+        },
+      ]);
+      expect(mockGit.raw).toHaveBeenCalledWith(['merge-base', 'HEAD', 'HEAD']);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'diff',
+        '--name-status',
+        '-M',
+        '-C',
+        '-z',
+        '--cached',
+        'head123',
+      ]);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'diff',
+        '-M',
+        '-C',
+        '--cached',
+        'head123',
+        '--',
+        'src/file.ts',
+      ]);
+      expect(mockGit.fetch).not.toHaveBeenCalled();
+      expect(mockGit.checkout).not.toHaveBeenCalled();
+    });
+
+    it('should diff the working tree against a base branch and add untracked files', async () => {
+      mockGit.raw
+        .mockResolvedValueOnce('base123\n') // merge-base main HEAD
+        .mockResolvedValueOnce('M\0src/file.ts\0') // name-status
+        .mockResolvedValueOnce('1\t0\tsrc/file.ts\0') // numstat
+        .mockResolvedValueOnce('@@ -1,0 +2,1 @@\n+x') // file diff
+        .mockResolvedValueOnce('src/new.ts\0image.png\0'); // ls-files --others
+      (fsPromises.readFile as jest.Mock)
+        .mockResolvedValueOnce('const a = 1;\nconst b = 2;\n')
+        .mockResolvedValueOnce('PNG\0\0');
+
+      const changedFiles = await gitService.getChangedFiles(WORKING_TREE_REF, 'main');
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['merge-base', 'main', 'HEAD']);
+      expect(mockGit.raw).toHaveBeenCalledWith(['diff', '--numstat', '-M', '-C', '-z', 'base123']);
+      expect(changedFiles).toEqual([
+        expect.objectContaining({ path: 'src/file.ts', changedLines: new Set([2]) }),
+        {
+          path: 'src/new.ts',
+          status: 'added',
+          additions: 2,
+          deletions: 0,
+          changedLines: new Set([1, 2]),
+        },
+      ]);
+    });
+  });
+
   describe('getChangedLines', () => {
     it('should parse diff and extract changed line numbers', async () => {
       const diff = `diff --git a/src/file.ts b/src/file.ts
@@ -207,6 +477,32 @@ index 1234567..abcdefg 100644
       expect(changedLines.has(10)).toBe(true);
     });
 
+    it('should only count lines of the target file in a copy diff', async () => {
+      const diff = `diff --git a/src/a.ts b/src/a.ts
+@@ -1,1 +1,2 @@
+ a
++changed source
+diff --git a/src/a.ts b/src/b.ts
+similarity index 90%
+copy from src/a.ts
+copy to src/b.ts
+@@ -7,1 +7,1 @@
+-old
++new
+`;
+
+      mockGit.raw.mockResolvedValue(diff);
+
+      const changedLines = await gitService.getChangedLines(
+        'src/b.ts',
+        'abc123',
+        'feature-branch',
+        'src/a.ts'
+      );
+
+      expect(Array.from(changedLines)).toEqual([7]);
+    });
+
     it('should return empty set for empty diff', async () => {
       mockGit.raw.mockResolvedValue('');
 
@@ -251,6 +547,19 @@ index 1234567..abcdefg 100644
       expect(content).toBe('file content');
     });
 
+    it('should read staged content from the index and working tree content from disk', async () => {
+      mockGit.show.mockResolvedValue('staged content');
+      (fsPromises.readFile as jest.Mock).mockResolvedValue('edited content');
+
+      await expect(gitService.getFileContent('src/file.ts', STAGED_REF)).resolves.toBe(
+        'staged content'
+      );
+      expect(mockGit.show).toHaveBeenCalledWith([':src/file.ts']);
+      await expect(gitService.getFileContent('src/file.ts', WORKING_TREE_REF)).resolves.toBe(
+        'edited content'
+      );
+    });
+
     it('should throw GitError on failure', async () => {
       mockGit.show.mockRejectedValue(new Error('File not found'));
 
@@ -258,6 +567,66 @@ index 1234567..abcdefg 100644
     });
   });
 
+  describe('grep', () => {
+    it('should search a ref and parse the matches', async () => {
+      mockGit.raw.mockResolvedValue(
+        'main:src/a.ts:12:export function sanitize(input: string) {\n' +
+          'main:src/b.ts:3:const url = sanitize(raw); // a:b:c\n'
+      );
+
+      const matches = await gitService.grep('sanitize', 'main', 'src');
+
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'grep',
+        '-n',
+        '-I',
+        '-E',
+        '-e',
+        'sanitize',
+        'main',
+        '--',
+        'src',
+      ]);
+      expect(matches).toEqual([
+        { file: 'src/a.ts', line: 12, text: 'export function sanitize(input: string) {' },
+        { file: 'src/b.ts', line: 3, text: 'const url = sanitize(raw); // a:b:c' },
+      ]);
+    });
+
+    it('should return no matches for empty output', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      await expect(gitService.grep('nothing')).resolves.toEqual([]);
+      expect(mockGit.raw).toHaveBeenCalledWith(['grep', '-n', '-I', '-E', '-e', 'nothing', 'HEAD']);
+    });
+
+    it('should search the index or the working tree without a ref prefix', async () => {
+      mockGit.raw.mockResolvedValue('src/a.ts:4:sanitize(x)\n');
+
+      await expect(gitService.grep('sanitize', STAGED_REF)).resolves.toEqual([
+        { file: 'src/a.ts', line: 4, text: 'sanitize(x)' },
+      ]);
+      expect(mockGit.raw).toHaveBeenLastCalledWith([
+        'grep',
+        '-n',
+        '-I',
+        '-E',
+        '-e',
+        'sanitize',
+        '--cached',
+      ]);
+
+      await gitService.grep('sanitize', WORKING_TREE_REF);
+      expect(mockGit.raw).toHaveBeenLastCalledWith(['grep', '-n', '-I', '-E', '-e', 'sanitize']);
+    });
+
+    it('should throw GitError on failure', async () => {
+      mockGit.raw.mockRejectedValue(new Error('bad regex'));
+
+      await expect(gitService.grep('(')).rejects.toThrow(GitError);
+    });
+  });
+
   describe('getCurrentBranch', () => {
     it('should return current branch name', async () => {
       mockGit.revparse.mockResolvedValue('feature-branch\n');
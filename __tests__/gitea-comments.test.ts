@@ -0,0 +1,147 @@
+import { GiteaCommentService } from '../src/pr-comments/gitea';
+import { Config, PRCommentError, ReviewResult } from '../src/types';
+
+describe('GiteaCommentService', () => {
+  const config: Config = {
+    aiProvider: 'openai',
+    openai: { apiKey: 'test-key', model: 'gpt-4' },
+    globalRules: [],
+    repository: { owner: 'team', repo: 'app', baseBranch: 'main' },
+    pr: { number: 4 },
+    gitea: { baseUrl: 'https://git.example.com/', token: 'gitea-token' },
+  };
+
+  const result: ReviewResult = {
+    comments: [],
+    summary: 'Looks fine',
+    stats: { errors: 0, warnings: 0, suggestions: 0 },
+  };
+
+  const diff = [
+    'diff --git a/src/app.ts b/src/app.ts',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -1,2 +1,3 @@',
+    ' const a = 1;',
+    '+const b = 2;',
+    ' const c = 3;',
+  ].join('\n');
+
+  const jsonResponse = (data: unknown, status = 200): Response =>
+    ({
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? 'OK' : 'Error',
+      json: jest.fn().mockResolvedValue(data),
+      text: jest.fn().mockResolvedValue(typeof data === 'string' ? data : JSON.stringify(data)),
+    }) as unknown as Response;
+
+  let mockFetch: jest.Mock;
+
+  const callsTo = (method: string, suffix: string): Array<[string, RequestInit]> =>
+    (mockFetch.mock.calls as Array<[string, RequestInit]>).filter(
+      ([url, init]) => url.endsWith(suffix) && (init.method ?? 'GET') === method
+    );
+
+  const bodyOf = (init: RequestInit): Record<string, unknown> =>
+    JSON.parse(init.body as string) as Record<string, unknown>;
+
+  beforeEach(() => {
+    mockFetch = jest
+      .fn()
+      .mockImplementation((url: string) =>
+        Promise.resolve(jsonResponse(url.endsWith('.diff') ? diff : {}))
+      );
+    global.fetch = mockFetch;
+  });
+
+  it('should require a token', () => {
+    expect(() => new GiteaCommentService({ ...config, gitea: undefined })).toThrow(PRCommentError);
+  });
+
+  it('should post diff comments as one review and summarize the rest', async () => {
+    const service = new GiteaCommentService(config);
+
+    await service.postComments(
+      [
+        { file: 'src/app.ts', line: 2, body: 'Inline issue', severity: 'error' },
+        { file: 'src/app.ts', line: 30, body: 'Far away', severity: 'warning' },
+      ],
+      4
+    );
+
+    const reviews = callsTo('POST', '/api/v1/repos/team/app/pulls/4/reviews');
+    expect(reviews).toHaveLength(1);
+    const [[url, init]] = reviews;
+    expect(url).toBe('https://git.example.com/api/v1/repos/team/app/pulls/4/reviews');
+    expect(bodyOf(init)).toEqual({
+      event: 'COMMENT',
+      body: '',
+      comments: [
+        {
+          path: 'src/app.ts',
+          body: expect.stringContaining('Inline issue') as string,
+          new_position: 2,
+        },
+      ],
+    });
+    expect((init.headers as Record<string, string>).Authorization).toBe('token gitea-token');
+
+    const issueComments = callsTo('POST', '/repos/team/app/issues/4/comments');
+    expect(issueComments).toHaveLength(1);
+    expect(JSON.stringify(bodyOf(issueComments[0][1]))).toContain('Far away');
+  });
+
+  it('should submit the review decision with the matching event', async () => {
+    const service = new GiteaCommentService(config);
+
+    await service.postReviewDecision(result, 4, 'APPROVE');
+    await service.postReviewDecision(result, 4, 'REQUEST_CHANGES');
+
+    const events = callsTo('POST', '/pulls/4/reviews').map(([, init]) => bodyOf(init).event);
+    expect(events).toEqual(['APPROVED', 'REQUEST_CHANGES']);
+  });
+
+  it('should fall back to a summary comment when the review is rejected', async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(jsonResponse({}, url.endsWith('/reviews') ? 422 : 200))
+    );
+    const service = new GiteaCommentService(config);
+
+    await service.postReviewDecision(result, 4, 'APPROVE');
+
+    expect(callsTo('POST', '/issues/4/comments')).toHaveLength(1);
+  });
+
+  it('should fetch pull request metadata', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        number: 4,
+        title: 'Add feature',
+        state: 'open',
+        html_url: 'https://git.example.com/team/app/pulls/4',
+        head: { ref: 'feature', sha: 'abc123' },
+        base: { ref: 'develop' },
+      })
+    );
+    const service = new GiteaCommentService(config);
+
+    await expect(service.getPullRequest(4)).resolves.toEqual({
+      number: 4,
+      title: 'Add feature',
+      state: 'open',
+      headRef: 'feature',
+      headSha: 'abc123',
+      baseRef: 'develop',
+      url: 'https://git.example.com/team/app/pulls/4',
+    });
+    expect(callsTo('GET', '/api/v1/repos/team/app/pulls/4')).toHaveLength(1);
+  });
+
+  it('should throw PRCommentError when a plain comment fails', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}, 403));
+    const service = new GiteaCommentService(config);
+
+    await expect(service.postComment('hello', 4)).rejects.toThrow(PRCommentError);
+  });
+});
@@ -0,0 +1,180 @@
+import { createVerify, generateKeyPairSync } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { GitHubCommentService } from '../src/pr-comments';
+import { GitHubAppAuth, getGitHubAppAuth } from '../src/pr-comments/github-app-auth';
+import { Config, PRCommentError } from '../src/types';
+
+describe('GitHubAppAuth', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  interface RecordedRequest {
+    method: string;
+    url: string;
+    authorization?: string;
+  }
+
+  let server: Server;
+  let apiUrl: string;
+  let requests: RecordedRequest[];
+  let tokenCount: number;
+  let tokenStatus: number;
+
+  /**
+   * Minimal stand-in for the GitHub API: installation lookup, token exchange
+   * and issue comments
+   */
+  const handle = (req: IncomingMessage, res: ServerResponse): void => {
+    requests.push({
+      method: req.method ?? '',
+      url: req.url ?? '',
+      authorization: req.headers.authorization,
+    });
+    res.setHeader('Content-Type', 'application/json');
+
+    if (req.url === '/repos/test-org/test-repo/installation') {
+      res.end(JSON.stringify({ id: 99 }));
+    } else if (req.url?.match(/^\/app\/installations\/\d+\/access_tokens$/)) {
+      tokenCount++;
+      res.statusCode = tokenStatus;
+      res.end(
+        JSON.stringify({
+          token: `ghs_token_${tokenCount}`,
+          expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        })
+      );
+    } else if (req.url === '/repos/test-org/test-repo/issues/7/comments') {
+      res.statusCode = 201;
+      res.end(JSON.stringify({ id: 1 }));
+    } else {
+      res.statusCode = 404;
+      res.end('{}');
+    }
+  };
+
+  const decodeSegment = (segment: string): Record<string, unknown> =>
+    JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as Record<string, unknown>;
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    tokenCount = 0;
+    tokenStatus = 201;
+  });
+
+  it('should sign a verifiable RS256 JWT issued by the app', () => {
+    const auth = new GitHubAppAuth({ appId: '123', privateKey }, { now: () => 1_700_000_000_000 });
+    const [header = '', payload = '', signature = ''] = auth.createJWT().split('.');
+
+    expect(decodeSegment(header)).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(decodeSegment(payload)).toEqual({
+      iat: 1_700_000_000 - 60,
+      exp: 1_700_000_000 - 60 + 540,
+      iss: '123',
+    });
+
+    const valid = createVerify('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .verify(publicKey, Buffer.from(signature, 'base64url'));
+    expect(valid).toBe(true);
+  });
+
+  it('should look up the installation and exchange the JWT for a token', async () => {
+    const auth = new GitHubAppAuth({ appId: '123', privateKey }, { apiUrl });
+
+    const token = await auth.getInstallationToken('test-org', 'test-repo');
+
+    expect(token).toBe('ghs_token_1');
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      'GET /repos/test-org/test-repo/installation',
+      'POST /app/installations/99/access_tokens',
+    ]);
+    expect(requests[1]?.authorization).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/);
+  });
+
+  it('should cache tokens and refresh them before they expire', async () => {
+    let now = Date.now();
+    const auth = new GitHubAppAuth(
+      { appId: '123', privateKey, installationId: 5 },
+      { apiUrl, now: () => now }
+    );
+
+    const [first, concurrent] = await Promise.all([
+      auth.getInstallationToken('test-org', 'test-repo'),
+      auth.getInstallationToken('test-org', 'test-repo'),
+    ]);
+    expect(first).toBe('ghs_token_1');
+    expect(concurrent).toBe('ghs_token_1');
+
+    // Still well within the hour-long lifetime
+    now += 30 * 60 * 1000;
+    expect(await auth.getInstallationToken('test-org', 'test-repo')).toBe('ghs_token_1');
+
+    // Inside the refresh margin
+    now += 26 * 60 * 1000;
+    expect(await auth.getInstallationToken('test-org', 'test-repo')).toBe('ghs_token_2');
+    expect(tokenCount).toBe(2);
+  });
+
+  it('should throw PRCommentError when the token exchange fails', async () => {
+    tokenStatus = 401;
+    const auth = new GitHubAppAuth({ appId: '123', privateKey, installationId: 5 }, { apiUrl });
+
+    await expect(auth.getInstallationToken('test-org', 'test-repo')).rejects.toThrow(
+      PRCommentError
+    );
+  });
+
+  it('should post comments with the installation token', async () => {
+    const config: Config = {
+      aiProvider: 'openai',
+      openai: { apiKey: 'test-key', model: 'gpt-4' },
+      globalRules: [],
+      repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+      pr: { number: 7 },
+      github: { app: { appId: '123', privateKey, installationId: 5 }, apiUrl },
+    };
+
+    const service = new GitHubCommentService(config);
+    await service.postComment('Hello from the app', 7);
+
+    const comment = requests.find((r) => r.url === '/repos/test-org/test-repo/issues/7/comments');
+    expect(comment?.authorization).toBe('token ghs_token_1');
+  });
+
+  it('should share tokens across services and keep one per installation', async () => {
+    const createConfig = (installationId: number): Config => ({
+      aiProvider: 'openai',
+      globalRules: [],
+      repository: { owner: 'test-org', repo: 'test-repo', baseBranch: 'main' },
+      pr: { number: 7 },
+      github: { app: { appId: '456', privateKey, installationId }, apiUrl },
+    });
+
+    // A new service per webhook event, as the dispatcher creates them
+    await new GitHubCommentService(createConfig(5)).postComment('First event', 7);
+    await new GitHubCommentService(createConfig(5)).postComment('Second event', 7);
+    await new GitHubCommentService(createConfig(6)).postComment('Other installation', 7);
+
+    expect(requests.filter((r) => r.url.endsWith('/access_tokens')).map((r) => r.url)).toEqual([
+      '/app/installations/5/access_tokens',
+      '/app/installations/6/access_tokens',
+    ]);
+    expect(getGitHubAppAuth({ appId: '456', privateKey }, apiUrl)).toBe(
+      getGitHubAppAuth({ appId: '456', privateKey, installationId: 6 }, apiUrl)
+    );
+  });
+});
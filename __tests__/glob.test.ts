@@ -0,0 +1,22 @@
+import { globToRegExp, matchesGlob } from '../src/utils/glob';
+
+describe('glob', () => {
+  it('should match directory wildcards, segment wildcards and alternatives', () => {
+    expect(matchesGlob('services/api/handler.py', ['services/**'])).toBe(true);
+    expect(matchesGlob('src/a/b/c.test.ts', ['src/**/*.test.ts'])).toBe(true);
+    expect(matchesGlob('src/c.test.ts', ['src/**/*.test.ts'])).toBe(true);
+    expect(matchesGlob('src/a/c.ts', ['src/*.ts'])).toBe(false);
+    expect(matchesGlob('web/app.tsx', ['web/*.{ts,tsx}'])).toBe(true);
+    expect(matchesGlob('web/app.js', ['web/*.{ts,tsx}'])).toBe(false);
+  });
+
+  it('should match slash-less patterns at any depth', () => {
+    expect(matchesGlob('a/b/package-lock.json', ['package-lock.json'])).toBe(true);
+    expect(matchesGlob('./vendor.min.js', ['*.min.js'])).toBe(true);
+  });
+
+  it('should escape regular expression characters', () => {
+    expect(globToRegExp('file(1).ts').test('file(1).ts')).toBe(true);
+    expect(globToRegExp('a.ts').test('abts')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { AICategory, AIIssue } from '../src/types';
+import { IssueStreamParser } from '../src/utils/issue-stream-parser';
+
+describe('IssueStreamParser', () => {
+  let issues: Array<{ category: AICategory; issue: AIIssue }>;
+  let parser: IssueStreamParser;
+
+  const pushInFragments = (text: string, size: number): void => {
+    for (let i = 0; i < text.length; i += size) {
+      parser.push(text.slice(i, i + size));
+    }
+  };
+
+  beforeEach(() => {
+    issues = [];
+    parser = new IssueStreamParser((category, issue) => issues.push({ category, issue }));
+  });
+
+  it('should emit each issue as soon as its object closes', () => {
+    parser.push('{"reasoning": "ok", "bugs": [{"severity": "High", "file": "a.ts", "line": 3, ');
+    expect(issues).toHaveLength(0);
+
+    parser.push('"description": "Null access"}, {"severity": "Low"');
+    expect(issues).toEqual([
+      {
+        category: 'bugs',
+        issue: { severity: 'High', file: 'a.ts', line: 3, description: 'Null access' },
+      },
+    ]);
+
+    parser.push(', "file": "b.ts", "line": 9, "description": "Second"}');
+    expect(issues).toHaveLength(2);
+    expect(issues[1].issue.file).toBe('b.ts');
+  });
+
+  it('should handle single-character fragments, code fences and braces inside strings', () => {
+    const response =
+      '```json\n' +
+      JSON.stringify({
+        security: [
+          {
+            severity: 'Critical',
+            file: 'src/{odd}.ts',
+            line: 1,
+            description: 'Quote \\" and brace } in text',
+            fix: 'if (x) { return; }',
+          },
+        ],
+        performance: [],
+        code_quality: [{ severity: 'Nitpick', file: 'c.ts', line: 2, description: 'Rename' }],
+      }) +
+      '\n```';
+
+    pushInFragments(response, 1);
+
+    expect(issues.map(({ category }) => category)).toEqual(['security', 'code_quality']);
+    expect(issues[0].issue.description).toBe('Quote \\" and brace } in text');
+    expect(issues[0].issue.fix).toBe('if (x) { return; }');
+  });
+
+  it('should ignore arrays outside the issue categories', () => {
+    pushInFragments(
+      JSON.stringify({
+        bugs: [],
+        notes: [{ file: 'x.ts', line: 1, description: 'not an issue' }],
+        summary: { recommendation: 'APPROVE', top_issues: ['a'], critical_files: ['b'] },
+      }),
+      5
+    );
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should emit nested objects as part of their issue', () => {
+    parser.push(
+      '{"architecture": [{"file": "a.ts", "line": 1, "description": "d", "meta": {"x": [1, {"y": 2}]}}]}'
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].issue).toMatchObject({ file: 'a.ts', meta: { x: [1, { y: 2 }] } });
+  });
+});
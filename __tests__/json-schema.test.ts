@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { AIReviewResponseSchema } from '../src/types';
+import { zodToJSONSchema } from '../src/utils/json-schema';
+
+describe('zodToJSONSchema', () => {
+  it('should convert objects, marking only non-optional keys as required', () => {
+    const schema = z.object({
+      name: z.string().describe('Display name'),
+      count: z.number().optional(),
+      enabled: z.boolean().default(true),
+      tags: z.array(z.enum(['a', 'b'])),
+      note: z.string().nullable(),
+    });
+
+    expect(zodToJSONSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Display name' },
+        count: { type: 'number' },
+        enabled: { type: 'boolean' },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+        note: { type: ['string', 'null'] },
+      },
+      required: ['name', 'tags', 'note'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should describe the AI review response', () => {
+    const json = zodToJSONSchema(AIReviewResponseSchema);
+    const issue = json.properties?.bugs?.items;
+
+    expect(json.type).toBe('object');
+    expect(issue?.properties?.severity).toEqual({
+      type: 'string',
+      enum: ['Critical', 'High', 'Medium', 'Low', 'Nitpick'],
+    });
+    expect(issue?.required).toEqual(expect.arrayContaining(['severity', 'file', 'line']));
+  });
+
+  it('should reject Zod types it cannot express', () => {
+    expect(() => zodToJSONSchema(z.union([z.string(), z.number()]))).toThrow(
+      'Unsupported schema type'
+    );
+  });
+});
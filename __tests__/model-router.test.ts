@@ -0,0 +1,140 @@
+import type { AIProviderInterface } from '../src/ai-provider';
+import { ModelRouter, RouteEntry, matchRule } from '../src/ai-provider/model-router';
+import { CodeChunk, ConfigurationError, ReviewResult } from '../src/types';
+
+describe('ModelRouter', () => {
+  const chunk = (id: string, file: string, lines: number, priorityScore?: number): CodeChunk => ({
+    id,
+    name: id,
+    type: 'function',
+    file,
+    startLine: 1,
+    endLine: lines,
+    content: '',
+    priorityScore,
+  });
+
+  const result = (aiProvider: string, model: string): ReviewResult => ({
+    comments: [],
+    summary: '',
+    stats: { errors: 0, warnings: 0, suggestions: 0 },
+    metadata: { aiProvider, model },
+  });
+
+  const createProvider = (aiProvider: string, model: string): jest.Mocked<AIProviderInterface> => ({
+    reviewCode: jest.fn().mockResolvedValue(result(aiProvider, model)),
+    deepDiveReview: jest.fn().mockResolvedValue(result(aiProvider, model)),
+    scoutReview: jest.fn(),
+  });
+
+  let fallback: jest.Mocked<AIProviderInterface>;
+  let local: jest.Mocked<AIProviderInterface>;
+  let strong: jest.Mocked<AIProviderInterface>;
+  let router: ModelRouter;
+
+  beforeEach(() => {
+    fallback = createProvider('openai', 'gpt-4');
+    local = createProvider('ollama', 'llama3');
+    strong = createProvider('claude', 'claude-3-opus');
+    const routes = new Map<string, RouteEntry>([
+      ['local', { target: { provider: 'ollama', model: 'llama3' }, provider: local }],
+      ['strong', { target: { provider: 'claude' }, provider: strong }],
+    ]);
+    router = new ModelRouter(fallback, 'openai', routes, {
+      rules: [
+        { route: 'strong', critical: true },
+        { route: 'strong', minPriority: 70 },
+        { route: 'local', maxComplexity: 3, maxLines: 50 },
+      ],
+    });
+  });
+
+  it('should send batches with critical files or high priority to the strong route', async () => {
+    const routed = router.forReview({ complexityScore: 2, criticalFiles: ['src/auth.ts'] });
+
+    await routed.reviewCode([chunk('login', 'src/auth.ts', 10)], []);
+    await routed.deepDiveReview([chunk('pay', 'src/pay.ts', 10, 80)], []);
+
+    expect(strong.reviewCode).toHaveBeenCalledTimes(1);
+    expect(strong.deepDiveReview).toHaveBeenCalledTimes(1);
+    expect(routed.getDecisions()).toEqual([
+      {
+        chunkId: 'login',
+        file: 'src/auth.ts',
+        name: 'login',
+        route: 'strong',
+        provider: 'claude',
+        model: 'claude-3-opus',
+        reason: 'critical file src/auth.ts',
+      },
+      {
+        chunkId: 'pay',
+        file: 'src/pay.ts',
+        name: 'pay',
+        route: 'strong',
+        provider: 'claude',
+        model: 'claude-3-opus',
+        reason: 'priority 80 >= 70',
+      },
+    ]);
+  });
+
+  it('should send trivial batches to the local route and the rest to the default', async () => {
+    const simple = router.forReview({ complexityScore: 2, criticalFiles: [] });
+    await simple.reviewCode([chunk('a', 'src/a.ts', 20), chunk('b', 'src/b.ts', 20)], []);
+    await simple.reviewCode([chunk('big', 'src/big.ts', 200)], []);
+
+    expect(local.reviewCode).toHaveBeenCalledTimes(1);
+    expect(fallback.reviewCode).toHaveBeenCalledTimes(1);
+    expect(
+      simple.getDecisions().map(({ chunkId, route, reason }) => [chunkId, route, reason])
+    ).toEqual([
+      ['a', 'local', 'complexity 2 <= 3, 40 lines <= 50'],
+      ['b', 'local', 'complexity 2 <= 3, 40 lines <= 50'],
+      ['big', 'default', 'no rule matched'],
+    ]);
+  });
+
+  it('should keep decisions per review', async () => {
+    const first = router.forReview({ complexityScore: 9, criticalFiles: [] });
+    const second = router.forReview({ complexityScore: 9, criticalFiles: [] });
+
+    await first.reviewCode([chunk('a', 'src/a.ts', 5)], []);
+
+    expect(first.getDecisions()).toHaveLength(1);
+    expect(second.getDecisions()).toEqual([]);
+  });
+
+  it('should scout with the default provider', async () => {
+    fallback.scoutReview.mockResolvedValue({ complexityScore: 4, criticalFiles: [] });
+
+    await router.forReview({ complexityScore: 0, criticalFiles: [] }).scoutReview([]);
+
+    expect(fallback.scoutReview).toHaveBeenCalled();
+  });
+
+  it('should reject rules naming an unknown route', () => {
+    expect(
+      () => new ModelRouter(fallback, 'openai', new Map(), { rules: [{ route: 'gpu' }] })
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe('matchRule', () => {
+  const chunks: CodeChunk[] = [
+    { id: 'a', name: 'a', type: 'function', file: 'a.ts', startLine: 1, endLine: 5, content: '' },
+  ];
+  const scout = { complexityScore: 6, criticalFiles: [] };
+
+  it('should require every condition to hold', () => {
+    expect(matchRule({ route: 'x', minComplexity: 5, critical: false }, chunks, scout)).toEqual([
+      'no critical files',
+      'complexity 6 >= 5',
+    ]);
+    expect(matchRule({ route: 'x', minComplexity: 5, maxLines: 3 }, chunks, scout)).toBeUndefined();
+  });
+
+  it('should match every batch without conditions', () => {
+    expect(matchRule({ route: 'x' }, chunks, scout)).toEqual(['catch-all rule']);
+  });
+});
@@ -0,0 +1,97 @@
+import type { GitService } from '../src/git';
+import { ChangedFile, Config, ConfigurationError, GitError } from '../src/types';
+import { PackageConfigResolver } from '../src/utils/package-configs';
+
+jest.mock('dotenv', () => ({
+  config: jest.fn(),
+}));
+
+describe('PackageConfigResolver', () => {
+  const rootConfig: Config = {
+    aiProvider: 'openai',
+    globalRules: ['No console.log in production code'],
+    repository: { owner: 'o', repo: 'r', baseBranch: 'main' },
+    pr: { number: 1 },
+    linter: { enabled: true, tools: ['eslint'], ignorePatterns: ['dist/**'] },
+    budget: { maxTokens: 100_000 },
+  };
+
+  const createGit = (files: Record<string, string>): jest.Mocked<GitService> =>
+    ({
+      getFileContent: jest.fn((path: string) =>
+        path in files
+          ? Promise.resolve(files[path])
+          : Promise.reject(new GitError(`Failed to get file content: ${path}`))
+      ),
+    }) as unknown as jest.Mocked<GitService>;
+
+  const file = (path: string): ChangedFile => ({ path, status: 'modified' });
+
+  it('should apply the nearest package config, merged over the root config', async () => {
+    const git = createGit({
+      'packages/api/code-sherlock.config.json': JSON.stringify({
+        globalRules: ['Validate request bodies with zod'],
+        linter: { tools: ['eslint', 'typescript'] },
+        budget: { maxTokens: 20_000 },
+      }),
+      'packages/web/code-sherlock.config.json': JSON.stringify({
+        sast: { tools: ['semgrep'] },
+      }),
+    });
+    const resolver = new PackageConfigResolver(git, rootConfig);
+
+    const packages = await resolver.groupByPackage(
+      [
+        file('packages/api/src/routes/users.ts'),
+        file('README.md'),
+        file('packages/web/src/App.tsx'),
+        file('packages/api/src/db.ts'),
+        file('tools/release.ts'),
+      ],
+      'feature'
+    );
+
+    expect(packages.map(({ path, files }) => [path, files.map((f) => f.path)])).toEqual([
+      ['packages/api', ['packages/api/src/routes/users.ts', 'packages/api/src/db.ts']],
+      ['.', ['README.md', 'tools/release.ts']],
+      ['packages/web', ['packages/web/src/App.tsx']],
+    ]);
+
+    const [api, root, web] = packages;
+    expect(api?.config.globalRules).toEqual([
+      'No console.log in production code',
+      'Validate request bodies with zod',
+    ]);
+    expect(api?.config.linter).toMatchObject({
+      enabled: true,
+      tools: ['eslint', 'typescript'],
+      ignorePatterns: ['dist/**'],
+    });
+    expect(api?.config.budget).toEqual({ maxTokens: 20_000 });
+    expect(root?.config).toBe(rootConfig);
+    expect(web?.config.sast).toMatchObject({ enabled: true, tools: ['semgrep'] });
+    expect(web?.config.linter).toEqual(rootConfig.linter);
+
+    // Each directory is looked up once, at the reviewed ref
+    const lookups = git.getFileContent.mock.calls.map(([path]) => path);
+    expect(new Set(lookups).size).toBe(lookups.length);
+    expect(git.getFileContent).toHaveBeenCalledWith(
+      'packages/api/src/routes/code-sherlock.config.json',
+      'feature'
+    );
+  });
+
+  it('should reject invalid package configs', async () => {
+    const resolver = new PackageConfigResolver(
+      createGit({ 'lib/code-sherlock.config.json': '{"globalRules": "one rule"}' }),
+      rootConfig
+    );
+
+    await expect(resolver.groupByPackage([file('lib/index.ts')], 'HEAD')).rejects.toThrow(
+      ConfigurationError
+    );
+    await expect(resolver.groupByPackage([file('lib/index.ts')], 'HEAD')).rejects.toThrow(
+      'Invalid configuration in lib/code-sherlock.config.json: globalRules'
+    );
+  });
+});
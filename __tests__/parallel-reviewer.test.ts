@@ -1,6 +1,8 @@
-import { AIProviderInterface } from '../src/ai-provider';
-import { CodeChunk, ReviewResult } from '../src/types';
+import { AIProviderInterface, ReviewCodeOptions } from '../src/ai-provider';
+import { CassetteMissError, CodeChunk, ReviewComment, ReviewResult } from '../src/types';
 import { ParallelReviewer } from '../src/utils/parallel-reviewer';
+import { ReviewStream } from '../src/utils/review-stream';
+import { UsageTracker } from '../src/utils/usage-tracker';
 
 describe('ParallelReviewer', () => {
   let reviewer: ParallelReviewer;
@@ -125,6 +127,55 @@ describe('ParallelReviewer', () => {
       expect(merged.comments.length).toBe(1);
     });
 
+    it('should record every provider that answered a batch', async () => {
+      const batches = [createMockChunks(1), createMockChunks(1), createMockChunks(1)];
+      mockAIProvider.reviewCode
+        .mockResolvedValueOnce({
+          ...createMockReviewResult(),
+          metadata: { aiProvider: 'claude', model: 'claude-3-5-sonnet' },
+        })
+        .mockResolvedValueOnce({
+          ...createMockReviewResult(),
+          metadata: { aiProvider: 'openai', model: 'gpt-4' },
+        })
+        .mockResolvedValueOnce({
+          ...createMockReviewResult(),
+          metadata: { aiProvider: 'claude', model: 'claude-3-5-sonnet' },
+        });
+
+      const result = await reviewer.reviewBatches(batches, mockAIProvider, []);
+
+      expect(result.metadata).toEqual({
+        aiProvider: 'claude, openai',
+        model: 'claude-3-5-sonnet, gpt-4',
+      });
+    });
+
+    it('should stop starting batches once the budget is spent', async () => {
+      reviewer = new ParallelReviewer({ concurrency: 1 });
+      const usage = new UsageTracker({}, { maxTokens: 1000 });
+      const batches = [createMockChunks(1), createMockChunks(2), createMockChunks(1)];
+      mockAIProvider.reviewCode.mockResolvedValue({
+        ...createMockReviewResult(),
+        metadata: { model: 'gpt-4', usage: { promptTokens: 900, completionTokens: 200 } },
+      });
+
+      await reviewer.reviewBatches(batches, mockAIProvider, [], undefined, [], usage);
+
+      expect(mockAIProvider.reviewCode).toHaveBeenCalledTimes(1);
+      expect(usage.getUsage()).toMatchObject({
+        promptTokens: 900,
+        completionTokens: 200,
+        batches: [{ batch: 0, pass: 'review', model: 'gpt-4' }],
+        budget: { exhausted: true },
+      });
+      expect(usage.getUnreviewedChunks().map((chunk) => chunk.id)).toEqual([
+        'chunk0',
+        'chunk1',
+        'chunk0',
+      ]);
+    });
+
     it('should handle timeout', async () => {
       const reviewerWithTimeout = new ParallelReviewer({ timeout: 100 });
       const batches = [createMockChunks(1)];
@@ -156,6 +207,40 @@ describe('ParallelReviewer', () => {
       expect(result.stats.errors).toBe(0);
       expect(result.stats.warnings).toBe(0);
     });
+
+    it('should fail the review when a replayed prompt was never recorded', async () => {
+      const batches = [createMockChunks(1), createMockChunks(1), createMockChunks(1)];
+      const miss = new CassetteMissError('No recording for prompt 0123abcd');
+
+      mockAIProvider.reviewCode
+        .mockResolvedValueOnce(createMockReviewResult())
+        .mockRejectedValueOnce(miss)
+        .mockResolvedValue(createMockReviewResult());
+
+      await expect(reviewer.reviewBatches(batches, mockAIProvider, [])).rejects.toBe(miss);
+    });
+
+    it('should forward streamed findings and emit the rest when the batch completes', async () => {
+      const streamed: ReviewComment = { file: 'a.ts', line: 1, body: 'Early', severity: 'error' };
+      const late: ReviewComment = { file: 'b.ts', line: 2, body: 'Late', severity: 'warning' };
+      const events: string[] = [];
+      const stream = new ReviewStream({
+        onComment: (comment) => events.push(`comment:${comment.body}`),
+        onBatchComplete: () => events.push('batch'),
+      });
+
+      mockAIProvider.reviewCode.mockImplementation(
+        (_chunks: CodeChunk[], _rules: string[], options?: ReviewCodeOptions) => {
+          options?.onComment?.(streamed);
+          events.push('provider-done');
+          return Promise.resolve({ ...createMockReviewResult(1, 1), comments: [streamed, late] });
+        }
+      );
+
+      await reviewer.reviewBatches([createMockChunks(1)], mockAIProvider, [], stream);
+
+      expect(events).toEqual(['comment:Early', 'provider-done', 'comment:Late', 'batch']);
+    });
   });
 
   describe('result merging', () => {
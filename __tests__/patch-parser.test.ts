@@ -0,0 +1,160 @@
+import { parsePatch } from '../src/utils/patch-parser';
+
+describe('parsePatch', () => {
+  it('should read added, deleted, renamed and modified files from git diff output', () => {
+    const patch = [
+      'diff --git a/src/auth.ts b/src/auth.ts',
+      'index 3f2c1ab..9e0d7c4 100644',
+      '--- a/src/auth.ts',
+      '+++ b/src/auth.ts',
+      '@@ -10,4 +10,5 @@ export function login() {',
+      '   const user = find();',
+      '-  return user;',
+      '+  if (!user) return null;',
+      '+  return session(user);',
+      ' }',
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100644',
+      'index 0000000..1a2b3c4',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1,2 @@',
+      '+export const a = 1;',
+      '+export const b = 2;',
+      'diff --git a/src/old.ts b/src/old.ts',
+      'deleted file mode 100644',
+      'index 1a2b3c4..0000000',
+      '--- a/src/old.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export const old = true;',
+      'diff --git a/src/util.ts b/src/helpers/util.ts',
+      'similarity index 90%',
+      'rename from src/util.ts',
+      'rename to src/helpers/util.ts',
+      'index 5d6e7f8..8f7e6d5 100644',
+      '--- a/src/util.ts',
+      '+++ b/src/helpers/util.ts',
+      '@@ -3 +3 @@',
+      '-const x = 1;',
+      '+const x = 2;',
+      'diff --git a/bin/run b/bin/run',
+      'old mode 100644',
+      'new mode 100755',
+      '',
+    ].join('\n');
+
+    expect(parsePatch(patch)).toEqual([
+      {
+        path: 'src/auth.ts',
+        status: 'modified',
+        additions: 2,
+        deletions: 1,
+        changedLines: new Set([11, 12]),
+      },
+      {
+        path: 'src/new.ts',
+        status: 'added',
+        additions: 2,
+        deletions: 0,
+        changedLines: new Set([1, 2]),
+      },
+      {
+        path: 'src/old.ts',
+        status: 'deleted',
+        additions: 0,
+        deletions: 1,
+        changedLines: new Set(),
+      },
+      {
+        path: 'src/helpers/util.ts',
+        status: 'renamed',
+        previousPath: 'src/util.ts',
+        additions: 1,
+        deletions: 1,
+        changedLines: new Set([3]),
+      },
+    ]);
+  });
+
+  it('should read plain diff -u output with timestamps', () => {
+    const patch = [
+      '--- app/main.c\t2026-01-05 10:00:00.000000000 +0100',
+      '+++ app/main.c\t2026-01-05 10:05:00.000000000 +0100',
+      '@@ -1,3 +1,3 @@',
+      ' int main() {',
+      '-  return 1;',
+      '+  return 0;',
+      ' }',
+    ].join('\n');
+
+    expect(parsePatch(patch)).toEqual([
+      expect.objectContaining({ path: 'main.c', status: 'modified', changedLines: new Set([2]) }),
+    ]);
+  });
+
+  it('should ignore the mail header, diffstat and signature of format-patch output', () => {
+    const patch = [
+      'From 3f2c1ab Mon Sep 17 00:00:00 2001',
+      'Subject: [PATCH] Fix timeout',
+      '',
+      '---',
+      ' src/session.ts | 2 +-',
+      ' 1 file changed, 1 insertion(+), 1 deletion(-)',
+      '',
+      'diff --git a/src/session.ts b/src/session.ts',
+      '--- a/src/session.ts',
+      '+++ b/src/session.ts',
+      '@@ -7,1 +7,1 @@',
+      '-const TIMEOUT = 10;',
+      '+const TIMEOUT = 30;',
+      '-- ',
+      '2.43.0',
+      '',
+    ].join('\n');
+
+    expect(parsePatch(patch)).toEqual([
+      {
+        path: 'src/session.ts',
+        status: 'modified',
+        additions: 1,
+        deletions: 1,
+        changedLines: new Set([7]),
+      },
+    ]);
+  });
+
+  it('should skip binary files and combine a file patched twice', () => {
+    const patch = [
+      'diff --git a/logo.png b/logo.png',
+      'index 1111111..2222222 100644',
+      'Binary files a/logo.png and b/logo.png differ',
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      '\\ No newline at end of file',
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -5,0 +6 @@',
+      '+c',
+    ].join('\n');
+
+    expect(parsePatch(patch)).toEqual([
+      {
+        path: 'src/a.ts',
+        status: 'modified',
+        additions: 2,
+        deletions: 1,
+        changedLines: new Set([1, 6]),
+      },
+    ]);
+  });
+
+  it('should return nothing for input without a diff', () => {
+    expect(parsePatch('just some text\n')).toEqual([]);
+  });
+});
@@ -4,6 +4,11 @@ import {
   GitLabCommentService,
   PRCommentServiceFactory,
 } from '../src/pr-comments';
+import { AzureDevOpsCommentService } from '../src/pr-comments/azure-devops';
+import { BitbucketCloudCommentService } from '../src/pr-comments/bitbucket-cloud';
+import { FileCommentService } from '../src/pr-comments/file-comments';
+import { GiteaCommentService } from '../src/pr-comments/gitea';
+import { BitbucketServerCommentService } from '../src/pr-comments/bitbucket-server';
 import { Config, PRCommentError, ReviewComment, ReviewResult } from '../src/types';
 
 jest.mock('@octokit/rest');
@@ -425,6 +430,48 @@ describe('PRCommentService', () => {
       expect(service).toBeInstanceOf(GitHubCommentService);
     });
 
+    it('should create Bitbucket services when Bitbucket credentials are provided', () => {
+      const cloud = PRCommentServiceFactory.create(
+        createConfig({ github: undefined, bitbucket: { token: 'bb-token' } })
+      );
+      expect(cloud).toBeInstanceOf(BitbucketCloudCommentService);
+
+      const server = PRCommentServiceFactory.create(
+        createConfig({
+          github: undefined,
+          bitbucketServer: { baseUrl: 'https://bitbucket.example.com', token: 'bbs-token' },
+        })
+      );
+      expect(server).toBeInstanceOf(BitbucketServerCommentService);
+    });
+
+    it('should create Azure DevOps service when Azure DevOps is configured', () => {
+      const service = PRCommentServiceFactory.create(
+        createConfig({
+          github: undefined,
+          azureDevOps: { organization: 'org', project: 'proj', repositoryId: 'repo', pat: 'pat' },
+        })
+      );
+      expect(service).toBeInstanceOf(AzureDevOpsCommentService);
+    });
+
+    it('should create Gitea service when Gitea is configured', () => {
+      const service = PRCommentServiceFactory.create(
+        createConfig({
+          github: undefined,
+          gitea: { baseUrl: 'https://gitea.example.com', token: 'gitea-token' },
+        })
+      );
+      expect(service).toBeInstanceOf(GiteaCommentService);
+    });
+
+    it('should prefer the file bundle over a live forge', () => {
+      const service = PRCommentServiceFactory.create(
+        createConfig({ bundle: { path: 'review-bundle' } })
+      );
+      expect(service).toBeInstanceOf(FileCommentService);
+    });
+
     it('should throw error if neither token is provided', () => {
       const config = createConfig({ github: undefined });
       expect(() => PRCommentServiceFactory.create(config)).toThrow(PRCommentError);
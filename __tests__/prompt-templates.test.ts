@@ -0,0 +1,134 @@
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigurationError } from '../src/types';
+import { PromptTemplates, renderTemplate } from '../src/utils/prompt-templates';
+
+describe('PromptTemplates', () => {
+  const variables = {
+    chunks: '### Chunk 1',
+    chunkList: '- src/a.py (function): a',
+    rules: '1. No prints',
+    framework: '',
+    language: 'python',
+    files: '- src/a.py',
+    dependencies: '',
+    relationships: '',
+    pass: 'review',
+    default: 'BUILT-IN',
+  };
+
+  describe('parse', () => {
+    it('should read front matter and the body', () => {
+      const template = PromptTemplates.parse(
+        'python.md',
+        '---\npass: review, deepDive\nrole: system\nlanguage: Python\npaths: services/**\n---\nBody {{rules}}\n'
+      );
+
+      expect(template).toEqual({
+        name: 'python.md',
+        role: 'system',
+        passes: ['review', 'deepDive'],
+        languages: ['python'],
+        paths: ['services/**'],
+        body: 'Body {{rules}}\n',
+      });
+    });
+
+    it('should default to a user prompt for every pass', () => {
+      expect(PromptTemplates.parse('plain.md', 'Review {{chunks}}')).toEqual({
+        name: 'plain.md',
+        role: 'user',
+        body: 'Review {{chunks}}',
+      });
+    });
+
+    it('should reject unknown keys, passes and variables', () => {
+      expect(() => PromptTemplates.parse('a.md', '---\nmodel: gpt-4\n---\n')).toThrow(
+        'unknown key "model"'
+      );
+      expect(() => PromptTemplates.parse('b.md', '---\npass: lint\n---\n')).toThrow(
+        ConfigurationError
+      );
+      expect(() => PromptTemplates.parse('c.md', '{{#diff}}x{{/diff}}')).toThrow(
+        'unknown variable {{diff}}'
+      );
+    });
+  });
+
+  describe('select', () => {
+    const templates = new PromptTemplates([
+      PromptTemplates.parse('a-any.md', 'any'),
+      PromptTemplates.parse('b-review.md', '---\npass: review\n---\nreview'),
+      PromptTemplates.parse('c-python.md', '---\nlanguage: python\n---\npython'),
+      PromptTemplates.parse('d-services.md', '---\npaths: services/**\n---\nservices'),
+      PromptTemplates.parse('e-system.md', '---\nrole: system\n---\nsystem'),
+    ]);
+
+    it('should prefer path, then language, then pass matches', () => {
+      const select = (languages: string[], files: string[]): string | undefined =>
+        templates.select('review', 'user', { languages, files })?.name;
+
+      expect(select(['python'], ['services/api/a.py'])).toBe('d-services.md');
+      expect(select(['python'], ['lib/a.py'])).toBe('c-python.md');
+      expect(select(['typescript'], ['lib/a.ts'])).toBe('b-review.md');
+      expect(templates.select('scout', 'user', { languages: ['go'], files: ['a.go'] })?.name).toBe(
+        'a-any.md'
+      );
+    });
+
+    it('should only apply language and path templates when every chunk matches', () => {
+      expect(
+        templates.select('review', 'user', {
+          languages: ['python', 'typescript'],
+          files: ['services/a.py', 'web/b.ts'],
+        })?.name
+      ).toBe('b-review.md');
+    });
+
+    it('should keep system and user templates apart', () => {
+      expect(templates.select('chat', 'system', { languages: ['go'], files: ['a.go'] })?.name).toBe(
+        'e-system.md'
+      );
+      expect(new PromptTemplates().select('review', 'user', { languages: [], files: [] })).toBe(
+        undefined
+      );
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should fill placeholders and drop sections whose variable is empty', () => {
+      const template = PromptTemplates.parse(
+        't.md',
+        '{{default}}\n{{#rules}}Rules:\n{{rules}}{{/rules}}\n{{#framework}}Framework: {{framework}}{{/framework}}'
+      );
+
+      expect(renderTemplate(template, variables)).toBe('BUILT-IN\nRules:\n1. No prints');
+    });
+  });
+
+  describe('load', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'sherlock-prompts-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load Markdown templates from the repository prompts directory', () => {
+      mkdirSync(join(dir, '.sherlock/prompts'), { recursive: true });
+      writeFileSync(join(dir, '.sherlock/prompts/review.md'), '---\npass: review\n---\nR');
+      writeFileSync(join(dir, '.sherlock/prompts/notes.txt'), 'ignored');
+
+      expect(
+        PromptTemplates.forRepository(dir)
+          .list()
+          .map(({ name }) => name)
+      ).toEqual(['review.md']);
+      expect(PromptTemplates.forRepository(dir, { dir: 'missing' }).list()).toEqual([]);
+    });
+  });
+});
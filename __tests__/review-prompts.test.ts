@@ -0,0 +1,60 @@
+import { CodeChunk } from '../src/types';
+import { PromptTemplates } from '../src/utils/prompt-templates';
+import { ReviewPromptBuilder, SYSTEM_PROMPT } from '../src/utils/review-prompts';
+
+describe('ReviewPromptBuilder', () => {
+  const chunks: CodeChunk[] = [
+    {
+      id: '1',
+      name: 'load',
+      type: 'function',
+      file: 'services/loader.py',
+      startLine: 3,
+      endLine: 9,
+      content: 'def load(): pass',
+      dependencies: ['requests'],
+    },
+  ];
+
+  it('should use the built-in prompts when no template matches', () => {
+    const prompt = new ReviewPromptBuilder().build('review', chunks, ['Check errors']);
+
+    expect(prompt.system).toBe(SYSTEM_PROMPT);
+    expect(prompt.user).toContain('Check errors');
+    expect(prompt.user).toContain('def load(): pass');
+    expect(prompt.templates).toEqual([]);
+  });
+
+  it('should add the deep-dive instructions to the rules of that pass', () => {
+    const builder = new ReviewPromptBuilder();
+
+    expect(builder.build('deepDive', chunks, []).user).toContain('exhaustive deep-dive');
+    expect(builder.build('review', chunks, []).user).not.toContain('exhaustive deep-dive');
+  });
+
+  it('should render matching templates with the prompt variables', () => {
+    const builder = new ReviewPromptBuilder(
+      new PromptTemplates([
+        PromptTemplates.parse(
+          'python.md',
+          '---\nlanguage: python\n---\n{{language}} | {{files}} | {{dependencies}} | {{rules}}\n{{chunks}}'
+        ),
+        PromptTemplates.parse(
+          'scout-system.md',
+          '---\npass: scout\nrole: system\n---\nStrict. {{default}}'
+        ),
+      ])
+    );
+
+    const review = builder.build('review', chunks, ['Check errors']);
+    expect(review.system).toBe(SYSTEM_PROMPT);
+    expect(review.user).toMatch(
+      /^python \| - services\/loader\.py \| - requests \| 1\. Check errors\n### Chunk 1: load/
+    );
+    expect(review.templates).toEqual(['python.md']);
+
+    const scout = builder.build('scout', chunks, []);
+    expect(scout.system).toBe('Strict. You are a high-speed complexity analyzer.');
+    expect(scout.templates).toEqual(['scout-system.md', 'python.md']);
+  });
+});
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NormalizedWebhookEvent, ReviewCancelledError } from '../src/types';
+import { ReviewQueue } from '../src/webhooks/review-queue';
+
+describe('ReviewQueue', () => {
+  let testStoragePath: string;
+
+  const createEvent = (prNumber: number, headSha?: string): NormalizedWebhookEvent => ({
+    platform: 'github',
+    eventType: 'pr_updated',
+    prNumber,
+    owner: 'test-org',
+    repo: 'test-repo',
+    sender: 'alice',
+    pr: {
+      title: 'Add feature',
+      body: null,
+      baseBranch: 'main',
+      headBranch: 'feature/x',
+      headSha,
+      isDraft: false,
+    },
+  });
+
+  /**
+   * Runner whose jobs stay in flight until released; rejects when aborted
+   */
+  const createControlledRunner = () => {
+    const started: Array<{ event: NormalizedWebhookEvent; signal: AbortSignal }> = [];
+    const releases: Array<() => void> = [];
+    const runner = jest.fn((event: NormalizedWebhookEvent, signal: AbortSignal) => {
+      started.push({ event, signal });
+      return new Promise<void>((resolve, reject) => {
+        releases.push(resolve);
+        signal.addEventListener('abort', () => reject(new ReviewCancelledError()));
+      });
+    });
+    const releaseAll = () => releases.splice(0).forEach((release) => release());
+    return { runner, started, releaseAll };
+  };
+
+  beforeEach(() => {
+    testStoragePath = path.join(__dirname, 'test-queue-' + Date.now());
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testStoragePath)) {
+      fs.rmSync(testStoragePath, { recursive: true, force: true });
+    }
+  });
+
+  it('should cancel the running review when a newer head SHA arrives', async () => {
+    const { runner, started, releaseAll } = createControlledRunner();
+    const queue = new ReviewQueue({ runner });
+
+    expect(queue.enqueue(createEvent(1, 'sha-1'))).toBe('queued');
+    expect(started).toHaveLength(1);
+
+    expect(queue.enqueue(createEvent(1, 'sha-2'))).toBe('superseded');
+    expect(started[0]?.signal.aborted).toBe(true);
+
+    // The superseded run settles asynchronously, then the new SHA starts
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(started).toHaveLength(2);
+    expect(started[1]?.event.pr?.headSha).toBe('sha-2');
+
+    releaseAll();
+    await queue.onIdle();
+  });
+
+  it('should replace a pending review with the newer head SHA', async () => {
+    const { runner, started, releaseAll } = createControlledRunner();
+    const queue = new ReviewQueue({ runner });
+
+    queue.enqueue(createEvent(1, 'sha-a'));
+    queue.enqueue(createEvent(2, 'sha-1'));
+    expect(queue.enqueue(createEvent(2, 'sha-2'))).toBe('superseded');
+
+    const { pending } = queue.getState();
+    expect(pending).toHaveLength(1);
+    expect(pending[0]?.headSha).toBe('sha-2');
+
+    releaseAll();
+    await new Promise((resolve) => setImmediate(resolve));
+    releaseAll();
+    await queue.onIdle();
+
+    expect(started.map((s) => s.event.pr?.headSha)).toEqual(['sha-a', 'sha-2']);
+  });
+
+  it('should ignore redeliveries of the same head SHA', async () => {
+    const { runner, releaseAll } = createControlledRunner();
+    const queue = new ReviewQueue({ runner });
+
+    queue.enqueue(createEvent(1, 'sha-1'));
+    expect(queue.enqueue(createEvent(1, 'sha-1'))).toBe('duplicate');
+    expect(queue.enqueue(createEvent(1))).toBe('duplicate');
+
+    releaseAll();
+    await queue.onIdle();
+    expect(runner).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run different PRs concurrently up to the limit', async () => {
+    const { runner, started, releaseAll } = createControlledRunner();
+    const queue = new ReviewQueue({ runner, concurrency: 2 });
+
+    queue.enqueue(createEvent(1, 'a'));
+    queue.enqueue(createEvent(2, 'b'));
+    queue.enqueue(createEvent(3, 'c'));
+
+    expect(started.map((s) => s.event.prNumber)).toEqual([1, 2]);
+    expect(queue.getState().pending.map((job) => job.key)).toEqual(['github:test-org/test-repo#3']);
+
+    releaseAll();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(started.map((s) => s.event.prNumber)).toEqual([1, 2, 3]);
+
+    releaseAll();
+    await queue.onIdle();
+  });
+
+  it('should keep running after a review fails', async () => {
+    const runner = jest.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+    const queue = new ReviewQueue({ runner });
+
+    queue.enqueue(createEvent(1, 'a'));
+    queue.enqueue(createEvent(2, 'b'));
+    await queue.onIdle();
+
+    expect(runner).toHaveBeenCalledTimes(2);
+  });
+
+  it('should persist pending and running reviews and resume them', async () => {
+    const first = createControlledRunner();
+    const queue = new ReviewQueue({ runner: first.runner, storagePath: testStoragePath });
+
+    queue.enqueue(createEvent(1, 'a'));
+    queue.enqueue(createEvent(2, 'b'));
+
+    const stateFile = path.join(testStoragePath, 'review-queue.json');
+    const saved = JSON.parse(fs.readFileSync(stateFile, 'utf-8')) as { jobs: unknown[] };
+    expect(saved.jobs).toHaveLength(2);
+
+    // Simulate a restart: a fresh queue picks up both jobs
+    const runner = jest.fn().mockResolvedValue(undefined);
+    const restarted = new ReviewQueue({ runner, storagePath: testStoragePath });
+    expect(restarted.resume()).toBe(2);
+    await restarted.onIdle();
+
+    expect(runner.mock.calls.map(([event]) => (event as NormalizedWebhookEvent).prNumber)).toEqual([
+      1, 2,
+    ]);
+    const after = JSON.parse(fs.readFileSync(stateFile, 'utf-8')) as { jobs: unknown[] };
+    expect(after.jobs).toHaveLength(0);
+  });
+});
@@ -72,6 +72,21 @@ describe('ReviewStream', () => {
 
       expect(() => streamWithoutCallback.emitComment(comment)).not.toThrow();
     });
+
+    it('should emit a comment only once', () => {
+      const comment: ReviewComment = {
+        file: 'test.ts',
+        line: 1,
+        severity: 'error',
+        body: 'Streamed early',
+        category: 'bugs',
+      };
+
+      stream.emitComment(comment);
+      stream.emitComment({ ...comment });
+
+      expect(onCommentSpy).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('emitProgress', () => {
@@ -0,0 +1,219 @@
+import type { CodegraphAnalyzer } from '../src/analyzers/codegraph-analyzer';
+import type { GitService } from '../src/git';
+import { CodeIndexer } from '../src/types';
+import {
+  REVIEW_TOOLS,
+  RepositoryTools,
+  buildToolInstructions,
+  formatToolResults,
+  parseToolCalls,
+} from '../src/utils/review-tools';
+
+describe('RepositoryTools', () => {
+  const files: Record<string, string> = {
+    'src/util.ts': [
+      "import { escape } from './escape';",
+      '',
+      'export function sanitize(input: string): string {',
+      '  return escape(input.trim());',
+      '}',
+    ].join('\n'),
+    'src/app.ts': 'const name = sanitize(raw);\nconsole.log(name);',
+  };
+
+  let git: { repoPath: string; getFileContent: jest.Mock; grep: jest.Mock };
+
+  beforeEach(() => {
+    git = {
+      repoPath: '/repo',
+      getFileContent: jest.fn((path: string) =>
+        path in files ? Promise.resolve(files[path]) : Promise.reject(new Error(`No ${path}`))
+      ),
+      grep: jest.fn().mockResolvedValue([]),
+    };
+  });
+
+  const createTools = (
+    options: { codegraph?: unknown; indexer?: CodeIndexer; rootDir?: string } = {}
+  ) =>
+    new RepositoryTools({
+      git: git as unknown as GitService,
+      ref: 'feature',
+      codegraph: options.codegraph as CodegraphAnalyzer | undefined,
+      indexer: options.indexer,
+      rootDir: options.rootDir,
+      maxToolCalls: 3,
+      maxOutputChars: 200,
+    });
+
+  describe('read_file', () => {
+    it('should return numbered lines of the requested range', async () => {
+      const output = await createTools().run({
+        name: 'read_file',
+        arguments: { path: './src/util.ts', startLine: 3, endLine: 4 },
+      });
+
+      expect(git.getFileContent).toHaveBeenCalledWith('src/util.ts', 'feature');
+      expect(output).toBe(
+        '3: export function sanitize(input: string): string {\n4:   return escape(input.trim());'
+      );
+    });
+
+    it('should refuse paths outside the repository', async () => {
+      const tools = createTools();
+
+      await expect(
+        tools.run({ name: 'read_file', arguments: { path: '../secrets.env' } })
+      ).resolves.toMatch(/^Error: Path must be inside the repository/);
+      await expect(
+        tools.run({ name: 'read_file', arguments: { path: '/etc/passwd' } })
+      ).resolves.toMatch(/^Error: Path must be inside the repository/);
+      expect(git.getFileContent).not.toHaveBeenCalled();
+    });
+
+    it('should report lookup failures as text', async () => {
+      await expect(
+        createTools().run({ name: 'read_file', arguments: { path: 'missing.ts' } })
+      ).resolves.toBe('Error: No missing.ts');
+    });
+  });
+
+  describe('find_symbol', () => {
+    it('should show the definition found by grep', async () => {
+      git.grep.mockResolvedValue([
+        { file: 'src/util.ts', line: 3, text: 'export function sanitize(input: string): string {' },
+      ]);
+
+      const output = await createTools().run({
+        name: 'find_symbol',
+        arguments: { name: 'sanitize' },
+      });
+
+      expect(git.grep.mock.calls[0][0]).toContain('sanitize');
+      expect(git.grep.mock.calls[0][1]).toBe('feature');
+      expect(output).toContain('src/util.ts:3');
+      expect(output).toContain('4:   return escape(input.trim());');
+      expect(output).not.toContain('1: import');
+    });
+
+    it('should use the indexer span and codegraph exporters when available', async () => {
+      const indexer: CodeIndexer = {
+        isAvailable: jest.fn().mockResolvedValue(true),
+        extractSymbols: jest.fn().mockResolvedValue([
+          {
+            name: 'sanitize',
+            type: 'function',
+            signature: '',
+            start_line: 3,
+            end_line: 5,
+            is_exported: true,
+          },
+        ]),
+        extractDeps: jest.fn(),
+        getHash: jest.fn(),
+      };
+      const codegraph = { findExporters: jest.fn().mockReturnValue(['src/util.ts']) };
+
+      const output = await createTools({
+        codegraph,
+        indexer,
+        rootDir: '/tmp/sherlock-worktree-1',
+      }).run({
+        name: 'find_symbol',
+        arguments: { name: 'sanitize' },
+      });
+
+      // The indexer parses the checkout of the reviewed ref
+      expect(indexer.extractSymbols).toHaveBeenCalledWith(
+        '/tmp/sherlock-worktree-1',
+        'src/util.ts'
+      );
+      expect(output).toBe(
+        'src/util.ts:3\n3: export function sanitize(input: string): string {\n' +
+          '4:   return escape(input.trim());\n5: }'
+      );
+    });
+
+    it('should only accept identifiers', async () => {
+      await expect(
+        createTools().run({ name: 'find_symbol', arguments: { name: 'a|b' } })
+      ).resolves.toMatch(/must be an identifier/);
+      expect(git.grep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('find_callers', () => {
+    it('should list calls without the definition, naming the caller when known', async () => {
+      git.grep.mockResolvedValue([
+        { file: 'src/util.ts', line: 3, text: 'export function sanitize(input: string) {' },
+        { file: 'src/app.ts', line: 1, text: 'const name = sanitize(raw);' },
+      ]);
+      const codegraph = {
+        findCallers: jest.fn().mockReturnValue([
+          { file: 'src/util.ts', caller: 'anonymous', line: 3 },
+          { file: 'src/app.ts', caller: 'render', line: 1 },
+        ]),
+      };
+
+      const output = await createTools({ codegraph }).run({
+        name: 'find_callers',
+        arguments: { name: 'sanitize' },
+      });
+
+      expect(output).toBe('src/app.ts:1: const name = sanitize(raw); (in render)');
+    });
+  });
+
+  describe('grep', () => {
+    it('should search under a path and truncate long output', async () => {
+      git.grep.mockResolvedValue(
+        Array.from({ length: 20 }, (_, i) => ({ file: 'src/a.ts', line: i + 1, text: 'TODO' }))
+      );
+
+      const output = await createTools().run({
+        name: 'grep',
+        arguments: { pattern: 'TODO', path: 'src' },
+      });
+
+      expect(git.grep).toHaveBeenCalledWith('TODO', 'feature', 'src');
+      expect(output).toMatch(/^src\/a\.ts:1: TODO/);
+      expect(output).toMatch(/truncated \d+ characters$/);
+    });
+
+    it('should reject unknown tools', async () => {
+      await expect(createTools().run({ name: 'rm', arguments: {} })).resolves.toMatch(
+        /Unknown tool "rm"/
+      );
+    });
+  });
+});
+
+describe('tool prompting', () => {
+  it('should describe the tools and the budget', () => {
+    const instructions = buildToolInstructions(REVIEW_TOOLS, 5);
+
+    for (const tool of REVIEW_TOOLS) {
+      expect(instructions).toContain(`- ${tool.name}(`);
+    }
+    expect(instructions).toContain('at most 5 tool call(s)');
+  });
+
+  it('should format results with the remaining budget', () => {
+    const call = { name: 'grep', arguments: { pattern: 'x' } };
+
+    expect(formatToolResults([{ call, output: 'a.ts:1: x' }], 2)).toContain('2 tool call(s) left');
+    expect(formatToolResults([{ call, output: 'a.ts:1: x' }], 0)).toContain(
+      'reply with the final review JSON now'
+    );
+  });
+
+  it('should only parse tool requests', () => {
+    expect(
+      parseToolCalls(
+        '{"tool_calls": [{"name": "grep", "arguments": {"pattern": "x"}}, {"bad": 1}]}'
+      )
+    ).toEqual([{ name: 'grep', arguments: { pattern: 'x' } }]);
+    expect(parseToolCalls('{"bugs": []}')).toBeUndefined();
+    expect(parseToolCalls('not json')).toBeUndefined();
+  });
+});
@@ -3,7 +3,7 @@ import { ChunkService } from '../src/chunker';
 import { GitService } from '../src/git';
 import { PRCommentService } from '../src/pr-comments';
 import { PRReviewer } from '../src/reviewer';
-import { Config, ReviewResult } from '../src/types';
+import { Config, GitError, ReviewResult } from '../src/types';
 
 jest.mock('../src/chunker');
 jest.mock('../src/git');
@@ -91,9 +91,11 @@ describe('PRReviewer with Caching', () => {
 
     mockGitService = {
       checkoutBranch: jest.fn().mockResolvedValue(undefined),
+      addWorktree: jest.fn().mockResolvedValue('/tmp/sherlock-worktree-1'),
+      removeWorktree: jest.fn().mockResolvedValue(undefined),
       getChangedFiles: jest.fn().mockResolvedValue(mockChangedFiles),
       getCurrentBranch: jest.fn().mockResolvedValue('main'),
-      getFileContent: jest.fn(),
+      getFileContent: jest.fn().mockRejectedValue(new GitError('Failed to get file content')),
     } as unknown as jest.Mocked<GitService>;
 
     mockAIProvider = {
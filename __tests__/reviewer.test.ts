@@ -1,9 +1,20 @@
 import { AIProviderInterface } from '../src/ai-provider';
+import { ConsensusAIProvider } from '../src/ai-provider/consensus-provider';
+import * as linterIntegration from '../src/analyzers/linter-integration';
+import * as sastIntegration from '../src/analyzers/sast-integration';
+import { ToolChecker } from '../src/analyzers/tool-checker';
 import { ChunkService } from '../src/chunker';
-import { GitService } from '../src/git';
+import { GitService, STAGED_REF } from '../src/git';
 import { PRCommentService } from '../src/pr-comments';
 import { PRReviewer } from '../src/reviewer';
-import { ChangedFile, CodeChunk, Config, ReviewResult } from '../src/types';
+import {
+  ChangedFile,
+  CodeChunk,
+  Config,
+  GitError,
+  ReviewComment,
+  ReviewResult,
+} from '../src/types';
 
 jest.mock('../src/git');
 jest.mock('../src/chunker');
@@ -57,7 +68,15 @@ describe('PRReviewer', () => {
 
     mockGitService = {
       checkoutBranch: jest.fn().mockResolvedValue(undefined),
+      addWorktree: jest.fn().mockResolvedValue('/tmp/sherlock-worktree-1'),
+      removeWorktree: jest.fn().mockResolvedValue(undefined),
+      checkoutIndex: jest.fn(),
+      removeIndexCheckout: jest.fn().mockResolvedValue(undefined),
+      applyPatch: jest.fn().mockResolvedValue('4b825dc'),
       getChangedFiles: jest.fn(),
+      getChangedLines: jest.fn().mockResolvedValue(new Set()),
+      getFileContent: jest.fn().mockRejectedValue(new GitError('Failed to get file content')),
+      listUniqueCommits: jest.fn(),
       getCurrentBranch: jest.fn().mockResolvedValue('feature-branch'),
     } as unknown as jest.Mocked<GitService>;
 
@@ -93,6 +112,10 @@ describe('PRReviewer', () => {
     reviewer = new PRReviewer(mockConfig);
   });
 
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   describe('reviewPR', () => {
     it('should complete full review workflow', async () => {
       const changedFiles: ChangedFile[] = [
@@ -120,13 +143,16 @@ describe('PRReviewer', () => {
 
       const result = await reviewer.reviewPR('feature-branch', true);
 
-      expect(mockGitService.checkoutBranch).toHaveBeenCalledWith('feature-branch');
+      expect(mockGitService.checkoutBranch).not.toHaveBeenCalled();
       expect(mockGitService.getChangedFiles).toHaveBeenCalledWith('feature-branch', 'main');
+      expect(mockGitService.addWorktree).toHaveBeenCalledWith('feature-branch');
       expect(mockChunkService.chunkChangedFiles).toHaveBeenCalledWith(
         changedFiles,
-        'feature-branch'
+        'feature-branch',
+        '/tmp/sherlock-worktree-1'
       );
-      expect(mockAIProvider.reviewCode).toHaveBeenCalledWith(mockChunks, ['rule1', 'rule2']);
+      expect(mockGitService.removeWorktree).toHaveBeenCalledWith('/tmp/sherlock-worktree-1');
+      expect(mockAIProvider.reviewCode).toHaveBeenCalledWith(mockChunks, ['rule1', 'rule2'], {});
 
       // Should filter comments to only changed lines within chunk range
       expect(result.comments).toHaveLength(2); // Both within chunk range (5-15)
@@ -134,6 +160,316 @@ describe('PRReviewer', () => {
       expect(result.stats.warnings).toBe(1);
     });
 
+    it('should chunk staged changes in a checkout of the index', async () => {
+      const changedFiles: ChangedFile[] = [
+        { path: 'src/file.ts', status: 'modified', changedLines: new Set([10]) },
+      ];
+      mockGitService.checkoutIndex.mockResolvedValue('/tmp/sherlock-index-1');
+      mockGitService.getChangedFiles.mockResolvedValue(changedFiles);
+      mockChunkService.chunkChangedFiles.mockResolvedValue([createChunk()]);
+      mockAIProvider.reviewCode.mockResolvedValue({
+        comments: [],
+        summary: 'Review completed',
+        stats: { errors: 0, warnings: 0, suggestions: 0 },
+      });
+
+      await reviewer.reviewPR(STAGED_REF, false);
+
+      expect(mockGitService.addWorktree).not.toHaveBeenCalled();
+      expect(mockChunkService.chunkChangedFiles).toHaveBeenCalledWith(
+        changedFiles,
+        STAGED_REF,
+        '/tmp/sherlock-index-1'
+      );
+      expect(mockGitService.removeIndexCheckout).toHaveBeenCalledWith('/tmp/sherlock-index-1');
+      expect(mockGitService.removeWorktree).not.toHaveBeenCalled();
+    });
+
+    it('should report how many consensus providers agreed on each finding', async () => {
+      const member = (model: string): jest.Mocked<AIProviderInterface> =>
+        ({
+          reviewCode: jest.fn().mockResolvedValue({
+            comments: [
+              { file: 'src/file.ts', line: 10, body: 'Unchecked input', severity: 'error' },
+            ],
+            summary: `Reviewed by ${model}`,
+            stats: { errors: 1, warnings: 0, suggestions: 0 },
+            metadata: { model },
+          }),
+          deepDiveReview: jest.fn(),
+          scoutReview: jest.fn().mockResolvedValue({ complexityScore: 5, criticalFiles: [] }),
+        }) as unknown as jest.Mocked<AIProviderInterface>;
+      const { AIProviderFactory } = require('../src/ai-provider');
+      jest.spyOn(AIProviderFactory, 'create').mockReturnValue(
+        new ConsensusAIProvider([
+          { name: 'openai', provider: member('gpt-4') },
+          { name: 'claude', provider: member('claude-3') },
+        ])
+      );
+      reviewer = new PRReviewer(mockConfig);
+      mockGitService.getChangedFiles.mockResolvedValue([
+        { path: 'src/file.ts', status: 'modified', changedLines: new Set([10]) },
+      ]);
+      mockChunkService.chunkChangedFiles.mockResolvedValue([createChunk()]);
+
+      const result = await reviewer.reviewPR('feature-branch', false);
+
+      expect(result.comments).toEqual([
+        expect.objectContaining({ body: 'Unchecked input', agreement: 2 }),
+      ]);
+    });
+
+    it('should leave generated and vendored files out and list them in the summary', async () => {
+      mockGitService.getChangedFiles.mockResolvedValue([
+        { path: 'src/file.ts', status: 'modified', changedLines: new Set([10]) },
+        { path: 'package-lock.json', status: 'modified', changedLines: new Set([3]) },
+        { path: 'api/user.pb.go', status: 'modified', changedLines: new Set([7]) },
+      ]);
+      mockChunkService.chunkChangedFiles.mockResolvedValue([createChunk()]);
+      mockAIProvider.reviewCode.mockResolvedValue({
+        comments: [],
+        summary: 'Review completed',
+        stats: { errors: 0, warnings: 0, suggestions: 0 },
+      });
+
+      const result = await reviewer.reviewPR('feature-branch', false);
+
+      expect(mockChunkService.chunkChangedFiles).toHaveBeenCalledWith(
+        [expect.objectContaining({ path: 'src/file.ts' })],
+        'feature-branch',
+        '/tmp/sherlock-worktree-1'
+      );
+      expect(result.skippedFiles).toEqual([
+        { path: 'package-lock.json', kind: 'lockfile' },
+        { path: 'api/user.pb.go', kind: 'generated' },
+      ]);
+      expect(result.summary).toContain('Not reviewed: 📦 Dependencies (1), ⚙️ Configuration (1)');
+    });
+
+    it('should review each package with its own config and tag its comments', async () => {
+      mockGitService.getChangedFiles.mockResolvedValue([
+        { path: 'packages/api/src/users.ts', status: 'modified', changedLines: new Set([10]) },
+        { path: 'src/file.ts', status: 'modified', changedLines: new Set([10]) },
+      ]);
+      mockGitService.getFileContent.mockImplementation((path: string) =>
+        path === 'packages/api/code-sherlock.config.json'
+          ? Promise.resolve(JSON.stringify({ globalRules: ['api-rule'] }))
+          : Promise.reject(new GitError('Failed to get file content'))
+      );
+      mockChunkService.chunkChangedFiles.mockImplementation((files) =>
+        Promise.resolve(files.map((file) => createChunk({ id: file.path, file: file.path })))
+      );
+      mockAIProvider.reviewCode.mockImplementation((chunks) =>
+        Promise.resolve({
+          comments: chunks.map((chunk) => ({
+            file: chunk.file,
+            line: 10,
+            body: 'Issue found',
+            severity: 'warning' as const,
+          })),
+          summary: 'Review completed',
+          stats: { errors: 0, warnings: 1, suggestions: 0 },
+          metadata: chunks[0]?.file.startsWith('packages/api/')
+            ? { aiProvider: 'claude', model: 'claude-sonnet-4', repairs: 1 }
+            : { aiProvider: 'openai', model: 'gpt-4' },
+        })
+      );
+
+      const result = await reviewer.reviewPR('feature-branch', false);
+
+      expect(mockAIProvider.reviewCode).toHaveBeenCalledWith(
+        [expect.objectContaining({ file: 'packages/api/src/users.ts' })],
+        ['rule1', 'rule2', 'api-rule'],
+        {}
+      );
+      expect(mockAIProvider.reviewCode).toHaveBeenCalledWith(
+        [expect.objectContaining({ file: 'src/file.ts' })],
+        ['rule1', 'rule2'],
+        {}
+      );
+      expect(result.comments).toHaveLength(2);
+      expect(result.comments).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ file: 'packages/api/src/users.ts', package: 'packages/api' }),
+          expect.objectContaining({ file: 'src/file.ts', package: '.' }),
+        ])
+      );
+      expect(result.packages).toEqual([
+        { path: 'packages/api', stats: { errors: 0, warnings: 1, suggestions: 0 } },
+        { path: '.', stats: { errors: 0, warnings: 1, suggestions: 0 } },
+      ]);
+      expect(result.metadata).toMatchObject({
+        aiProvider: 'claude, openai',
+        model: 'claude-sonnet-4, gpt-4',
+        repairs: 1,
+      });
+    });
+
+    it('should lint and scan a package that enables tools the root leaves off', async () => {
+      reviewer = new PRReviewer(
+        createConfig({
+          linter: { enabled: false, tools: [] },
+          sast: { enabled: false, tools: [] },
+        })
+      );
+      mockGitService.getChangedFiles.mockResolvedValue([
+        { path: 'packages/api/src/users.ts', status: 'modified', changedLines: new Set([10]) },
+      ]);
+      mockGitService.getFileContent.mockImplementation((path: string) =>
+        path === 'packages/api/code-sherlock.config.json'
+          ? Promise.resolve(
+              JSON.stringify({
+                linter: { enabled: true, tools: ['eslint'] },
+                sast: { enabled: true, tools: ['semgrep'] },
+              })
+            )
+          : path === 'packages/api/src/users.ts'
+            ? Promise.resolve('code content')
+            : Promise.reject(new GitError('Failed to get file content'))
+      );
+      mockChunkService.chunkChangedFiles.mockResolvedValue([
+        createChunk({ file: 'packages/api/src/users.ts' }),
+      ]);
+      mockAIProvider.reviewCode.mockResolvedValue({
+        comments: [],
+        summary: 'Review completed',
+        stats: { errors: 0, warnings: 0, suggestions: 0 },
+      });
+      const toolComment = (tool: string, line: number, body: string): ReviewComment => ({
+        file: 'packages/api/src/users.ts',
+        line,
+        body,
+        severity: 'error',
+        tool,
+      });
+      const available = { available: [], missing: [], allAvailable: true };
+      const checkLinterTools = jest
+        .spyOn(ToolChecker, 'checkLinterTools')
+        .mockResolvedValue(available);
+      const checkSASTTools = jest.spyOn(ToolChecker, 'checkSASTTools').mockResolvedValue(available);
+      jest.spyOn(linterIntegration, 'createLinterIntegration').mockReturnValue({
+        analyze: jest
+          .fn()
+          .mockResolvedValue({ summary: { errors: 1, warnings: 0, suggestions: 0 } }),
+        convertToReviewComments: jest
+          .fn()
+          .mockReturnValue([toolComment('eslint', 10, 'Missing return type on function')]),
+      } as unknown as linterIntegration.LinterIntegration);
+      jest.spyOn(sastIntegration, 'createSASTIntegration').mockReturnValue({
+        analyze: jest
+          .fn()
+          .mockResolvedValue({ summary: { critical: 0, high: 1, medium: 0, low: 0 } }),
+        convertToReviewComments: jest
+          .fn()
+          .mockReturnValue([toolComment('semgrep', 15, 'SQL query built from user input')]),
+      } as unknown as sastIntegration.SASTIntegration);
+
+      const result = await reviewer.reviewPR('feature-branch', false);
+
+      expect(checkLinterTools).toHaveBeenCalledWith(['eslint']);
+      expect(checkSASTTools).toHaveBeenCalledWith(['semgrep']);
+      expect(result.comments).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ tool: 'eslint', package: 'packages/api' }),
+          expect.objectContaining({ tool: 'semgrep', package: 'packages/api' }),
+        ])
+      );
+    });
+
+    it('should keep package reviews within the root budget', async () => {
+      reviewer = new PRReviewer(createConfig({ budget: { maxTokens: 1_000 } }));
+      mockGitService.getChangedFiles.mockResolvedValue([
+        { path: 'packages/api/src/users.ts', status: 'modified', changedLines: new Set([10]) },
+        { path: 'src/file.ts', status: 'modified', changedLines: new Set([10]) },
+      ]);
+      mockGitService.getFileContent.mockImplementation((path: string) =>
+        path === 'packages/api/code-sherlock.config.json'
+          ? Promise.resolve(JSON.stringify({ budget: { maxTokens: 5_000 } }))
+          : Promise.reject(new GitError('Failed to get file content'))
+      );
+      mockChunkService.chunkChangedFiles.mockImplementation((files) =>
+        Promise.resolve(files.map((file) => createChunk({ id: file.path, file: file.path })))
+      );
+      mockAIProvider.scoutReview.mockResolvedValue({
+        complexityScore: 5,
+        criticalFiles: [],
+        usage: { promptTokens: 900, completionTokens: 100 },
+        model: 'gpt-4',
+      });
+
+      const result = await reviewer.reviewPR('feature-branch', false);
+
+      // The first package's scout pass spends the whole review's budget
+      expect(mockAIProvider.scoutReview).toHaveBeenCalledTimes(1);
+      expect(mockAIProvider.reviewCode).not.toHaveBeenCalled();
+      expect(result.metadata?.usage).toMatchObject({
+        promptTokens: 900,
+        completionTokens: 100,
+        budget: {
+          maxTokens: 1_000,
+          exhausted: true,
+          unreviewedChunks: [
+            expect.objectContaining({ id: 'packages/api/src/users.ts' }),
+            expect.objectContaining({ id: 'src/file.ts' }),
+          ],
+        },
+      });
+    });
+
+    it('should deep dive a single batch touching a critical file, with tools', async () => {
+      reviewer = new PRReviewer(createConfig({ agent: { maxToolCalls: 4 } }));
+      mockGitService.getChangedFiles.mockResolvedValue([
+        { path: 'src/file.ts', status: 'modified', changedLines: new Set([10]) },
+      ]);
+      mockChunkService.chunkChangedFiles.mockResolvedValue([createChunk()]);
+      mockAIProvider.scoutReview.mockResolvedValue({
+        complexityScore: 8,
+        criticalFiles: ['src/file.ts'],
+      });
+      mockAIProvider.deepDiveReview.mockResolvedValue({
+        comments: [],
+        summary: 'Deep dive completed',
+        stats: { errors: 0, warnings: 0, suggestions: 0 },
+      });
+      mockAIProvider.reviewCode.mockResolvedValue({
+        comments: [],
+        summary: '',
+        stats: { errors: 0, warnings: 0, suggestions: 0 },
+      });
+
+      const result = await reviewer.reviewPR('feature-branch', false);
+
+      expect(mockAIProvider.deepDiveReview).toHaveBeenCalledWith(
+        [expect.objectContaining({ file: 'src/file.ts' })],
+        ['rule1', 'rule2'],
+        { tools: expect.objectContaining({ budget: 4 }) }
+      );
+      expect(result.summary).toBe('Deep dive completed');
+    });
+
+    it('should count the scout pass towards the token budget', async () => {
+      reviewer = new PRReviewer(createConfig({ budget: { maxTokens: 1_000 } }));
+      mockGitService.getChangedFiles.mockResolvedValue([
+        { path: 'src/file.ts', status: 'modified', changedLines: new Set([10]) },
+      ]);
+      mockChunkService.chunkChangedFiles.mockResolvedValue([createChunk()]);
+      mockAIProvider.scoutReview.mockResolvedValue({
+        complexityScore: 5,
+        criticalFiles: [],
+        usage: { promptTokens: 900, completionTokens: 100 },
+        model: 'gpt-4',
+      });
+
+      const result = await reviewer.reviewPR('feature-branch', false);
+
+      // Neither the review nor the naming and PR title analyses run
+      expect(mockAIProvider.reviewCode).not.toHaveBeenCalled();
+      expect(result.metadata?.usage?.budget).toMatchObject({
+        exhausted: true,
+        unreviewedChunks: [expect.objectContaining({ id: 'chunk1' })],
+      });
+    });
+
     it('should return early if no files changed', async () => {
       mockGitService.getChangedFiles.mockResolvedValue([]);
 
@@ -314,6 +650,140 @@ describe('PRReviewer', () => {
     });
   });
 
+  describe('reviewCommits', () => {
+    it('should review each commit against its parent and attribute findings', async () => {
+      mockGitService.listUniqueCommits.mockResolvedValue([
+        { sha: 'b2b2b2b', subject: 'Add parser' },
+        { sha: 'c3c3c3c', subject: 'Fix review nits' },
+      ]);
+      mockGitService.getChangedFiles.mockResolvedValue([
+        { path: 'src/file.ts', status: 'added', changedLines: new Set([10]) },
+      ]);
+      mockChunkService.chunkChangedFiles
+        .mockResolvedValueOnce([createChunk({ id: 'first', content: 'parse()' })])
+        .mockResolvedValueOnce([createChunk({ id: 'second', content: 'parse(input)' })]);
+      // Naming and PR title passes also call reviewCode; only the commit reviews answer
+      const reviews: Record<string, ReviewResult> = {
+        first: {
+          comments: [{ file: 'src/file.ts', line: 10, body: 'Unchecked input', severity: 'error' }],
+          summary: 'Parser added',
+          stats: { errors: 1, warnings: 0, suggestions: 0 },
+          recommendation: 'BLOCK',
+        },
+        second: {
+          comments: [],
+          summary: 'Nits fixed',
+          stats: { errors: 0, warnings: 0, suggestions: 0 },
+          recommendation: 'N/A',
+        },
+      };
+      mockAIProvider.reviewCode.mockImplementation((chunks, _rules, options) =>
+        Promise.resolve(
+          (options?.pass === undefined || options.pass === 'review'
+            ? reviews[chunks[0]?.id ?? '']
+            : undefined) ?? {
+            comments: [],
+            summary: '',
+            stats: { errors: 0, warnings: 0, suggestions: 0 },
+          }
+        )
+      );
+
+      const result = await reviewer.reviewCommits('feature-branch');
+
+      expect(mockGitService.listUniqueCommits).toHaveBeenCalledWith('feature-branch', 'main');
+      expect(mockGitService.getChangedFiles).toHaveBeenCalledWith('b2b2b2b', 'b2b2b2b^');
+      expect(mockGitService.getChangedFiles).toHaveBeenCalledWith('c3c3c3c', 'c3c3c3c^');
+      expect(result.comments).toEqual([
+        expect.objectContaining({ body: 'Unchecked input', commit: 'b2b2b2b' }),
+      ]);
+      // An unrecognized recommendation doesn't outrank BLOCK
+      expect(result.recommendation).toBe('BLOCK');
+      expect(result.commits).toEqual([
+        {
+          sha: 'b2b2b2b',
+          subject: 'Add parser',
+          recommendation: 'BLOCK',
+          stats: { errors: 1, warnings: 0, suggestions: 0 },
+        },
+        expect.objectContaining({ sha: 'c3c3c3c', recommendation: 'N/A' }),
+      ]);
+      expect(mockPRCommentService.postComments).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewPatch', () => {
+    it('should review the files of a patch applied to HEAD', async () => {
+      const patch = [
+        'diff --git a/src/file.ts b/src/file.ts',
+        '--- a/src/file.ts',
+        '+++ b/src/file.ts',
+        '@@ -10 +10 @@',
+        '-old();',
+        '+updated();',
+      ].join('\n');
+      mockGitService.getChangedLines.mockResolvedValue(new Set([10]));
+      mockChunkService.chunkChangedFiles.mockResolvedValue([createChunk()]);
+      mockAIProvider.reviewCode.mockResolvedValue({
+        comments: [],
+        summary: 'Looks fine',
+        stats: { errors: 0, warnings: 0, suggestions: 0 },
+      });
+
+      await reviewer.reviewPatch(patch);
+
+      expect(mockGitService.getChangedFiles).not.toHaveBeenCalled();
+      expect(mockGitService.addWorktree).toHaveBeenCalledWith('HEAD');
+      expect(mockGitService.applyPatch).toHaveBeenCalledWith('/tmp/sherlock-worktree-1', patch);
+      expect(mockChunkService.chunkChangedFiles).toHaveBeenCalledWith(
+        [expect.objectContaining({ path: 'src/file.ts', changedLines: new Set([10]) })],
+        '4b825dc',
+        '/tmp/sherlock-worktree-1'
+      );
+      expect(mockGitService.removeWorktree).toHaveBeenCalledWith('/tmp/sherlock-worktree-1');
+      expect(mockPRCommentService.postComments).not.toHaveBeenCalled();
+    });
+
+    it('should take changed lines of a patch series from the applied result', async () => {
+      // The second patch inserts two lines above the line the first one added
+      const patch = [
+        'diff --git a/src/file.ts b/src/file.ts',
+        '--- a/src/file.ts',
+        '+++ b/src/file.ts',
+        '@@ -10 +10 @@',
+        '-old();',
+        '+updated();',
+        'diff --git a/src/file.ts b/src/file.ts',
+        '--- a/src/file.ts',
+        '+++ b/src/file.ts',
+        '@@ -2,0 +3,2 @@',
+        "+import { a } from './a';",
+        "+import { b } from './b';",
+      ].join('\n');
+      mockGitService.getChangedLines.mockResolvedValue(new Set([3, 4, 12]));
+      mockChunkService.chunkChangedFiles.mockResolvedValue([createChunk()]);
+      mockAIProvider.reviewCode.mockResolvedValue({
+        comments: [],
+        summary: 'Looks fine',
+        stats: { errors: 0, warnings: 0, suggestions: 0 },
+      });
+
+      await reviewer.reviewPatch(patch);
+
+      expect(mockGitService.getChangedLines).toHaveBeenCalledWith(
+        'src/file.ts',
+        'HEAD',
+        '4b825dc',
+        undefined
+      );
+      expect(mockChunkService.chunkChangedFiles).toHaveBeenCalledWith(
+        [expect.objectContaining({ path: 'src/file.ts', changedLines: new Set([3, 4, 12]) })],
+        '4b825dc',
+        '/tmp/sherlock-worktree-1'
+      );
+    });
+  });
+
   describe('reviewFile', () => {
     it('should review a file with range', async () => {
       const mockChunk = createChunk({ startLine: 10, endLine: 50 });
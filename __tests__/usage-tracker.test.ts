@@ -0,0 +1,119 @@
+import { CodeChunk } from '../src/types';
+import { UsageTracker } from '../src/utils/usage-tracker';
+
+describe('UsageTracker', () => {
+  const pricing = {
+    'gpt-4o': { prompt: 2.5, completion: 10 },
+    'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  };
+
+  const chunk = (id: string): CodeChunk => ({
+    id,
+    name: `fn${id}`,
+    type: 'function',
+    file: `src/${id}.ts`,
+    startLine: 1,
+    endLine: 4,
+    content: 'return 1;',
+  });
+
+  it('should total usage per review, per pass and per batch', () => {
+    const tracker = new UsageTracker(pricing);
+
+    tracker.record('scout', { promptTokens: 100_000, completionTokens: 1_000 }, 'gpt-4o-mini');
+    tracker.record('review', { promptTokens: 200_000, completionTokens: 10_000 }, 'gpt-4o', 0);
+    tracker.record('deepDive', { promptTokens: 400_000, completionTokens: 20_000 }, 'gpt-4o', 1);
+
+    const usage = tracker.getUsage();
+
+    expect(usage.promptTokens).toBe(700_000);
+    expect(usage.completionTokens).toBe(31_000);
+    expect(usage.cost).toBeCloseTo(0.0156 + 0.6 + 1.2);
+    expect(usage.passes?.scout?.cost).toBeCloseTo(0.0156);
+    expect(usage.passes?.deepDive).toEqual({
+      promptTokens: 400_000,
+      completionTokens: 20_000,
+      cost: 1.2,
+    });
+    expect(usage.batches?.map(({ batch, pass }) => ({ batch, pass }))).toEqual([
+      { batch: -1, pass: 'scout' },
+      { batch: 0, pass: 'review' },
+      { batch: 1, pass: 'deepDive' },
+    ]);
+    expect(usage.budget).toBeUndefined();
+  });
+
+  it('should price dated snapshots by the longest matching model prefix', () => {
+    const tracker = new UsageTracker(pricing);
+
+    tracker.record('review', { promptTokens: 1_000_000, completionTokens: 0 }, 'gpt-4o-mini-2024');
+    tracker.record('review', { promptTokens: 1_000_000, completionTokens: 0 }, 'gpt-4o-2024-08-06');
+
+    expect(tracker.getUsage().batches?.map((entry) => entry.cost)).toEqual([0.15, 2.5]);
+  });
+
+  it('should leave cost undefined for unpriced models', () => {
+    const tracker = new UsageTracker(pricing);
+
+    tracker.record('review', { promptTokens: 500, completionTokens: 50 }, 'codellama');
+    tracker.record('review', undefined, 'gpt-4o');
+
+    expect(tracker.getUsage()).toMatchObject({ promptTokens: 500, cost: undefined });
+    expect(tracker.getUsage().batches).toHaveLength(1);
+  });
+
+  it('should report when the token or cost budget is spent', () => {
+    const tokens = new UsageTracker(pricing, { maxTokens: 1_000 });
+    tokens.record('review', { promptTokens: 600, completionTokens: 300 }, 'gpt-4o');
+    expect(tokens.isExhausted()).toBe(false);
+    tokens.record('review', { promptTokens: 100, completionTokens: 0 }, 'gpt-4o');
+    expect(tokens.isExhausted()).toBe(true);
+
+    const cost = new UsageTracker(pricing, { maxCost: 1 });
+    cost.record('review', { promptTokens: 400_000, completionTokens: 0 }, 'gpt-4o');
+    expect(cost.isExhausted()).toBe(true);
+  });
+
+  it('should count the scout pass and analyses towards the tokens left', () => {
+    const tracker = new UsageTracker(pricing, { maxTokens: 1_000 });
+    tracker.record('scout', { promptTokens: 300, completionTokens: 50 }, 'gpt-4o');
+    tracker.record('naming', { promptTokens: 100, completionTokens: 50 }, 'gpt-4o');
+
+    expect(tracker.remainingTokens()).toBe(500);
+    expect(new UsageTracker(pricing, { maxCost: 1 }).remainingTokens()).toBeUndefined();
+  });
+
+  it('should list chunks skipped by the budget', () => {
+    const tracker = new UsageTracker(pricing, { maxCost: 5 });
+
+    tracker.markUnreviewed([chunk('a'), chunk('b')]);
+
+    expect(tracker.getUsage().budget).toEqual({
+      maxCost: 5,
+      exhausted: true,
+      unreviewedChunks: [
+        { id: 'a', file: 'src/a.ts', name: 'fna', startLine: 1, endLine: 4 },
+        { id: 'b', file: 'src/b.ts', name: 'fnb', startLine: 1, endLine: 4 },
+      ],
+    });
+  });
+
+  it('should count a child tracker towards its own budget and its parent budget', () => {
+    const tracker = new UsageTracker(pricing, { maxTokens: 1_500 });
+    const api = tracker.createChild({ maxTokens: 1_000 });
+
+    api.record('review', { promptTokens: 900, completionTokens: 200 }, 'gpt-4o', 0);
+    api.markUnreviewed([chunk('c')]);
+    expect(api.isExhausted()).toBe(true);
+    expect(tracker.isExhausted()).toBe(false);
+    expect(tracker.getUsage()).toMatchObject({ promptTokens: 900, completionTokens: 200 });
+    expect(tracker.getUnreviewedChunks()).toEqual([expect.objectContaining({ id: 'c' })]);
+
+    // A later package's own budget is capped by what the whole review has left
+    const web = tracker.createChild({ maxTokens: 1_000 });
+    expect(web.remainingTokens()).toBe(400);
+    web.record('review', { promptTokens: 300, completionTokens: 100 }, 'gpt-4o', 0);
+    expect(web.isExhausted()).toBe(true);
+    expect(tracker.createChild().isExhausted()).toBe(true);
+  });
+});
@@ -0,0 +1,439 @@
+import { createHmac } from 'crypto';
+import { PRCommentServiceFactory } from '../src/pr-comments';
+import { Config, NormalizedWebhookEvent } from '../src/types';
+import {
+  GitHubWebhookHandler,
+  GitLabWebhookHandler,
+  WebhookEventDispatcher,
+  WebhookServer,
+} from '../src/webhooks';
+
+const mockHandleCommand = jest.fn();
+
+jest.mock('../src/conversation/chat-handler', () => ({
+  createChatHandler: () => ({ handleCommand: mockHandleCommand }),
+}));
+
+jest.mock('../src/ai-provider', () => ({
+  AIProviderFactory: { create: jest.fn().mockReturnValue({}) },
+}));
+
+describe('Webhooks', () => {
+  const createConfig = (overrides: Partial<Config> = {}): Config => ({
+    aiProvider: 'openai',
+    openai: { apiKey: 'test-key', model: 'gpt-4' },
+    globalRules: [],
+    repository: { owner: 'default-org', repo: 'default-repo', baseBranch: 'main' },
+    pr: { number: 0 },
+    github: { token: 'gh-token' },
+    gitlab: { token: 'gl-token', projectId: '1' },
+    webhook: { port: 0, githubSecret: 'gh-secret', gitlabSecret: 'gl-secret' },
+    ...overrides,
+  });
+
+  const repository = {
+    id: 1,
+    name: 'test-repo',
+    full_name: 'test-org/test-repo',
+    owner: { login: 'test-org', id: 1, type: 'User' },
+    private: false,
+    default_branch: 'main',
+    html_url: 'https://github.com/test-org/test-repo',
+  };
+
+  const createPRPayload = (action: string, draft = false) => ({
+    action,
+    number: 42,
+    pull_request: {
+      number: 42,
+      title: 'Add feature',
+      body: 'Description',
+      state: 'open',
+      user: { login: 'alice', id: 2, type: 'User' },
+      head: { ref: 'feature/x', sha: 'abc123', repo: repository },
+      base: { ref: 'main', sha: 'def456', repo: repository },
+      draft,
+      merged: false,
+    },
+    repository,
+    sender: { login: 'alice', id: 2, type: 'User' },
+  });
+
+  const createCommentPayload = (body: string, senderType: 'User' | 'Bot' = 'User') => ({
+    action: 'created',
+    comment: {
+      id: 7,
+      body,
+      user: { login: 'bob', id: 3, type: senderType },
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      html_url: '',
+      path: 'src/index.ts',
+      line: 12,
+    },
+    issue: { number: 42, title: 'Add feature', body: null, pull_request: { url: '' } },
+    repository,
+    sender: { login: 'bob', id: 3, type: senderType },
+  });
+
+  const gitlabProject = {
+    id: 99,
+    name: 'api',
+    path_with_namespace: 'platform/backend/api',
+    web_url: '',
+    default_branch: 'main',
+  };
+  const gitlabUser = { id: 5, username: 'carol', name: 'Carol', avatar_url: '' };
+
+  const createDispatcher = () =>
+    ({
+      dispatch: jest.fn().mockResolvedValue(undefined),
+      resume: jest.fn().mockReturnValue(0),
+    }) as unknown as WebhookEventDispatcher;
+
+  describe('GitHubWebhookHandler', () => {
+    const handler = new GitHubWebhookHandler(createDispatcher());
+    const sign = (payload: string, secret: string) =>
+      `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+    it('should accept a valid HMAC signature', () => {
+      const payload = '{"hello":"world"}';
+      expect(handler.verifySignature(payload, sign(payload, 'secret'), 'secret')).toBe(true);
+    });
+
+    it('should reject signatures made with another secret or missing prefix', () => {
+      const payload = '{"hello":"world"}';
+      expect(handler.verifySignature(payload, sign(payload, 'other'), 'secret')).toBe(false);
+      expect(handler.verifySignature(payload, 'deadbeef', 'secret')).toBe(false);
+      expect(handler.verifySignature(payload, '', 'secret')).toBe(false);
+    });
+
+    it('should normalize opened and synchronize pull request events', () => {
+      const opened = handler.parsePayload(createPRPayload('opened'), {
+        'x-github-event': 'pull_request',
+      });
+      expect(opened).toEqual(
+        expect.objectContaining({
+          platform: 'github',
+          eventType: 'pr_opened',
+          prNumber: 42,
+          owner: 'test-org',
+          repo: 'test-repo',
+          sender: 'alice',
+        })
+      );
+      expect(opened?.pr).toEqual(
+        expect.objectContaining({
+          baseBranch: 'main',
+          headBranch: 'feature/x',
+          headSha: 'abc123',
+          isDraft: false,
+        })
+      );
+
+      const updated = handler.parsePayload(createPRPayload('synchronize'), {
+        'x-github-event': 'pull_request',
+      });
+      expect(updated?.eventType).toBe('pr_updated');
+    });
+
+    it('should ignore pull request actions that need no review', () => {
+      expect(
+        handler.parsePayload(createPRPayload('closed'), { 'x-github-event': 'pull_request' })
+      ).toBeNull();
+      expect(handler.parsePayload(createPRPayload('opened'), { 'x-github-event': 'push' })).toBe(
+        null
+      );
+    });
+
+    it('should normalize comments with file context and skip bot comments', () => {
+      const event = handler.parsePayload(createCommentPayload('@sherlock explain'), {
+        'x-github-event': 'pull_request_review_comment',
+      });
+      expect(event?.eventType).toBe('comment_created');
+      expect(event?.comment).toEqual({
+        id: 7,
+        body: '@sherlock explain',
+        filePath: 'src/index.ts',
+        lineNumber: 12,
+      });
+
+      expect(
+        handler.parsePayload(createCommentPayload('@sherlock explain', 'Bot'), {
+          'x-github-event': 'issue_comment',
+        })
+      ).toBeNull();
+    });
+
+    it('should ignore comments on issues that are not pull requests', () => {
+      const payload = {
+        ...createCommentPayload('@sherlock review'),
+        issue: { number: 43, title: 'Bug report', body: null },
+      };
+
+      expect(handler.parsePayload(payload, { 'x-github-event': 'issue_comment' })).toBeNull();
+    });
+  });
+
+  describe('GitLabWebhookHandler', () => {
+    const handler = new GitLabWebhookHandler(createDispatcher());
+
+    it('should compare the secret token', () => {
+      expect(handler.verifySignature('{}', 'gl-secret', 'gl-secret')).toBe(true);
+      expect(handler.verifySignature('{}', 'wrong', 'gl-secret')).toBe(false);
+      expect(handler.verifySignature('{}', '', 'gl-secret')).toBe(false);
+    });
+
+    it('should normalize merge request events and split nested namespaces', () => {
+      const event = handler.parsePayload(
+        {
+          object_kind: 'merge_request',
+          event_type: 'merge_request',
+          user: gitlabUser,
+          project: gitlabProject,
+          object_attributes: {
+            id: 1,
+            iid: 8,
+            title: 'Draft: Refactor auth',
+            description: null,
+            state: 'opened',
+            source_branch: 'refactor-auth',
+            target_branch: 'develop',
+            author_id: 5,
+            url: '',
+            action: 'update',
+            oldrev: 'abc123',
+          },
+        },
+        {}
+      );
+
+      expect(event).toEqual(
+        expect.objectContaining({
+          platform: 'gitlab',
+          eventType: 'pr_updated',
+          prNumber: 8,
+          owner: 'platform/backend',
+          repo: 'api',
+          sender: 'carol',
+        })
+      );
+      expect(event?.pr?.isDraft).toBe(true);
+      expect(event?.pr?.baseBranch).toBe('develop');
+    });
+
+    it('should ignore merge request updates without new commits', () => {
+      const event = handler.parsePayload(
+        {
+          object_kind: 'merge_request',
+          event_type: 'merge_request',
+          user: gitlabUser,
+          project: gitlabProject,
+          object_attributes: {
+            id: 1,
+            iid: 8,
+            title: 'Refactor auth (renamed)',
+            description: null,
+            state: 'opened',
+            source_branch: 'refactor-auth',
+            target_branch: 'develop',
+            author_id: 5,
+            url: '',
+            action: 'update',
+          },
+        },
+        {}
+      );
+
+      expect(event).toBeNull();
+    });
+
+    it('should normalize merge request notes and ignore other noteables', () => {
+      const note = {
+        id: 11,
+        body: '@sherlock ask why?',
+        author: gitlabUser,
+        created_at: '2024-01-01',
+        updated_at: '2024-01-01',
+        noteable_type: 'MergeRequest',
+        position: { new_path: 'app.py', new_line: 3 },
+      };
+      const mergeRequest = { id: 1, iid: 8, title: 'x', description: null };
+
+      const event = handler.parsePayload(
+        {
+          object_kind: 'note',
+          user: gitlabUser,
+          project: gitlabProject,
+          object_attributes: note,
+          merge_request: mergeRequest,
+        },
+        {}
+      );
+      expect(event?.eventType).toBe('comment_created');
+      expect(event?.comment).toEqual(
+        expect.objectContaining({ id: 11, filePath: 'app.py', lineNumber: 3 })
+      );
+
+      expect(
+        handler.parsePayload(
+          {
+            object_kind: 'note',
+            user: gitlabUser,
+            project: gitlabProject,
+            object_attributes: { ...note, noteable_type: 'Issue' },
+          },
+          {}
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('WebhookEventDispatcher', () => {
+    const commentEvent = (body: string): NormalizedWebhookEvent => ({
+      platform: 'github',
+      eventType: 'comment_created',
+      prNumber: 42,
+      owner: 'test-org',
+      repo: 'test-repo',
+      sender: 'bob',
+      comment: { id: 7, body },
+    });
+
+    it('should build per-event config for GitLab projects', () => {
+      const dispatcher = new WebhookEventDispatcher({ config: createConfig() });
+      const config = dispatcher.buildEventConfig({
+        platform: 'gitlab',
+        eventType: 'pr_opened',
+        prNumber: 8,
+        owner: 'platform/backend',
+        repo: 'api',
+        sender: 'carol',
+        pr: {
+          title: 't',
+          body: null,
+          baseBranch: 'develop',
+          headBranch: 'x',
+          isDraft: false,
+        },
+      });
+
+      expect(config.github).toBeUndefined();
+      expect(config.gitlab?.projectId).toBe('platform%2Fbackend%2Fapi');
+      expect(config.pr).toEqual({ number: 8, baseBranch: 'develop' });
+      expect(config.repository.baseBranch).toBe('develop');
+    });
+
+    it('should authenticate as the GitHub App installation that sent the event', () => {
+      const dispatcher = new WebhookEventDispatcher({
+        config: createConfig({ github: { app: { appId: '1', privateKey: 'key' } } }),
+      });
+
+      const config = dispatcher.buildEventConfig({ ...commentEvent('hi'), installationId: 77 });
+
+      expect(config.github?.app).toEqual({ appId: '1', privateKey: 'key', installationId: 77 });
+      expect(config.gitlab).toBeUndefined();
+    });
+
+    it('should answer @sherlock commands through the chat handler', async () => {
+      const postComment = jest.fn().mockResolvedValue(undefined);
+      jest
+        .spyOn(PRCommentServiceFactory, 'create')
+        .mockReturnValue({ postComment } as unknown as ReturnType<
+          typeof PRCommentServiceFactory.create
+        >);
+      mockHandleCommand.mockResolvedValue({ type: 'comment', body: 'Here is help' });
+
+      const dispatcher = new WebhookEventDispatcher({ config: createConfig() });
+      await dispatcher.dispatch(commentEvent('@sherlock help'));
+
+      expect(mockHandleCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'help',
+          context: expect.objectContaining({ prNumber: 42, user: 'bob' }),
+        })
+      );
+      expect(postComment).toHaveBeenCalledWith(expect.stringContaining('Here is help'), 42);
+    });
+
+    it('should ignore comments without commands and its own replies', async () => {
+      const dispatcher = new WebhookEventDispatcher({ config: createConfig() });
+      await dispatcher.dispatch(commentEvent('Looks good to me'));
+      await dispatcher.dispatch(
+        commentEvent('<!-- code-sherlock-response -->\nTry `@sherlock review src/a.ts`')
+      );
+      expect(mockHandleCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('WebhookServer', () => {
+    let server: WebhookServer;
+    let dispatcher: WebhookEventDispatcher;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      dispatcher = createDispatcher();
+      server = new WebhookServer({ config: createConfig(), dispatcher, port: 0 });
+      const port = await server.start();
+      baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('should require at least one webhook secret', () => {
+      expect(() => new WebhookServer({ config: createConfig({ webhook: undefined }) })).toThrow(
+        'webhook secret'
+      );
+    });
+
+    it('should accept signed GitHub deliveries and dispatch the event', async () => {
+      const payload = JSON.stringify(createPRPayload('opened'));
+      const signature = `sha256=${createHmac('sha256', 'gh-secret').update(payload).digest('hex')}`;
+
+      const response = await fetch(`${baseUrl}/webhooks/github`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-GitHub-Event': 'pull_request',
+          'X-Hub-Signature-256': signature,
+        },
+        body: payload,
+      });
+
+      expect(response.status).toBe(202);
+      expect(dispatcher.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'pr_opened', prNumber: 42 })
+      );
+    });
+
+    it('should reject deliveries with a bad signature or token', async () => {
+      const github = await fetch(`${baseUrl}/webhooks/github`, {
+        method: 'POST',
+        headers: { 'X-GitHub-Event': 'pull_request', 'X-Hub-Signature-256': 'sha256=00' },
+        body: '{}',
+      });
+      const gitlab = await fetch(`${baseUrl}/webhooks/gitlab`, {
+        method: 'POST',
+        headers: { 'X-Gitlab-Token': 'nope' },
+        body: '{}',
+      });
+
+      expect(github.status).toBe(401);
+      expect(gitlab.status).toBe(401);
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should acknowledge events it does not act on', async () => {
+      const response = await fetch(`${baseUrl}/webhooks/gitlab`, {
+        method: 'POST',
+        headers: { 'X-Gitlab-Token': 'gl-secret' },
+        body: JSON.stringify({ object_kind: 'push' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(((await response.json()) as { message: string }).message).toBe('Event ignored');
+    });
+  });
+});
@@ -1,43 +1,47 @@
 import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
+import OpenAI, { ClientOptions } from 'openai';
+import { ConsensusAIProvider } from './ai-provider/consensus-provider';
+import { FallbackAIProvider, getHTTPStatus } from './ai-provider/fallback-provider';
+import { ModelRouter, RouteEntry } from './ai-provider/model-router';
 import {
   AICategory,
+  AIProvider,
   AIIssue,
   AIProviderError,
   AIReviewResponse,
+  AIReviewResponseSchema,
+  AzureOpenAIConfig,
+  CassetteMissError,
   CodeChunk,
   Config,
-  FileLanguageMap,
+  GeminiConfig,
+  OpenAICompatibleConfig,
+  PromptPass,
+  RouteTarget,
   isAIReviewResponse,
   ReviewComment,
   ReviewResult,
   Severity,
+  StructuredOutputConfig,
+  TokenUsage,
 } from './types';
-import { ContextAwarePromptBuilder } from './utils/context-aware-prompt';
+import { Cassette } from './utils/cassette';
+import { IssueStreamParser } from './utils/issue-stream-parser';
+import { JSONSchema, zodToJSONSchema } from './utils/json-schema';
+import { PromptTemplates } from './utils/prompt-templates';
+import { ReviewPromptBuilder, SYSTEM_PROMPT } from './utils/review-prompts';
+import {
+  buildToolInstructions,
+  formatToolResults,
+  parseToolCalls,
+  ReviewTools,
+  ToolResult,
+} from './utils/review-tools';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const LANGUAGE_MAP: FileLanguageMap = {
-  ts: 'typescript',
-  tsx: 'tsx',
-  js: 'javascript',
-  jsx: 'jsx',
-  vue: 'vue',
-  svelte: 'svelte',
-  py: 'python',
-  go: 'go',
-  rs: 'rust',
-  java: 'java',
-  kt: 'kotlin',
-  rb: 'ruby',
-  css: 'css',
-  scss: 'scss',
-  html: 'html',
-  json: 'json',
-};
-
 const AI_CATEGORIES: readonly AICategory[] = [
   'bugs',
   'security',
@@ -46,106 +50,160 @@ const AI_CATEGORIES: readonly AICategory[] = [
   'architecture',
 ] as const;
 
-const SYSTEM_PROMPT = `You are an Expert Senior Software Engineer & Code Reviewer.
-
-Your job is to analyze provided code and return a fully structured PR review.
-
-## Reasoning Process (Chain-of-Thought)
-Before providing the final JSON, you MUST internalize the following:
-1. **Analyze Context**: Understand what this code does and its role in the system.
-2. **Trace Dependencies**: Consider how changes might affect call-sites or dependent modules.
-3. **Identify Side Effects**: Look for hidden implications (e.g., race conditions, memory leaks, breaking API changes).
-4. **Evaluate Severity**: Only report issues that truly matter. Avoid bikeshedding.
-
-## JSON OUTPUT SCHEMA (MANDATORY)
-Your final answer MUST be a JSON object matching exactly this shape:
-
-{
-  "reasoning": "A brief summary of your internal analysis and chain-of-thought",
-  "bugs": [
-    {
-      "severity": "Critical | High | Medium | Low | Nitpick",
-      "file": "path/to/file",
-      "line": 0,
-      "description": "string",
-      "fix": "string",
-      "impact_analysis": "Predicted side effects of this bug or its fix"
-    }
-  ],
-  "security": [... same structure ...],
-  "performance": [... same structure ...],
-  "code_quality": [... same structure ...],
-  "architecture": [... same structure ...],
-  "summary": {
-    "recommendation": "BLOCK | REQUEST_CHANGES | APPROVE_WITH_NITS | APPROVE",
-    "top_issues": ["string", "string"],
-    "complexity_score": 0-10,
-    "critical_files": ["string"]
-  }
-}
-
-If a category has no issues, return an empty array.
-
----
+/** Handed to native structured-output modes (JSON schema, tool input, Ollama format) */
+const REVIEW_RESPONSE_SCHEMA: JSONSchema = zodToJSONSchema(AIReviewResponseSchema);
+const RESPONSE_SCHEMA_NAME = 'code_review';
+const REVIEW_TOOL_NAME = 'submit_review';
 
-## Rules
-- **Context-Aware Severity**: Be conservative with severity. If a security risk (like AllowedOrigins: ["*"]) is explicitly gated behind a development check (e.g., \`if (env === "development")\`), do NOT mark it as an Error. Use WARNING or INFO instead.
-- Do NOT hallucinate file names or line numbers.
-- Do NOT output anything except valid JSON.
-- Every issue MUST include: severity, file, line, description, fix.
-- Focus on accuracy and actionable feedback.`;
+const REPAIR_SYSTEM_PROMPT = `You repair code review responses that failed validation.
+Return ONLY the corrected JSON object: same findings, fixed to match the schema.
+Each issue needs severity (Critical | High | Medium | Low | Nitpick), file, line (a number) and description.`;
 
 // ============================================================================
 // Interfaces
 // ============================================================================
 
+export interface ReviewCodeOptions {
+  /** Called for each finding as soon as it is complete in the streamed response */
+  onComment?: (comment: ReviewComment) => void;
+  /** Picks the prompt templates; defaults to 'review' */
+  pass?: PromptPass;
+  /** Repository lookups the model may request during a deep dive */
+  tools?: ReviewTools;
+}
+
+export interface ScoutResult {
+  complexityScore: number;
+  criticalFiles: string[];
+  usage?: TokenUsage;
+  model?: string;
+}
+
+/**
+ * Text of one model call plus the tokens it used, when the API reports them
+ */
+interface Completion {
+  text: string;
+  usage?: TokenUsage;
+}
+
 export interface AIProviderInterface {
-  reviewCode(chunks: CodeChunk[], globalRules: string[]): Promise<ReviewResult>;
-  deepDiveReview(chunks: CodeChunk[], globalRules: string[]): Promise<ReviewResult>;
-  scoutReview(chunks: CodeChunk[]): Promise<{ complexityScore: number; criticalFiles: string[] }>;
+  reviewCode(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult>;
+  deepDiveReview(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult>;
+  scoutReview(chunks: CodeChunk[]): Promise<ScoutResult>;
 }
 
 // ============================================================================
 // Base Provider (Abstract)
 // ============================================================================
 
+function toUsage(promptTokens: number, completionTokens: number): TokenUsage {
+  return { promptTokens, completionTokens };
+}
+
+function addUsage(total?: TokenUsage, next?: TokenUsage): TokenUsage | undefined {
+  if (!total || !next) {
+    return total ?? next;
+  }
+  return toUsage(
+    total.promptTokens + next.promptTokens,
+    total.completionTokens + next.completionTokens
+  );
+}
+
 abstract class BaseAIProvider implements AIProviderInterface {
+  /** Recorded with the model in the metadata of every result */
+  protected abstract readonly providerName: AIProvider;
   protected model: string;
-  protected promptBuilder: ContextAwarePromptBuilder;
-  protected useContextAwarePrompts: boolean;
+  protected prompts: ReviewPromptBuilder;
+  protected structuredOutput: Required<StructuredOutputConfig> = { native: true, maxRepairs: 2 };
+  private cassette?: Cassette;
 
   constructor(model: string, useContextAwarePrompts: boolean = true) {
     this.model = model;
-    this.useContextAwarePrompts = useContextAwarePrompts;
-    this.promptBuilder = new ContextAwarePromptBuilder();
+    this.prompts = new ReviewPromptBuilder(new PromptTemplates(), useContextAwarePrompts);
   }
 
-  abstract reviewCode(chunks: CodeChunk[], globalRules: string[]): Promise<ReviewResult>;
+  configurePrompts(templates: PromptTemplates): void {
+    this.prompts.setTemplates(templates);
+  }
 
-  async deepDiveReview(chunks: CodeChunk[], globalRules: string[]): Promise<ReviewResult> {
-    // For now, deep dive uses the same implementation but can be overridden
-    // or use a more descriptive prompt prefix.
-    const deepInstructions = [
-      ...globalRules,
-      'CRITICAL: Perform an exhaustive deep-dive analysis of this code.',
-      'Trace all data flows and identify subtle race conditions or edge cases.',
-    ];
-    return this.reviewCode(chunks, deepInstructions);
+  configureStructuredOutput(config: StructuredOutputConfig): void {
+    this.structuredOutput = { ...this.structuredOutput, ...config };
+  }
+
+  /**
+   * Record every model call to the cassette, or in replay mode answer from it
+   */
+  useCassette(cassette: Cassette): void {
+    this.cassette = cassette;
+  }
+
+  /**
+   * Review chunks, sending responses that fail AIReviewResponseSchema back to the
+   * model (up to maxRepairs times) before settling for a degraded result
+   */
+  async reviewCode(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options: ReviewCodeOptions = {}
+  ): Promise<ReviewResult> {
+    const prompt = this.prompts.build(options.pass ?? 'review', chunks, globalRules);
+    let toolCalls = 0;
+    let completion: Completion;
+    if (options.pass === 'deepDive' && options.tools) {
+      ({ completion, toolCalls } = await this.completeWithTools(
+        prompt.user,
+        prompt.system,
+        options.tools
+      ));
+    } else {
+      completion = await this.requestStructured(
+        prompt.user,
+        prompt.system,
+        this.createTokenHandler(options.onComment)
+      );
+    }
+    let usage = completion.usage;
+    let problem = this.validateResponse(completion.text);
+    let repairs = 0;
+
+    while (problem && repairs < this.structuredOutput.maxRepairs) {
+      repairs++;
+      completion = await this.requestStructured(
+        this.buildRepairPrompt(completion.text, problem),
+        REPAIR_SYSTEM_PROMPT
+      );
+      usage = addUsage(usage, completion.usage);
+      problem = this.validateResponse(completion.text);
+    }
+
+    return this.parseResponse({ text: completion.text, usage }, chunks, repairs, toolCalls);
   }
 
-  async scoutReview(
-    chunks: CodeChunk[]
-  ): Promise<{ complexityScore: number; criticalFiles: string[] }> {
-    const prompt = `Perform a high-level scout review of these code chunks.
-Identify complexity hotspots and critical files that need deep-dive analysis.
-Return ONLY JSON: { "complexityScore": 0-10, "criticalFiles": ["file1", "file2"] }
+  async deepDiveReview(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult> {
+    // Same request as a review; the prompt builder adds the deep-dive instructions
+    return this.reviewCode(chunks, globalRules, { ...options, pass: 'deepDive' });
+  }
 
-Chunks:
-${chunks.map((c) => `- ${c.file} (${c.type}): ${c.name}`).join('\n')}`;
+  async scoutReview(chunks: CodeChunk[]): Promise<ScoutResult> {
+    const prompt = this.prompts.build('scout', chunks, []);
 
     try {
-      const response = await this.callAI(prompt, 'You are a high-speed complexity analyzer.');
-      const jsonStr = this.extractJSON(response);
+      const response = await this.complete(prompt.user, prompt.system);
+      const jsonStr = this.extractJSON(response.text);
       const parsed = JSON.parse(jsonStr) as {
         complexityScore: number;
         criticalFiles: string[];
@@ -153,8 +211,13 @@ ${chunks.map((c) => `- ${c.file} (${c.type}): ${c.name}`).join('\n')}`;
       return {
         complexityScore: parsed.complexityScore || 0,
         criticalFiles: parsed.criticalFiles || [],
+        usage: response.usage,
+        model: this.model,
       };
     } catch (error) {
+      if (error instanceof CassetteMissError) {
+        throw error;
+      }
       console.warn('Scout review failed, falling back to all files:', error);
       return {
         complexityScore: 5,
@@ -163,64 +226,154 @@ ${chunks.map((c) => `- ${c.file} (${c.type}): ${c.name}`).join('\n')}`;
     }
   }
 
-  protected abstract callAI(prompt: string, systemPrompt?: string): Promise<string>;
-
-  protected buildPrompt(chunks: CodeChunk[], globalRules: string[]): string {
-    if (this.useContextAwarePrompts) {
-      // Extract context from chunks
-      const context = ContextAwarePromptBuilder.extractContext(chunks);
+  /**
+   * @param onToken - When set, the response is streamed and each text fragment passed here
+   * @param responseSchema - When set, the provider's native structured-output mode is used
+   */
+  protected abstract callAI(
+    prompt: string,
+    systemPrompt?: string,
+    onToken?: (text: string) => void,
+    responseSchema?: JSONSchema
+  ): Promise<Completion>;
+
+  /**
+   * Let the model request tool calls until it answers with a review or the budget
+   * runs out. Tool results are appended to the prompt, so each turn is a single
+   * call every provider (and the cassette) handles.
+   */
+  private async completeWithTools(
+    prompt: string,
+    systemPrompt: string,
+    tools: ReviewTools
+  ): Promise<{ completion: Completion; toolCalls: number }> {
+    const system = `${systemPrompt}\n\n${buildToolInstructions(tools.definitions, tools.budget)}`;
+    let user = prompt;
+    let usage: TokenUsage | undefined;
+    let toolCalls = 0;
+
+    for (;;) {
+      const completion = await this.complete(user, system);
+      usage = addUsage(usage, completion.usage);
+      const calls = parseToolCalls(this.extractJSON(completion.text));
+      if (!calls || calls.length === 0) {
+        return { completion: { text: completion.text, usage }, toolCalls };
+      }
+      if (toolCalls >= tools.budget) {
+        break;
+      }
 
-      // Build context-aware prompt
-      return this.promptBuilder.buildPrompt(chunks, globalRules, context);
+      const results: ToolResult[] = [];
+      for (const call of calls.slice(0, tools.budget - toolCalls)) {
+        results.push({ call, output: await tools.run(call) });
+      }
+      toolCalls += results.length;
+      user = `${user}\n\n${formatToolResults(results, tools.budget - toolCalls)}`;
     }
 
-    // Fallback to simple prompt
-    return this.buildSimplePrompt(chunks, globalRules);
+    // The model kept asking for tools past its budget: ask once more without offering them
+    const completion = await this.requestStructured(user, systemPrompt);
+    return {
+      completion: { text: completion.text, usage: addUsage(usage, completion.usage) },
+      toolCalls,
+    };
   }
 
-  protected buildSimplePrompt(chunks: CodeChunk[], globalRules: string[]): string {
-    let prompt = '# Code Review Request\n\n';
-
-    if (globalRules.length > 0) {
-      prompt += '## Additional Rules to Check\n\n';
-      globalRules.forEach((rule, index) => {
-        prompt += `${index + 1}. ${rule}\n`;
-      });
-      prompt += '\n';
+  /**
+   * Call the model through the cassette: replayed calls never reach callAI, recorded
+   * ones are saved once the model answers
+   */
+  private async complete(
+    prompt: string,
+    systemPrompt: string,
+    onToken?: (text: string) => void,
+    responseSchema?: JSONSchema
+  ): Promise<Completion> {
+    const request = { system: systemPrompt, prompt };
+    if (this.cassette?.mode === 'replay') {
+      const { text, usage } = this.cassette.replay(request, this.providerName, this.model);
+      onToken?.(text);
+      return { text, usage };
     }
 
-    prompt += '## Code Chunks to Review\n\n';
-    chunks.forEach((chunk, index) => {
-      prompt += `### Chunk ${index + 1}: ${chunk.name} (${chunk.type})\n`;
-      prompt += `**File:** ${chunk.file}\n`;
-      prompt += `**Lines:** ${chunk.startLine}-${chunk.endLine}\n`;
+    const completion = await this.callAI(prompt, systemPrompt, onToken, responseSchema);
+    this.cassette?.record(request, completion, this.providerName, this.model);
+    return completion;
+  }
 
-      // Include language and extension information from chunkyyy
-      if (chunk.language) {
-        prompt += `**Language:** ${chunk.language}\n`;
-      }
-      if (chunk.extension) {
-        prompt += `**File Extension:** ${chunk.extension}\n`;
-      }
+  /**
+   * Call the model with the review schema in native mode when enabled. A 400 from the
+   * native request (models without JSON-schema or tool support) switches this provider
+   * to prompt-only output for the rest of its life.
+   */
+  private async requestStructured(
+    prompt: string,
+    systemPrompt: string,
+    onToken?: (text: string) => void
+  ): Promise<Completion> {
+    if (!this.structuredOutput.native) {
+      return this.complete(prompt, systemPrompt, onToken);
+    }
 
-      if (chunk.dependencies && chunk.dependencies.length > 0) {
-        prompt += `**Dependencies:** ${chunk.dependencies.join(', ')}\n`;
+    try {
+      return await this.complete(prompt, systemPrompt, onToken, REVIEW_RESPONSE_SCHEMA);
+    } catch (error) {
+      if (getHTTPStatus(error) !== 400) {
+        throw error;
       }
+      console.warn(`${this.model} rejected structured output, falling back to prompt-only JSON`);
+      this.structuredOutput.native = false;
+      return this.complete(prompt, systemPrompt, onToken);
+    }
+  }
 
-      // Use language from chunk if available, otherwise fallback to file-based detection
-      const lang = chunk.language || this.getLanguageFromFile(chunk.file);
-      prompt += `\n\`\`\`${lang}\n${chunk.content}\n\`\`\`\n\n`;
-    });
+  /**
+   * Returns a description of what is wrong with the response, or undefined when valid
+   */
+  private validateResponse(content: string): string | undefined {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(this.extractJSON(content));
+    } catch (error) {
+      return `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    const result = AIReviewResponseSchema.safeParse(parsed);
+    if (result.success) {
+      return undefined;
+    }
+    return result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+  }
 
-    prompt +=
-      '\n**IMPORTANT**: Only report issues on the lines shown above. Do not hallucinate file names or line numbers.\n';
+  private buildRepairPrompt(content: string, problem: string): string {
+    return `Your previous response failed validation:
+${problem}
 
-    return prompt;
+Previous response:
+${content}
+
+Return the corrected JSON object only.`;
   }
 
-  protected getLanguageFromFile(filePath: string): string {
-    const ext = filePath.split('.').pop()?.toLowerCase() ?? '';
-    return LANGUAGE_MAP[ext] ?? (ext || 'text');
+  /**
+   * Build a token handler that emits each finding as soon as its JSON object closes.
+   * Returns undefined when nobody listens, so providers skip streaming entirely.
+   */
+  protected createTokenHandler(
+    onComment?: (comment: ReviewComment) => void
+  ): ((text: string) => void) | undefined {
+    if (!onComment) {
+      return undefined;
+    }
+
+    const parser = new IssueStreamParser((category, issue) => {
+      if (this.isValidIssue(issue)) {
+        onComment(this.toComment(category, issue));
+      }
+    });
+    return (text) => parser.push(text);
   }
 
   protected mapSeverity(severity: string): Severity {
@@ -232,24 +385,40 @@ ${chunks.map((c) => `- ${c.file} (${c.type}): ${c.name}`).join('\n')}`;
     return 'info';
   }
 
-  protected parseResponse(content: string, chunks: CodeChunk[]): ReviewResult {
+  protected parseResponse(
+    { text: content, usage }: Completion,
+    chunks: CodeChunk[],
+    repairs = 0,
+    toolCalls = 0
+  ): ReviewResult {
+    const withMetadata = (result: ReviewResult): ReviewResult => ({
+      ...result,
+      metadata: {
+        aiProvider: this.providerName,
+        model: this.model,
+        usage,
+        repairs: repairs || undefined,
+        toolCalls: toolCalls || undefined,
+      },
+    });
+
     try {
       const jsonStr = this.extractJSON(content);
       const parsed = JSON.parse(jsonStr) as Partial<AIReviewResponse>;
 
       if (!isAIReviewResponse(parsed)) {
-        return this.createFallbackResult(content, chunks);
+        return withMetadata(this.createFallbackResult(content, chunks));
       }
 
       const comments = this.extractComments(parsed);
       const { summary, recommendation, topIssues } = this.buildSummary(parsed);
       const stats = this.calculateStats(comments);
 
-      return { comments, summary, stats, recommendation, topIssues };
+      return withMetadata({ comments, summary, stats, recommendation, topIssues });
     } catch (error) {
       console.error('Failed to parse AI response:', error);
       console.error('Raw content:', content);
-      return this.createFallbackResult(content, chunks);
+      return withMetadata(this.createFallbackResult(content, chunks));
     }
   }
 
@@ -269,27 +438,31 @@ ${chunks.map((c) => `- ${c.file} (${c.type}): ${c.name}`).join('\n')}`;
       const issues: AIIssue[] = parsed[category] ?? [];
       for (const issue of issues) {
         if (!this.isValidIssue(issue)) continue;
-
-        let body = issue.description;
-        if (issue.fix) {
-          body += `\n\n**Suggested Fix:** ${issue.fix}`;
-        }
-
-        comments.push({
-          file: issue.file,
-          line: issue.line,
-          body,
-          severity: this.mapSeverity(issue.severity),
-          rule: category.replace('_', ' '),
-          category: category,
-          fix: issue.fix,
-        });
+        comments.push(this.toComment(category, issue));
       }
     }
 
     return comments;
   }
 
+  private toComment(category: AICategory, issue: AIIssue): ReviewComment {
+    let body = issue.description;
+    if (issue.fix) {
+      body += `\n\n**Suggested Fix:** ${issue.fix}`;
+    }
+
+    return {
+      file: issue.file,
+      line: issue.line,
+      body,
+      severity: this.mapSeverity(issue.severity),
+      rule: category.replace('_', ' '),
+      category: category,
+      fix: issue.fix,
+      ...(issue.severity === 'Critical' && { critical: true }),
+    };
+  }
+
   private isValidIssue(issue: AIIssue): boolean {
     return (
       typeof issue.file === 'string' &&
@@ -355,45 +528,189 @@ ${chunks.map((c) => `- ${c.file} (${c.type}): ${c.name}`).join('\n')}`;
 // ============================================================================
 
 export class OpenAIProvider extends BaseAIProvider {
-  private client: OpenAI;
+  protected readonly providerName: AIProvider = 'openai';
+  /** Used in error messages */
+  protected readonly apiName: string = 'OpenAI';
+  protected client: OpenAI;
 
-  constructor(apiKey: string, model: string) {
+  constructor(apiKey: string, model: string, clientOptions: Omit<ClientOptions, 'apiKey'> = {}) {
     super(model);
-    this.client = new OpenAI({ apiKey });
+    this.client = new OpenAI({ apiKey, ...clientOptions });
   }
 
-  async reviewCode(chunks: CodeChunk[], globalRules: string[]): Promise<ReviewResult> {
-    const prompt = this.buildPrompt(chunks, globalRules);
-    const content = await this.callAI(prompt, SYSTEM_PROMPT);
-    return this.parseResponse(content, chunks);
-  }
+  protected async callAI(
+    prompt: string,
+    systemPrompt: string = SYSTEM_PROMPT,
+    onToken?: (text: string) => void,
+    responseSchema?: JSONSchema
+  ): Promise<Completion> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: prompt },
+    ];
+    // Non-strict: strict mode requires every property, including optional ones, in `required`
+    const responseFormat: OpenAI.ResponseFormatJSONSchema | undefined = responseSchema && {
+      type: 'json_schema',
+      json_schema: { name: RESPONSE_SCHEMA_NAME, schema: responseSchema, strict: false },
+    };
 
-  protected async callAI(prompt: string, systemPrompt: string = SYSTEM_PROMPT): Promise<string> {
     try {
+      if (onToken) {
+        const stream = await this.client.chat.completions.create({
+          model: this.model,
+          messages,
+          response_format: responseFormat,
+          stream: true,
+          // Usage arrives in a final chunk with no choices
+          stream_options: { include_usage: true },
+        });
+
+        let content = '';
+        let usage: TokenUsage | undefined;
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content ?? '';
+          if (text) {
+            content += text;
+            onToken(text);
+          }
+          if (chunk.usage) {
+            usage = toUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+          }
+        }
+        return { text: content, usage };
+      }
+
       const response = await this.client.chat.completions.create({
         model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: prompt },
-        ],
+        messages,
+        response_format: responseFormat,
       });
 
-      return response.choices[0]?.message?.content ?? '';
+      return {
+        text: response.choices[0]?.message?.content ?? '',
+        usage: response.usage
+          ? toUsage(response.usage.prompt_tokens, response.usage.completion_tokens)
+          : undefined,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new AIProviderError(
+        `${this.apiName} API call failed: ${errorMessage}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+// ============================================================================
+// OpenAI-Compatible Provider
+// ============================================================================
+
+/**
+ * Any server speaking the OpenAI API: vLLM, LM Studio, llama.cpp server, LiteLLM or an
+ * internal gateway. `mode` picks between /chat/completions and the newer /responses.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  protected override readonly providerName: AIProvider = 'openai-compatible';
+  protected override readonly apiName: string = 'OpenAI-compatible';
+  private mode: OpenAICompatibleConfig['mode'];
+
+  constructor(config: OpenAICompatibleConfig) {
+    // The SDK insists on a key; self-hosted servers usually ignore it
+    super(config.apiKey || 'not-needed', config.model, {
+      baseURL: config.baseUrl,
+      defaultHeaders: config.headers,
+    });
+    this.mode = config.mode;
+  }
+
+  protected override async callAI(
+    prompt: string,
+    systemPrompt: string = SYSTEM_PROMPT,
+    onToken?: (text: string) => void,
+    responseSchema?: JSONSchema
+  ): Promise<Completion> {
+    if (this.mode === 'chat') {
+      return super.callAI(prompt, systemPrompt, onToken, responseSchema);
+    }
+
+    const params: OpenAI.Responses.ResponseCreateParamsNonStreaming = {
+      model: this.model,
+      instructions: systemPrompt,
+      input: prompt,
+      text: responseSchema && {
+        format: {
+          type: 'json_schema',
+          name: RESPONSE_SCHEMA_NAME,
+          schema: responseSchema,
+          strict: false,
+        },
+      },
+    };
+
+    try {
+      if (onToken) {
+        const stream = await this.client.responses.create({ ...params, stream: true });
+
+        let content = '';
+        let usage: TokenUsage | undefined;
+        for await (const event of stream) {
+          if (event.type === 'response.output_text.delta') {
+            content += event.delta;
+            onToken(event.delta);
+          } else if (event.type === 'response.completed' && event.response.usage) {
+            usage = toUsage(event.response.usage.input_tokens, event.response.usage.output_tokens);
+          }
+        }
+        return { text: content, usage };
+      }
+
+      const response = await this.client.responses.create(params);
+      return {
+        text: response.output_text,
+        usage: response.usage
+          ? toUsage(response.usage.input_tokens, response.usage.output_tokens)
+          : undefined,
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new AIProviderError(
-        `OpenAI API call failed: ${errorMessage}`,
+        `${this.apiName} API call failed: ${errorMessage}`,
         error instanceof Error ? error : undefined
       );
     }
   }
 }
 
+// ============================================================================
+// Azure OpenAI Provider
+// ============================================================================
+
+/**
+ * OpenAI models deployed on Azure. Requests go to the deployment's URL with an
+ * `api-version` query parameter and an `api-key` header; the deployment name stands
+ * in for the model.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  protected override readonly providerName: AIProvider = 'azure-openai';
+  protected override readonly apiName: string = 'Azure OpenAI';
+
+  constructor(config: AzureOpenAIConfig) {
+    const endpoint = config.endpoint.replace(/\/+$/, '');
+    super(config.apiKey, config.deployment, {
+      baseURL: `${endpoint}/openai/deployments/${encodeURIComponent(config.deployment)}`,
+      defaultQuery: { 'api-version': config.apiVersion },
+      defaultHeaders: { 'api-key': config.apiKey },
+    });
+  }
+}
+
 // ============================================================================
 // Claude Provider
 // ============================================================================
 
 export class ClaudeProvider extends BaseAIProvider {
+  protected readonly providerName = 'claude';
   private client: Anthropic;
 
   constructor(apiKey: string, model: string) {
@@ -401,23 +718,80 @@ export class ClaudeProvider extends BaseAIProvider {
     this.client = new Anthropic({ apiKey });
   }
 
-  async reviewCode(chunks: CodeChunk[], globalRules: string[]): Promise<ReviewResult> {
-    const prompt = this.buildPrompt(chunks, globalRules);
-    const content = await this.callAI(prompt, SYSTEM_PROMPT);
-    return this.parseResponse(content, chunks);
-  }
+  /**
+   * With a response schema the review is requested as the input of a `submit_review`
+   * tool (the tools beta endpoint in this SDK version); text blocks are the fallback
+   * when the model answers without calling it.
+   */
+  protected async callAI(
+    prompt: string,
+    systemPrompt: string = SYSTEM_PROMPT,
+    onToken?: (text: string) => void,
+    responseSchema?: JSONSchema
+  ): Promise<Completion> {
+    const body = {
+      model: this.model,
+      max_tokens: 4096,
+      system: systemPrompt,
+      messages: [{ role: 'user' as const, content: prompt }],
+    };
+    const tools = responseSchema && [
+      {
+        name: REVIEW_TOOL_NAME,
+        description: 'Submit the code review findings',
+        input_schema: { ...responseSchema, type: 'object' as const },
+      },
+    ];
 
-  protected async callAI(prompt: string, systemPrompt: string = SYSTEM_PROMPT): Promise<string> {
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 4096,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: prompt }],
-      });
+      if (onToken) {
+        const stream = tools
+          ? await this.client.beta.tools.messages.create({ ...body, tools, stream: true })
+          : await this.client.messages.create({ ...body, stream: true });
+
+        let content = '';
+        let toolInput = '';
+        let promptTokens = 0;
+        let completionTokens = 0;
+        for await (const event of stream) {
+          if (event.type === 'content_block_delta') {
+            // Tool input arrives as input_json_delta, which this SDK version doesn't type
+            const delta = event.delta as { text?: string; partial_json?: string };
+            if (delta.partial_json) {
+              toolInput += delta.partial_json;
+              onToken(delta.partial_json);
+            } else if (delta.text) {
+              content += delta.text;
+              onToken(delta.text);
+            }
+          } else if (event.type === 'message_start') {
+            promptTokens = event.message.usage.input_tokens;
+          } else if (event.type === 'message_delta') {
+            // Cumulative output token count for the message so far
+            completionTokens = event.usage.output_tokens;
+          }
+        }
+        return { text: toolInput || content, usage: toUsage(promptTokens, completionTokens) };
+      }
+
+      const response = tools
+        ? await this.client.beta.tools.messages.create({ ...body, tools })
+        : await this.client.messages.create(body);
 
-      const firstContent = response.content[0];
-      return firstContent?.type === 'text' ? firstContent.text : '';
+      const toolUse = response.content.find((block) => block.type === 'tool_use');
+      const textBlock = response.content.find((block) => block.type === 'text');
+      return {
+        text:
+          toolUse?.type === 'tool_use'
+            ? JSON.stringify(toolUse.input)
+            : textBlock?.type === 'text'
+              ? textBlock.text
+              : '',
+        // Some Anthropic-compatible proxies omit usage
+        usage: response.usage
+          ? toUsage(response.usage.input_tokens, response.usage.output_tokens)
+          : undefined,
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new AIProviderError(
@@ -432,7 +806,37 @@ export class ClaudeProvider extends BaseAIProvider {
 // Ollama Provider
 // ============================================================================
 
+/**
+ * One /api/generate response, or one line of its stream
+ */
+interface OllamaGenerateResponse {
+  response?: string;
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+function ollamaUsage(data: OllamaGenerateResponse): TokenUsage | undefined {
+  return data.done ? toUsage(data.prompt_eval_count ?? 0, data.eval_count ?? 0) : undefined;
+}
+
+/**
+ * Non-2xx response from a fetch-based provider; the status lets the fallback chain
+ * decide whether to retry
+ */
+class HTTPStatusError extends Error {
+  constructor(
+    apiName: string,
+    readonly status: number,
+    readonly headers: Headers,
+    detail?: string
+  ) {
+    super(`${apiName} API error: ${status}${detail ? ` ${detail}` : ''}`);
+  }
+}
+
 export class OllamaProvider extends BaseAIProvider {
+  protected readonly providerName = 'ollama';
   private baseUrl: string;
 
   constructor(model: string, baseUrl: string = 'http://localhost:11434') {
@@ -440,13 +844,12 @@ export class OllamaProvider extends BaseAIProvider {
     this.baseUrl = baseUrl;
   }
 
-  async reviewCode(chunks: CodeChunk[], globalRules: string[]): Promise<ReviewResult> {
-    const prompt = this.buildPrompt(chunks, globalRules);
-    const content = await this.callAI(prompt, SYSTEM_PROMPT);
-    return this.parseResponse(content, chunks);
-  }
-
-  protected async callAI(prompt: string, systemPrompt: string = SYSTEM_PROMPT): Promise<string> {
+  protected async callAI(
+    prompt: string,
+    systemPrompt: string = SYSTEM_PROMPT,
+    onToken?: (text: string) => void,
+    responseSchema?: JSONSchema
+  ): Promise<Completion> {
     try {
       const response = await fetch(`${this.baseUrl}/api/generate`, {
         method: 'POST',
@@ -455,7 +858,9 @@ export class OllamaProvider extends BaseAIProvider {
           model: this.model,
           prompt,
           system: systemPrompt,
-          stream: false,
+          stream: Boolean(onToken),
+          // Ollama constrains generation to a JSON schema passed as `format`
+          format: responseSchema,
           options: {
             temperature: 0.1,
             num_predict: 4096,
@@ -464,14 +869,198 @@ export class OllamaProvider extends BaseAIProvider {
       });
 
       if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status}`);
+        throw new HTTPStatusError('Ollama', response.status, response.headers);
       }
 
-      const data = (await response.json()) as { response: string };
-      return data.response;
+      if (onToken) {
+        return await this.readStream(response, onToken);
+      }
+
+      const data = (await response.json()) as OllamaGenerateResponse;
+      return { text: data.response ?? '', usage: ollamaUsage(data) };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new AIProviderError(`Ollama API call failed: ${errorMessage}`);
+      throw new AIProviderError(
+        `Ollama API call failed: ${errorMessage}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Read Ollama's newline-delimited JSON stream, one `{ response, done }` object per line
+   */
+  private async readStream(
+    response: Response,
+    onToken: (text: string) => void
+  ): Promise<Completion> {
+    if (!response.body) {
+      throw new Error('Ollama returned an empty stream');
+    }
+
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    let content = '';
+    let usage: TokenUsage | undefined;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      pending += decoder.decode(value, { stream: !done });
+
+      const lines = pending.split('\n');
+      pending = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const data = JSON.parse(line) as OllamaGenerateResponse;
+        if (data.response) {
+          content += data.response;
+          onToken(data.response);
+        }
+        // Token counts come with the final `done` object
+        usage = ollamaUsage(data) ?? usage;
+      }
+
+      if (done) {
+        return { text: content, usage };
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Gemini Provider
+// ============================================================================
+
+/**
+ * One generateContent response, or one event of its server-sent stream
+ */
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+function geminiText(data: GeminiResponse): string {
+  return (data.candidates?.[0]?.content?.parts ?? []).map((part) => part.text ?? '').join('');
+}
+
+function geminiUsage(data: GeminiResponse): TokenUsage | undefined {
+  const metadata = data.usageMetadata;
+  return metadata
+    ? toUsage(metadata.promptTokenCount ?? 0, metadata.candidatesTokenCount ?? 0)
+    : undefined;
+}
+
+/**
+ * Google Gemini through the Generative Language REST API
+ */
+export class GeminiProvider extends BaseAIProvider {
+  protected readonly providerName = 'gemini';
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config: GeminiConfig) {
+    super(config.model);
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+  }
+
+  protected async callAI(
+    prompt: string,
+    systemPrompt: string = SYSTEM_PROMPT,
+    onToken?: (text: string) => void,
+    responseSchema?: JSONSchema
+  ): Promise<Completion> {
+    const method = onToken ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/v1beta/models/${encodeURIComponent(this.model)}:${method}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.apiKey },
+          body: JSON.stringify({
+            systemInstruction: { parts: [{ text: systemPrompt }] },
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            generationConfig: {
+              temperature: 0.1,
+              maxOutputTokens: 8192,
+              // responseJsonSchema takes plain JSON Schema, unlike the OpenAPI-subset responseSchema
+              ...(responseSchema && {
+                responseMimeType: 'application/json',
+                responseJsonSchema: responseSchema,
+              }),
+            },
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const body = (await response.json().catch(() => undefined)) as
+          | { error?: { message?: string } }
+          | undefined;
+        throw new HTTPStatusError(
+          'Gemini',
+          response.status,
+          response.headers,
+          body?.error?.message
+        );
+      }
+
+      if (onToken) {
+        return await this.readStream(response, onToken);
+      }
+
+      const data = (await response.json()) as GeminiResponse;
+      return { text: geminiText(data), usage: geminiUsage(data) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new AIProviderError(
+        `Gemini API call failed: ${errorMessage}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Read the server-sent events stream, one `data: <GeminiResponse>` line per event
+   */
+  private async readStream(
+    response: Response,
+    onToken: (text: string) => void
+  ): Promise<Completion> {
+    if (!response.body) {
+      throw new Error('Gemini returned an empty stream');
+    }
+
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    let content = '';
+    let usage: TokenUsage | undefined;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      pending += decoder.decode(value, { stream: !done });
+
+      const lines = pending.split('\n');
+      pending = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = JSON.parse(line.slice('data:'.length)) as GeminiResponse;
+        const text = geminiText(data);
+        if (text) {
+          content += text;
+          onToken(text);
+        }
+        // Each event carries the running token counts
+        usage = geminiUsage(data) ?? usage;
+      }
+
+      if (done) {
+        return { text: content, usage };
+      }
     }
   }
 }
@@ -481,8 +1070,126 @@ export class OllamaProvider extends BaseAIProvider {
 // ============================================================================
 
 export class AIProviderFactory {
-  static create(config: Config): AIProviderInterface {
-    switch (config.aiProvider) {
+  /**
+   * Create the configured provider. With `aiProviders` (or `aiFallback`) set, the
+   * providers are wrapped in a FallbackAIProvider that retries and falls back in order.
+   * With `consensus` set, every consensus provider reviews each batch instead.
+   * @param repoPath - Repository whose prompt templates the providers use
+   */
+  static create(config: Config, repoPath: string = process.cwd()): AIProviderInterface {
+    const templates = PromptTemplates.forRepository(repoPath, config.prompts);
+    const cassette = config.cassette ? new Cassette(config.cassette) : undefined;
+    return this.build(config, templates, cassette);
+  }
+
+  /**
+   * Create the configured provider plus one per `routing.routes` entry, sharing the
+   * prompt templates and cassette
+   * @throws ConfigurationError when a routing rule names an unknown route
+   */
+  static createRouter(config: Config, repoPath: string = process.cwd()): ModelRouter {
+    const templates = PromptTemplates.forRepository(repoPath, config.prompts);
+    const cassette = config.cassette ? new Cassette(config.cassette) : undefined;
+
+    const routes = new Map<string, RouteEntry>();
+    for (const [name, target] of Object.entries(config.routing?.routes ?? {})) {
+      routes.set(name, {
+        target,
+        provider: this.build(this.routeConfig(config, target), templates, cassette),
+      });
+    }
+
+    return new ModelRouter(
+      this.build(config, templates, cassette),
+      config.aiProvider,
+      routes,
+      config.routing ?? { rules: [] }
+    );
+  }
+
+  private static build(
+    config: Config,
+    templates: PromptTemplates,
+    cassette?: Cassette
+  ): AIProviderInterface {
+    if (config.consensus) {
+      const { providers, ...options } = config.consensus;
+      const entries = Array.from(new Set(providers)).map((name) => ({
+        name,
+        provider: this.createProvider(name, config, templates, cassette),
+      }));
+      return new ConsensusAIProvider(entries, options, config.pricing);
+    }
+    if (!config.aiProviders?.length && !config.aiFallback) {
+      return this.createProvider(config.aiProvider, config, templates, cassette);
+    }
+
+    const names = config.aiProviders?.length ? config.aiProviders : [config.aiProvider];
+    const entries = Array.from(new Set(names)).map((name) => ({
+      name,
+      provider: this.createProvider(name, config, templates, cassette),
+    }));
+    return new FallbackAIProvider(entries, config.aiFallback);
+  }
+
+  /**
+   * Config for a single route: its provider alone (no chain or panel), with its model
+   */
+  private static routeConfig(config: Config, { provider, model }: RouteTarget): Config {
+    const routed: Config = {
+      ...config,
+      aiProvider: provider,
+      aiProviders: undefined,
+      aiFallback: undefined,
+      consensus: undefined,
+    };
+    if (!model) {
+      return routed;
+    }
+
+    switch (provider) {
+      case 'openai':
+        return config.openai ? { ...routed, openai: { ...config.openai, model } } : routed;
+      case 'claude':
+        return config.claude ? { ...routed, claude: { ...config.claude, model } } : routed;
+      case 'ollama':
+        return {
+          ...routed,
+          ollama: { baseUrl: 'http://localhost:11434', ...config.ollama, model },
+        };
+      case 'openai-compatible':
+        return config.openaiCompatible
+          ? { ...routed, openaiCompatible: { ...config.openaiCompatible, model } }
+          : routed;
+      case 'gemini':
+        return config.gemini ? { ...routed, gemini: { ...config.gemini, model } } : routed;
+      case 'azure-openai':
+        // Azure addresses models by deployment
+        return config.azureOpenai
+          ? { ...routed, azureOpenai: { ...config.azureOpenai, deployment: model } }
+          : routed;
+    }
+  }
+
+  private static createProvider(
+    name: AIProvider,
+    config: Config,
+    templates: PromptTemplates,
+    cassette?: Cassette
+  ): AIProviderInterface {
+    const provider = this.instantiate(name, config);
+    provider.configurePrompts(templates);
+    if (cassette) {
+      provider.useCassette(cassette);
+    }
+    if (config.structuredOutput) {
+      provider.configureStructuredOutput(config.structuredOutput);
+    }
+    return provider;
+  }
+
+  private static instantiate(name: AIProvider, config: Config): BaseAIProvider {
+    switch (name) {
       case 'openai':
         if (!config.openai?.apiKey) {
           throw new AIProviderError('OpenAI API key is required');
@@ -498,8 +1205,28 @@ export class AIProviderFactory {
       case 'ollama':
         return new OllamaProvider(config.ollama?.model || 'codellama', config.ollama?.baseUrl);
 
+      case 'openai-compatible':
+        if (!config.openaiCompatible) {
+          throw new AIProviderError('OpenAI-compatible provider requires a base URL and model');
+        }
+        return new OpenAICompatibleProvider(config.openaiCompatible);
+
+      case 'gemini':
+        if (!config.gemini?.apiKey) {
+          throw new AIProviderError('Gemini API key is required');
+        }
+        return new GeminiProvider(config.gemini);
+
+      case 'azure-openai':
+        if (!config.azureOpenai) {
+          throw new AIProviderError(
+            'Azure OpenAI provider requires an endpoint, API key and deployment'
+          );
+        }
+        return new AzureOpenAIProvider(config.azureOpenai);
+
       default: {
-        const provider: never = config.aiProvider;
+        const provider: never = name;
         throw new AIProviderError(`Unsupported AI provider: ${String(provider)}`);
       }
     }
@@ -0,0 +1,294 @@
+/**
+ * Consensus Provider - Multi-model review with agreement voting
+ *
+ * Sends every batch to each configured provider and keeps a finding only when a
+ * quorum of them reported it, or when any of them rated it Critical. Findings match
+ * when they are in the same file, within a few lines of each other and similar in
+ * wording (the word-overlap score CommentDeduplicator uses).
+ */
+
+import type { AIProviderInterface, ReviewCodeOptions, ScoutResult } from '../ai-provider';
+import {
+  AIProviderError,
+  CassetteMissError,
+  CodeChunk,
+  ConsensusConfig,
+  ModelPrice,
+  ReviewComment,
+  ReviewResult,
+} from '../types';
+import { calculateSimilarity, mergeComments } from '../utils/comment-deduplicator';
+import { UsageTracker } from '../utils/usage-tracker';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConsensusProviderEntry {
+  /** Provider name recorded in ReviewMetadata.aiProvider */
+  name: string;
+  provider: AIProviderInterface;
+}
+
+export type ConsensusOptions = Omit<ConsensusConfig, 'providers'>;
+
+/**
+ * Findings of one provider
+ */
+export interface ProviderFindings {
+  name: string;
+  comments: ReviewComment[];
+}
+
+const DEFAULT_LINE_TOLERANCE = 3;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.6;
+
+// ============================================================================
+// Consensus Provider
+// ============================================================================
+
+export class ConsensusAIProvider implements AIProviderInterface {
+  private entries: ConsensusProviderEntry[];
+  private options: Required<ConsensusOptions>;
+  private pricing: Record<string, ModelPrice>;
+
+  /**
+   * @param pricing - Price table used to cost each provider's share of a review
+   */
+  constructor(
+    entries: ConsensusProviderEntry[],
+    options: ConsensusOptions = {},
+    pricing: Record<string, ModelPrice> = {}
+  ) {
+    if (entries.length < 2) {
+      throw new AIProviderError('Consensus reviews need at least two AI providers');
+    }
+
+    this.entries = entries;
+    this.pricing = pricing;
+    this.options = {
+      quorum: options.quorum ?? Math.floor(entries.length / 2) + 1,
+      lineTolerance: options.lineTolerance ?? DEFAULT_LINE_TOLERANCE,
+      similarityThreshold: options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+    };
+    if (this.options.quorum > entries.length) {
+      throw new AIProviderError(
+        `Consensus quorum ${this.options.quorum} exceeds the ${entries.length} configured providers`
+      );
+    }
+  }
+
+  async reviewCode(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult> {
+    return this.vote(
+      (provider, memberOptions) => provider.reviewCode(chunks, globalRules, memberOptions),
+      options
+    );
+  }
+
+  async deepDiveReview(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult> {
+    return this.vote(
+      (provider, memberOptions) => provider.deepDiveReview(chunks, globalRules, memberOptions),
+      options
+    );
+  }
+
+  /**
+   * Scouting only picks files for the deep dive, so the first provider that answers does it
+   */
+  async scoutReview(chunks: CodeChunk[]): Promise<ScoutResult> {
+    let lastError: unknown;
+    let miss: CassetteMissError | undefined;
+    for (const { provider } of this.entries) {
+      try {
+        return await provider.scoutReview(chunks);
+      } catch (error) {
+        // Replayed, a provider that failed while recording has no answer; the next one may
+        if (error instanceof CassetteMissError) {
+          miss ??= error;
+          continue;
+        }
+        lastError = error;
+      }
+    }
+    throw miss ?? lastError;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Run the review on every provider and keep the findings a quorum agrees on
+   */
+  private async vote(
+    review: (provider: AIProviderInterface, options: ReviewCodeOptions) => Promise<ReviewResult>,
+    options: ReviewCodeOptions = {}
+  ): Promise<ReviewResult> {
+    // Findings are only final once every provider has voted, so nothing is streamed
+    const memberOptions: ReviewCodeOptions = { ...options, onComment: undefined };
+    const settled = await Promise.allSettled(
+      this.entries.map(({ provider }) => review(provider, memberOptions))
+    );
+
+    const answered: Array<{ name: string; result: ReviewResult }> = [];
+    const failures: string[] = [];
+    let miss: CassetteMissError | undefined;
+    for (const [index, outcome] of settled.entries()) {
+      const { name } = this.entries[index] as ConsensusProviderEntry;
+      if (outcome.status === 'fulfilled') {
+        answered.push({ name, result: outcome.value });
+        continue;
+      }
+      // Replayed, a provider that failed while recording has no answer and fails again
+      if (outcome.reason instanceof CassetteMissError) {
+        miss ??= outcome.reason;
+      }
+      const message =
+        outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      failures.push(`${name}: ${message}`);
+    }
+
+    if (answered.length === 0) {
+      if (miss) {
+        throw miss;
+      }
+      throw new AIProviderError(`All consensus providers failed (${failures.join('; ')})`);
+    }
+
+    // Fewer voters than the quorum would let a single model's findings through unchecked
+    const { quorum } = this.options;
+    if (answered.length < quorum) {
+      throw new AIProviderError(
+        `Only ${answered.length} of ${this.entries.length} consensus providers answered, ` +
+          `below the quorum of ${quorum} (${failures.join('; ')})`
+      );
+    }
+    if (failures.length > 0) {
+      console.warn(
+        `Consensus review continuing with ${answered.length} of ${this.entries.length} providers (quorum ${quorum}): ${failures.join('; ')}`
+      );
+    }
+
+    const comments = findConsensus(
+      answered.map(({ name, result }) => ({ name, comments: result.comments })),
+      this.options
+    );
+    return this.combine(answered, comments);
+  }
+
+  private combine(
+    answered: Array<{ name: string; result: ReviewResult }>,
+    comments: ReviewComment[]
+  ): ReviewResult {
+    const usage = new UsageTracker(this.pricing);
+    let repairs = 0;
+    let toolCalls = 0;
+    for (const { result } of answered) {
+      usage.record('review', result.metadata?.usage, result.metadata?.model);
+      repairs += result.metadata?.repairs ?? 0;
+      toolCalls += result.metadata?.toolCalls ?? 0;
+    }
+    const { promptTokens, completionTokens, cost } = usage.getUsage();
+    const reported = answered.some(({ result }) => result.metadata?.usage);
+
+    const stats = {
+      errors: comments.filter((c) => c.severity === 'error').length,
+      warnings: comments.filter((c) => c.severity === 'warning').length,
+      suggestions: comments.filter((c) => c.severity === 'suggestion' || c.severity === 'info')
+        .length,
+    };
+
+    let recommendation: string;
+    if (stats.errors > 0) {
+      recommendation = 'BLOCK';
+    } else if (stats.warnings > 3) {
+      recommendation = 'REQUEST_CHANGES';
+    } else if (stats.warnings > 0) {
+      recommendation = 'APPROVE_WITH_NITS';
+    } else {
+      recommendation = 'APPROVE';
+    }
+
+    const [preferred] = answered as [{ name: string; result: ReviewResult }];
+    return {
+      comments,
+      // The summary of the first configured provider that answered stands for the panel
+      summary: preferred.result.summary,
+      stats,
+      recommendation,
+      topIssues: comments
+        .filter((c) => c.severity === 'error' || c.severity === 'warning')
+        .slice(0, 5)
+        .map((c) => `${c.severity.toUpperCase()}: ${c.body.split('\n')[0]}`),
+      metadata: {
+        aiProvider: answered
+          .map(({ name, result }) => result.metadata?.aiProvider ?? name)
+          .join(' + '),
+        model: answered
+          .map(({ result }) => result.metadata?.model)
+          .filter(Boolean)
+          .join(' + '),
+        usage: reported ? { promptTokens, completionTokens, cost } : undefined,
+        repairs: repairs || undefined,
+        toolCalls: toolCalls || undefined,
+      },
+    };
+  }
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Group matching findings across providers and keep the groups reported by at
+ * least `quorum` providers or rated Critical by any. Each kept finding is the
+ * most severe of its group, with `agreement` set to the number of providers in it.
+ */
+export function findConsensus(
+  findings: ProviderFindings[],
+  options: Required<ConsensusOptions>
+): ReviewComment[] {
+  const groups: Array<{ comment: ReviewComment; providers: Set<string>; critical: boolean }> = [];
+
+  for (const { name, comments } of findings) {
+    for (const comment of comments) {
+      // A provider votes once per group; its second similar finding starts a new group
+      const group = groups.find(
+        (candidate) =>
+          !candidate.providers.has(name) &&
+          candidate.comment.file === comment.file &&
+          Math.abs(candidate.comment.line - comment.line) <= options.lineTolerance &&
+          calculateSimilarity(candidate.comment.body, comment.body) >= options.similarityThreshold
+      );
+
+      if (group) {
+        group.comment = mergeComments(group.comment, comment);
+        group.providers.add(name);
+        group.critical ||= Boolean(comment.critical);
+      } else {
+        groups.push({
+          comment,
+          providers: new Set([name]),
+          critical: Boolean(comment.critical),
+        });
+      }
+    }
+  }
+
+  return groups
+    .filter((group) => group.providers.size >= options.quorum || group.critical)
+    .map(({ comment, providers, critical }) => ({
+      ...comment,
+      ...(critical && { critical }),
+      agreement: providers.size,
+    }));
+}
@@ -0,0 +1,324 @@
+/**
+ * Fallback Provider - Ordered AI provider chain
+ *
+ * Tries each configured provider in turn (e.g. claude → openai → local ollama).
+ * Transient failures are retried with exponential backoff that honours Retry-After,
+ * and a per-provider circuit breaker skips providers that keep failing.
+ */
+
+import type { AIProviderInterface, ReviewCodeOptions, ScoutResult } from '../ai-provider';
+import {
+  AIFallbackConfig,
+  AIProviderError,
+  CassetteMissError,
+  CodeChunk,
+  ReviewResult,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FallbackProviderEntry {
+  /** Provider name recorded in ReviewMetadata.aiProvider */
+  name: string;
+  provider: AIProviderInterface;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+type ChainEntry = FallbackProviderEntry & { breaker: CircuitBreaker };
+
+const DEFAULT_OPTIONS: Required<AIFallbackConfig> = {
+  retries: 2,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  failureThreshold: 3,
+  cooldown: 60000,
+};
+
+/** Statuses worth retrying on the same provider; other 4xx errors move on immediately */
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 409, 425, 429]);
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+/**
+ * Opens after `failureThreshold` consecutive failures and rejects requests until
+ * `cooldown` has passed. It then lets a single probe through (half-open): success
+ * closes the circuit again, failure re-opens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldown: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt < this.cooldown ? 'open' : 'half-open';
+  }
+
+  /**
+   * Whether a request may be sent now. In the half-open state only the first caller
+   * is let through until its outcome is recorded.
+   */
+  allowRequest(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        if (this.probing) {
+          return false;
+        }
+        this.probing = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.probing = false;
+  }
+
+  recordFailure(): void {
+    const wasProbing = this.probing;
+    this.probing = false;
+    this.failures++;
+    if (wasProbing || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
+
+// ============================================================================
+// Fallback Provider
+// ============================================================================
+
+export class FallbackAIProvider implements AIProviderInterface {
+  private entries: ChainEntry[];
+  private options: Required<AIFallbackConfig>;
+
+  constructor(entries: FallbackProviderEntry[], options: AIFallbackConfig = {}) {
+    if (entries.length === 0) {
+      throw new AIProviderError('At least one AI provider is required');
+    }
+
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.entries = entries.map((entry) => ({
+      ...entry,
+      breaker: new CircuitBreaker(this.options.failureThreshold, this.options.cooldown),
+    }));
+  }
+
+  async reviewCode(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult> {
+    const { result, name } = await this.run((provider) =>
+      provider.reviewCode(chunks, globalRules, options)
+    );
+    return this.stampProvider(result, name);
+  }
+
+  async deepDiveReview(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult> {
+    const { result, name } = await this.run((provider) =>
+      provider.deepDiveReview(chunks, globalRules, options)
+    );
+    return this.stampProvider(result, name);
+  }
+
+  async scoutReview(chunks: CodeChunk[]): Promise<ScoutResult> {
+    const { result } = await this.run((provider) => provider.scoutReview(chunks));
+    return result;
+  }
+
+  /**
+   * Current circuit state per provider, in chain order
+   */
+  getCircuitStates(): Array<{ name: string; state: CircuitState }> {
+    return this.entries.map(({ name, breaker }) => ({ name, state: breaker.state }));
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Call providers in chain order until one succeeds, returning its result and name
+   */
+  private async run<T>(
+    call: (provider: AIProviderInterface) => Promise<T>
+  ): Promise<{ result: T; name: string }> {
+    const failures: string[] = [];
+    let miss: CassetteMissError | undefined;
+
+    for (const entry of this.entries) {
+      if (!entry.breaker.allowRequest()) {
+        failures.push(`${entry.name}: circuit open`);
+        continue;
+      }
+
+      try {
+        return { result: await this.callWithRetry(entry, call), name: entry.name };
+      } catch (error) {
+        // A provider that failed while recording left no answer; the one that took over did
+        if (error instanceof CassetteMissError) {
+          miss ??= error;
+          continue;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${entry.name}: ${message}`);
+        if (entry !== this.entries[this.entries.length - 1]) {
+          console.warn(`AI provider ${entry.name} failed, falling back: ${message}`);
+        }
+      }
+    }
+
+    if (miss) {
+      throw miss;
+    }
+    throw new AIProviderError(`All AI providers failed (${failures.join('; ')})`);
+  }
+
+  private async callWithRetry<T>(
+    entry: ChainEntry,
+    call: (provider: AIProviderInterface) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await call(entry.provider);
+        entry.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (error instanceof CassetteMissError) {
+          throw error;
+        }
+        const delay = this.retryDelay(error, attempt);
+        if (delay === undefined) {
+          entry.breaker.recordFailure();
+          throw error;
+        }
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Milliseconds to wait before the next attempt, or undefined to give up on this
+   * provider. A Retry-After longer than maxDelay gives up too - the next provider
+   * is a better bet than waiting.
+   */
+  private retryDelay(error: unknown, attempt: number): number | undefined {
+    if (attempt >= this.options.retries || !isRetryable(error)) {
+      return undefined;
+    }
+
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== undefined) {
+      return retryAfter <= this.options.maxDelay ? retryAfter : undefined;
+    }
+    return Math.min(this.options.baseDelay * 2 ** attempt, this.options.maxDelay);
+  }
+
+  private stampProvider(result: ReviewResult, name: string): ReviewResult {
+    return {
+      ...result,
+      metadata: { ...result.metadata, aiProvider: result.metadata?.aiProvider ?? name },
+    };
+  }
+}
+
+// ============================================================================
+// Error Inspection
+// ============================================================================
+
+/**
+ * Shape of the SDK/HTTP errors providers wrap in AIProviderError.cause
+ */
+interface HTTPErrorLike {
+  status?: number;
+  headers?: Headers | Record<string, string | null | undefined>;
+  cause?: unknown;
+}
+
+/**
+ * Walk an error and its causes for the first one carrying an HTTP status
+ */
+function findHTTPError(error: unknown): HTTPErrorLike | undefined {
+  let current: unknown = error;
+  for (let depth = 0; depth < 5 && current instanceof Error; depth++) {
+    const candidate = current as Error & HTTPErrorLike;
+    if (typeof candidate.status === 'number') {
+      return candidate;
+    }
+    current = candidate.cause;
+  }
+  return undefined;
+}
+
+/**
+ * HTTP status behind an error (SDK errors are wrapped in AIProviderError.cause)
+ */
+export function getHTTPStatus(error: unknown): number | undefined {
+  return findHTTPError(error)?.status;
+}
+
+/**
+ * Rate limits, timeouts, server errors and network failures (no status) are transient
+ */
+export function isRetryable(error: unknown): boolean {
+  const status = getHTTPStatus(error);
+  return status === undefined || status >= 500 || RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Read Retry-After (seconds or an HTTP date) or OpenAI's retry-after-ms, in milliseconds
+ */
+export function getRetryAfter(error: unknown, now: number = Date.now()): number | undefined {
+  const headers = findHTTPError(error)?.headers;
+  if (!headers) {
+    return undefined;
+  }
+
+  const read = (name: string): string | undefined =>
+    (headers instanceof Headers ? headers.get(name) : headers[name]) ?? undefined;
+
+  const retryAfterMs = read('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = read('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
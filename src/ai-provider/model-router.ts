@@ -0,0 +1,215 @@
+/**
+ * Model Router - Complexity-based routing of review batches
+ *
+ * Uses the scout pass to pick a model per batch: trivial batches can go to a cheap
+ * or local model, batches touching critical files or high-priority chunks to the
+ * strongest one. Rules are tried in order and the first match wins; a batch no
+ * rule matches goes to the default provider.
+ */
+
+import type { AIProviderInterface, ReviewCodeOptions, ScoutResult } from '../ai-provider';
+import {
+  CodeChunk,
+  ConfigurationError,
+  ReviewResult,
+  RouteTarget,
+  RoutingConfig,
+  RoutingDecision,
+  RoutingRule,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEFAULT_ROUTE = 'default';
+
+/**
+ * A provider built for one `routing.routes` entry
+ */
+export interface RouteEntry {
+  target: RouteTarget;
+  provider: AIProviderInterface;
+}
+
+/**
+ * What the scout pass found, which rules match batches against
+ */
+export type ScoutFindings = Pick<ScoutResult, 'complexityScore' | 'criticalFiles'>;
+
+// ============================================================================
+// Model Router
+// ============================================================================
+
+export class ModelRouter {
+  readonly defaultProvider: AIProviderInterface;
+  readonly defaultName: string;
+  private routes: Map<string, RouteEntry>;
+  private rules: RoutingRule[];
+
+  /**
+   * @param defaultName - Provider name recorded for batches no rule matched
+   * @throws ConfigurationError when a rule names a route that is not configured
+   */
+  constructor(
+    defaultProvider: AIProviderInterface,
+    defaultName: string,
+    routes: Map<string, RouteEntry>,
+    config: Pick<RoutingConfig, 'rules'>
+  ) {
+    for (const rule of config.rules) {
+      if (!routes.has(rule.route)) {
+        throw new ConfigurationError(
+          `Routing rule uses unknown route "${rule.route}" (configured: ${Array.from(routes.keys()).join(', ') || 'none'})`
+        );
+      }
+    }
+
+    this.defaultProvider = defaultProvider;
+    this.defaultName = defaultName;
+    this.routes = routes;
+    this.rules = config.rules;
+  }
+
+  /**
+   * A provider for one review that routes each batch by the review's scout findings
+   * and remembers the decisions
+   */
+  forReview(scout: ScoutFindings): RoutedAIProvider {
+    return new RoutedAIProvider(this, scout);
+  }
+
+  /**
+   * Route name, provider and reason for a batch
+   */
+  select(
+    chunks: CodeChunk[],
+    scout: ScoutFindings
+  ): { route: string; target?: RouteTarget; provider: AIProviderInterface; reason: string } {
+    for (const rule of this.rules) {
+      const reasons = matchRule(rule, chunks, scout);
+      const entry = this.routes.get(rule.route);
+      if (reasons && entry) {
+        return { route: rule.route, ...entry, reason: reasons.join(', ') };
+      }
+    }
+    return { route: DEFAULT_ROUTE, provider: this.defaultProvider, reason: 'no rule matched' };
+  }
+}
+
+// ============================================================================
+// Routed Provider
+// ============================================================================
+
+/**
+ * Sends each batch to the provider its route picks. Scouting stays on the default
+ * provider, since it runs before there is anything to route on.
+ */
+export class RoutedAIProvider implements AIProviderInterface {
+  private decisions: RoutingDecision[] = [];
+
+  constructor(
+    private readonly router: ModelRouter,
+    private readonly scout: ScoutFindings
+  ) {}
+
+  async reviewCode(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult> {
+    return this.route(chunks, (provider) => provider.reviewCode(chunks, globalRules, options));
+  }
+
+  async deepDiveReview(
+    chunks: CodeChunk[],
+    globalRules: string[],
+    options?: ReviewCodeOptions
+  ): Promise<ReviewResult> {
+    return this.route(chunks, (provider) => provider.deepDiveReview(chunks, globalRules, options));
+  }
+
+  async scoutReview(chunks: CodeChunk[]): Promise<ScoutResult> {
+    return this.router.defaultProvider.scoutReview(chunks);
+  }
+
+  /**
+   * One decision per chunk routed so far, in the order batches finished
+   */
+  getDecisions(): RoutingDecision[] {
+    return [...this.decisions];
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async route(
+    chunks: CodeChunk[],
+    review: (provider: AIProviderInterface) => Promise<ReviewResult>
+  ): Promise<ReviewResult> {
+    const { route, target, provider, reason } = this.router.select(chunks, this.scout);
+    const result = await review(provider);
+
+    const providerName = result.metadata?.aiProvider ?? target?.provider ?? this.router.defaultName;
+    const model = result.metadata?.model ?? target?.model;
+    this.decisions.push(
+      ...chunks.map((chunk) => ({
+        chunkId: chunk.id,
+        file: chunk.file,
+        name: chunk.name,
+        route,
+        provider: providerName,
+        model,
+        reason,
+      }))
+    );
+    return result;
+  }
+}
+
+// ============================================================================
+// Rule Matching
+// ============================================================================
+
+/**
+ * Why a rule matches a batch, or undefined when one of its conditions fails.
+ * A rule without conditions matches every batch.
+ */
+export function matchRule(
+  rule: RoutingRule,
+  chunks: CodeChunk[],
+  scout: ScoutFindings
+): string[] | undefined {
+  const reasons: string[] = [];
+
+  if (rule.critical !== undefined) {
+    const critical = chunks.find((chunk) => scout.criticalFiles.includes(chunk.file));
+    if (Boolean(critical) !== rule.critical) return undefined;
+    reasons.push(critical ? `critical file ${critical.file}` : 'no critical files');
+  }
+
+  if (rule.minPriority !== undefined) {
+    const priority = Math.max(0, ...chunks.map((chunk) => chunk.priorityScore ?? 0));
+    if (priority < rule.minPriority) return undefined;
+    reasons.push(`priority ${priority} >= ${rule.minPriority}`);
+  }
+
+  if (rule.minComplexity !== undefined) {
+    if (scout.complexityScore < rule.minComplexity) return undefined;
+    reasons.push(`complexity ${scout.complexityScore} >= ${rule.minComplexity}`);
+  }
+
+  if (rule.maxComplexity !== undefined) {
+    if (scout.complexityScore > rule.maxComplexity) return undefined;
+    reasons.push(`complexity ${scout.complexityScore} <= ${rule.maxComplexity}`);
+  }
+
+  if (rule.maxLines !== undefined) {
+    const lines = chunks.reduce((sum, chunk) => sum + chunk.endLine - chunk.startLine + 1, 0);
+    if (lines > rule.maxLines) return undefined;
+    reasons.push(`${lines} lines <= ${rule.maxLines}`);
+  }
+
+  return reasons.length > 0 ? reasons : ['catch-all rule'];
+}
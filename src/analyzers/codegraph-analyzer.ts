@@ -256,6 +256,30 @@ export class CodegraphAnalyzer {
     return dependents ? Array.from(dependents) : [];
   }
 
+  /**
+   * Files in the graph that export a symbol, relative to rootDir
+   */
+  findExporters(symbol: string): string[] {
+    return Array.from(this.graph.nodes.values())
+      .filter((node) => node.exports.includes(symbol))
+      .map((node) => relative(this.options.rootDir, node.file));
+  }
+
+  /**
+   * Calls of a symbol found in the graph, with files relative to rootDir
+   */
+  findCallers(symbol: string): Array<{ file: string; caller: string; line: number }> {
+    return Array.from(this.graph.nodes.values()).flatMap((node) =>
+      node.internalDeps
+        .filter((dep) => dep.callee === symbol)
+        .map((dep) => ({
+          file: relative(this.options.rootDir, node.file),
+          caller: dep.caller,
+          line: dep.line,
+        }))
+    );
+  }
+
   /**
    * Generate visualization (Mermaid format)
    */
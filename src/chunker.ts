@@ -78,8 +78,13 @@ export class ChunkService {
    * Chunk all changed files
    * @param changedFiles - Array of changed files
    * @param branch - Branch name to read files from
+   * @param checkoutDir - Checkout of the branch for parsing (defaults to the repository)
    */
-  async chunkChangedFiles(changedFiles: ChangedFile[], branch: string): Promise<CodeChunk[]> {
+  async chunkChangedFiles(
+    changedFiles: ChangedFile[],
+    branch: string,
+    checkoutDir?: string
+  ): Promise<CodeChunk[]> {
     const chunks: CodeChunk[] = [];
 
     // Documentation file patterns to exclude from review
@@ -107,9 +112,20 @@ export class ChunkService {
         continue;
       }
 
+      // A moved or copied file is only reviewed where it was edited
+      const editedLines =
+        file.status === 'renamed' || file.status === 'copied'
+          ? (file.changedLines ?? new Set<number>())
+          : undefined;
+      if (editedLines?.size === 0) continue;
+
       try {
-        const fileChunks = await this.chunkFile(file.path, branch);
-        chunks.push(...fileChunks);
+        const fileChunks = await this.chunkFile(file.path, branch, checkoutDir);
+        chunks.push(
+          ...(editedLines
+            ? fileChunks.filter((chunk) => this.touchesLines(chunk, editedLines))
+            : fileChunks)
+        );
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.warn(`Failed to chunk ${file.path}: ${errorMessage}`);
@@ -119,23 +135,40 @@ export class ChunkService {
     return chunks;
   }
 
+  private touchesLines(chunk: CodeChunk, lines: Set<number>): boolean {
+    for (const line of lines) {
+      if (line >= chunk.startLine && line <= chunk.endLine) return true;
+    }
+    return false;
+  }
+
   /**
    * Chunk a single file
    * @param filePath - Path to the file relative to repo root
    * @param branch - Optional branch name to read file from
+   * @param checkoutDir - Checkout of the branch for chunkyyy, which parses files on disk
+   *   (defaults to the repository)
    */
-  async chunkFile(filePath: string, branch?: string): Promise<CodeChunk[]> {
-    const fullPath = join(this.basePath, filePath);
-    const currentBranch = await this.git.getCurrentBranch();
+  async chunkFile(filePath: string, branch?: string, checkoutDir?: string): Promise<CodeChunk[]> {
+    const content = await this.getFileContent(filePath, join(this.basePath, filePath), branch);
 
-    const content = await this.getFileContent(filePath, fullPath, branch, currentBranch);
-    const rawChunks = await this.getRawChunks(filePath);
+    // The parsed file's line ranges only fit the same content (a file the checkout doesn't
+    // hold at that version gets the fallback chunk)
+    const parsePath = checkoutDir ? join(checkoutDir, filePath) : filePath;
+    const rawChunks = this.matchesDisk(join(checkoutDir ?? this.basePath, filePath), content)
+      ? await this.getRawChunks(parsePath)
+      : [];
 
     if (!rawChunks || rawChunks.length === 0) {
       return this.createFallbackChunk(filePath, content);
     }
 
-    return this.mapChunksToCodeChunks(rawChunks, filePath, content);
+    // Chunks parsed in another checkout carry its absolute path
+    return this.mapChunksToCodeChunks(
+      checkoutDir ? rawChunks.map((chunk) => ({ ...chunk, filePath })) : rawChunks,
+      filePath,
+      content
+    );
   }
 
   /**
@@ -151,10 +184,7 @@ export class ChunkService {
     endLine: number,
     branch?: string
   ): Promise<CodeChunk> {
-    const fullPath = join(this.basePath, filePath);
-    const currentBranch = await this.git.getCurrentBranch();
-
-    const content = await this.getFileContent(filePath, fullPath, branch, currentBranch);
+    const content = await this.getFileContent(filePath, join(this.basePath, filePath), branch);
     const lines = content.split('\n');
     const chunkContent = lines.slice(startLine - 1, endLine).join('\n');
 
@@ -179,13 +209,15 @@ export class ChunkService {
   // Private Methods
   // ============================================================================
 
+  /**
+   * Read a branch's version from git objects, so it doesn't matter what is checked out
+   */
   private async getFileContent(
     filePath: string,
     fullPath: string,
-    branch: string | undefined,
-    currentBranch: string
+    branch: string | undefined
   ): Promise<string> {
-    if (branch && branch !== currentBranch) {
+    if (branch) {
       return await this.git.getFileContent(filePath, branch);
     }
 
@@ -196,6 +228,10 @@ export class ChunkService {
     return readFileSync(fullPath, 'utf-8');
   }
 
+  private matchesDisk(fullPath: string, content: string): boolean {
+    return existsSync(fullPath) && readFileSync(fullPath, 'utf-8') === content;
+  }
+
   private async getRawChunks(filePath: string): Promise<ChunkyyyChunk[]> {
     try {
       const chunks = await this.chunkyyy.chunkFile(filePath);
@@ -0,0 +1,105 @@
+/**
+ * Prompts Command - Preview the prompts a review would send
+ *
+ * Renders the system and user prompt of each batch for a branch diff, using the
+ * repository's prompt templates, without calling a model.
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { CodeChunk, PromptPass } from '../../types';
+import { PROMPT_PASSES } from '../../utils/prompt-templates';
+
+interface PromptsRenderOptions {
+  branch?: string;
+  base?: string;
+  pass: string;
+  files?: string[];
+  config?: string;
+  repo?: string;
+}
+
+/** Passes whose prompts are built from the diff alone */
+const RENDERABLE_PASSES: readonly PromptPass[] = ['review', 'deepDive', 'scout'];
+
+export async function promptsRenderCommand(options: PromptsRenderOptions): Promise<void> {
+  try {
+    const pass = PROMPT_PASSES.find((candidate) => candidate === options.pass);
+    if (!pass || !RENDERABLE_PASSES.includes(pass)) {
+      throw new Error(
+        `Cannot render pass "${options.pass}" (available: ${RENDERABLE_PASSES.join(', ')})`
+      );
+    }
+
+    // Lazy load heavy dependencies
+    const { ConfigLoader } = await import('../../config');
+    const { GitService } = await import('../../git');
+    const { ChunkService } = await import('../../chunker');
+    const { ChunkBatcher } = await import('../../utils/chunk-batcher');
+    const { PromptTemplates } = await import('../../utils/prompt-templates');
+    const { ReviewPromptBuilder } = await import('../../utils/review-prompts');
+
+    const repoPath = resolve(options.repo ?? process.cwd());
+    const config = ConfigLoader.load(options.config);
+    const git = new GitService(repoPath);
+
+    const branch = options.branch ?? (await git.getCurrentBranch());
+    const base = options.base ?? config.repository?.baseBranch;
+    let changedFiles = await git.getChangedFiles(branch, base);
+    if (options.files?.length) {
+      changedFiles = changedFiles.filter((file) => options.files?.includes(file.path));
+    }
+
+    // Chunked in a checkout of the branch, as a review does, so code structure is parsed
+    // even when the branch isn't checked out
+    const checkoutDir = await git.addWorktree(branch);
+    let chunks: CodeChunk[];
+    try {
+      chunks = await new ChunkService(repoPath).chunkChangedFiles(
+        changedFiles,
+        branch,
+        checkoutDir
+      );
+    } finally {
+      await git.removeWorktree(checkoutDir);
+    }
+    if (chunks.length === 0) {
+      console.log(chalk.yellow('No code chunks in this diff; nothing to render.'));
+      return;
+    }
+
+    const templates = PromptTemplates.forRepository(repoPath, config.prompts);
+    const builder = new ReviewPromptBuilder(templates);
+
+    // The scout pass sees every chunk at once; the others are sent per batch
+    const batches: CodeChunk[][] =
+      pass === 'scout'
+        ? [chunks]
+        : new ChunkBatcher({
+            maxTokens: config.batching?.maxTokens || 8000,
+            maxChunks: config.batching?.maxChunks || 50,
+            groupByFile: config.batching?.groupByFile ?? true,
+          }).batchChunks(chunks);
+
+    batches.forEach((batch, index) => {
+      const prompt = builder.build(pass, batch, config.globalRules);
+      const source = prompt.templates.length > 0 ? prompt.templates.join(', ') : 'built-in';
+
+      console.log(
+        chalk.bold.blue(`\n═══ ${pass} prompt ${index + 1}/${batches.length} (${source}) ═══`)
+      );
+      console.log(chalk.gray(`Chunks: ${batch.map((chunk) => chunk.name).join(', ')}`));
+      console.log(chalk.bold('\n── System ──\n'));
+      console.log(prompt.system);
+      console.log(chalk.bold('\n── User ──\n'));
+      console.log(prompt.user);
+    });
+  } catch (error) {
+    console.error(
+      chalk.red(
+        `Failed to render prompts: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Publish Command - Post a review bundle to the configured forge
+ *
+ * Pairs with `review --bundle`: review in a sandboxed job without forge
+ * credentials, then publish the bundle from a trusted one.
+ */
+
+import chalk from 'chalk';
+
+interface PublishOptions {
+  config?: string;
+  pr?: string;
+}
+
+export async function publishCommand(bundlePath: string, options: PublishOptions): Promise<void> {
+  try {
+    // Lazy load heavy dependencies
+    const { ConfigLoader } = await import('../../config');
+    const { PRCommentServiceFactory } = await import('../../pr-comments');
+    const { FileCommentService } = await import('../../pr-comments/file-comments');
+
+    const bundle = FileCommentService.readBundle(bundlePath);
+    const prNumber = options.pr ? parseInt(options.pr, 10) : bundle.prNumber;
+
+    // Drop any configured bundle so the factory picks the live forge
+    const config = { ...ConfigLoader.load(options.config), bundle: undefined };
+    const service = PRCommentServiceFactory.create(config);
+
+    console.log(chalk.blue(`\n📤 Publishing review bundle to PR #${prNumber}...`));
+    await FileCommentService.publish(bundle, service, prNumber);
+
+    console.log(
+      chalk.green(
+        `Published ${bundle.comments.length} comment(s)` +
+          (bundle.decision ? ` and a ${bundle.decision.decision} decision` : '')
+      )
+    );
+  } catch (error) {
+    console.error(
+      chalk.red(`Failed to publish: ${error instanceof Error ? error.message : String(error)}`)
+    );
+    process.exit(1);
+  }
+}
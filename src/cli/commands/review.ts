@@ -4,6 +4,9 @@
  * Supports:
  * - Branch review: --branch feature/my-branch --base main
  * - PR review: --pr 123
+ * - Uncommitted changes: --staged or --working-tree [--base main]
+ * - Commits: --range main..feature, --commit abc123, --per-commit
+ * - Patch: --patch change.diff (or - for stdin), applied on top of HEAD
  * - Path review: --path ./src (fallback)
  */
 
@@ -13,7 +16,9 @@ import ora from 'ora';
 import { resolve } from 'path';
 import { createPerformanceAnalyzer, createSecurityAnalyzer } from '../../analyzers';
 import { createAutoFix } from '../../autofix';
+import type { GiteaPullRequest } from '../../pr-comments/gitea';
 import { Config, ReviewComment, ReviewResult } from '../../types';
+import type { ReviewStreamCallbacks } from '../../utils/review-stream';
 import { getFiles, loadConfig, SherlockConfig } from '../utils';
 
 // Types for lazy-loaded modules
@@ -22,7 +27,18 @@ interface PRReviewerClass {
     config: Config,
     repoPath?: string
   ): {
-    reviewPR(branch: string, post: boolean, base?: string): Promise<ReviewResult>;
+    reviewPR(
+      branch: string,
+      post: boolean,
+      base?: string,
+      streamCallbacks?: ReviewStreamCallbacks
+    ): Promise<ReviewResult>;
+    reviewCommits(
+      branch: string,
+      base?: string,
+      streamCallbacks?: ReviewStreamCallbacks
+    ): Promise<ReviewResult>;
+    reviewPatch(patch: string, streamCallbacks?: ReviewStreamCallbacks): Promise<ReviewResult>;
   };
 }
 
@@ -36,15 +52,22 @@ interface GitServiceClass {
   };
 }
 
+interface WorkingCopyRefs {
+  staged: string;
+  workingTree: string;
+}
+
 // Lazy-loaded modules cache
 let _PRReviewer: PRReviewerClass | null = null;
 let _ConfigLoader: ConfigLoaderClass | null = null;
 let _GitService: GitServiceClass | null = null;
+let _refs: WorkingCopyRefs | null = null;
 
 async function loadReviewerDeps(): Promise<{
   PRReviewer: PRReviewerClass;
   ConfigLoader: ConfigLoaderClass;
   GitService: GitServiceClass;
+  refs: WorkingCopyRefs;
 }> {
   if (!_PRReviewer) {
     const reviewerModule = await import('../../reviewer');
@@ -53,11 +76,13 @@ async function loadReviewerDeps(): Promise<{
     _PRReviewer = reviewerModule.PRReviewer as PRReviewerClass;
     _ConfigLoader = configModule.ConfigLoader as ConfigLoaderClass;
     _GitService = gitModule.GitService as GitServiceClass;
+    _refs = { staged: gitModule.STAGED_REF, workingTree: gitModule.WORKING_TREE_REF };
   }
   return {
     PRReviewer: _PRReviewer,
     ConfigLoader: _ConfigLoader!,
     GitService: _GitService!,
+    refs: _refs!,
   };
 }
 
@@ -66,6 +91,12 @@ interface ReviewOptions {
   branch?: string;
   base?: string;
   pr?: string;
+  staged?: boolean;
+  workingTree?: boolean;
+  range?: string;
+  commit?: string;
+  perCommit?: boolean;
+  patch?: string;
   model?: string;
   output?: string;
   files?: string[];
@@ -75,6 +106,9 @@ interface ReviewOptions {
   fix?: boolean;
   strict?: boolean;
   post?: boolean;
+  bundle?: string;
+  record?: string;
+  replay?: string;
 }
 
 interface ReviewIssue {
@@ -91,7 +125,16 @@ export async function reviewCommand(options: ReviewOptions): Promise<void> {
 
   try {
     // Determine review mode
-    if (options.branch || options.pr) {
+    if (
+      options.branch ||
+      options.pr ||
+      options.staged ||
+      options.workingTree ||
+      options.range ||
+      options.commit ||
+      options.perCommit ||
+      options.patch
+    ) {
       // Branch/PR review mode - uses PRReviewer with chunkyyy + AI
       await runBranchReview(options, spinner);
     } else {
@@ -109,53 +152,142 @@ export async function reviewCommand(options: ReviewOptions): Promise<void> {
  */
 async function runBranchReview(options: ReviewOptions, spinner: ora.Ora): Promise<void> {
   // Lazy load heavy dependencies
-  const { PRReviewer, ConfigLoader, GitService } = await loadReviewerDeps();
+  const { PRReviewer, ConfigLoader, GitService, refs } = await loadReviewerDeps();
 
   const repoPath = process.cwd();
   const git = new GitService(repoPath);
 
+  // Load config (the forge decides which ref holds the PR head)
+  const config = ConfigLoader.load(options.config);
+
   // Determine branch to review
   let targetBranch: string;
-  const baseBranch = options.base || 'main';
-
-  if (options.pr) {
+  let baseBranch = options.base || 'main';
+  let label: string | undefined;
+  let patch: string | undefined;
+
+  if (options.patch) {
+    if (
+      options.branch ||
+      options.pr ||
+      options.staged ||
+      options.workingTree ||
+      options.range ||
+      options.commit ||
+      options.perCommit
+    ) {
+      throw new Error('--patch cannot be combined with another review target');
+    }
+    if (options.post || options.bundle) {
+      throw new Error('Patches cannot be posted to a PR');
+    }
+    patch = readFileSync(options.patch === '-' ? 0 : options.patch, 'utf-8');
+    // The patch is applied on top of the current commit
+    targetBranch = 'HEAD';
+    label = options.patch === '-' ? 'patch from stdin' : `patch ${options.patch}`;
+    baseBranch = 'HEAD';
+  } else if (options.staged || options.workingTree) {
+    if (options.staged && options.workingTree) {
+      throw new Error('--staged and --working-tree cannot be used together');
+    }
+    if (options.branch || options.pr || options.range || options.commit || options.perCommit) {
+      throw new Error('--staged and --working-tree review the current checkout, not commits');
+    }
+    if (options.post || options.bundle) {
+      throw new Error('Uncommitted changes cannot be posted to a PR');
+    }
+    targetBranch = options.staged ? refs.staged : refs.workingTree;
+    label = options.staged ? 'staged changes' : 'working tree';
+    baseBranch = options.base || 'HEAD';
+  } else if (options.range || options.commit) {
+    if (options.branch || options.pr || (options.range && options.commit)) {
+      throw new Error('Use only one of --branch, --pr, --range and --commit');
+    }
+    if (options.commit) {
+      if (options.perCommit) {
+        throw new Error('--per-commit reviews a branch, range or PR, not a single commit');
+      }
+      targetBranch = options.commit;
+      baseBranch = `${options.commit}^`;
+      label = `commit ${options.commit}`;
+    } else {
+      const [from, to] = parseRange(options.range!);
+      targetBranch = to;
+      baseBranch = from;
+      label = `range ${from}..${to}`;
+    }
+  } else if (options.pr) {
     // Fetch PR branch
     spinner.text = `Fetching PR #${options.pr}...`;
-    targetBranch = await fetchPRBranch(options.pr);
+    const pullRequest = await fetchPRMetadata(options.pr, config);
+    if (pullRequest) {
+      spinner.text = `Fetching PR #${options.pr}: ${pullRequest.title}`;
+      baseBranch = options.base || pullRequest.baseRef;
+    }
+    targetBranch = await fetchPRBranch(options.pr, config);
   } else if (options.branch) {
     targetBranch = options.branch;
   } else {
     targetBranch = await git.getCurrentBranch();
   }
 
-  spinner.text = `Reviewing branch: ${targetBranch} vs ${baseBranch}`;
-
-  // Load config
-  const config = ConfigLoader.load(options.config);
+  const reviewName = label ?? targetBranch;
+  spinner.text = `Reviewing ${label ?? `branch: ${targetBranch}`} vs ${baseBranch}`;
 
   // Override config with CLI options
   if (options.pr) {
     config.pr = { ...config.pr, number: parseInt(options.pr, 10) };
   }
+  if (options.bundle) {
+    config.bundle = { path: options.bundle };
+  }
+  if (options.record && options.replay) {
+    throw new Error('--record and --replay cannot be used together');
+  }
+  if (options.record) {
+    config.cassette = { path: options.record, mode: 'record' };
+  } else if (options.replay) {
+    config.cassette = { path: options.replay, mode: 'replay' };
+  }
 
   // Create reviewer
   const reviewer = new PRReviewer(config, repoPath);
 
   spinner.stop();
   console.log(
-    chalk.blue(`\n🔍 Reviewing branch: ${chalk.bold(targetBranch)} vs ${chalk.bold(baseBranch)}\n`)
+    chalk.blue(
+      `\n🔍 Reviewing ${label ? chalk.bold(label) : `branch: ${chalk.bold(targetBranch)}`} ` +
+        `vs ${chalk.bold(baseBranch)}\n`
+    )
   );
 
   // Run review
-  const result = await reviewer.reviewPR(targetBranch, options.post || false, baseBranch);
+  // Show findings as the model streams them; json/markdown output stays machine-readable
+  const streamCallbacks: ReviewStreamCallbacks | undefined =
+    !options.output || options.output === 'console'
+      ? { onComment: (comment) => console.log(formatLiveComment(comment)) }
+      : undefined;
+
+  const post = Boolean(options.post || config.bundle);
+  if (options.perCommit && post) {
+    throw new Error('--per-commit reviews are printed only and cannot be posted');
+  }
+  let result: ReviewResult;
+  if (patch !== undefined) {
+    result = await reviewer.reviewPatch(patch, streamCallbacks);
+  } else if (options.perCommit) {
+    result = await reviewer.reviewCommits(targetBranch, baseBranch, streamCallbacks);
+  } else {
+    result = await reviewer.reviewPR(targetBranch, post, baseBranch, streamCallbacks);
+  }
 
   // Output results
   if (options.output === 'json') {
     console.log(JSON.stringify(result, null, 2));
   } else if (options.output === 'markdown') {
-    console.log(formatBranchReviewMarkdown(result, targetBranch, baseBranch));
+    console.log(formatBranchReviewMarkdown(result, reviewName, baseBranch));
   } else {
-    printBranchReview(result, targetBranch, baseBranch);
+    printBranchReview(result, reviewName, baseBranch);
   }
 
   // Exit with error if strict mode and issues found
@@ -165,10 +297,36 @@ async function runBranchReview(options: ReviewOptions, spinner: ora.Ora): Promis
 }
 
 /**
- * Fetch PR branch from GitHub
+ * Split `A..B` (or `A...B`) into its ends; an empty end is HEAD, as in git
  */
-async function fetchPRBranch(prNumber: string): Promise<string> {
+function parseRange(range: string): [string, string] {
+  const match = /^(.*?)\.\.\.?(.*)$/.exec(range);
+  if (!match) {
+    throw new Error(`Invalid range "${range}": expected <from>..<to>`);
+  }
+  return [match[1] || 'HEAD', match[2] || 'HEAD'];
+}
+
+/**
+ * Fetch PR metadata for forges whose API the CLI queries directly (Gitea/Forgejo).
+ * Returns null for other forges, which fall back to `--base`.
+ */
+async function fetchPRMetadata(prNumber: string, config: Config): Promise<GiteaPullRequest | null> {
+  if (!config.gitea) {
+    return null;
+  }
+
+  const { GiteaCommentService } = await import('../../pr-comments/gitea');
+  return new GiteaCommentService(config).getPullRequest(parseInt(prNumber, 10));
+}
+
+/**
+ * Fetch PR branch from the configured forge
+ */
+async function fetchPRBranch(prNumber: string, config: Config): Promise<string> {
   const branchName = `pr-${prNumber}`;
+  // Azure Repos only publishes the merge ref for pull requests
+  const prRef = config.azureDevOps ? `pull/${prNumber}/merge` : `pull/${prNumber}/head`;
 
   // Use simple-git directly to fetch PR
   const simpleGitModule = await import('simple-git');
@@ -176,7 +334,7 @@ async function fetchPRBranch(prNumber: string): Promise<string> {
   const git = simpleGit(process.cwd());
 
   try {
-    await git.fetch(['origin', `pull/${prNumber}/head:${branchName}`]);
+    await git.fetch(['origin', `${prRef}:${branchName}`]);
   } catch {
     console.log(chalk.gray(`Using existing branch ${branchName}`));
   }
@@ -184,6 +342,31 @@ async function fetchPRBranch(prNumber: string): Promise<string> {
   return branchName;
 }
 
+/**
+ * One-line preview of a finding while the review is still running
+ */
+function formatLiveComment(comment: ReviewComment): string {
+  const icon = comment.severity === 'error' ? '🔴' : comment.severity === 'warning' ? '🟡' : '💡';
+  const title = comment.body.split('\n')[0] ?? '';
+  return chalk.gray(`  ${icon} ${comment.file}:${comment.line} ${title}`);
+}
+
+/**
+ * Group comments by a key, in order of first appearance
+ */
+function groupComments(
+  comments: ReviewComment[],
+  key: (comment: ReviewComment) => string
+): Map<string, ReviewComment[]> {
+  const groups = new Map<string, ReviewComment[]>();
+  for (const comment of comments) {
+    const existing = groups.get(key(comment)) || [];
+    existing.push(comment);
+    groups.set(key(comment), existing);
+  }
+  return groups;
+}
+
 /**
  * Print branch review results to console
  */
@@ -208,28 +391,29 @@ function printBranchReview(
     return;
   }
 
-  // Group by file
-  const byFile = new Map<string, ReviewComment[]>();
-  for (const comment of result.comments) {
-    const existing = byFile.get(comment.file) || [];
-    existing.push(comment);
-    byFile.set(comment.file, existing);
-  }
+  // Group by package (monorepos only), then by file
+  const byPackage = groupComments(result.comments, (comment) => comment.package ?? '');
+  for (const [pkg, packageComments] of byPackage) {
+    if (pkg) {
+      console.log(chalk.bold.magenta(`📦 ${pkg}\n`));
+    }
 
-  for (const [file, comments] of byFile) {
-    console.log(chalk.bold(`📄 ${file}`));
-    for (const comment of comments) {
-      const icon =
-        comment.severity === 'error' ? '🔴' : comment.severity === 'warning' ? '🟡' : '💡';
-      const color =
-        comment.severity === 'error'
-          ? chalk.red
-          : comment.severity === 'warning'
-            ? chalk.yellow
-            : chalk.cyan;
-      console.log(`  ${icon} Line ${comment.line}: ${color(comment.body)}`);
+    for (const [file, comments] of groupComments(packageComments, (comment) => comment.file)) {
+      console.log(chalk.bold(`📄 ${file}`));
+      for (const comment of comments) {
+        const icon =
+          comment.severity === 'error' ? '🔴' : comment.severity === 'warning' ? '🟡' : '💡';
+        const color =
+          comment.severity === 'error'
+            ? chalk.red
+            : comment.severity === 'warning'
+              ? chalk.yellow
+              : chalk.cyan;
+        const commit = comment.commit ? chalk.gray(` (${comment.commit})`) : '';
+        console.log(`  ${icon} Line ${comment.line}${commit}: ${color(comment.body)}`);
+      }
+      console.log('');
     }
-    console.log('');
   }
 
   // Summary
@@ -261,22 +445,24 @@ function formatBranchReviewMarkdown(
     return lines.join('\n');
   }
 
-  // Group by file
-  const byFile = new Map<string, ReviewComment[]>();
-  for (const comment of result.comments) {
-    const existing = byFile.get(comment.file) || [];
-    existing.push(comment);
-    byFile.set(comment.file, existing);
-  }
-
-  for (const [file, comments] of byFile) {
-    lines.push(`## 📄 \`${file}\`\n`);
-    for (const comment of comments) {
-      const icon =
-        comment.severity === 'error' ? '🔴' : comment.severity === 'warning' ? '🟡' : '💡';
-      lines.push(`- ${icon} **Line ${comment.line}**: ${comment.body}`);
+  // Group by package (monorepos only), then by file
+  const byPackage = groupComments(result.comments, (comment) => comment.package ?? '');
+  for (const [pkg, packageComments] of byPackage) {
+    if (pkg) {
+      lines.push(`## 📦 \`${pkg}\`\n`);
+    }
+    const fileHeading = pkg ? '###' : '##';
+
+    for (const [file, comments] of groupComments(packageComments, (comment) => comment.file)) {
+      lines.push(`${fileHeading} 📄 \`${file}\`\n`);
+      for (const comment of comments) {
+        const icon =
+          comment.severity === 'error' ? '🔴' : comment.severity === 'warning' ? '🟡' : '💡';
+        const commit = comment.commit ? ` (\`${comment.commit}\`)` : '';
+        lines.push(`- ${icon} **Line ${comment.line}**${commit}: ${comment.body}`);
+      }
+      lines.push('');
     }
-    lines.push('');
   }
 
   lines.push('## 📊 Summary\n');
@@ -0,0 +1,54 @@
+/**
+ * Serve Command - Run the webhook server
+ *
+ * Reviews PRs on `opened`/`synchronize` and answers @sherlock commands in comments.
+ */
+
+import chalk from 'chalk';
+
+interface ServeOptions {
+  port?: string;
+  config?: string;
+  repo?: string;
+}
+
+export async function serveCommand(options: ServeOptions): Promise<void> {
+  try {
+    // Lazy load heavy dependencies
+    const { ConfigLoader } = await import('../../config');
+    const { createWebhookServer } = await import('../../webhooks');
+
+    const config = ConfigLoader.load(options.config);
+    const port = options.port ? parseInt(options.port, 10) : undefined;
+
+    const server = createWebhookServer({
+      config,
+      repoPath: options.repo ?? process.cwd(),
+      port,
+    });
+
+    await server.start();
+
+    if (config.webhook?.githubSecret) {
+      console.log(chalk.gray('  POST /webhooks/github'));
+    }
+    if (config.webhook?.gitlabSecret) {
+      console.log(chalk.gray('  POST /webhooks/gitlab'));
+    }
+
+    const shutdown = (): void => {
+      console.log(chalk.gray('\nShutting down webhook server...'));
+      server
+        .stop()
+        .then(() => process.exit(0))
+        .catch(() => process.exit(1));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error) {
+    console.error(
+      chalk.red(`Failed to start server: ${error instanceof Error ? error.message : String(error)}`)
+    );
+    process.exit(1);
+  }
+}
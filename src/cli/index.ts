@@ -6,6 +6,9 @@
  *   sherlock review [options]        # Review code changes
  *   sherlock security [options]      # Run security scan
  *   sherlock performance [options]   # Run performance analysis
+ *   sherlock serve [options]         # Run webhook server
+ *   sherlock publish <bundle>        # Post a review bundle to the forge
+ *   sherlock prompts render          # Preview the prompts a review would send
  *   sherlock init                    # Initialize config file
  */
 
@@ -13,8 +16,11 @@ import { Command } from 'commander';
 import { version } from '../../package.json';
 import { initCommand } from './commands/init';
 import { performanceCommand } from './commands/performance';
+import { promptsRenderCommand } from './commands/prompts';
+import { publishCommand } from './commands/publish';
 import { reviewCommand } from './commands/review';
 import { securityCommand } from './commands/security';
+import { serveCommand } from './commands/serve';
 
 const program = new Command();
 
@@ -27,7 +33,16 @@ program
   .option('-p, --path <path>', 'Path to analyze (for quick scan)')
   .option('--branch <branch>', 'Branch to review (uses chunkyyy + AI)')
   .option('--pr <number>', 'PR number to review (fetches from GitHub)')
-  .option('-b, --base <branch>', 'Base branch for comparison', 'main')
+  .option('--staged', 'Review staged changes without switching branches')
+  .option('--working-tree', 'Review uncommitted changes, including untracked files')
+  .option('--range <range>', 'Review a commit range (A..B reviews B against A)')
+  .option('--commit <sha>', 'Review a single commit against its parent')
+  .option('--per-commit', 'Review each commit of the branch, range or PR separately')
+  .option('--patch <file>', 'Review a unified diff from a file, or - for stdin')
+  .option(
+    '-b, --base <branch>',
+    'Base branch for comparison (default: main, or HEAD with --staged/--working-tree)'
+  )
   .option('-m, --model <model>', 'AI model to use (openai, claude)', 'openai')
   .option('-o, --output <format>', 'Output format (console, json, markdown)', 'console')
   .option('--files <files...>', 'Specific files to review')
@@ -36,6 +51,9 @@ program
   .option('--incremental', 'Only review changed files since last review')
   .option('--fix', 'Generate fix suggestions')
   .option('--post', 'Post comments to PR (requires --pr)')
+  .option('--bundle <dir>', 'Write comments to a review bundle instead of posting (requires --pr)')
+  .option('--record <file>', 'Record AI responses to a cassette file')
+  .option('--replay <file>', 'Answer AI calls from a recorded cassette, without network access')
   .option('--strict', 'Fail on any issues found')
   .action(reviewCommand);
 
@@ -68,6 +86,39 @@ program
   .option('--strict', 'Fail if score below threshold')
   .action(performanceCommand);
 
+// Serve command
+program
+  .command('serve')
+  .description('Run webhook server for automatic PR reviews and @sherlock commands')
+  .option('--port <port>', 'Port to listen on (default: webhook.port or 3000)')
+  .option('--config <file>', 'Config file path')
+  .option('--repo <path>', 'Path to repository clone (default: current directory)')
+  .action(serveCommand);
+
+// Publish command
+program
+  .command('publish <bundle>')
+  .description('Post a review bundle written by `review --bundle` to the configured forge')
+  .option('--config <file>', 'Config file path')
+  .option('--pr <number>', 'PR number to post to (default: the one recorded in the bundle)')
+  .action(publishCommand);
+
+// Prompts command
+const prompts = program
+  .command('prompts')
+  .description('Work with prompt templates (.sherlock/prompts/)');
+
+prompts
+  .command('render')
+  .description('Render the prompts a review of a branch diff would send, without calling a model')
+  .option('--branch <branch>', 'Branch to render prompts for (default: current branch)')
+  .option('-b, --base <branch>', 'Base branch for comparison (default: repository.baseBranch)')
+  .option('--pass <pass>', 'Review pass (review, deepDive, scout)', 'review')
+  .option('--files <files...>', 'Only render prompts for these changed files')
+  .option('--config <file>', 'Config file path')
+  .option('--repo <path>', 'Path to repository (default: current directory)')
+  .action(promptsRenderCommand);
+
 // Init command
 program
   .command('init')
@@ -1,16 +1,28 @@
 import * as dotenv from 'dotenv';
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
-import { Config, ConfigSchema, ConfigurationError } from './types';
+import {
+  Config,
+  ConfigSchema,
+  ConfigurationError,
+  PackageConfig,
+  PackageConfigSchema,
+} from './types';
 
 dotenv.config();
 
+/**
+ * Name of the config file at the repository root and in monorepo packages
+ */
+export const CONFIG_FILE = 'code-sherlock.config.json';
+
 // ============================================================================
 // Types
 // ============================================================================
 
 interface RawConfigData {
   aiProvider?: string;
+  aiProviders?: string[];
   openai?: {
     apiKey?: string;
     model?: string;
@@ -19,6 +31,24 @@ interface RawConfigData {
     apiKey?: string;
     model?: string;
   };
+  openaiCompatible?: {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+    headers?: Record<string, string>;
+    mode?: string;
+  };
+  gemini?: {
+    apiKey?: string;
+    model?: string;
+    baseUrl?: string;
+  };
+  azureOpenai?: {
+    endpoint?: string;
+    apiKey?: string;
+    deployment?: string;
+    apiVersion?: string;
+  };
   globalRules?: string[];
   repository?: {
     owner?: string;
@@ -31,15 +61,60 @@ interface RawConfigData {
   };
   github?: {
     token?: string;
+    app?: {
+      appId?: string;
+      privateKey?: string;
+      installationId?: number;
+    };
+    apiUrl?: string;
   };
   gitlab?: {
     token?: string;
     projectId?: string;
   };
+  bitbucket?: {
+    token?: string;
+    username?: string;
+    appPassword?: string;
+    baseUrl?: string;
+  };
+  bitbucketServer?: {
+    baseUrl?: string;
+    token?: string;
+    projectKey?: string;
+    userSlug?: string;
+  };
+  azureDevOps?: {
+    organization?: string;
+    project?: string;
+    repositoryId?: string;
+    pat?: string;
+    baseUrl?: string;
+  };
+  gitea?: {
+    baseUrl?: string;
+    token?: string;
+  };
+  bundle?: {
+    path?: string;
+  };
+  cassette?: {
+    path?: string;
+    mode?: 'record' | 'replay';
+  };
+  webhook?: {
+    port?: number;
+    githubSecret?: string;
+    gitlabSecret?: string;
+    reviewDrafts?: boolean;
+    concurrency?: number;
+    queuePath?: string;
+  };
 }
 
 interface EnvironmentConfig {
   aiProvider?: string;
+  aiProviders?: string[];
   openai?: {
     apiKey: string;
     model: string;
@@ -48,13 +123,75 @@ interface EnvironmentConfig {
     apiKey: string;
     model: string;
   };
+  openaiCompatible?: {
+    baseUrl: string;
+    apiKey?: string;
+    model?: string;
+    headers?: Record<string, string>;
+    mode?: string;
+  };
+  gemini?: {
+    apiKey: string;
+    model?: string;
+    baseUrl?: string;
+  };
+  azureOpenai?: {
+    endpoint?: string;
+    apiKey?: string;
+    deployment?: string;
+    apiVersion?: string;
+  };
   github?: {
-    token: string;
+    token?: string;
+    app?: {
+      appId: string;
+      privateKey: string;
+      installationId?: number;
+    };
+    apiUrl?: string;
   };
   gitlab?: {
     token: string;
     projectId: string;
   };
+  bitbucket?: {
+    token?: string;
+    username?: string;
+    appPassword?: string;
+    baseUrl?: string;
+  };
+  bitbucketServer?: {
+    baseUrl: string;
+    token: string;
+    projectKey?: string;
+    userSlug?: string;
+  };
+  azureDevOps?: {
+    organization: string;
+    project: string;
+    repositoryId: string;
+    pat: string;
+    baseUrl?: string;
+  };
+  gitea?: {
+    baseUrl: string;
+    token: string;
+  };
+  bundle?: {
+    path: string;
+  };
+  cassette?: {
+    path: string;
+    mode: 'record' | 'replay';
+  };
+  webhook?: {
+    port: number;
+    githubSecret?: string;
+    gitlabSecret?: string;
+    reviewDrafts?: boolean;
+    concurrency?: number;
+    queuePath?: string;
+  };
 }
 
 // ============================================================================
@@ -67,7 +204,7 @@ export class ConfigLoader {
    * @param configPath - Optional path to config file
    */
   static load(configPath?: string): Config {
-    const defaultPath = join(process.cwd(), 'code-sherlock.config.json');
+    const defaultPath = join(process.cwd(), CONFIG_FILE);
     const path = configPath ?? defaultPath;
 
     const fileConfig = this.loadFromFile(path);
@@ -77,21 +214,93 @@ export class ConfigLoader {
     return this.parseConfig(mergedConfig);
   }
 
+  /**
+   * Parse a package's config file
+   * @param content - File content
+   * @param path - Repository path of the file, for errors
+   */
+  static parsePackageConfig(content: string, path: string): PackageConfig {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new ConfigurationError(
+        `Failed to parse config file: ${path}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const result = PackageConfigSchema.safeParse(data);
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+      throw new ConfigurationError(`Invalid configuration in ${path}: ${errors}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Apply a package's config over the root config: its rules are added to the root
+   * rules, and its linter, SAST and budget settings override the root's field by field
+   */
+  static mergePackageConfig(config: Config, packageConfig: PackageConfig): Config {
+    const { globalRules, linter, sast, budget } = packageConfig;
+    return this.parseConfig({
+      ...config,
+      globalRules: [...config.globalRules, ...(globalRules ?? [])],
+      linter: linter ? { ...config.linter, ...linter } : config.linter,
+      sast: sast ? { ...config.sast, ...sast } : config.sast,
+      budget: budget ? { ...config.budget, ...budget } : config.budget,
+    });
+  }
+
   /**
    * Validate the configuration
    * @param config - Configuration to validate
    */
   static validate(config: Config): void {
-    if (config.aiProvider === 'openai' && !config.openai?.apiKey) {
+    const providers = [
+      ...(config.aiProviders?.length ? config.aiProviders : [config.aiProvider]),
+      ...(config.consensus?.providers ?? []),
+      ...Object.values(config.routing?.routes ?? {}).map((route) => route.provider),
+    ];
+
+    if (providers.includes('openai') && !config.openai?.apiKey) {
       throw new ConfigurationError('OpenAI API key is required when using OpenAI provider');
     }
 
-    if (config.aiProvider === 'claude' && !config.claude?.apiKey) {
+    if (providers.includes('claude') && !config.claude?.apiKey) {
       throw new ConfigurationError('Claude API key is required when using Claude provider');
     }
 
-    if (!config.github?.token && !config.gitlab?.token) {
-      throw new ConfigurationError('Either GitHub or GitLab token is required');
+    if (providers.includes('openai-compatible') && !config.openaiCompatible) {
+      throw new ConfigurationError(
+        'A base URL and model are required when using the OpenAI-compatible provider'
+      );
+    }
+
+    if (providers.includes('gemini') && !config.gemini?.apiKey) {
+      throw new ConfigurationError('Gemini API key is required when using Gemini provider');
+    }
+
+    if (providers.includes('azure-openai') && !config.azureOpenai) {
+      throw new ConfigurationError(
+        'An endpoint, API key and deployment are required when using the Azure OpenAI provider'
+      );
+    }
+
+    if (
+      !config.github?.token &&
+      !config.github?.app &&
+      !config.gitlab?.token &&
+      !config.bitbucket &&
+      !config.bitbucketServer &&
+      !config.azureDevOps &&
+      !config.gitea &&
+      !config.bundle
+    ) {
+      throw new ConfigurationError(
+        'A GitHub, GitLab, Bitbucket, Azure DevOps or Gitea token is required'
+      );
     }
   }
 
@@ -116,8 +325,14 @@ export class ConfigLoader {
   }
 
   private static loadFromEnvironment(fileConfig: RawConfigData): EnvironmentConfig {
+    // AI_PROVIDERS is a comma-separated fallback chain, e.g. "claude,openai,ollama"
+    const aiProviders =
+      process.env.AI_PROVIDERS?.split(',')
+        .map((name) => name.trim())
+        .filter(Boolean) ?? fileConfig.aiProviders;
     const envConfig: EnvironmentConfig = {
-      aiProvider: process.env.AI_PROVIDER ?? fileConfig.aiProvider,
+      aiProvider: process.env.AI_PROVIDER ?? fileConfig.aiProvider ?? aiProviders?.[0],
+      aiProviders,
     };
 
     // OpenAI configuration
@@ -138,11 +353,48 @@ export class ConfigLoader {
       };
     }
 
+    // OpenAI-compatible server or gateway configuration
+    const compatibleBaseUrl =
+      process.env.OPENAI_COMPATIBLE_BASE_URL ?? fileConfig.openaiCompatible?.baseUrl;
+    if (compatibleBaseUrl) {
+      envConfig.openaiCompatible = {
+        ...fileConfig.openaiCompatible,
+        baseUrl: compatibleBaseUrl,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? fileConfig.openaiCompatible?.apiKey,
+        model: process.env.OPENAI_COMPATIBLE_MODEL ?? fileConfig.openaiCompatible?.model,
+      };
+    }
+
+    // Google Gemini configuration
+    const geminiApiKey = process.env.GEMINI_API_KEY ?? fileConfig.gemini?.apiKey;
+    if (geminiApiKey) {
+      envConfig.gemini = {
+        apiKey: geminiApiKey,
+        model: process.env.GEMINI_MODEL ?? fileConfig.gemini?.model,
+        baseUrl: process.env.GEMINI_BASE_URL ?? fileConfig.gemini?.baseUrl,
+      };
+    }
+
+    // Azure OpenAI configuration
+    const azureOpenaiEndpoint =
+      process.env.AZURE_OPENAI_ENDPOINT ?? fileConfig.azureOpenai?.endpoint;
+    if (azureOpenaiEndpoint) {
+      envConfig.azureOpenai = {
+        endpoint: azureOpenaiEndpoint,
+        apiKey: process.env.AZURE_OPENAI_API_KEY ?? fileConfig.azureOpenai?.apiKey,
+        deployment: process.env.AZURE_OPENAI_DEPLOYMENT ?? fileConfig.azureOpenai?.deployment,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION ?? fileConfig.azureOpenai?.apiVersion,
+      };
+    }
+
     // GitHub configuration
     const githubToken = process.env.GITHUB_TOKEN ?? fileConfig.github?.token;
-    if (githubToken) {
+    const githubApp = this.loadGitHubAppFromEnvironment(fileConfig);
+    if (githubToken || githubApp) {
       envConfig.github = {
         token: githubToken,
+        app: githubApp,
+        apiUrl: process.env.GITHUB_API_URL ?? fileConfig.github?.apiUrl,
       };
     }
 
@@ -156,9 +408,119 @@ export class ConfigLoader {
       };
     }
 
+    // Bitbucket Cloud configuration
+    const bitbucketToken = process.env.BITBUCKET_TOKEN ?? fileConfig.bitbucket?.token;
+    const bitbucketUsername = process.env.BITBUCKET_USERNAME ?? fileConfig.bitbucket?.username;
+    const bitbucketAppPassword =
+      process.env.BITBUCKET_APP_PASSWORD ?? fileConfig.bitbucket?.appPassword;
+    if (bitbucketToken || (bitbucketUsername && bitbucketAppPassword)) {
+      envConfig.bitbucket = {
+        token: bitbucketToken,
+        username: bitbucketUsername,
+        appPassword: bitbucketAppPassword,
+        baseUrl: fileConfig.bitbucket?.baseUrl,
+      };
+    }
+
+    // Bitbucket Server / Data Center configuration
+    const bitbucketServerUrl =
+      process.env.BITBUCKET_SERVER_URL ?? fileConfig.bitbucketServer?.baseUrl;
+    const bitbucketServerToken =
+      process.env.BITBUCKET_SERVER_TOKEN ?? fileConfig.bitbucketServer?.token;
+    if (bitbucketServerUrl && bitbucketServerToken) {
+      envConfig.bitbucketServer = {
+        baseUrl: bitbucketServerUrl,
+        token: bitbucketServerToken,
+        projectKey: fileConfig.bitbucketServer?.projectKey,
+        userSlug: fileConfig.bitbucketServer?.userSlug,
+      };
+    }
+
+    // Azure DevOps configuration
+    const azureOrganization = process.env.AZURE_DEVOPS_ORG ?? fileConfig.azureDevOps?.organization;
+    const azureProject = process.env.AZURE_DEVOPS_PROJECT ?? fileConfig.azureDevOps?.project;
+    const azureRepositoryId =
+      process.env.AZURE_DEVOPS_REPOSITORY_ID ?? fileConfig.azureDevOps?.repositoryId;
+    const azurePat = process.env.AZURE_DEVOPS_PAT ?? fileConfig.azureDevOps?.pat;
+    if (azureOrganization && azureProject && azureRepositoryId && azurePat) {
+      envConfig.azureDevOps = {
+        organization: azureOrganization,
+        project: azureProject,
+        repositoryId: azureRepositoryId,
+        pat: azurePat,
+        baseUrl: fileConfig.azureDevOps?.baseUrl,
+      };
+    }
+
+    // Gitea / Forgejo configuration
+    const giteaUrl = process.env.GITEA_URL ?? fileConfig.gitea?.baseUrl;
+    const giteaToken = process.env.GITEA_TOKEN ?? fileConfig.gitea?.token;
+    if (giteaUrl && giteaToken) {
+      envConfig.gitea = { baseUrl: giteaUrl, token: giteaToken };
+    }
+
+    // Offline review bundle
+    const bundlePath = process.env.SHERLOCK_BUNDLE_PATH ?? fileConfig.bundle?.path;
+    if (bundlePath) {
+      envConfig.bundle = { path: bundlePath };
+    }
+
+    // Recorded AI responses
+    const cassettePath = process.env.SHERLOCK_CASSETTE ?? fileConfig.cassette?.path;
+    if (cassettePath) {
+      const mode = process.env.SHERLOCK_CASSETTE_MODE ?? fileConfig.cassette?.mode ?? 'replay';
+      if (mode !== 'record' && mode !== 'replay') {
+        throw new ConfigurationError(
+          `SHERLOCK_CASSETTE_MODE must be "record" or "replay", got "${mode}"`
+        );
+      }
+      envConfig.cassette = { path: cassettePath, mode };
+    }
+
+    // Webhook server configuration
+    const githubWebhookSecret =
+      process.env.GITHUB_WEBHOOK_SECRET ?? fileConfig.webhook?.githubSecret;
+    const gitlabWebhookSecret =
+      process.env.GITLAB_WEBHOOK_SECRET ?? fileConfig.webhook?.gitlabSecret;
+    if (fileConfig.webhook || githubWebhookSecret || gitlabWebhookSecret) {
+      const envPort = process.env.WEBHOOK_PORT ? parseInt(process.env.WEBHOOK_PORT, 10) : NaN;
+      envConfig.webhook = {
+        port: isNaN(envPort) ? (fileConfig.webhook?.port ?? 3000) : envPort,
+        githubSecret: githubWebhookSecret,
+        gitlabSecret: gitlabWebhookSecret,
+        reviewDrafts: fileConfig.webhook?.reviewDrafts,
+        concurrency: fileConfig.webhook?.concurrency,
+        queuePath: fileConfig.webhook?.queuePath,
+      };
+    }
+
     return envConfig;
   }
 
+  private static loadGitHubAppFromEnvironment(
+    fileConfig: RawConfigData
+  ): NonNullable<EnvironmentConfig['github']>['app'] {
+    const appId = process.env.GITHUB_APP_ID ?? fileConfig.github?.app?.appId;
+    // Env vars often carry PEM keys with escaped newlines
+    const privateKey =
+      process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n') ??
+      fileConfig.github?.app?.privateKey;
+    if (!appId || !privateKey) {
+      return undefined;
+    }
+
+    const envInstallationId = process.env.GITHUB_APP_INSTALLATION_ID
+      ? parseInt(process.env.GITHUB_APP_INSTALLATION_ID, 10)
+      : NaN;
+    return {
+      appId,
+      privateKey,
+      installationId: isNaN(envInstallationId)
+        ? fileConfig.github?.app?.installationId
+        : envInstallationId,
+    };
+  }
+
   private static mergeConfigs(
     fileConfig: RawConfigData,
     envConfig: EnvironmentConfig
@@ -170,7 +532,7 @@ export class ConfigLoader {
     };
   }
 
-  private static parseConfig(config: RawConfigData): Config {
+  private static parseConfig(config: unknown): Config {
     const result = ConfigSchema.safeParse(config);
 
     if (!result.success) {
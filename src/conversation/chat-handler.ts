@@ -369,7 +369,8 @@ export class ChatHandler {
           content: prompt,
         },
       ],
-      ['Respond helpfully and concisely to the user question.']
+      ['Respond helpfully and concisely to the user question.'],
+      { pass: 'chat' }
     );
 
     return result.summary || result.comments[0]?.body || 'Unable to generate response.';
@@ -236,6 +236,8 @@ export class DiagramGenerator {
         return '🗑️';
       case 'renamed':
         return '📋';
+      case 'copied':
+        return '📑';
       default:
         return '📄';
     }
@@ -220,7 +220,10 @@ export class SummaryBuilder {
 
       for (const file of filesToShow) {
         const statusEmoji = this.getStatusEmoji(file.status);
-        lines.push(`- ${statusEmoji} \`${file.path}\` (+${file.additions}/-${file.deletions})`);
+        const path = file.previousPath
+          ? `\`${file.previousPath}\` → \`${file.path}\``
+          : `\`${file.path}\``;
+        lines.push(`- ${statusEmoji} ${path} (+${file.additions}/-${file.deletions})`);
       }
 
       if (group.files.length > maxFiles) {
@@ -336,6 +339,7 @@ export class SummaryBuilder {
     return changedFiles.map((file) => ({
       path: file.path,
       status: file.status,
+      previousPath: file.previousPath,
       additions: file.additions ?? 0,
       deletions: file.deletions ?? 0,
       language: this.detectLanguage(file.path),
@@ -585,6 +589,8 @@ Keep each insight to one sentence.`;
         return '🗑️';
       case 'renamed':
         return '📋';
+      case 'copied':
+        return '📑';
       default:
         return '📄';
     }
@@ -1,7 +1,9 @@
 import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
 import { join } from 'path';
 import simpleGit, { SimpleGit } from 'simple-git';
-import { ChangedFile, FileStatus, GitError } from './types';
+import { ChangedFile, CommitInfo, FileStatus, GitError } from './types';
 
 // ============================================================================
 // Constants
@@ -16,6 +18,20 @@ const BASE_BRANCH_CANDIDATES = [
   'develop',
 ];
 
+/**
+ * Pseudo refs for reviewing uncommitted content. `:` is not allowed in ref names,
+ * so these never collide with a branch.
+ */
+export const STAGED_REF = ':staged';
+export const WORKING_TREE_REF = ':working-tree';
+
+/**
+ * Whether a ref names the index or the working copy rather than a commit
+ */
+export function isWorkingCopyRef(ref: string): boolean {
+  return ref === STAGED_REF || ref === WORKING_TREE_REF;
+}
+
 // ============================================================================
 // GitService
 // ============================================================================
@@ -57,12 +73,129 @@ export class GitService {
     }
   }
 
+  /**
+   * Check out a ref into a throwaway worktree, for tools that need real files, without
+   * touching the repository's own checkout
+   * @param ref - Branch or commit to check out (detached)
+   * @returns Path of the worktree; pass it to removeWorktree when done
+   */
+  async addWorktree(ref: string): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'sherlock-worktree-'));
+    try {
+      await this.git.raw(['worktree', 'add', '--detach', dir, ref]);
+    } catch (error) {
+      await rm(dir, { recursive: true, force: true });
+      throw new GitError(
+        `Failed to create worktree for ${ref}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    await this.linkDependencies(dir);
+    return dir;
+  }
+
+  /**
+   * Write the files staged in the index to a temporary directory, so tools that read
+   * files see the staged content rather than unstaged edits on disk
+   * @returns Path of the checkout; pass it to removeIndexCheckout when done
+   */
+  async checkoutIndex(): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'sherlock-index-'));
+    try {
+      // The trailing slash makes the prefix a directory
+      await this.git.raw(['checkout-index', '--all', `--prefix=${dir}/`]);
+    } catch (error) {
+      await rm(dir, { recursive: true, force: true });
+      throw new GitError(
+        'Failed to check out the index',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    await this.linkDependencies(dir);
+    return dir;
+  }
+
+  /**
+   * Delete a checkout created by checkoutIndex; never throws
+   * @param dir - Path returned by checkoutIndex
+   */
+  async removeIndexCheckout(dir: string): Promise<void> {
+    await rm(dir, { recursive: true, force: true }).catch((error: unknown) => {
+      console.warn(`Failed to remove index checkout ${dir}:`, error);
+    });
+  }
+
+  private async linkDependencies(dir: string): Promise<void> {
+    // Dependencies aren't tracked; linters resolve their plugins from the clone's install
+    if (existsSync(join(this.repoPath, 'node_modules'))) {
+      await symlink(join(this.repoPath, 'node_modules'), join(dir, 'node_modules'), 'dir').catch(
+        () => undefined
+      );
+    }
+  }
+
+  /**
+   * Apply a unified diff in a worktree created by addWorktree and record the result
+   * @param worktree - Path returned by addWorktree
+   * @param patch - `git diff` / `git format-patch` output
+   * @returns Tree object of the post-image, readable like a ref (`<tree>:<path>`)
+   */
+  async applyPatch(worktree: string, patch: string): Promise<string> {
+    const git = simpleGit(worktree);
+    const patchFile = `${worktree}.patch`;
+    try {
+      await writeFile(patchFile, patch);
+      await git.raw(['apply', '--index', '--whitespace=nowarn', patchFile]);
+      return (await git.raw(['write-tree'])).trim();
+    } catch (error) {
+      throw new GitError('Failed to apply patch', error instanceof Error ? error : undefined);
+    } finally {
+      await rm(patchFile, { force: true });
+    }
+  }
+
+  /**
+   * Remove a worktree created by addWorktree; never throws
+   * @param dir - Path returned by addWorktree
+   */
+  async removeWorktree(dir: string): Promise<void> {
+    try {
+      await this.git.raw(['worktree', 'remove', '--force', dir]);
+    } catch (error) {
+      console.warn(`Failed to remove worktree ${dir}:`, error);
+      await rm(dir, { recursive: true, force: true }).catch(() => undefined);
+      await this.git.raw(['worktree', 'prune']).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Force-fetch a ref from origin (e.g. `pull/123/head`) into a local ref
+   * @param remoteRef - The ref on origin to fetch
+   * @param localRef - The local ref to create or update (e.g. `refs/remotes/origin/pr-123`)
+   */
+  async fetchRef(remoteRef: string, localRef: string): Promise<void> {
+    try {
+      await this.git.fetch(['origin', `+${remoteRef}:${localRef}`]);
+    } catch (error) {
+      throw new GitError(
+        `Failed to fetch ref: ${remoteRef}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   /**
    * Get files changed in targetBranch compared to baseBranch
    * @param targetBranch - The feature/PR branch with changes
    * @param baseBranch - Optional base branch to compare against
    */
   async getChangedFiles(targetBranch: string, baseBranch?: string): Promise<ChangedFile[]> {
+    if (isWorkingCopyRef(targetBranch)) {
+      return this.getUncommittedChanges(targetBranch, baseBranch);
+    }
+
     await this.fetchBranch(targetBranch);
 
     const resolvedBaseBranch = baseBranch ?? (await this.detectBaseBranch(targetBranch));
@@ -91,21 +224,74 @@ export class GitService {
     return changedFiles;
   }
 
+  /**
+   * List the commits in targetBranch that are not in baseBranch, oldest first
+   * @param targetBranch - The feature/PR branch with changes
+   * @param baseBranch - Optional base branch to compare against
+   */
+  async listUniqueCommits(targetBranch: string, baseBranch?: string): Promise<CommitInfo[]> {
+    await this.fetchBranch(targetBranch);
+
+    const resolvedBaseBranch = baseBranch ?? (await this.detectBaseBranch(targetBranch));
+    await this.fetchBaseBranch(resolvedBaseBranch);
+
+    const mergeBase = await this.getMergeBase(resolvedBaseBranch, targetBranch);
+    const commits = await this.getUniqueCommits(mergeBase, targetBranch);
+
+    return commits.reverse().map((line) => {
+      const [sha = '', ...subject] = line.trim().split(' ');
+      return { sha, subject: subject.join(' ') };
+    });
+  }
+
+  /**
+   * Get files changed in the index or working copy compared to HEAD or a base branch
+   * @param target - STAGED_REF or WORKING_TREE_REF
+   * @param baseBranch - Optional branch to compare against from its merge base with HEAD
+   */
+  private async getUncommittedChanges(target: string, baseBranch?: string): Promise<ChangedFile[]> {
+    const base = baseBranch ?? 'HEAD';
+    await this.fetchBaseBranch(base);
+    const mergeBase = await this.getMergeBase(base, 'HEAD');
+    const what = target === STAGED_REF ? 'staged changes' : 'working tree';
+
+    console.log(`Comparing ${what} against base: ${base}`);
+
+    const changedFiles = await this.parseChangedFiles(mergeBase, target);
+    if (target === WORKING_TREE_REF) {
+      changedFiles.push(...(await this.getUntrackedFiles()));
+    }
+    console.log(`Changed files in ${what}:`, changedFiles.map((f) => f.path).join(', '));
+
+    return changedFiles;
+  }
+
   /**
    * Parse diff to extract line numbers that were changed
    * @param filePath - Path to the file
    * @param mergeBase - The merge base commit
-   * @param targetBranch - The target branch
+   * @param targetBranch - The target branch, STAGED_REF or WORKING_TREE_REF
+   * @param previousPath - Path before a rename or copy; lines are then diffed against
+   *   that file, so only actual edits count as changed
    */
   async getChangedLines(
     filePath: string,
     mergeBase: string,
-    targetBranch: string
+    targetBranch: string,
+    previousPath?: string
   ): Promise<Set<number>> {
     const changedLines = new Set<number>();
 
     try {
-      const diff = await this.git.raw(['diff', `${mergeBase}..${targetBranch}`, '--', filePath]);
+      const paths = previousPath ? [previousPath, filePath] : [filePath];
+      const diff = await this.git.raw([
+        'diff',
+        '-M',
+        '-C',
+        ...this.diffRange(mergeBase, targetBranch),
+        '--',
+        ...paths,
+      ]);
 
       if (!diff || diff.trim().length === 0) {
         return changedLines;
@@ -114,8 +300,18 @@ export class GitService {
       const lines = diff.split('\n');
       let currentLineInTarget = 0;
       let inHunk = false;
+      // A copy's diff can also contain its source file's own changes
+      let inTargetFile = true;
 
       for (const line of lines) {
+        if (line.startsWith('diff --git ')) {
+          inTargetFile = line.endsWith(` b/${filePath}`) || line.endsWith(` "b/${filePath}"`);
+          inHunk = false;
+          continue;
+        }
+
+        if (!inTargetFile) continue;
+
         if (line.startsWith('@@')) {
           const hunkMatch = line.match(/@@\s*-\d+(?:,\d+)?\s*\+(\d+)(?:,(\d+))?/);
           if (hunkMatch?.[1]) {
@@ -147,12 +343,17 @@ export class GitService {
   /**
    * Get file content from a specific branch
    * @param filePath - Path to the file
-   * @param branch - Optional branch name (defaults to HEAD)
+   * @param branch - Optional branch name (defaults to HEAD); STAGED_REF reads the index
+   *   and WORKING_TREE_REF the file on disk
    */
   async getFileContent(filePath: string, branch?: string): Promise<string> {
     const ref = branch ?? 'HEAD';
     try {
-      return await this.git.show([`${ref}:${filePath}`]);
+      if (ref === WORKING_TREE_REF) {
+        return await readFile(join(this.repoPath, filePath), 'utf-8');
+      }
+      // `:<path>` is the staged blob
+      return await this.git.show([`${ref === STAGED_REF ? '' : ref}:${filePath}`]);
     } catch (error) {
       throw new GitError(
         `Failed to get file content: ${filePath}`,
@@ -192,13 +393,68 @@ export class GitService {
   ): Promise<string> {
     try {
       const resolvedBaseBranch = baseBranch ?? (await this.detectBaseBranch(targetBranch));
-      const mergeBase = await this.getMergeBase(resolvedBaseBranch, targetBranch);
-      return await this.git.raw(['diff', `${mergeBase}..${targetBranch}`, '--', filePath]);
+      const mergeBase = await this.getMergeBase(
+        resolvedBaseBranch,
+        isWorkingCopyRef(targetBranch) ? 'HEAD' : targetBranch
+      );
+      return await this.git.raw([
+        'diff',
+        ...this.diffRange(mergeBase, targetBranch),
+        '--',
+        filePath,
+      ]);
     } catch {
       return '';
     }
   }
 
+  /**
+   * Search tracked files at a ref with an extended regular expression
+   * @param pattern - POSIX extended regex, as for `git grep -E`
+   * @param ref - Branch or commit to search (defaults to HEAD), STAGED_REF or WORKING_TREE_REF
+   * @param path - Optional path or pathspec to limit the search to
+   * @returns Matches in file order; no match is an empty list
+   */
+  async grep(
+    pattern: string,
+    ref?: string,
+    path?: string
+  ): Promise<Array<{ file: string; line: number; text: string }>> {
+    const treeish = ref ?? 'HEAD';
+    const args = ['grep', '-n', '-I', '-E', '-e', pattern];
+    if (treeish === STAGED_REF) {
+      args.push('--cached');
+    } else if (treeish !== WORKING_TREE_REF) {
+      args.push(treeish);
+    }
+    if (path) {
+      args.push('--', path);
+    }
+
+    let output: string;
+    try {
+      output = await this.git.raw(args);
+    } catch (error) {
+      throw new GitError(
+        `Failed to search for ${pattern}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    // Lines look like <ref>:<file>:<line>:<text>, without the ref for the index or working tree
+    const prefix = isWorkingCopyRef(treeish) ? '' : `${treeish}:`;
+    return output
+      .split('\n')
+      .filter((line) => line.startsWith(prefix))
+      .map((line) => {
+        const match = /^([^:]+):(\d+):(.*)$/.exec(line.slice(prefix.length));
+        return match
+          ? { file: match[1] as string, line: Number(match[2]), text: match[3] as string }
+          : undefined;
+      })
+      .filter((match): match is { file: string; line: number; text: string } => Boolean(match));
+  }
+
   // ============================================================================
   // Private Methods
   // ============================================================================
@@ -249,7 +505,12 @@ export class GitService {
 
   private async getUniqueCommits(mergeBase: string, targetBranch: string): Promise<string[]> {
     try {
-      const output = await this.git.raw(['log', '--oneline', `${mergeBase}..${targetBranch}`]);
+      const output = await this.git.raw([
+        'log',
+        '--oneline',
+        '--no-decorate',
+        `${mergeBase}..${targetBranch}`,
+      ]);
       return output
         .trim()
         .split('\n')
@@ -259,53 +520,154 @@ export class GitService {
     }
   }
 
+  /**
+   * Status and old path from `--name-status`, line counts from `--numstat`, both with
+   * rename and copy detection so a moved file is diffed against its old path
+   */
   private async parseChangedFiles(mergeBase: string, targetBranch: string): Promise<ChangedFile[]> {
-    const diffSummary = await this.git.raw(['diff', '--numstat', `${mergeBase}..${targetBranch}`]);
+    const range = this.diffRange(mergeBase, targetBranch);
+    const nameStatus = await this.git.raw(['diff', '--name-status', '-M', '-C', '-z', ...range]);
+    const numstat = await this.git.raw(['diff', '--numstat', '-M', '-C', '-z', ...range]);
+    const counts = this.parseNumstat(numstat);
     const changedFiles: ChangedFile[] = [];
 
-    const lines = diffSummary
-      .trim()
-      .split('\n')
-      .filter((line) => line.trim());
+    for (const { status, path, previousPath } of this.parseNameStatus(nameStatus)) {
+      const count = counts.get(path);
+      // Binary files have no line counts
+      if (!count) continue;
+
+      const { additions, deletions } = count;
+      // A pure rename or copy is still reported; a modification without line changes
+      // (e.g. a mode change) has nothing to review
+      if (status === 'modified' && additions === 0 && deletions === 0) continue;
+
+      const changedLines = await this.getChangedLines(path, mergeBase, targetBranch, previousPath);
+      changedFiles.push({
+        path,
+        status,
+        ...(previousPath && { previousPath }),
+        additions,
+        deletions,
+        changedLines,
+      });
+    }
 
-    for (const line of lines) {
-      const parts = line.split('\t');
-      if (parts.length < 3) continue;
+    return changedFiles;
+  }
 
-      const additionsStr = parts[0];
-      const deletionsStr = parts[1];
-      const filePath = parts[2];
+  /**
+   * `git diff` arguments comparing mergeBase with a commit, the index or the working tree
+   */
+  private diffRange(mergeBase: string, target: string): string[] {
+    if (target === STAGED_REF) return ['--cached', mergeBase];
+    if (target === WORKING_TREE_REF) return [mergeBase];
+    return [`${mergeBase}..${target}`];
+  }
 
-      if (!additionsStr || !deletionsStr || !filePath) continue;
+  /**
+   * Untracked (and not ignored) files, which `git diff` leaves out of the working tree.
+   * Every line is new; binary files are skipped as in the diff.
+   */
+  private async getUntrackedFiles(): Promise<ChangedFile[]> {
+    const output = await this.git.raw(['ls-files', '--others', '--exclude-standard', '-z']);
+    const files: ChangedFile[] = [];
 
-      const additions = parseInt(additionsStr, 10);
-      const deletions = parseInt(deletionsStr, 10);
+    for (const path of output.split('\0').filter(Boolean)) {
+      let content: string;
+      try {
+        content = await readFile(join(this.repoPath, path), 'utf-8');
+      } catch {
+        continue;
+      }
+      if (content.includes('\0')) continue;
+
+      const lines = content.split('\n');
+      if (lines[lines.length - 1] === '') lines.pop();
+      files.push({
+        path,
+        status: 'added',
+        additions: lines.length,
+        deletions: 0,
+        changedLines: new Set(lines.map((_, index) => index + 1)),
+      });
+    }
+
+    return files;
+  }
 
-      // Skip binary files (indicated by -)
-      if (isNaN(additions) || isNaN(deletions)) continue;
-
-      if (additions > 0 || deletions > 0) {
-        const status = this.determineFileStatus(additions, deletions);
-        if (status) {
-          const changedLines = await this.getChangedLines(filePath, mergeBase, targetBranch);
-          changedFiles.push({
-            path: filePath,
-            status,
-            additions,
-            deletions,
-            changedLines,
-          });
+  /**
+   * Parse `git diff --name-status -z`: a status field followed by one path, or two
+   * (old, new) for renames and copies
+   */
+  private parseNameStatus(
+    output: string
+  ): Array<{ status: FileStatus; path: string; previousPath?: string }> {
+    const fields = output.split('\0');
+    const entries: Array<{ status: FileStatus; path: string; previousPath?: string }> = [];
+
+    for (let i = 0; i < fields.length; ) {
+      const code = fields[i++]?.trim();
+      if (!code) continue;
+
+      const status = this.determineFileStatus(code);
+      if (status === 'renamed' || status === 'copied') {
+        const previousPath = fields[i++];
+        const path = fields[i++];
+        if (previousPath && path) {
+          entries.push({ status, path, previousPath });
+        }
+      } else {
+        const path = fields[i++];
+        if (path) {
+          entries.push({ status, path });
         }
       }
     }
 
-    return changedFiles;
+    return entries;
   }
 
-  private determineFileStatus(additions: number, deletions: number): FileStatus | null {
-    if (additions > 0 && deletions === 0) return 'added';
-    if (additions === 0 && deletions > 0) return 'deleted';
-    if (additions > 0 && deletions > 0) return 'modified';
-    return null;
+  /**
+   * Parse `git diff --numstat -z` into line counts by (new) path; binary files are
+   * left out. Renames and copies are `<adds>\t<dels>\t` followed by the old and new path.
+   */
+  private parseNumstat(output: string): Map<string, { additions: number; deletions: number }> {
+    const fields = output.split('\0');
+    const counts = new Map<string, { additions: number; deletions: number }>();
+
+    for (let i = 0; i < fields.length; ) {
+      const [additionsStr, deletionsStr, inlinePath] = (fields[i++] ?? '').split('\t');
+      if (additionsStr === undefined || deletionsStr === undefined) continue;
+
+      let path = inlinePath;
+      if (!path) {
+        i++; // old path
+        path = fields[i++];
+      }
+
+      const additions = parseInt(additionsStr, 10);
+      const deletions = parseInt(deletionsStr, 10);
+      if (path && !isNaN(additions) && !isNaN(deletions)) {
+        counts.set(path, { additions, deletions });
+      }
+    }
+
+    return counts;
+  }
+
+  private determineFileStatus(code: string): FileStatus {
+    switch (code[0]) {
+      case 'A':
+        return 'added';
+      case 'D':
+        return 'deleted';
+      case 'R':
+        return 'renamed';
+      case 'C':
+        return 'copied';
+      default:
+        // M (modified), T (type change), U (unmerged)
+        return 'modified';
+    }
   }
 }
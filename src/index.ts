@@ -1,15 +1,20 @@
 // Main exports
 export { ChunkService } from './chunker';
-export { ConfigLoader } from './config';
-export { GitService } from './git';
+export { CONFIG_FILE, ConfigLoader } from './config';
+export { GitService, STAGED_REF, WORKING_TREE_REF, isWorkingCopyRef } from './git';
 export { PRReviewer, reviewResultToJSON } from './reviewer';
 
 // AI Provider exports
 export {
   AIProviderFactory,
   AIProviderInterface,
+  AzureOpenAIProvider,
   ClaudeProvider,
+  GeminiProvider,
+  OpenAICompatibleProvider,
   OpenAIProvider,
+  ReviewCodeOptions,
+  ScoutResult,
 } from './ai-provider';
 
 // Ollama Provider exports (Local LLM)
@@ -21,6 +26,18 @@ export {
 } from './ai-provider/ollama-provider';
 export type { OllamaConfig } from './ai-provider/ollama-provider';
 
+// Provider fallback chain exports
+export { CircuitBreaker, FallbackAIProvider } from './ai-provider/fallback-provider';
+export type { CircuitState, FallbackProviderEntry } from './ai-provider/fallback-provider';
+export { ConsensusAIProvider, findConsensus } from './ai-provider/consensus-provider';
+export { ModelRouter, RoutedAIProvider, matchRule } from './ai-provider/model-router';
+export type { RouteEntry, ScoutFindings } from './ai-provider/model-router';
+export type {
+  ConsensusOptions,
+  ConsensusProviderEntry,
+  ProviderFindings,
+} from './ai-provider/consensus-provider';
+
 // PR Comment exports
 export {
   GitHubCommentService,
@@ -28,6 +45,18 @@ export {
   PRCommentService,
   PRCommentServiceFactory,
 } from './pr-comments';
+export { AzureDevOpsCommentService } from './pr-comments/azure-devops';
+export type { AzureThreadStatus } from './pr-comments/azure-devops';
+export { BitbucketCloudCommentService } from './pr-comments/bitbucket-cloud';
+export { BitbucketServerCommentService } from './pr-comments/bitbucket-server';
+export { FileCommentService } from './pr-comments/file-comments';
+export type { BundledComment, CommentBundle } from './pr-comments/file-comments';
+export { GiteaCommentService } from './pr-comments/gitea';
+export type { GiteaPullRequest } from './pr-comments/gitea';
+export { CommentFormatter } from './pr-comments/comment-formatter';
+export type { DiffLineMap, DiffLineType } from './pr-comments/comment-formatter';
+export { GitHubAppAuth, getGitHubAppAuth } from './pr-comments/github-app-auth';
+export type { GitHubAppAuthOptions } from './pr-comments/github-app-auth';
 
 // Conversation exports
 export {
@@ -55,6 +84,23 @@ export type {
   TestGenerationResult,
 } from './conversation';
 
+// Webhook exports
+export {
+  GitHubWebhookHandler,
+  GitLabWebhookHandler,
+  ReviewQueue,
+  WebhookEventDispatcher,
+  WebhookServer,
+  createWebhookServer,
+} from './webhooks';
+export type {
+  EnqueueResult,
+  ReviewJob,
+  ReviewQueueOptions,
+  WebhookEventDispatcherOptions,
+  WebhookServerOptions,
+} from './webhooks';
+
 // Feedback exports
 export {
   DiagramGenerator,
@@ -101,11 +147,21 @@ export type { CodegraphOptions, ImpactAnalysis } from './analyzers/codegraph-ana
 export type {
   // AI types
   AICategory,
+  AIFallbackConfig,
+  AgentConfig,
   AIIssue,
   AIProvider,
   AIReviewResponse,
+  AzureOpenAIConfig,
   AISeverity,
   AISummary,
+  AzureDevOpsConfig,
+  BatchUsage,
+  BitbucketConfig,
+  BitbucketServerConfig,
+  BudgetConfig,
+  BundleConfig,
+  CassetteConfig,
   // Summary types
   ChangeCategory,
   ChangedFile,
@@ -114,6 +170,7 @@ export type {
   // Code types
   CodeChunk,
   CodeIndexer,
+  ConsensusConfig,
   CodeSuggestion,
   CommandContext,
   CommandHandler,
@@ -129,11 +186,15 @@ export type {
   DiffHunk,
   FileChange,
   FileGroup,
+  FileKind,
   FileLanguageMap,
   // Git types
   FileStatus,
+  GeminiConfig,
+  GitHubAppConfig,
   GitHubCommentWebhookPayload,
   GitHubConfig,
+  GiteaConfig,
   GitHubPRWebhookPayload,
   GitLabConfig,
   GitLabMRWebhookPayload,
@@ -142,51 +203,94 @@ export type {
   GitLabNoteWebhookPayload,
   // Utility types
   LineRange,
+  ModelPrice,
   NormalizedWebhookEvent,
+  OpenAICompatibleConfig,
   OpenAIConfig,
+  PackageConfig,
+  PackageReview,
   PRConfig,
   PRStats,
   PRSummary,
   PRWalkthrough,
   ParsedCommand,
+  PromptPass,
+  PromptsConfig,
   RepositoryConfig,
   ReviewComment,
   ReviewMetadata,
+  ReviewPass,
   ReviewResult,
   ReviewResultJSON,
   ReviewStats,
+  ReviewUsage,
+  ReviewedRange,
   RiskAssessment,
   RiskLevel,
+  RouteTarget,
+  RoutingConfig,
+  RoutingDecision,
+  RoutingRule,
   Severity,
+  SkippedFile,
+  StructuredOutputConfig,
   SummaryOptions,
   SummaryRecommendation,
   SymbolExtraction,
+  TokenUsage,
+  UnreviewedChunk,
   WalkthroughSection,
+  WebhookConfig,
   WebhookHandler,
   WebhookPlatform,
+  WebhookResponse,
 } from './types';
 
 // Error exports
 export {
   AIProviderError,
+  CassetteMissError,
   CodeSherlockError,
   ConfigurationError,
   GitError,
   PRCommentError,
+  ReviewCancelledError,
 } from './types';
 
 // Schema exports (for validation)
 export {
+  AIFallbackConfigSchema,
+  AgentConfigSchema,
   AIProviderSchema,
+  AzureDevOpsConfigSchema,
+  AzureOpenAIConfigSchema,
   ClaudeConfigSchema,
+  BitbucketConfigSchema,
+  BitbucketServerConfigSchema,
+  BudgetConfigSchema,
+  BundleConfigSchema,
+  CassetteConfigSchema,
   ConfigSchema,
+  ConsensusConfigSchema,
   DependencyExtractionSchema,
+  GeminiConfigSchema,
+  GitHubAppConfigSchema,
   GitHubConfigSchema,
+  GiteaConfigSchema,
   GitLabConfigSchema,
+  ModelPriceSchema,
+  OpenAICompatibleConfigSchema,
   OpenAIConfigSchema,
+  PackageConfigSchema,
   PRConfigSchema,
+  PromptsConfigSchema,
   RepositoryConfigSchema,
+  RouteTargetSchema,
+  RoutingConfigSchema,
+  RoutingRuleSchema,
+  StructuredOutputConfigSchema,
   SymbolExtractionSchema,
+  WebhookConfigSchema,
 } from './types';
 
 // Type guard exports
@@ -197,3 +301,51 @@ export { COMMAND_HELP, COMMAND_PREFIX, CommandType as CommandTypes } from './typ
 
 // Indexer Client
 export { IndexerClient, createIndexerClient } from './utils/indexer-client';
+
+// Token and cost accounting
+export { UsageTracker } from './utils/usage-tracker';
+
+// Prompt templates
+export { PromptTemplates, renderTemplate } from './utils/prompt-templates';
+export type {
+  PromptRole,
+  PromptTarget,
+  PromptTemplate,
+  PromptVariables,
+} from './utils/prompt-templates';
+export { ReviewPromptBuilder } from './utils/review-prompts';
+export type { RenderedPrompt } from './utils/review-prompts';
+
+// Recorded AI responses
+export { Cassette } from './utils/cassette';
+export type { CassetteInteraction, CassetteRequest, CassetteResponse } from './utils/cassette';
+
+// Repository lookups for deep dives
+export {
+  REVIEW_TOOLS,
+  RepositoryTools,
+  buildToolInstructions,
+  formatToolResults,
+  parseToolCalls,
+} from './utils/review-tools';
+export type {
+  RepositoryToolsOptions,
+  ReviewTools,
+  ToolCall,
+  ToolDefinition,
+  ToolResult,
+} from './utils/review-tools';
+
+// Unified diff input
+export { parsePatch } from './utils/patch-parser';
+
+// Generated, vendored and binary files
+export { FileClassifier, formatSkippedFiles } from './utils/file-classifier';
+
+// Monorepo package configs
+export { PackageConfigResolver } from './utils/package-configs';
+export type { PackageFiles } from './utils/package-configs';
+
+// JSON Schema generation for structured output
+export { zodToJSONSchema } from './utils/json-schema';
+export type { JSONSchema } from './utils/json-schema';
@@ -1,11 +1,18 @@
 import { Octokit } from '@octokit/rest';
+import { AzureDevOpsCommentService } from './pr-comments/azure-devops';
+import { BitbucketCloudCommentService } from './pr-comments/bitbucket-cloud';
+import { BitbucketServerCommentService } from './pr-comments/bitbucket-server';
 import { EnhancedCommentsBuilder } from './pr-comments/enhanced-comments';
+import { FileCommentService } from './pr-comments/file-comments';
+import { GiteaCommentService } from './pr-comments/gitea';
+import { getGitHubAppAuth } from './pr-comments/github-app-auth';
 import {
   Config,
   GitLabMergeRequest,
   PRCommentError,
   ReviewComment,
   ReviewResult,
+  ReviewedRange,
   Severity,
 } from './types';
 
@@ -28,12 +35,21 @@ export interface PRCommentService {
   postComments(comments: ReviewComment[], prNumber: number): Promise<void>;
   postReviewSummary(summary: ReviewResult, prNumber: number): Promise<void>;
   postSuggestions(result: ReviewResult, prNumber: number): Promise<void>;
+  /** Post a plain top-level comment (e.g. a reply to an @sherlock command) */
+  postComment(body: string, prNumber: number): Promise<void>;
   /** Post review decision (approve/request changes/comment) */
   postReviewDecision(
     result: ReviewResult,
     prNumber: number,
     decision: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT'
   ): Promise<void>;
+  /** Branches under review; used by services that compute diff positions from the local clone */
+  setReviewRange?(targetBranch: string, baseBranch?: string): void;
+  /**
+   * Code reviewed in this run; services that resolve findings from earlier runs only
+   * resolve those inside it, since a run can skip chunks (incremental review, budget)
+   */
+  setReviewedRanges?(ranges: ReviewedRange[]): void;
 }
 
 interface GitHubPRFile {
@@ -68,16 +84,32 @@ export class GitHubCommentService implements PRCommentService {
   private repo: string;
 
   constructor(config: Config) {
-    if (!config.github?.token) {
-      throw new PRCommentError('GitHub token is required');
+    if (!config.github?.token && !config.github?.app) {
+      throw new PRCommentError('GitHub token or GitHub App credentials are required');
     }
     if (!config.repository) {
       throw new PRCommentError('Repository configuration is required');
     }
 
-    this.octokit = new Octokit({ auth: config.github.token });
     this.owner = config.repository.owner;
     this.repo = config.repository.repo;
+
+    // A configured App takes precedence so comments come from its bot account
+    const appConfig = config.github.app;
+    if (appConfig) {
+      const appAuth = getGitHubAppAuth(appConfig, config.github.apiUrl);
+      this.octokit = new Octokit({ baseUrl: config.github.apiUrl });
+      this.octokit.hook.before('request', async (options) => {
+        const token = await appAuth.getInstallationToken(
+          this.owner,
+          this.repo,
+          appConfig.installationId
+        );
+        options.headers.authorization = `token ${token}`;
+      });
+    } else {
+      this.octokit = new Octokit({ auth: config.github.token, baseUrl: config.github.apiUrl });
+    }
   }
 
   async postComments(comments: ReviewComment[], prNumber: number): Promise<void> {
@@ -208,6 +240,23 @@ export class GitHubCommentService implements PRCommentService {
     }
   }
 
+  /**
+   * Post a plain comment on the PR conversation
+   */
+  async postComment(body: string, prNumber: number): Promise<void> {
+    try {
+      await this.octokit.issues.createComment({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: prNumber,
+        body,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new PRCommentError(`Failed to post comment: ${errorMessage}`);
+    }
+  }
+
   /**
    * Post review decision (approve/request changes/comment)
    */
@@ -668,6 +717,11 @@ export class GitLabCommentService implements PRCommentService {
   }
 
   async postComments(comments: ReviewComment[], prNumber: number): Promise<void> {
+    if (comments.length === 0) {
+      console.log('No comments to post');
+      return;
+    }
+
     const commentsByFile = this.groupCommentsByFile(comments);
     const mr = await this.getMergeRequest(prNumber);
 
@@ -761,6 +815,15 @@ export class GitLabCommentService implements PRCommentService {
     }
   }
 
+  async postComment(body: string, prNumber: number): Promise<void> {
+    try {
+      await this.postNote(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new PRCommentError(`Failed to post comment: ${errorMessage}`);
+    }
+  }
+
   async postReviewDecision(
     result: ReviewResult,
     prNumber: number,
@@ -954,8 +1017,13 @@ export class GitLabCommentService implements PRCommentService {
 // ============================================================================
 
 export class PRCommentServiceFactory {
-  static create(config: Config): PRCommentService {
-    if (config.github?.token) {
+  static create(config: Config, repoPath?: string): PRCommentService {
+    // A bundle takes precedence so dry runs never reach a live forge
+    if (config.bundle) {
+      return new FileCommentService(config, repoPath);
+    }
+
+    if (config.github?.token || config.github?.app) {
       return new GitHubCommentService(config);
     }
 
@@ -963,6 +1031,24 @@ export class PRCommentServiceFactory {
       return new GitLabCommentService(config);
     }
 
-    throw new PRCommentError('Either GitHub or GitLab token is required');
+    if (config.bitbucket) {
+      return new BitbucketCloudCommentService(config);
+    }
+
+    if (config.bitbucketServer) {
+      return new BitbucketServerCommentService(config);
+    }
+
+    if (config.azureDevOps) {
+      return new AzureDevOpsCommentService(config);
+    }
+
+    if (config.gitea) {
+      return new GiteaCommentService(config);
+    }
+
+    throw new PRCommentError(
+      'A GitHub, GitLab, Bitbucket, Azure DevOps or Gitea token is required'
+    );
   }
 }
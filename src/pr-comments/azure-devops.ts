@@ -0,0 +1,325 @@
+/**
+ * Azure DevOps Comment Service - Posts reviews to Azure Repos pull requests
+ *
+ * - Findings become comment threads anchored to the file and line
+ * - Threads are fingerprinted so a re-review of their code resolves the ones whose
+ *   issue is gone
+ * - The review decision is cast as a reviewer vote
+ */
+
+import { createHash } from 'crypto';
+import type { PRCommentService } from '../pr-comments';
+import { Config, PRCommentError, ReviewComment, ReviewResult, ReviewedRange } from '../types';
+import { CommentFormatter } from './comment-formatter';
+import { EnhancedCommentsBuilder } from './enhanced-comments';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_BASE_URL = 'https://dev.azure.com';
+const API_VERSION = '7.1';
+/** connectionData is only published as a preview API */
+const CONNECTION_DATA_API_VERSION = '7.1-preview';
+
+/** Hidden marker identifying threads we created, followed by the finding fingerprint */
+const FINGERPRINT_PREFIX = '<!-- code-sherlock:';
+const FINGERPRINT_PATTERN = /<!-- code-sherlock:([a-f0-9]+) -->/;
+
+const VOTES = {
+  APPROVE: 10,
+  REQUEST_CHANGES: -5, // "Waiting for author"
+} as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AzureThreadStatus = 'active' | 'fixed' | 'wontFix' | 'closed' | 'byDesign' | 'pending';
+
+interface AzureThread {
+  id: number;
+  status?: AzureThreadStatus;
+  isDeleted?: boolean;
+  comments?: Array<{ content?: string }>;
+  threadContext?: { filePath?: string; rightFileStart?: { line: number } };
+}
+
+interface AzureThreadContext {
+  filePath: string;
+  rightFileStart: { line: number; offset: number };
+  rightFileEnd: { line: number; offset: number };
+}
+
+// ============================================================================
+// Azure DevOps Comment Service
+// ============================================================================
+
+export class AzureDevOpsCommentService implements PRCommentService {
+  private organizationUrl: string;
+  private repositoryUrl: string;
+  private authorization: string;
+  private reviewerId?: string;
+  private reviewedRanges: ReviewedRange[] = [];
+
+  constructor(config: Config) {
+    const azure = config.azureDevOps;
+    if (!azure?.pat) {
+      throw new PRCommentError('Azure DevOps personal access token is required');
+    }
+
+    const baseUrl = (azure.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.organizationUrl = `${baseUrl}/${encodeURIComponent(azure.organization)}`;
+    this.repositoryUrl =
+      `${this.organizationUrl}/${encodeURIComponent(azure.project)}` +
+      `/_apis/git/repositories/${encodeURIComponent(azure.repositoryId)}`;
+    this.authorization = `Basic ${Buffer.from(`:${azure.pat}`).toString('base64')}`;
+  }
+
+  setReviewedRanges(ranges: ReviewedRange[]): void {
+    this.reviewedRanges = ranges;
+  }
+
+  /**
+   * Post one thread per new finding and sync the status of threads from earlier runs:
+   * findings that are gone from re-reviewed code are marked fixed, findings that came
+   * back are reactivated.
+   */
+  async postComments(comments: ReviewComment[], prNumber: number): Promise<void> {
+    const existing = await this.getOwnThreads(prNumber);
+    const current = this.fingerprintAll(comments);
+
+    for (const [fingerprint, thread] of existing.entries()) {
+      const stillPresent = current.has(fingerprint);
+      if (!stillPresent && thread.status === 'active' && this.wasReviewed(thread)) {
+        await this.updateThreadStatusSafely(prNumber, thread.id, 'fixed');
+      } else if (stillPresent && thread.status !== 'active') {
+        await this.updateThreadStatusSafely(prNumber, thread.id, 'active');
+      }
+    }
+
+    for (const [fingerprint, comment] of current.entries()) {
+      if (existing.has(fingerprint)) {
+        continue;
+      }
+      try {
+        await this.createThread(
+          prNumber,
+          `${CommentFormatter.formatComment(comment)}\n\n${FINGERPRINT_PREFIX}${fingerprint} -->`,
+          {
+            filePath: `/${comment.file.replace(/^\/+/, '')}`,
+            rightFileStart: { line: comment.line, offset: 1 },
+            rightFileEnd: { line: comment.line, offset: 1 },
+          }
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(
+          `Failed to post comment for ${comment.file}:${comment.line}: ${errorMessage}`
+        );
+      }
+    }
+  }
+
+  async postReviewSummary(summary: ReviewResult, prNumber: number): Promise<void> {
+    await this.postThreadSafely(
+      prNumber,
+      CommentFormatter.formatReviewSummary(summary),
+      'review summary'
+    );
+  }
+
+  async postSuggestions(result: ReviewResult, prNumber: number): Promise<void> {
+    const body = CommentFormatter.formatSuggestions(result);
+    if (body) {
+      await this.postThreadSafely(prNumber, body, 'suggestions');
+    }
+  }
+
+  async postComment(body: string, prNumber: number): Promise<void> {
+    try {
+      await this.createThread(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new PRCommentError(`Failed to post comment: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Post the decision summary and cast a vote (approve / waiting for author).
+   * Inline threads are already posted by postComments.
+   */
+  async postReviewDecision(
+    result: ReviewResult,
+    prNumber: number,
+    decision: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT'
+  ): Promise<void> {
+    const decisionResult = EnhancedCommentsBuilder.buildReviewDecision(result);
+
+    try {
+      await this.createThread(prNumber, decisionResult.body);
+
+      if (decision !== 'COMMENT') {
+        await this.vote(prNumber, VOTES[decision]);
+      }
+
+      console.log(`Posted review decision: ${decision}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to post review decision: ${errorMessage}`);
+      // Fallback to regular comment
+      await this.postReviewSummary(result, prNumber);
+    }
+  }
+
+  /**
+   * Set the status of a comment thread (e.g. `fixed` once the issue is resolved)
+   */
+  async updateThreadStatus(
+    prNumber: number,
+    threadId: number,
+    status: AzureThreadStatus
+  ): Promise<void> {
+    await this.request('PATCH', this.pullRequestUrl(prNumber, `/threads/${threadId}`), { status });
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private pullRequestUrl(prNumber: number, suffix = ''): string {
+    return `${this.repositoryUrl}/pullRequests/${prNumber}${suffix}`;
+  }
+
+  /**
+   * Stable identity for each finding that survives line shifts between pushes.
+   * Findings with the same text in one file are told apart by their order in the file.
+   */
+  private fingerprintAll(comments: ReviewComment[]): Map<string, ReviewComment> {
+    const occurrences = new Map<string, number>();
+    const fingerprints = new Map<string, ReviewComment>();
+
+    for (const comment of [...comments].sort((a, b) => a.line - b.line)) {
+      const fingerprint = this.hash(
+        `${comment.file}|${comment.category ?? comment.rule ?? ''}|${comment.body}`
+      );
+      const occurrence = occurrences.get(fingerprint) ?? 0;
+      occurrences.set(fingerprint, occurrence + 1);
+      fingerprints.set(
+        occurrence === 0 ? fingerprint : this.hash(`${fingerprint}|${occurrence}`),
+        comment
+      );
+    }
+
+    return fingerprints;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha1').update(value).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Whether this run reviewed the line a thread is anchored to
+   */
+  private wasReviewed(thread: AzureThread): boolean {
+    const filePath = thread.threadContext?.filePath?.replace(/^\/+/, '');
+    const line = thread.threadContext?.rightFileStart?.line;
+    if (!filePath || line === undefined) {
+      return false;
+    }
+    return this.reviewedRanges.some(
+      (range) => range.file === filePath && line >= range.startLine && line <= range.endLine
+    );
+  }
+
+  private async getOwnThreads(prNumber: number): Promise<Map<string, AzureThread>> {
+    const response = await this.request('GET', this.pullRequestUrl(prNumber, '/threads'));
+    const data = (await response.json()) as { value?: AzureThread[] };
+    const threads = new Map<string, AzureThread>();
+
+    for (const thread of data.value ?? []) {
+      if (thread.isDeleted) continue;
+      const match = thread.comments?.[0]?.content?.match(FINGERPRINT_PATTERN);
+      if (match?.[1]) {
+        threads.set(match[1], thread);
+      }
+    }
+
+    return threads;
+  }
+
+  private async createThread(
+    prNumber: number,
+    content: string,
+    threadContext?: AzureThreadContext
+  ): Promise<void> {
+    await this.request('POST', this.pullRequestUrl(prNumber, '/threads'), {
+      comments: [{ parentCommentId: 0, content, commentType: 'text' }],
+      status: 'active',
+      ...(threadContext && { threadContext }),
+    });
+  }
+
+  private async postThreadSafely(prNumber: number, body: string, what: string): Promise<void> {
+    try {
+      await this.createThread(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to post ${what}: ${errorMessage}`);
+    }
+  }
+
+  private async updateThreadStatusSafely(
+    prNumber: number,
+    threadId: number,
+    status: AzureThreadStatus
+  ): Promise<void> {
+    try {
+      await this.updateThreadStatus(prNumber, threadId, status);
+    } catch (error) {
+      console.warn(`Failed to mark thread ${threadId} as ${status}:`, error);
+    }
+  }
+
+  private async vote(prNumber: number, vote: number): Promise<void> {
+    const reviewerId = this.reviewerId ?? (await this.getAuthenticatedUserId());
+    this.reviewerId = reviewerId;
+
+    await this.request('PUT', this.pullRequestUrl(prNumber, `/reviewers/${reviewerId}`), {
+      vote,
+    });
+  }
+
+  private async getAuthenticatedUserId(): Promise<string> {
+    const response = await this.request(
+      'GET',
+      `${this.organizationUrl}/_apis/connectionData?api-version=${CONNECTION_DATA_API_VERSION}`
+    );
+    const data = (await response.json()) as { authenticatedUser?: { id?: string } };
+    if (!data.authenticatedUser?.id) {
+      throw new PRCommentError('Could not determine the Azure DevOps user for this token');
+    }
+    return data.authenticatedUser.id;
+  }
+
+  private async request(method: string, url: string, body?: object): Promise<Response> {
+    const versionedUrl = url.includes('api-version=') ? url : `${url}?api-version=${API_VERSION}`;
+    const response = await fetch(versionedUrl, {
+      method,
+      headers: {
+        Authorization: this.authorization,
+        Accept: 'application/json',
+        ...(body && { 'Content-Type': 'application/json' }),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw new PRCommentError(
+        `Azure DevOps API ${method} ${url} failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Bitbucket Cloud Comment Service - Posts reviews through the Bitbucket 2.0 REST API
+ */
+
+import type { PRCommentService } from '../pr-comments';
+import { Config, PRCommentError, ReviewComment, ReviewResult } from '../types';
+import { CommentFormatter } from './comment-formatter';
+import { EnhancedCommentsBuilder } from './enhanced-comments';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_BASE_URL = 'https://api.bitbucket.org/2.0';
+
+// ============================================================================
+// Bitbucket Cloud Comment Service
+// ============================================================================
+
+export class BitbucketCloudCommentService implements PRCommentService {
+  private baseUrl: string;
+  private authorization: string;
+  private workspace: string;
+  private repoSlug: string;
+
+  constructor(config: Config) {
+    const bitbucket = config.bitbucket;
+    if (!bitbucket?.token && !(bitbucket?.username && bitbucket.appPassword)) {
+      throw new PRCommentError('Bitbucket access token or app password is required');
+    }
+    if (!config.repository) {
+      throw new PRCommentError('Repository configuration is required');
+    }
+
+    this.authorization = bitbucket.token
+      ? `Bearer ${bitbucket.token}`
+      : `Basic ${Buffer.from(`${bitbucket.username}:${bitbucket.appPassword}`).toString('base64')}`;
+    this.baseUrl = (bitbucket.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.workspace = config.repository.owner;
+    this.repoSlug = config.repository.repo;
+  }
+
+  async postComments(comments: ReviewComment[], prNumber: number): Promise<void> {
+    if (comments.length === 0) {
+      console.log('No comments to post');
+      return;
+    }
+
+    // Bitbucket rejects inline comments on lines outside the diff
+    const diffLines = CommentFormatter.parseUnifiedDiff(await this.getDiff(prNumber));
+    const { inline, outsideDiff } = CommentFormatter.partitionByDiff(comments, diffLines);
+
+    for (const comment of inline) {
+      try {
+        await this.createComment(prNumber, CommentFormatter.formatComment(comment), {
+          path: comment.file,
+          to: comment.line,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(
+          `Failed to post comment for ${comment.file}:${comment.line}: ${errorMessage}`
+        );
+      }
+    }
+
+    if (outsideDiff.length > 0) {
+      await this.postCommentSafely(
+        prNumber,
+        CommentFormatter.formatOutsideDiffComments(inline.length, outsideDiff),
+        'outside-diff comments'
+      );
+    }
+  }
+
+  async postReviewSummary(summary: ReviewResult, prNumber: number): Promise<void> {
+    await this.postCommentSafely(
+      prNumber,
+      CommentFormatter.formatReviewSummary(summary),
+      'review summary'
+    );
+  }
+
+  async postSuggestions(result: ReviewResult, prNumber: number): Promise<void> {
+    const body = CommentFormatter.formatSuggestions(result);
+    if (body) {
+      await this.postCommentSafely(prNumber, body, 'suggestions');
+    }
+  }
+
+  async postComment(body: string, prNumber: number): Promise<void> {
+    try {
+      await this.createComment(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new PRCommentError(`Failed to post comment: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Post the decision summary and set the approval state.
+   * Inline comments are already posted by postComments.
+   */
+  async postReviewDecision(
+    result: ReviewResult,
+    prNumber: number,
+    decision: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT'
+  ): Promise<void> {
+    const decisionResult = EnhancedCommentsBuilder.buildReviewDecision(result);
+
+    try {
+      await this.createComment(prNumber, decisionResult.body);
+
+      if (decision === 'APPROVE') {
+        await this.request('DELETE', `${this.pullRequestPath(prNumber)}/request-changes`, {
+          ignoreNotFound: true,
+        });
+        await this.request('POST', `${this.pullRequestPath(prNumber)}/approve`);
+      } else if (decision === 'REQUEST_CHANGES') {
+        await this.request('DELETE', `${this.pullRequestPath(prNumber)}/approve`, {
+          ignoreNotFound: true,
+        });
+        await this.request('POST', `${this.pullRequestPath(prNumber)}/request-changes`);
+      }
+
+      console.log(`Posted review decision: ${decision}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to post review decision: ${errorMessage}`);
+      // Fallback to regular comment
+      await this.postReviewSummary(result, prNumber);
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private pullRequestPath(prNumber: number): string {
+    return `/repositories/${encodeURIComponent(this.workspace)}/${encodeURIComponent(this.repoSlug)}/pullrequests/${prNumber}`;
+  }
+
+  private async getDiff(prNumber: number): Promise<string> {
+    const response = await this.request('GET', `${this.pullRequestPath(prNumber)}/diff`);
+    return response.text();
+  }
+
+  private async createComment(
+    prNumber: number,
+    body: string,
+    inline?: { path: string; to: number }
+  ): Promise<void> {
+    await this.request('POST', `${this.pullRequestPath(prNumber)}/comments`, {
+      body: { content: { raw: body }, ...(inline && { inline }) },
+    });
+  }
+
+  private async postCommentSafely(prNumber: number, body: string, what: string): Promise<void> {
+    try {
+      await this.createComment(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to post ${what}: ${errorMessage}`);
+    }
+  }
+
+  private async request(
+    method: string,
+    endpoint: string,
+    options: { body?: object; ignoreNotFound?: boolean } = {}
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers: {
+        Authorization: this.authorization,
+        Accept: 'application/json',
+        ...(options.body && { 'Content-Type': 'application/json' }),
+      },
+      body: options.body ? JSON.stringify(options.body) : undefined,
+    });
+
+    if (!response.ok && !(options.ignoreNotFound && response.status === 404)) {
+      throw new PRCommentError(
+        `Bitbucket API ${method} ${endpoint} failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Bitbucket Server / Data Center Comment Service - Posts reviews through the
+ * Bitbucket Server 1.0 REST API
+ */
+
+import type { PRCommentService } from '../pr-comments';
+import { Config, PRCommentError, ReviewComment, ReviewResult } from '../types';
+import { CommentFormatter, DiffLineMap, DiffLineType } from './comment-formatter';
+import { EnhancedCommentsBuilder } from './enhanced-comments';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface BitbucketServerDiffResponse {
+  diffs?: Array<{
+    destination?: { toString: string } | null;
+    hunks?: Array<{
+      segments: Array<{
+        type: 'ADDED' | 'REMOVED' | 'CONTEXT';
+        lines: Array<{ destination: number }>;
+      }>;
+    }>;
+  }>;
+}
+
+type ParticipantStatus = 'APPROVED' | 'NEEDS_WORK' | 'UNAPPROVED';
+
+// ============================================================================
+// Bitbucket Server Comment Service
+// ============================================================================
+
+export class BitbucketServerCommentService implements PRCommentService {
+  private baseUrl: string;
+  private token: string;
+  private projectKey: string;
+  private repoSlug: string;
+  private userSlug?: string;
+
+  constructor(config: Config) {
+    if (!config.bitbucketServer?.token) {
+      throw new PRCommentError('Bitbucket Server token is required');
+    }
+    if (!config.repository) {
+      throw new PRCommentError('Repository configuration is required');
+    }
+
+    this.baseUrl = config.bitbucketServer.baseUrl.replace(/\/+$/, '');
+    this.token = config.bitbucketServer.token;
+    this.projectKey = config.bitbucketServer.projectKey ?? config.repository.owner;
+    this.repoSlug = config.repository.repo;
+    this.userSlug = config.bitbucketServer.userSlug;
+  }
+
+  async postComments(comments: ReviewComment[], prNumber: number): Promise<void> {
+    if (comments.length === 0) {
+      console.log('No comments to post');
+      return;
+    }
+
+    // Anchors must say whether the line was added or is context
+    const diffLines = await this.getDiffLines(prNumber);
+    const { inline, outsideDiff } = CommentFormatter.partitionByDiff(comments, diffLines);
+
+    for (const comment of inline) {
+      const lineType = diffLines.get(comment.file)?.get(comment.line) ?? 'added';
+      try {
+        await this.createComment(prNumber, CommentFormatter.formatComment(comment), {
+          path: comment.file,
+          line: comment.line,
+          lineType: lineType === 'added' ? 'ADDED' : 'CONTEXT',
+          fileType: 'TO',
+          diffType: 'EFFECTIVE',
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(
+          `Failed to post comment for ${comment.file}:${comment.line}: ${errorMessage}`
+        );
+      }
+    }
+
+    if (outsideDiff.length > 0) {
+      await this.postCommentSafely(
+        prNumber,
+        CommentFormatter.formatOutsideDiffComments(inline.length, outsideDiff),
+        'outside-diff comments'
+      );
+    }
+  }
+
+  async postReviewSummary(summary: ReviewResult, prNumber: number): Promise<void> {
+    await this.postCommentSafely(
+      prNumber,
+      CommentFormatter.formatReviewSummary(summary),
+      'review summary'
+    );
+  }
+
+  async postSuggestions(result: ReviewResult, prNumber: number): Promise<void> {
+    const body = CommentFormatter.formatSuggestions(result);
+    if (body) {
+      await this.postCommentSafely(prNumber, body, 'suggestions');
+    }
+  }
+
+  async postComment(body: string, prNumber: number): Promise<void> {
+    try {
+      await this.createComment(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new PRCommentError(`Failed to post comment: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Post the decision summary and set our participant status.
+   * Inline comments are already posted by postComments.
+   */
+  async postReviewDecision(
+    result: ReviewResult,
+    prNumber: number,
+    decision: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT'
+  ): Promise<void> {
+    const decisionResult = EnhancedCommentsBuilder.buildReviewDecision(result);
+
+    try {
+      await this.createComment(prNumber, decisionResult.body);
+
+      if (decision === 'APPROVE') {
+        await this.setParticipantStatus(prNumber, 'APPROVED');
+      } else if (decision === 'REQUEST_CHANGES') {
+        await this.setParticipantStatus(prNumber, 'NEEDS_WORK');
+      }
+
+      console.log(`Posted review decision: ${decision}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to post review decision: ${errorMessage}`);
+      // Fallback to regular comment
+      await this.postReviewSummary(result, prNumber);
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private pullRequestPath(prNumber: number): string {
+    return `/rest/api/1.0/projects/${encodeURIComponent(this.projectKey)}/repos/${encodeURIComponent(this.repoSlug)}/pull-requests/${prNumber}`;
+  }
+
+  private async getDiffLines(prNumber: number): Promise<DiffLineMap> {
+    const response = await this.request('GET', `${this.pullRequestPath(prNumber)}/diff`);
+    const data = (await response.json()) as BitbucketServerDiffResponse;
+    const result: DiffLineMap = new Map();
+
+    for (const diff of data.diffs ?? []) {
+      // Deleted files have no destination
+      const filePath = diff.destination?.toString;
+      if (!filePath) continue;
+
+      const lines = result.get(filePath) ?? new Map<number, DiffLineType>();
+      for (const hunk of diff.hunks ?? []) {
+        for (const segment of hunk.segments) {
+          if (segment.type === 'REMOVED') continue;
+          for (const line of segment.lines) {
+            lines.set(line.destination, segment.type === 'ADDED' ? 'added' : 'context');
+          }
+        }
+      }
+      result.set(filePath, lines);
+    }
+
+    return result;
+  }
+
+  private async createComment(prNumber: number, text: string, anchor?: object): Promise<void> {
+    await this.request('POST', `${this.pullRequestPath(prNumber)}/comments`, {
+      text,
+      ...(anchor && { anchor }),
+    });
+  }
+
+  private async postCommentSafely(prNumber: number, body: string, what: string): Promise<void> {
+    try {
+      await this.createComment(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to post ${what}: ${errorMessage}`);
+    }
+  }
+
+  private async setParticipantStatus(prNumber: number, status: ParticipantStatus): Promise<void> {
+    const userSlug = this.userSlug ?? (await this.getCurrentUserSlug());
+    this.userSlug = userSlug;
+
+    await this.request(
+      'PUT',
+      `${this.pullRequestPath(prNumber)}/participants/${encodeURIComponent(userSlug)}`,
+      { status }
+    );
+  }
+
+  private async getCurrentUserSlug(): Promise<string> {
+    const response = await this.request('GET', '/plugins/servlet/applinks/whoami');
+    const username = (await response.text()).trim();
+    if (!username) {
+      throw new PRCommentError('Could not determine the Bitbucket Server user for this token');
+    }
+    return username;
+  }
+
+  private async request(method: string, endpoint: string, body?: object): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        Accept: 'application/json',
+        ...(body && { 'Content-Type': 'application/json' }),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw new PRCommentError(
+        `Bitbucket Server API ${method} ${endpoint} failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Comment Formatter - Markdown bodies and diff-line mapping shared by the
+ * fetch-based comment services (Bitbucket, Azure DevOps, Gitea)
+ */
+
+import { ReviewComment, ReviewResult, Severity } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEVERITY_EMOJI: Record<Severity, string> = {
+  error: '🔴',
+  warning: '🟡',
+  info: 'ℹ️',
+  suggestion: '💡',
+};
+
+const NAMING_TYPE_EMOJI: Record<string, string> = {
+  function: '🔧',
+  class: '🏛️',
+  variable: '📦',
+  constant: '🔒',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Whether a new-file line was added in the diff or is unchanged context */
+export type DiffLineType = 'added' | 'context';
+
+/** New-file line numbers that can carry inline comments, per file path */
+export type DiffLineMap = Map<string, Map<number, DiffLineType>>;
+
+// ============================================================================
+// Comment Formatter
+// ============================================================================
+
+export class CommentFormatter {
+  /**
+   * Format a single inline comment
+   */
+  static formatComment(comment: ReviewComment): string {
+    let body = `${SEVERITY_EMOJI[comment.severity]} **${comment.severity.toUpperCase()}**`;
+
+    if (comment.category || comment.rule) {
+      body += ` | \`${comment.category || comment.rule}\``;
+    }
+
+    body += `\n\n${comment.body}`;
+
+    if (comment.fix) {
+      body += `\n\n💡 **Suggested Fix:**\n\`\`\`\n${comment.fix}\n\`\`\``;
+    }
+
+    return body;
+  }
+
+  /**
+   * Format the review summary comment
+   */
+  static formatReviewSummary(summary: ReviewResult): string {
+    let body = '## 🔍 Code Review Summary\n\n';
+    body += `${summary.summary}\n\n`;
+
+    if (summary.topIssues && summary.topIssues.length > 0) {
+      body += '### Top Issues\n\n';
+      for (const issue of summary.topIssues) {
+        body += `- ${issue}\n`;
+      }
+      body += '\n';
+    }
+
+    body += '### Statistics\n\n';
+    body += `| Category | Count |\n`;
+    body += `|----------|-------|\n`;
+    body += `| 🔴 Errors | ${summary.stats.errors} |\n`;
+    body += `| 🟡 Warnings | ${summary.stats.warnings} |\n`;
+    body += `| 💡 Suggestions | ${summary.stats.suggestions} |\n`;
+
+    if (summary.recommendation) {
+      body += `\n**Recommendation:** ${summary.recommendation}\n`;
+    }
+
+    return body;
+  }
+
+  /**
+   * Format PR title and naming suggestions. Returns null when there are none.
+   */
+  static formatSuggestions(result: ReviewResult): string | null {
+    const namingSuggestions = result.namingSuggestions ?? [];
+    if (namingSuggestions.length === 0 && !result.prTitleSuggestion) {
+      return null;
+    }
+
+    let body = '## 💡 Suggestions\n\n';
+
+    if (result.prTitleSuggestion) {
+      const title = result.prTitleSuggestion;
+      body += `### 📝 PR Title Suggestion\n\n`;
+      if (title.currentTitle) {
+        body += `**Current title:** ${title.currentTitle}\n\n`;
+      }
+      body += `**Suggested title:** \`${title.suggestedTitle}\`\n\n`;
+      body += `**Reason:** ${title.reason}\n\n`;
+
+      if (title.alternatives && title.alternatives.length > 0) {
+        body += `**Alternatives:**\n`;
+        for (const alt of title.alternatives) {
+          body += `- \`${alt}\`\n`;
+        }
+        body += '\n';
+      }
+    }
+
+    if (namingSuggestions.length > 0) {
+      body += `### 🏷️ Naming Suggestions (${namingSuggestions.length})\n\n`;
+
+      const suggestionsByFile = new Map<string, typeof namingSuggestions>();
+      for (const suggestion of namingSuggestions) {
+        const existing = suggestionsByFile.get(suggestion.file) ?? [];
+        existing.push(suggestion);
+        suggestionsByFile.set(suggestion.file, existing);
+      }
+
+      for (const [file, fileSuggestions] of suggestionsByFile.entries()) {
+        body += `**\`${file}\`**\n\n`;
+        for (const suggestion of fileSuggestions) {
+          body += `- ${NAMING_TYPE_EMOJI[suggestion.type] ?? '📝'} **Line ${suggestion.line}:** `;
+          body += `\`${suggestion.currentName}\` → \`${suggestion.suggestedName}\` `;
+          body += `(${suggestion.type})\n`;
+          body += `  - *${suggestion.reason}*\n\n`;
+        }
+      }
+    }
+
+    return body;
+  }
+
+  /**
+   * Format the comment listing findings that could not be anchored to the diff
+   */
+  static formatOutsideDiffComments(inlineCount: number, outsideDiff: ReviewComment[]): string {
+    let body = `**Actionable comments posted: ${inlineCount}**\n\n`;
+    body += `⚠️ **Outside diff range comments (${outsideDiff.length})**\n\n`;
+
+    const commentsByFile = this.groupByFile(outsideDiff);
+    for (const [file, fileComments] of commentsByFile.entries()) {
+      body += `**\`${file}\`**\n\n`;
+      for (const comment of fileComments) {
+        body += `- **Line ${comment.line}:** ${SEVERITY_EMOJI[comment.severity]} ${comment.body}\n`;
+      }
+      body += '\n';
+    }
+
+    return body;
+  }
+
+  /**
+   * Parse a multi-file unified diff into the new-file lines that can be commented on
+   */
+  static parseUnifiedDiff(diff: string): DiffLineMap {
+    const result: DiffLineMap = new Map();
+    let currentLines: Map<number, DiffLineType> | undefined;
+    let currentNewLine = 0;
+
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('diff --git')) {
+        currentLines = undefined;
+        continue;
+      }
+
+      if (line.startsWith('+++ ')) {
+        const target = line.slice(4).trim();
+        // Deleted files have no new-file lines to comment on
+        if (target === '/dev/null') {
+          currentLines = undefined;
+        } else {
+          const filePath = target.replace(/^b\//, '');
+          currentLines = result.get(filePath) ?? new Map<number, DiffLineType>();
+          result.set(filePath, currentLines);
+        }
+        continue;
+      }
+
+      if (line.startsWith('--- ')) {
+        continue;
+      }
+
+      // Parse hunk header: @@ -oldStart,oldCount +newStart,newCount @@
+      if (line.startsWith('@@')) {
+        const match = line.match(/@@\s*-\d+(?:,\d+)?\s*\+(\d+)(?:,(\d+))?/);
+        if (match?.[1]) {
+          currentNewLine = parseInt(match[1], 10);
+        }
+        continue;
+      }
+
+      if (!currentLines) {
+        continue;
+      }
+
+      if (line.startsWith('+')) {
+        currentLines.set(currentNewLine, 'added');
+        currentNewLine++;
+      } else if (line.startsWith(' ')) {
+        currentLines.set(currentNewLine, 'context');
+        currentNewLine++;
+      }
+      // Deleted lines only exist in the old file
+    }
+
+    return result;
+  }
+
+  /**
+   * Split comments into those that can be anchored inline and those outside the diff
+   */
+  static partitionByDiff(
+    comments: ReviewComment[],
+    diffLines: DiffLineMap
+  ): { inline: ReviewComment[]; outsideDiff: ReviewComment[] } {
+    const inline: ReviewComment[] = [];
+    const outsideDiff: ReviewComment[] = [];
+
+    for (const comment of comments) {
+      if (diffLines.get(comment.file)?.has(comment.line)) {
+        inline.push(comment);
+      } else {
+        outsideDiff.push(comment);
+      }
+    }
+
+    return { inline, outsideDiff };
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private static groupByFile(comments: ReviewComment[]): Map<string, ReviewComment[]> {
+    const commentsByFile = new Map<string, ReviewComment[]>();
+
+    for (const comment of comments) {
+      const existing = commentsByFile.get(comment.file) ?? [];
+      existing.push(comment);
+      commentsByFile.set(comment.file, existing);
+    }
+
+    return commentsByFile;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * File Comment Service - Writes everything a review would post to a bundle on disk
+ *
+ * The bundle is a directory holding `review.json` (replayed by `sherlock publish`)
+ * and `review.md` (for humans). This lets a sandboxed job review without forge
+ * credentials and a trusted job publish the result.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitService } from '../git';
+import type { PRCommentService } from '../pr-comments';
+import { Config, PRCommentError, ReviewComment, ReviewResult, ReviewedRange } from '../types';
+import { CommentFormatter } from './comment-formatter';
+import { EnhancedCommentsBuilder, ReviewDecision } from './enhanced-comments';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const BUNDLE_VERSION = 1;
+const BUNDLE_JSON = 'review.json';
+const BUNDLE_MARKDOWN = 'review.md';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * An inline comment with its position in the file's diff.
+ * `position` follows GitHub's convention: lines below the file's first `@@` header.
+ */
+export interface BundledComment {
+  comment: ReviewComment;
+  inDiff: boolean;
+  position?: number;
+}
+
+export interface CommentBundle {
+  version: number;
+  createdAt: string;
+  prNumber: number;
+  repository?: { owner: string; repo: string };
+  range?: { targetBranch: string; baseBranch?: string };
+  /** Code the review looked at, so replays only resolve earlier findings inside it */
+  reviewedRanges?: ReviewedRange[];
+  comments: BundledComment[];
+  summary?: ReviewResult;
+  suggestions?: ReviewResult;
+  decision?: { decision: ReviewDecision; result: ReviewResult };
+  /** Plain top-level comments, in the order they were posted */
+  messages: string[];
+}
+
+// ============================================================================
+// File Comment Service
+// ============================================================================
+
+export class FileCommentService implements PRCommentService {
+  private bundlePath: string;
+  private repoPath: string;
+  private bundle?: CommentBundle;
+  private range?: { targetBranch: string; baseBranch?: string };
+  private reviewedRanges?: ReviewedRange[];
+  private repository?: { owner: string; repo: string };
+
+  constructor(config: Config, repoPath: string = process.cwd()) {
+    if (!config.bundle?.path) {
+      throw new PRCommentError('Bundle path is required');
+    }
+
+    this.bundlePath = path.resolve(repoPath, config.bundle.path);
+    this.repoPath = repoPath;
+    this.repository = config.repository && {
+      owner: config.repository.owner,
+      repo: config.repository.repo,
+    };
+  }
+
+  setReviewRange(targetBranch: string, baseBranch?: string): void {
+    this.range = { targetBranch, baseBranch };
+  }
+
+  setReviewedRanges(ranges: ReviewedRange[]): void {
+    this.reviewedRanges = ranges;
+  }
+
+  async postComments(comments: ReviewComment[], prNumber: number): Promise<void> {
+    const bundle = this.getBundle(prNumber);
+    bundle.comments = await this.withDiffPositions(comments);
+    bundle.reviewedRanges = this.reviewedRanges;
+    this.write(bundle);
+  }
+
+  postReviewSummary(summary: ReviewResult, prNumber: number): Promise<void> {
+    const bundle = this.getBundle(prNumber);
+    bundle.summary = summary;
+    this.write(bundle);
+    return Promise.resolve();
+  }
+
+  postSuggestions(result: ReviewResult, prNumber: number): Promise<void> {
+    if (CommentFormatter.formatSuggestions(result)) {
+      const bundle = this.getBundle(prNumber);
+      bundle.suggestions = result;
+      this.write(bundle);
+    }
+    return Promise.resolve();
+  }
+
+  postComment(body: string, prNumber: number): Promise<void> {
+    const bundle = this.getBundle(prNumber);
+    bundle.messages.push(body);
+    this.write(bundle);
+    return Promise.resolve();
+  }
+
+  postReviewDecision(
+    result: ReviewResult,
+    prNumber: number,
+    decision: ReviewDecision
+  ): Promise<void> {
+    const bundle = this.getBundle(prNumber);
+    bundle.decision = { decision, result };
+    this.write(bundle);
+    return Promise.resolve();
+  }
+
+  /**
+   * Read a bundle written by FileCommentService
+   * @param bundlePath - The bundle directory or its `review.json`
+   */
+  static readBundle(bundlePath: string): CommentBundle {
+    const jsonPath =
+      fs.existsSync(bundlePath) && fs.statSync(bundlePath).isDirectory()
+        ? path.join(bundlePath, BUNDLE_JSON)
+        : bundlePath;
+
+    let bundle: CommentBundle;
+    try {
+      bundle = JSON.parse(fs.readFileSync(jsonPath, 'utf-8')) as CommentBundle;
+    } catch (error) {
+      throw new PRCommentError(
+        `Failed to read review bundle: ${jsonPath}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (bundle.version !== BUNDLE_VERSION) {
+      throw new PRCommentError(`Unsupported review bundle version: ${String(bundle.version)}`);
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Replay a bundle against a live comment service, in the order a review posts
+   * @param prNumber - Overrides the PR number recorded in the bundle
+   */
+  static async publish(
+    bundle: CommentBundle,
+    service: PRCommentService,
+    prNumber: number = bundle.prNumber
+  ): Promise<void> {
+    // Forge services compute their own anchors from the live diff
+    if (bundle.reviewedRanges) {
+      service.setReviewedRanges?.(bundle.reviewedRanges);
+    }
+    await service.postComments(
+      bundle.comments.map(({ comment }) => comment),
+      prNumber
+    );
+    if (bundle.summary) {
+      await service.postReviewSummary(bundle.summary, prNumber);
+    }
+    if (bundle.suggestions) {
+      await service.postSuggestions(bundle.suggestions, prNumber);
+    }
+    for (const message of bundle.messages) {
+      await service.postComment(message, prNumber);
+    }
+    if (bundle.decision) {
+      await service.postReviewDecision(bundle.decision.result, prNumber, bundle.decision.decision);
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private getBundle(prNumber: number): CommentBundle {
+    if (!this.bundle || this.bundle.prNumber !== prNumber) {
+      this.bundle = {
+        version: BUNDLE_VERSION,
+        createdAt: new Date().toISOString(),
+        prNumber,
+        repository: this.repository,
+        range: this.range,
+        comments: [],
+        messages: [],
+      };
+    }
+    return this.bundle;
+  }
+
+  private async withDiffPositions(comments: ReviewComment[]): Promise<BundledComment[]> {
+    const positionsByFile = new Map<string, Map<number, number>>();
+
+    for (const file of new Set(comments.map((c) => c.file))) {
+      positionsByFile.set(file, this.computePositions(await this.getPatch(file)));
+    }
+
+    return comments.map((comment) => {
+      const position = positionsByFile.get(comment.file)?.get(comment.line);
+      return { comment, inDiff: position !== undefined, ...(position && { position }) };
+    });
+  }
+
+  private async getPatch(file: string): Promise<string> {
+    if (!this.range) {
+      return '';
+    }
+
+    try {
+      const git = new GitService(this.repoPath);
+      return await git.getDiffForFile(file, this.range.targetBranch, this.range.baseBranch);
+    } catch {
+      // Not a git checkout - comments are still written, just without positions
+      return '';
+    }
+  }
+
+  /**
+   * Map new-file line numbers to their diff position
+   */
+  private computePositions(patch: string): Map<number, number> {
+    const positions = new Map<number, number>();
+    let position = 0;
+    let currentNewLine = 0;
+    let inHunks = false;
+
+    for (const line of patch.split('\n')) {
+      if (line.startsWith('@@')) {
+        const match = line.match(/@@\s*-\d+(?:,\d+)?\s*\+(\d+)(?:,(\d+))?/);
+        currentNewLine = match?.[1] ? parseInt(match[1], 10) : currentNewLine;
+        // The first hunk header is position 0; later ones count as diff lines
+        if (inHunks) position++;
+        inHunks = true;
+        continue;
+      }
+
+      if (!inHunks || line.startsWith('\\')) {
+        continue;
+      }
+
+      position++;
+      if (line.startsWith('+') || line.startsWith(' ')) {
+        positions.set(currentNewLine, position);
+        currentNewLine++;
+      }
+    }
+
+    return positions;
+  }
+
+  private write(bundle: CommentBundle): void {
+    fs.mkdirSync(this.bundlePath, { recursive: true });
+    fs.writeFileSync(path.join(this.bundlePath, BUNDLE_JSON), JSON.stringify(bundle, null, 2));
+    fs.writeFileSync(path.join(this.bundlePath, BUNDLE_MARKDOWN), this.formatMarkdown(bundle));
+  }
+
+  private formatMarkdown(bundle: CommentBundle): string {
+    const sections: string[] = [`# Review bundle for PR #${bundle.prNumber}`];
+
+    if (bundle.comments.length > 0) {
+      const inline = bundle.comments.map(({ comment, inDiff, position }) => {
+        const where = inDiff && position ? `diff position ${position}` : 'outside the diff';
+        const heading = `### \`${comment.file}:${comment.line}\` (${where})`;
+        return `${heading}\n\n${CommentFormatter.formatComment(comment)}`;
+      });
+      sections.push(`## Inline comments (${bundle.comments.length})`, ...inline);
+    }
+    if (bundle.summary) {
+      sections.push(CommentFormatter.formatReviewSummary(bundle.summary));
+    }
+    if (bundle.suggestions) {
+      sections.push(CommentFormatter.formatSuggestions(bundle.suggestions) ?? '');
+    }
+    sections.push(...bundle.messages);
+    if (bundle.decision) {
+      sections.push(
+        `## Decision: ${bundle.decision.decision}`,
+        EnhancedCommentsBuilder.buildReviewDecision(bundle.decision.result).body
+      );
+    }
+
+    return `${sections.join('\n\n')}\n`;
+  }
+}
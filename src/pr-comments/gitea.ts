@@ -0,0 +1,245 @@
+/**
+ * Gitea Comment Service - Posts reviews through the Gitea v1 REST API
+ *
+ * Forgejo serves the same API, so self-hosted instances of either work
+ * by pointing `gitea.baseUrl` at them.
+ */
+
+import type { PRCommentService } from '../pr-comments';
+import { Config, PRCommentError, ReviewComment, ReviewResult } from '../types';
+import { CommentFormatter } from './comment-formatter';
+import { EnhancedCommentsBuilder } from './enhanced-comments';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const REVIEW_EVENTS = {
+  APPROVE: 'APPROVED',
+  REQUEST_CHANGES: 'REQUEST_CHANGES',
+  COMMENT: 'COMMENT',
+} as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Pull request metadata used to check out and review a Gitea pull request
+ */
+export interface GiteaPullRequest {
+  number: number;
+  title: string;
+  state: string;
+  headRef: string;
+  headSha: string;
+  baseRef: string;
+  url?: string;
+}
+
+interface GiteaPullRequestResponse {
+  number: number;
+  title: string;
+  state: string;
+  html_url?: string;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+}
+
+interface GiteaReviewComment {
+  path: string;
+  body: string;
+  new_position: number;
+}
+
+// ============================================================================
+// Gitea Comment Service
+// ============================================================================
+
+export class GiteaCommentService implements PRCommentService {
+  private apiUrl: string;
+  private token: string;
+  private owner: string;
+  private repo: string;
+
+  constructor(config: Config) {
+    if (!config.gitea?.token) {
+      throw new PRCommentError('Gitea token is required');
+    }
+    if (!config.repository) {
+      throw new PRCommentError('Repository configuration is required');
+    }
+
+    this.apiUrl = `${config.gitea.baseUrl.replace(/\/+$/, '')}/api/v1`;
+    this.token = config.gitea.token;
+    this.owner = config.repository.owner;
+    this.repo = config.repository.repo;
+  }
+
+  /**
+   * Post inline comments as a single review so reviewers get one notification
+   */
+  async postComments(comments: ReviewComment[], prNumber: number): Promise<void> {
+    if (comments.length === 0) {
+      console.log('No comments to post');
+      return;
+    }
+
+    // Gitea rejects review comments on lines outside the diff
+    const diffLines = CommentFormatter.parseUnifiedDiff(await this.getDiff(prNumber));
+    const { inline, outsideDiff } = CommentFormatter.partitionByDiff(comments, diffLines);
+
+    if (inline.length > 0) {
+      try {
+        await this.createReview(prNumber, 'COMMENT', '', this.toReviewComments(inline));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to post review comments: ${errorMessage}`);
+      }
+    }
+
+    if (outsideDiff.length > 0) {
+      await this.postCommentSafely(
+        prNumber,
+        CommentFormatter.formatOutsideDiffComments(inline.length, outsideDiff),
+        'outside-diff comments'
+      );
+    }
+  }
+
+  async postReviewSummary(summary: ReviewResult, prNumber: number): Promise<void> {
+    await this.postCommentSafely(
+      prNumber,
+      CommentFormatter.formatReviewSummary(summary),
+      'review summary'
+    );
+  }
+
+  async postSuggestions(result: ReviewResult, prNumber: number): Promise<void> {
+    const body = CommentFormatter.formatSuggestions(result);
+    if (body) {
+      await this.postCommentSafely(prNumber, body, 'suggestions');
+    }
+  }
+
+  async postComment(body: string, prNumber: number): Promise<void> {
+    try {
+      await this.createIssueComment(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new PRCommentError(`Failed to post comment: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Submit the decision as a review carrying the approval state.
+   * Inline comments are already posted by postComments.
+   */
+  async postReviewDecision(
+    result: ReviewResult,
+    prNumber: number,
+    decision: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT'
+  ): Promise<void> {
+    const decisionResult = EnhancedCommentsBuilder.buildReviewDecision(result);
+
+    try {
+      await this.createReview(prNumber, decision, decisionResult.body);
+      console.log(`Posted review decision: ${decision}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to post review decision: ${errorMessage}`);
+      // Fallback to regular comment
+      await this.postReviewSummary(result, prNumber);
+    }
+  }
+
+  /**
+   * Fetch head/base metadata for a pull request
+   */
+  async getPullRequest(prNumber: number): Promise<GiteaPullRequest> {
+    const response = await this.request('GET', this.pullRequestPath(prNumber));
+    const pr = (await response.json()) as GiteaPullRequestResponse;
+
+    return {
+      number: pr.number,
+      title: pr.title,
+      state: pr.state,
+      headRef: pr.head.ref,
+      headSha: pr.head.sha,
+      baseRef: pr.base.ref,
+      url: pr.html_url,
+    };
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private repoPath(): string {
+    return `/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}`;
+  }
+
+  private pullRequestPath(prNumber: number): string {
+    return `${this.repoPath()}/pulls/${prNumber}`;
+  }
+
+  private async getDiff(prNumber: number): Promise<string> {
+    const response = await this.request('GET', `${this.pullRequestPath(prNumber)}.diff`);
+    return response.text();
+  }
+
+  private toReviewComments(comments: ReviewComment[]): GiteaReviewComment[] {
+    return comments.map((comment) => ({
+      path: comment.file,
+      body: CommentFormatter.formatComment(comment),
+      new_position: comment.line,
+    }));
+  }
+
+  private async createReview(
+    prNumber: number,
+    decision: keyof typeof REVIEW_EVENTS,
+    body: string,
+    comments: GiteaReviewComment[] = []
+  ): Promise<void> {
+    await this.request('POST', `${this.pullRequestPath(prNumber)}/reviews`, {
+      event: REVIEW_EVENTS[decision],
+      body,
+      comments,
+    });
+  }
+
+  private async createIssueComment(prNumber: number, body: string): Promise<void> {
+    // Pull requests share the issue index space, so PR conversation comments live under issues
+    await this.request('POST', `${this.repoPath()}/issues/${prNumber}/comments`, { body });
+  }
+
+  private async postCommentSafely(prNumber: number, body: string, what: string): Promise<void> {
+    try {
+      await this.createIssueComment(prNumber, body);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to post ${what}: ${errorMessage}`);
+    }
+  }
+
+  private async request(method: string, endpoint: string, body?: object): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}${endpoint}`, {
+      method,
+      headers: {
+        Authorization: `token ${this.token}`,
+        Accept: 'application/json',
+        ...(body && { 'Content-Type': 'application/json' }),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw new PRCommentError(
+        `Gitea API ${method} ${endpoint} failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * GitHub App Authentication
+ *
+ * Signs a short-lived JWT with the App's private key and exchanges it for
+ * installation access tokens, so comments are posted by the App's bot account
+ * and count against the installation's rate limit instead of a user's.
+ */
+
+import { createSign } from 'crypto';
+import { GitHubAppConfig, PRCommentError } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_API_URL = 'https://api.github.com';
+
+/** GitHub rejects App JWTs valid for more than 10 minutes */
+const JWT_LIFETIME_SECONDS = 9 * 60;
+
+/** Backdate `iat` to tolerate clock drift between us and GitHub */
+const JWT_CLOCK_SKEW_SECONDS = 60;
+
+/** Refresh installation tokens this long before they expire */
+const DEFAULT_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GitHubAppAuthOptions {
+  /** API base URL (GitHub Enterprise or a test stub) */
+  apiUrl?: string;
+  /** How long before expiry a cached token is refreshed */
+  refreshMarginMs?: number;
+  /** Clock, overridable for tests */
+  now?: () => number;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+interface InstallationTokenResponse {
+  token: string;
+  expires_at: string;
+}
+
+// ============================================================================
+// Shared Instances
+// ============================================================================
+
+/**
+ * One auth per App, so installation tokens outlive the comment service of a single
+ * webhook event
+ */
+const sharedAuths = new Map<string, GitHubAppAuth>();
+
+/**
+ * Get the auth shared by every service of an App; the installation is passed per request
+ */
+export function getGitHubAppAuth(config: GitHubAppConfig, apiUrl?: string): GitHubAppAuth {
+  const key = `${apiUrl ?? DEFAULT_API_URL}|${config.appId}`;
+  let auth = sharedAuths.get(key);
+  if (!auth) {
+    auth = new GitHubAppAuth({ appId: config.appId, privateKey: config.privateKey }, { apiUrl });
+    sharedAuths.set(key, auth);
+  }
+  return auth;
+}
+
+// ============================================================================
+// GitHub App Auth
+// ============================================================================
+
+export class GitHubAppAuth {
+  private appId: string;
+  private privateKey: string;
+  private installationId?: number;
+  private apiUrl: string;
+  private refreshMarginMs: number;
+  private now: () => number;
+  // Keyed by installation id
+  private cachedTokens = new Map<number, CachedToken>();
+  private pendingTokens = new Map<number, Promise<string>>();
+  // Installation lookups, keyed by `owner/repo`
+  private repoInstallations = new Map<string, Promise<number>>();
+
+  constructor(config: GitHubAppConfig, options: GitHubAppAuthOptions = {}) {
+    this.appId = config.appId;
+    this.privateKey = config.privateKey;
+    this.installationId = config.installationId;
+    this.apiUrl = (options.apiUrl ?? DEFAULT_API_URL).replace(/\/+$/, '');
+    this.refreshMarginMs = options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Create an RS256-signed JWT identifying the App
+   */
+  createJWT(): string {
+    const issuedAt = Math.floor(this.now() / 1000) - JWT_CLOCK_SKEW_SECONDS;
+    const header = { alg: 'RS256', typ: 'JWT' };
+    const payload = {
+      iat: issuedAt,
+      exp: issuedAt + JWT_LIFETIME_SECONDS,
+      iss: this.appId,
+    };
+
+    const unsigned = `${this.encode(header)}.${this.encode(payload)}`;
+    try {
+      const signature = createSign('RSA-SHA256').update(unsigned).sign(this.privateKey);
+      return `${unsigned}.${signature.toString('base64url')}`;
+    } catch (error) {
+      throw new PRCommentError(
+        'Failed to sign GitHub App JWT (check the private key)',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get an installation access token, reusing the cached one until it nears expiry
+   * @param owner - Repository owner (used to look up the installation when not known)
+   * @param repo - Repository name
+   * @param installationId - Installation to authenticate as, e.g. from a webhook event;
+   *   defaults to the configured one
+   */
+  async getInstallationToken(
+    owner: string,
+    repo: string,
+    installationId = this.installationId
+  ): Promise<string> {
+    const id = installationId ?? (await this.findInstallationId(owner, repo));
+
+    const cached = this.cachedTokens.get(id);
+    if (cached && cached.expiresAt - this.now() > this.refreshMarginMs) {
+      return cached.token;
+    }
+
+    // Concurrent requests share a single refresh
+    let pending = this.pendingTokens.get(id);
+    if (!pending) {
+      pending = this.refreshToken(id).finally(() => this.pendingTokens.delete(id));
+      this.pendingTokens.set(id, pending);
+    }
+    return pending;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async refreshToken(installationId: number): Promise<string> {
+    const data = await this.request<InstallationTokenResponse>(
+      'POST',
+      `/app/installations/${installationId}/access_tokens`
+    );
+
+    this.cachedTokens.set(installationId, {
+      token: data.token,
+      expiresAt: new Date(data.expires_at).getTime(),
+    });
+    return data.token;
+  }
+
+  private findInstallationId(owner: string, repo: string): Promise<number> {
+    const key = `${owner}/${repo}`;
+    let lookup = this.repoInstallations.get(key);
+    if (!lookup) {
+      lookup = this.request<{ id: number }>('GET', `/repos/${owner}/${repo}/installation`).then(
+        (data) => data.id
+      );
+      // A failed lookup is retried by the next request
+      lookup.catch(() => this.repoInstallations.delete(key));
+      this.repoInstallations.set(key, lookup);
+    }
+    return lookup;
+  }
+
+  private async request<T>(method: string, endpoint: string): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${endpoint}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.createJWT()}`,
+        Accept: 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    });
+
+    if (!response.ok) {
+      throw new PRCommentError(
+        `GitHub App authentication failed (${method} ${endpoint}): ${response.status} ${response.statusText}`
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+}
@@ -1,39 +1,46 @@
 import chalk from 'chalk';
-import { AIProviderFactory, AIProviderInterface } from './ai-provider';
-import {
-  CodegraphAnalyzer,
-  ImpactAnalysis,
-  createCodegraphAnalyzer,
-} from './analyzers/codegraph-analyzer';
+import { AIProviderFactory, AIProviderInterface, ScoutResult } from './ai-provider';
+import { ModelRouter } from './ai-provider/model-router';
+import { ImpactAnalysis, createCodegraphAnalyzer } from './analyzers/codegraph-analyzer';
 import { FalsePositiveFilter, createFalsePositiveFilter } from './analyzers/false-positive-filter';
 import { LinterIntegration, createLinterIntegration } from './analyzers/linter-integration';
 import { SASTIntegration, createSASTIntegration } from './analyzers/sast-integration';
 import { ToolChecker } from './analyzers/tool-checker';
 import { ChunkService } from './chunker';
-import { GitService } from './git';
+import { GitService, STAGED_REF, WORKING_TREE_REF } from './git';
 import { PRCommentService, PRCommentServiceFactory } from './pr-comments';
 import {
   ChangedFile,
   CodeChunk,
+  CommitInfo,
   Config,
   LineRange,
+  ReviewCancelledError,
   ReviewComment,
   ReviewResult,
   ReviewResultJSON,
   ReviewStats,
+  ReviewUsage,
   Severity,
+  SkippedFile,
 } from './types';
 import { ChunkBatcher } from './utils/chunk-batcher';
 import { CommentDeduplicator } from './utils/comment-deduplicator';
 import { CommentPrioritizer, PrioritizedComment } from './utils/comment-prioritizer';
+import { FileClassifier, formatSkippedFiles } from './utils/file-classifier';
 import { NamingAnalyzer } from './utils/naming-analyzer';
 import { ParallelReviewer } from './utils/parallel-reviewer';
+import { PackageConfigResolver, PackageFiles } from './utils/package-configs';
+import { parsePatch } from './utils/patch-parser';
 import { PRTitleAnalyzer } from './utils/pr-title-analyzer';
 import { ReviewCache } from './utils/review-cache';
 import { ReviewQualityScorer } from './utils/review-quality';
 import { ReviewStream, ReviewStreamCallbacks } from './utils/review-stream';
+import { RepositoryTools, ReviewTools } from './utils/review-tools';
+import { createIndexerClient } from './utils/indexer-client';
 import { ReviewTracker } from './utils/review-tracker';
 import { RuleBasedFilter } from './utils/rule-based-filter';
+import { UsageTracker } from './utils/usage-tracker';
 
 // ============================================================================
 // Utility Functions
@@ -56,8 +63,11 @@ export function reviewResultToJSON(
       target,
       baseBranch,
       duration,
-      aiProvider,
-      model,
+      aiProvider: aiProvider ?? result.metadata?.aiProvider,
+      model: model ?? result.metadata?.model,
+      usage: result.metadata?.usage,
+      repairs: result.metadata?.repairs,
+      toolCalls: result.metadata?.toolCalls,
     },
     summary: {
       recommendation: result.recommendation || 'N/A',
@@ -75,6 +85,9 @@ export function reviewResultToJSON(
       category: c.category || c.rule || 'general',
       message: c.body,
       fix: c.fix || null,
+      agreement: c.agreement,
+      commit: c.commit,
+      package: c.package,
     })),
     namingSuggestions: result.namingSuggestions?.map((n) => ({
       file: n.file,
@@ -93,9 +106,42 @@ export function reviewResultToJSON(
           alternatives: result.prTitleSuggestion.alternatives,
         }
       : undefined,
+    routing: result.routing,
+    commits: result.commits,
+    packages: result.packages,
+    skippedFiles: result.skippedFiles,
   };
 }
 
+/**
+ * Most severe of several reviews' recommendations, ignoring values outside the known ranks
+ */
+function worstRecommendation(recommendations: Array<string | undefined>): string | undefined {
+  return recommendations
+    .filter(
+      (recommendation): recommendation is string =>
+        recommendation !== undefined && RECOMMENDATION_RANK.includes(recommendation)
+    )
+    .sort((a, b) => RECOMMENDATION_RANK.indexOf(a) - RECOMMENDATION_RANK.indexOf(b))[0];
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PackageAnalysis extends PackageFiles {
+  chunks: CodeChunk[];
+  linterComments: ReviewComment[];
+  sastComments: ReviewComment[];
+}
+
+interface PackageOutcome {
+  path: string;
+  chunksToReview: CodeChunk[];
+  comments: ReviewComment[]; // Rule-based, linter, SAST and AI findings
+  result?: ReviewResult; // AI review; absent when the package produced no chunks
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -107,6 +153,9 @@ const SEVERITY_COLOR: Record<Severity, typeof chalk.red> = {
   suggestion: chalk.cyan,
 };
 
+/** Most severe first */
+const RECOMMENDATION_RANK = ['BLOCK', 'REQUEST_CHANGES', 'APPROVE_WITH_NITS', 'APPROVE'];
+
 const SEVERITY_EMOJI: Record<Severity, string> = {
   error: '🔴',
   warning: '🟡',
@@ -123,6 +172,7 @@ export class PRReviewer {
   protected git: GitService;
   protected chunker: ChunkService;
   protected aiProvider: AIProviderInterface;
+  private modelRouter?: ModelRouter;
   protected prCommentService: PRCommentService;
   private reviewCache: ReviewCache;
   private chunkBatcher: ChunkBatcher;
@@ -134,9 +184,6 @@ export class PRReviewer {
   private reviewTracker?: ReviewTracker;
   private namingAnalyzer: NamingAnalyzer;
   private prTitleAnalyzer: PRTitleAnalyzer;
-  private linterIntegration?: LinterIntegration;
-  private sastIntegration?: SASTIntegration;
-  private codegraphAnalyzer?: CodegraphAnalyzer;
   private falsePositiveFilter: FalsePositiveFilter;
 
   constructor(config: Config, repoPath?: string) {
@@ -144,8 +191,13 @@ export class PRReviewer {
     const resolvedRepoPath = repoPath ?? process.cwd();
     this.git = new GitService(resolvedRepoPath);
     this.chunker = new ChunkService(resolvedRepoPath);
-    this.aiProvider = AIProviderFactory.create(config);
-    this.prCommentService = PRCommentServiceFactory.create(config);
+    if (config.routing) {
+      this.modelRouter = AIProviderFactory.createRouter(config, resolvedRepoPath);
+      this.aiProvider = this.modelRouter.defaultProvider;
+    } else {
+      this.aiProvider = AIProviderFactory.create(config, resolvedRepoPath);
+    }
+    this.prCommentService = PRCommentServiceFactory.create(config, resolvedRepoPath);
 
     // Initialize review cache (24 hour TTL, max 500 cached reviews)
     const cacheTTL = config.reviewCache?.ttl || 24 * 60 * 60 * 1000;
@@ -196,28 +248,7 @@ export class PRReviewer {
       enabled: true,
     });
 
-    // Initialize linter integration (if enabled)
-    if (config.linter?.enabled && config.linter.tools && config.linter.tools.length > 0) {
-      this.linterIntegration = createLinterIntegration({
-        ...config.linter,
-        workingDir: resolvedRepoPath,
-      });
-    }
-
-    // Initialize SAST integration (if enabled)
-    if (config.sast?.enabled && config.sast.tools && config.sast.tools.length > 0) {
-      this.sastIntegration = createSASTIntegration({
-        ...config.sast,
-        workingDir: resolvedRepoPath,
-      });
-    }
-
-    // Initialize codegraph analyzer (always enabled for impact analysis)
-    this.codegraphAnalyzer = createCodegraphAnalyzer({
-      rootDir: resolvedRepoPath,
-      maxDepth: 5,
-      analyzeInternal: true,
-    });
+    // Linters, SAST and codegraph are created per review, in the review's checkout
 
     // Initialize false positive filter
     this.falsePositiveFilter = createFalsePositiveFilter({
@@ -229,22 +260,22 @@ export class PRReviewer {
 
   /**
    * Review a PR by branch name
+   * @param targetBranch - Branch to review, or STAGED_REF / WORKING_TREE_REF to review
+   *   uncommitted changes without touching the checkout
+   * @param signal - Aborts the review (throws ReviewCancelledError) before the next expensive step
    */
   async reviewPR(
     targetBranch: string,
     postComments = true,
     baseBranchOverride?: string,
-    streamCallbacks?: ReviewStreamCallbacks
+    streamCallbacks?: ReviewStreamCallbacks,
+    signal?: AbortSignal
   ): Promise<ReviewResult> {
     const baseBranch = this.resolveBaseBranch(baseBranchOverride);
 
     this.logReviewStart(targetBranch, baseBranch);
 
-    // Step 1: Checkout to target branch
-    console.log(chalk.blue(`\n🔀 Checking out to branch: ${targetBranch}`));
-    await this.git.checkoutBranch(targetBranch);
-
-    // Step 2: Get changed files
+    // Step 1: Get changed files (contents are read from git objects, the checkout is never switched)
     console.log(chalk.blue(`\n📁 Detecting changes unique to ${targetBranch}...`));
     const changedFiles = await this.git.getChangedFiles(targetBranch, baseBranch);
     console.log(chalk.green(`Found ${changedFiles.length} changed file(s)`));
@@ -252,45 +283,124 @@ export class PRReviewer {
     if (changedFiles.length === 0) {
       return this.createEmptyResult('No files changed in this PR.');
     }
+    this.throwIfCancelled(signal);
+
+    // Step 2: Tools that need real files run in a throwaway checkout of the target: a
+    // worktree for commits, the index written out for staged reviews, and the repository
+    // itself for working tree reviews
+    const checkoutDir =
+      targetBranch === WORKING_TREE_REF
+        ? this.git.repoPath
+        : targetBranch === STAGED_REF
+          ? await this.git.checkoutIndex()
+          : await this.git.addWorktree(targetBranch);
+
+    try {
+      return await this.reviewChangedFiles(
+        changedFiles,
+        targetBranch,
+        baseBranch,
+        checkoutDir,
+        postComments,
+        streamCallbacks,
+        signal
+      );
+    } finally {
+      if (targetBranch === STAGED_REF) {
+        await this.git.removeIndexCheckout(checkoutDir);
+      } else if (checkoutDir !== this.git.repoPath) {
+        await this.git.removeWorktree(checkoutDir);
+      }
+    }
+  }
+
+  /**
+   * Analyze, review and report the changed files of a target whose files are checked out
+   * in checkoutDir
+   */
+  private async reviewChangedFiles(
+    allChangedFiles: ChangedFile[],
+    targetBranch: string,
+    baseBranch: string | undefined,
+    checkoutDir: string,
+    postComments: boolean,
+    streamCallbacks?: ReviewStreamCallbacks,
+    signal?: AbortSignal
+  ): Promise<ReviewResult> {
+    const { files: changedFiles, skipped: skippedFiles } = await this.skipUnreviewableFiles(
+      allChangedFiles,
+      targetBranch
+    );
+    if (changedFiles.length === 0) {
+      return {
+        ...this.createEmptyResult(`No reviewable files. ${formatSkippedFiles(skippedFiles)}`),
+        skippedFiles,
+      };
+    }
+
+    // Files of a monorepo package are analyzed and reviewed with that package's config
+    const packages = await new PackageConfigResolver(this.git, this.config).groupByPackage(
+      changedFiles,
+      targetBranch
+    );
+    const isMonorepo = packages.some((pkg) => pkg.path !== '.');
+    if (isMonorepo) {
+      console.log(
+        chalk.blue(
+          `\n📦 Reviewing ${packages.length} package(s): ${packages.map((pkg) => pkg.path).join(', ')}`
+        )
+      );
+    }
 
-    // Step 2.5 & 3: Run analysis steps in parallel for better performance
+    // Always enabled for impact analysis, across packages
+    const codegraph = createCodegraphAnalyzer({
+      rootDir: checkoutDir,
+      maxDepth: 5,
+      analyzeInternal: true,
+    });
+
+    // Deep dives may look up code outside the diff when the agent loop is enabled
+    const agent = this.config.agent;
+    const tools = agent
+      ? new RepositoryTools({
+          git: this.git,
+          ref: targetBranch,
+          rootDir: checkoutDir,
+          codegraph,
+          indexer: agent.indexerUrl ? createIndexerClient(agent.indexerUrl) : undefined,
+          maxToolCalls: agent.maxToolCalls,
+          maxOutputChars: agent.maxOutputChars,
+        })
+      : undefined;
+
+    // Step 3: Run analysis steps in parallel for better performance
     console.log(chalk.blue(`\n🚀 Running analysis pipeline in parallel...`));
     const analysisStartTime = Date.now();
 
     // 1. Impact Analysis Promise
-    const impactAnalysisPromise = this.codegraphAnalyzer
-      ? (async (): Promise<ImpactAnalysis | null> => {
-          try {
-            const allFiles = changedFiles.map((f) => f.path);
-            await this.codegraphAnalyzer!.buildGraph(allFiles);
-            return this.codegraphAnalyzer!.analyzeImpact(changedFiles);
-          } catch (error) {
-            console.warn(
-              chalk.yellow(
-                `⚠️  Codegraph analysis failed: ${error instanceof Error ? error.message : String(error)}`
-              )
-            );
-            return null;
-          }
-        })()
-      : Promise.resolve<ImpactAnalysis | null>(null);
-
-    // 2. Chunking Promise
-    const chunksPromise = this.chunker.chunkChangedFiles(changedFiles, targetBranch);
-
-    // 3. Linter Promise
-    const linterPromise = this.runLinterParallel(changedFiles, targetBranch);
+    const impactAnalysisPromise = (async (): Promise<ImpactAnalysis | null> => {
+      try {
+        const allFiles = changedFiles.map((f) => f.path);
+        await codegraph.buildGraph(allFiles);
+        return codegraph.analyzeImpact(changedFiles);
+      } catch (error) {
+        console.warn(
+          chalk.yellow(
+            `⚠️  Codegraph analysis failed: ${error instanceof Error ? error.message : String(error)}`
+          )
+        );
+        return null;
+      }
+    })();
 
-    // 4. SAST Promise
-    const sastPromise = this.runSASTParallel(changedFiles, targetBranch);
+    // 2-4. Chunking, linter and SAST per package
+    const analysesPromise = Promise.all(
+      packages.map((pkg) => this.analyzePackage(pkg, targetBranch, checkoutDir))
+    );
 
     // Wait for all non-dependent analysis steps to complete
-    const [impactAnalysis, chunks, linterComments, sastComments] = await Promise.all([
-      impactAnalysisPromise,
-      chunksPromise,
-      linterPromise,
-      sastPromise,
-    ]);
+    const [impactAnalysis, analyses] = await Promise.all([impactAnalysisPromise, analysesPromise]);
+    const chunks = analyses.flatMap((analysis) => analysis.chunks);
 
     const analysisDuration = Date.now() - analysisStartTime;
     console.log(chalk.green(`✅ Analysis pipeline completed in ${analysisDuration}ms`));
@@ -327,6 +437,169 @@ export class PRReviewer {
       return this.createEmptyResult('No code chunks could be generated from changed files.');
     }
 
+    // Step 4: Rule-based pre-filtering and AI review per package, each within its own budget
+    // and all together within the root one
+    const usage = new UsageTracker(this.config.pricing, this.config.budget);
+    const reviews: PackageOutcome[] = [];
+    for (const analysis of analyses) {
+      const packageUsage = usage.createChild(analysis.config.budget);
+      reviews.push(
+        await this.reviewPackage(
+          analysis,
+          targetBranch,
+          baseBranch,
+          tools,
+          packageUsage,
+          streamCallbacks,
+          signal
+        )
+      );
+    }
+    const chunksToReview = reviews.flatMap((review) => review.chunksToReview);
+    const reviewResult = this.combinePackageReviews(reviews);
+
+    const unreviewedChunks = usage.getUnreviewedChunks();
+    if (unreviewedChunks.length > 0) {
+      console.log(
+        chalk.yellow(
+          `💸 Review budget reached: ${unreviewedChunks.length} chunk(s) were not reviewed`
+        )
+      );
+      unreviewedChunks.forEach((chunk) =>
+        console.log(chalk.gray(`   ${chunk.file}:${chunk.startLine} ${chunk.name}`))
+      );
+    }
+
+    // Step 5: Merge rule-based, linter, SAST, and AI comments
+    const allComments: ReviewComment[] = reviews.flatMap(({ path, comments }) =>
+      isMonorepo ? comments.map((comment) => ({ ...comment, package: path })) : comments
+    );
+
+    // Step 5.5: Deduplicate comments
+    const { comments: deduplicatedComments, stats: dedupStats } =
+      this.commentDeduplicator.deduplicate(allComments);
+    if (dedupStats.duplicatesRemoved > 0) {
+      console.log(
+        chalk.gray(
+          `🔗 Deduplicated ${dedupStats.duplicatesRemoved} duplicate comment(s) ` +
+            `(${Math.round(dedupStats.deduplicationRate * 100)}% reduction)`
+        )
+      );
+    }
+
+    // Step 5.5: Prioritize comments (critical issues first)
+    const prioritizedComments = this.commentPrioritizer.prioritizeComments(deduplicatedComments);
+    const qualityMetrics = this.reviewQualityScorer.calculateQualityMetrics(
+      {
+        ...reviewResult,
+        comments: deduplicatedComments,
+      },
+      chunks.length,
+      chunksToReview.length
+    );
+
+    const mergedResult: ReviewResult = {
+      ...reviewResult,
+      comments: prioritizedComments.map((c: PrioritizedComment) => ({
+        file: c.file,
+        line: c.line,
+        body: c.body,
+        severity: c.severity,
+        rule: c.rule,
+        category: c.category,
+        fix: c.fix,
+        tool: c.tool,
+        critical: c.critical,
+        agreement: c.agreement,
+        package: c.package,
+      })),
+      stats: this.calculateStats(deduplicatedComments),
+      qualityMetrics,
+    };
+
+    // Step 6: Filter and Display
+    this.displayAllComments(mergedResult);
+    const filteredResult = this.filterAndDisplayFilteredComments(
+      mergedResult,
+      changedFiles,
+      chunks
+    );
+
+    // Step 7: Analyze naming and PR title
+    console.log(chalk.blue(`\n📝 Analyzing naming conventions and PR title...`));
+    const [namingSuggestions, prTitleSuggestion] = await Promise.all([
+      this.namingAnalyzer.analyzeNaming(chunks, usage),
+      this.prTitleAnalyzer.analyzePRTitle(undefined, changedFiles, chunks, usage),
+    ]);
+
+    const finalResult: ReviewResult = {
+      ...filteredResult,
+      // Skipped files get a single line in the summary instead of a review
+      ...(skippedFiles.length > 0 && {
+        summary: `${filteredResult.summary}\n\n${formatSkippedFiles(skippedFiles)}`,
+        skippedFiles,
+      }),
+      ...(isMonorepo && {
+        packages: packages.map(({ path }) => ({
+          path,
+          stats: this.calculateStats(
+            filteredResult.comments.filter((comment) => comment.package === path)
+          ),
+        })),
+      }),
+      metadata: { ...filteredResult.metadata, usage: usage.getUsage() },
+      namingSuggestions: namingSuggestions.length > 0 ? namingSuggestions : undefined,
+      prTitleSuggestion: prTitleSuggestion || undefined,
+    };
+
+    // Chunks skipped by the budget were not reviewed
+    const unreviewedIds = new Set(unreviewedChunks.map((chunk) => chunk.id));
+    const reviewedChunks = chunksToReview.filter((chunk) => !unreviewedIds.has(chunk.id));
+
+    // Step 8: Post comments (a superseded review must not post stale findings)
+    this.throwIfCancelled(signal);
+    this.prCommentService.setReviewRange?.(targetBranch, baseBranch);
+    this.prCommentService.setReviewedRanges?.(
+      reviewedChunks.map(({ file, startLine, endLine }) => ({ file, startLine, endLine }))
+    );
+    await this.postCommentsIfEnabled(postComments, finalResult);
+    if (postComments && this.config.pr?.number) {
+      await this.postReviewDecision(finalResult, this.config.pr.number);
+    }
+
+    // Step 9: Mark as reviewed (chunks skipped by the budget stay pending)
+    if (this.reviewTracker && reviewedChunks.length > 0) {
+      this.reviewTracker.markAsReviewed(
+        reviewedChunks,
+        filteredResult.comments.map((c) => ({ file: c.file, line: c.line, body: c.body })),
+        targetBranch,
+        baseBranch
+      );
+    }
+
+    return finalResult;
+  }
+
+  /**
+   * Rule-based pre-filtering and AI review of one package's chunks, with its rules and budget
+   */
+  private async reviewPackage(
+    analysis: PackageAnalysis,
+    targetBranch: string,
+    baseBranch: string | undefined,
+    tools: ReviewTools | undefined,
+    usage: UsageTracker,
+    streamCallbacks?: ReviewStreamCallbacks,
+    signal?: AbortSignal
+  ): Promise<PackageOutcome> {
+    const { path, config, chunks, linterComments, sastComments } = analysis;
+    if (chunks.length === 0) {
+      return { path, chunksToReview: [], comments: [...linterComments, ...sastComments] };
+    }
+    if (path !== '.') {
+      console.log(chalk.blue(`\n📦 Package ${path}`));
+    }
+
     // Step 3.5: Run rule-based pre-filtering (needs chunks)
     console.log(chalk.blue(`\n🔍 Running rule-based pre-filtering...`));
     const ruleBasedIssues = this.ruleBasedFilter.analyzeChunks(chunks);
@@ -334,7 +607,11 @@ export class PRReviewer {
     console.log(chalk.green(`Found ${ruleBasedComments.length} issue(s) via rule-based analysis`));
 
     // Step 4: Review code with AI (with caching and batching)
-    console.log(chalk.blue(`\n🤖 Reviewing code with ${this.config.aiProvider}...`));
+    this.throwIfCancelled(signal);
+    const providerChain = this.config.aiProviders?.length
+      ? this.config.aiProviders.join(' → ')
+      : this.config.aiProvider;
+    console.log(chalk.blue(`\n🤖 Reviewing code with ${providerChain}...`));
 
     // Step 4.1: Filter chunks for incremental review (if enabled)
     let chunksToReview = chunks;
@@ -354,14 +631,21 @@ export class PRReviewer {
     }
 
     console.log(
-      chalk.gray(
-        `Using ${chunksToReview.length} chunk(s) and ${this.config.globalRules.length} rule(s)`
-      )
+      chalk.gray(`Using ${chunksToReview.length} chunk(s) and ${config.globalRules.length} rule(s)`)
     );
 
-    // Step 4.2: Multi-Pass Review - Scout Pass
+    // Step 4.2: Multi-Pass Review - Scout Pass (not once earlier packages have spent the
+    // review's budget; the chunks are then left unreviewed below)
     console.log(chalk.blue(`\n🔍 Running Scout Pass to identify complexity hotspots...`));
-    const { complexityScore, criticalFiles } = await this.aiProvider.scoutReview(chunksToReview);
+    const {
+      complexityScore,
+      criticalFiles,
+      usage: scoutUsage,
+      model: scoutModel,
+    }: ScoutResult = usage.isExhausted()
+      ? { complexityScore: 0, criticalFiles: [] }
+      : await this.aiProvider.scoutReview(chunksToReview);
+    usage.record('scout', scoutUsage, scoutModel);
     console.log(
       chalk.green(
         `Scout finding: Complexity Score ${complexityScore}/10, ` +
@@ -374,6 +658,10 @@ export class PRReviewer {
       console.log(chalk.yellow('⚠️  High complexity detected. Escalating analysis depth.'));
     }
 
+    // Route each batch to a model by the scout findings when routing rules are configured
+    const routed = this.modelRouter?.forReview({ complexityScore, criticalFiles });
+    const reviewProvider = routed ?? this.aiProvider;
+
     // Check cache first
     const cacheKey = this.reviewCache.generateCacheKey(chunksToReview);
     let reviewResult: ReviewResult | undefined = this.reviewCache.get(cacheKey) || undefined;
@@ -382,7 +670,17 @@ export class PRReviewer {
       console.log(chalk.green('✅ Using cached review results'));
     } else {
       // Batch chunks for efficient processing
-      const batches = this.chunkBatcher.batchChunks(chunksToReview);
+      let batches = this.chunkBatcher.batchChunks(chunksToReview);
+      // The scout pass has already spent part of the budget
+      const remainingTokens = usage.remainingTokens();
+      if (usage.isExhausted()) {
+        usage.markUnreviewed(chunksToReview);
+        batches = [];
+      } else if (remainingTokens !== undefined) {
+        const limited = this.chunkBatcher.limitToTokenBudget(batches, remainingTokens);
+        batches = limited.batches;
+        usage.markUnreviewed(limited.unreviewed);
+      }
       const batchStats = this.chunkBatcher.getBatchStats(batches);
 
       console.log(
@@ -412,14 +710,28 @@ export class PRReviewer {
         console.log(chalk.blue(`⚡ Processing ${batches.length} batches in parallel...`));
         reviewResult = await this.parallelReviewer.reviewBatches(
           batches,
-          this.aiProvider,
-          this.config.globalRules,
+          reviewProvider,
+          config.globalRules,
           stream,
-          criticalFiles
+          criticalFiles,
+          usage,
+          tools
+        );
+      } else if (batches[0]) {
+        // Single batch (the budget may have trimmed the others); critical files get a
+        // deep dive, as in the parallel path
+        const [batch] = batches;
+        const isDeepDive = batch.some((chunk) => criticalFiles.includes(chunk.file));
+        const options = stream ? { onComment: (c: ReviewComment) => stream.emitComment(c) } : {};
+        reviewResult = isDeepDive
+          ? await reviewProvider.deepDiveReview(batch, config.globalRules, { ...options, tools })
+          : await reviewProvider.reviewCode(batch, config.globalRules, options);
+        usage.record(
+          isDeepDive ? 'deepDive' : 'review',
+          reviewResult.metadata?.usage,
+          reviewResult.metadata?.model,
+          0
         );
-      } else if (chunksToReview.length > 0) {
-        // Single batch - use regular review
-        reviewResult = await this.aiProvider.reviewCode(chunksToReview, this.config.globalRules);
         if (stream) {
           reviewResult.comments.forEach((comment) => stream.emitComment(comment));
           stream.batchComplete(0, reviewResult.comments, batches.length);
@@ -429,8 +741,21 @@ export class PRReviewer {
         reviewResult = this.createEmptyResult('No chunks to review.');
       }
 
-      // Cache the result
-      if (reviewResult) {
+      if (routed) {
+        reviewResult.routing = routed.getDecisions();
+        const perRoute = new Map<string, number>();
+        reviewResult.routing.forEach(({ route }) =>
+          perRoute.set(route, (perRoute.get(route) ?? 0) + 1)
+        );
+        console.log(
+          chalk.gray(
+            `🧭 Routed chunks: ${Array.from(perRoute, ([route, count]) => `${route} ${count}`).join(', ')}`
+          )
+        );
+      }
+
+      // Cache the result (a review cut short by the budget is incomplete)
+      if (reviewResult && usage.getUnreviewedChunks().length === 0) {
         this.reviewCache.set(cacheKey, reviewResult);
         console.log(chalk.gray('💾 Cached review results for future use'));
       }
@@ -440,91 +765,98 @@ export class PRReviewer {
       throw new Error('Review result is null');
     }
 
-    // Step 5: Merge rule-based, linter, SAST, and AI comments
-    const allComments: ReviewComment[] = [
-      ...ruleBasedComments,
-      ...linterComments,
-      ...sastComments,
-      ...reviewResult.comments,
-    ];
-
-    // Step 5.5: Deduplicate comments
-    const { comments: deduplicatedComments, stats: dedupStats } =
-      this.commentDeduplicator.deduplicate(allComments);
-    if (dedupStats.duplicatesRemoved > 0) {
-      console.log(
-        chalk.gray(
-          `🔗 Deduplicated ${dedupStats.duplicatesRemoved} duplicate comment(s) ` +
-            `(${Math.round(dedupStats.deduplicationRate * 100)}% reduction)`
-        )
-      );
-    }
-
-    // Step 5.5: Prioritize comments (critical issues first)
-    const prioritizedComments = this.commentPrioritizer.prioritizeComments(deduplicatedComments);
-    const qualityMetrics = this.reviewQualityScorer.calculateQualityMetrics(
-      {
-        ...reviewResult,
-        comments: deduplicatedComments,
-      },
-      chunks.length,
-      chunksToReview.length
-    );
-
-    const mergedResult: ReviewResult = {
-      ...reviewResult,
-      comments: prioritizedComments.map((c: PrioritizedComment) => ({
-        file: c.file,
-        line: c.line,
-        body: c.body,
-        severity: c.severity,
-        rule: c.rule,
-        category: c.category,
-        fix: c.fix,
-        tool: c.tool,
-      })),
-      stats: this.calculateStats(deduplicatedComments),
-      qualityMetrics,
+    return {
+      path,
+      chunksToReview,
+      comments: [
+        ...ruleBasedComments,
+        ...linterComments,
+        ...sastComments,
+        ...reviewResult.comments,
+      ],
+      result: reviewResult,
     };
+  }
 
-    // Step 6: Filter and Display
-    this.displayAllComments(mergedResult);
-    const filteredResult = this.filterAndDisplayFilteredComments(
-      mergedResult,
-      changedFiles,
-      chunks
-    );
+  /**
+   * Review a unified diff (e.g. `git format-patch` or Gerrit output) applied to HEAD,
+   * without a branch. Nothing is posted.
+   */
+  async reviewPatch(
+    patch: string,
+    streamCallbacks?: ReviewStreamCallbacks,
+    signal?: AbortSignal
+  ): Promise<ReviewResult> {
+    console.log(chalk.blue(`📋 Starting patch review...`));
+    const changedFiles = parsePatch(patch);
+    console.log(chalk.green(`Found ${changedFiles.length} changed file(s)`));
 
-    // Step 7: Analyze naming and PR title
-    console.log(chalk.blue(`\n📝 Analyzing naming conventions and PR title...`));
-    const [namingSuggestions, prTitleSuggestion] = await Promise.all([
-      this.namingAnalyzer.analyzeNaming(chunks),
-      this.prTitleAnalyzer.analyzePRTitle(undefined, changedFiles, chunks),
-    ]);
+    if (changedFiles.length === 0) {
+      return this.createEmptyResult('No files changed in this patch.');
+    }
+    this.throwIfCancelled(signal);
 
-    const finalResult: ReviewResult = {
-      ...filteredResult,
-      namingSuggestions: namingSuggestions.length > 0 ? namingSuggestions : undefined,
-      prTitleSuggestion: prTitleSuggestion || undefined,
-    };
+    // The post-image is built in a throwaway worktree, so the user's checkout is untouched
+    const checkoutDir = await this.git.addWorktree('HEAD');
+    try {
+      const tree = await this.git.applyPatch(checkoutDir, patch);
+      // Later patches of a series shift the lines earlier ones added, so changed lines come
+      // from the applied result rather than from the patch
+      const appliedFiles = await Promise.all(
+        changedFiles.map(async (file) => ({
+          ...file,
+          changedLines: await this.git.getChangedLines(file.path, 'HEAD', tree, file.previousPath),
+        }))
+      );
+      return await this.reviewChangedFiles(
+        appliedFiles,
+        tree,
+        'HEAD',
+        checkoutDir,
+        false,
+        streamCallbacks,
+        signal
+      );
+    } finally {
+      await this.git.removeWorktree(checkoutDir);
+    }
+  }
 
-    // Step 8: Post comments
-    await this.postCommentsIfEnabled(postComments, finalResult);
-    if (postComments && this.config.pr?.number) {
-      await this.postReviewDecision(finalResult, this.config.pr.number);
+  /**
+   * Review each commit unique to a branch on its own, against its parent. Findings are
+   * attributed to the commit whose review reported them; nothing is posted.
+   */
+  async reviewCommits(
+    targetBranch: string,
+    baseBranchOverride?: string,
+    streamCallbacks?: ReviewStreamCallbacks,
+    signal?: AbortSignal
+  ): Promise<ReviewResult> {
+    const baseBranch = this.resolveBaseBranch(baseBranchOverride);
+    const commits = await this.git.listUniqueCommits(targetBranch, baseBranch);
+    console.log(chalk.blue(`\n🧾 Reviewing ${commits.length} commit(s) of ${targetBranch}`));
+
+    if (commits.length === 0) {
+      return this.createEmptyResult('No commits to review.');
     }
 
-    // Step 9: Mark as reviewed
-    if (this.reviewTracker && chunksToReview.length > 0) {
-      this.reviewTracker.markAsReviewed(
-        chunksToReview,
-        filteredResult.comments.map((c) => ({ file: c.file, line: c.line, body: c.body })),
-        targetBranch,
-        baseBranch
+    const reviews: Array<{ commit: CommitInfo; result: ReviewResult }> = [];
+    for (const [index, commit] of commits.entries()) {
+      this.throwIfCancelled(signal);
+      console.log(
+        chalk.blue(`\n🧾 Commit ${index + 1}/${commits.length}: ${commit.sha} ${commit.subject}`)
       );
+      const result = await this.reviewPR(
+        commit.sha,
+        false,
+        `${commit.sha}^`,
+        streamCallbacks,
+        signal
+      );
+      reviews.push({ commit, result });
     }
 
-    return finalResult;
+    return this.combineCommitReviews(reviews);
   }
 
   /**
@@ -547,6 +879,91 @@ export class PRReviewer {
     return reviewResult;
   }
 
+  // ============================================================================
+  // Private Methods - Checkout
+  // ============================================================================
+
+  /**
+   * Chunk, lint and scan one package's files with its config
+   */
+  private async analyzePackage(
+    pkg: PackageFiles,
+    targetBranch: string,
+    checkoutDir: string
+  ): Promise<PackageAnalysis> {
+    const { linter, sast } = this.createCheckoutAnalyzers(checkoutDir, pkg.config);
+    const [chunks, linterComments, sastComments] = await Promise.all([
+      this.chunker.chunkChangedFiles(pkg.files, targetBranch, checkoutDir),
+      this.runLinterParallel(linter, pkg.config, pkg.files, targetBranch),
+      this.runSASTParallel(sast, pkg.config, pkg.files, targetBranch),
+    ]);
+    return { ...pkg, chunks, linterComments, sastComments };
+  }
+
+  /**
+   * Analyzers that read files from disk, rooted at the review's checkout so concurrent
+   * reviews of one clone don't see each other's files
+   */
+  private createCheckoutAnalyzers(
+    checkoutDir: string,
+    config: Config
+  ): {
+    linter?: LinterIntegration;
+    sast?: SASTIntegration;
+  } {
+    const { linter, sast } = config;
+    return {
+      linter:
+        linter?.enabled && linter.tools?.length
+          ? createLinterIntegration({ ...linter, workingDir: checkoutDir })
+          : undefined,
+      sast:
+        sast?.enabled && sast.tools?.length
+          ? createSASTIntegration({ ...sast, workingDir: checkoutDir })
+          : undefined,
+    };
+  }
+
+  /**
+   * Leave lockfiles, vendored, generated and binary files out of the review, judged by
+   * the target's `.gitattributes`, their path and their header
+   */
+  private async skipUnreviewableFiles(
+    changedFiles: ChangedFile[],
+    ref: string
+  ): Promise<{ files: ChangedFile[]; skipped: SkippedFile[] }> {
+    const gitattributes = await this.git.getFileContent('.gitattributes', ref).catch(() => '');
+    const classifier = new FileClassifier(gitattributes);
+
+    const kinds = await Promise.all(
+      changedFiles.map(async (file) => {
+        const content =
+          file.status === 'deleted'
+            ? undefined
+            : await this.git.getFileContent(file.path, ref).catch(() => undefined);
+        return classifier.classify(file.path, content);
+      })
+    );
+
+    const files: ChangedFile[] = [];
+    const skipped: SkippedFile[] = [];
+    changedFiles.forEach((file, index) => {
+      const kind = kinds[index];
+      if (kind) {
+        skipped.push({ path: file.path, kind });
+      } else {
+        files.push(file);
+      }
+    });
+
+    if (skipped.length > 0) {
+      console.log(
+        chalk.gray(`⏭️  Skipping ${skipped.length} generated, vendored or binary file(s)`)
+      );
+    }
+    return { files, skipped };
+  }
+
   // ============================================================================
   // Private Methods - Branch Resolution
   // ============================================================================
@@ -795,6 +1212,84 @@ export class PRReviewer {
     };
   }
 
+  /**
+   * Combine the AI reviews of a monorepo's packages; a single package's review is kept as is
+   */
+  private combinePackageReviews(reviews: PackageOutcome[]): ReviewResult {
+    const reviewed = reviews.filter((review): review is PackageOutcome & { result: ReviewResult } =>
+      Boolean(review.result)
+    );
+    if (reviewed.length === 1 && reviewed[0]) {
+      return reviewed[0].result;
+    }
+
+    const comments = reviewed.flatMap(({ result }) => result.comments);
+    const routing = reviewed.flatMap(({ result }) => result.routing ?? []);
+    // Packages can be answered by different providers, as batches can
+    const metadata = reviewed.map(({ result }) => result.metadata);
+    const providers = new Set(metadata.flatMap((entry) => entry?.aiProvider ?? []));
+    const models = new Set(metadata.flatMap((entry) => entry?.model ?? []));
+    const repairs = metadata.reduce((sum, entry) => sum + (entry?.repairs ?? 0), 0);
+    const toolCalls = metadata.reduce((sum, entry) => sum + (entry?.toolCalls ?? 0), 0);
+    return {
+      comments,
+      summary: reviewed
+        .map(({ path, result }) => `**${path}**\n\n${result.summary}`)
+        .join('\n\n---\n\n'),
+      stats: this.calculateStats(comments),
+      recommendation: worstRecommendation(reviewed.map(({ result }) => result.recommendation)),
+      topIssues: Array.from(new Set(reviewed.flatMap(({ result }) => result.topIssues ?? []))),
+      metadata:
+        providers.size > 0
+          ? {
+              aiProvider: Array.from(providers).join(', '),
+              model: Array.from(models).join(', '),
+              repairs: repairs || undefined,
+              toolCalls: toolCalls || undefined,
+            }
+          : undefined,
+      routing: routing.length > 0 ? routing : undefined,
+    };
+  }
+
+  private combineCommitReviews(
+    reviews: Array<{ commit: CommitInfo; result: ReviewResult }>
+  ): ReviewResult {
+    const comments = reviews.flatMap(({ commit, result }) =>
+      result.comments.map((comment) => ({ ...comment, commit: commit.sha }))
+    );
+    const usage = reviews
+      .map(({ result }) => result.metadata?.usage)
+      .filter((entry): entry is ReviewUsage => Boolean(entry));
+
+    return {
+      comments,
+      summary: reviews
+        .map(({ commit, result }) => `**${commit.sha}** ${commit.subject}\n\n${result.summary}`)
+        .join('\n\n---\n\n'),
+      stats: this.calculateStats(comments),
+      recommendation: worstRecommendation(reviews.map(({ result }) => result.recommendation)),
+      topIssues: Array.from(new Set(reviews.flatMap(({ result }) => result.topIssues ?? []))),
+      metadata:
+        usage.length > 0
+          ? {
+              usage: {
+                promptTokens: usage.reduce((sum, entry) => sum + entry.promptTokens, 0),
+                completionTokens: usage.reduce((sum, entry) => sum + entry.completionTokens, 0),
+                cost: usage.some((entry) => entry.cost !== undefined)
+                  ? usage.reduce((sum, entry) => sum + (entry.cost ?? 0), 0)
+                  : undefined,
+              },
+            }
+          : undefined,
+      commits: reviews.map(({ commit, result }) => ({
+        ...commit,
+        recommendation: result.recommendation,
+        stats: result.stats,
+      })),
+    };
+  }
+
   private createEmptyResult(message: string): ReviewResult {
     console.log(chalk.yellow(message));
     return {
@@ -822,6 +1317,12 @@ export class PRReviewer {
     return await this.chunker.chunkFile(filePath, branch);
   }
 
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new ReviewCancelledError();
+    }
+  }
+
   private async postCommentsIfEnabled(postComments: boolean, result: ReviewResult): Promise<void> {
     if (!postComments) {
       return;
@@ -836,8 +1337,9 @@ export class PRReviewer {
 
     console.log(chalk.blue(`\n💬 Posting comments to PR #${prNumber}...`));
 
+    // Called even without comments so services can resolve threads from earlier runs
+    await this.prCommentService.postComments(result.comments, prNumber);
     if (result.comments.length > 0) {
-      await this.prCommentService.postComments(result.comments, prNumber);
       console.log(chalk.green(`Posted ${result.comments.length} comment(s)`));
     } else {
       console.log(chalk.yellow('No comments on changed lines to post'));
@@ -880,23 +1382,25 @@ export class PRReviewer {
   }
 
   /**
-   * Run linter analysis in parallel
+   * Run linter analysis in parallel, with the linter settings of the files' package
    */
   private async runLinterParallel(
+    linterIntegration: LinterIntegration | undefined,
+    config: Config,
     changedFiles: ChangedFile[],
     targetBranch: string
   ): Promise<ReviewComment[]> {
     if (
-      !this.linterIntegration ||
-      !this.config.linter?.enabled ||
-      !this.config.linter.tools ||
-      this.config.linter.tools.length === 0
+      !linterIntegration ||
+      !config.linter?.enabled ||
+      !config.linter.tools ||
+      config.linter.tools.length === 0
     ) {
       return [];
     }
 
     try {
-      const toolCheck = await ToolChecker.checkLinterTools(this.config.linter.tools);
+      const toolCheck = await ToolChecker.checkLinterTools(config.linter.tools);
       if (!toolCheck.allAvailable && toolCheck.missing.length > 0) {
         console.log(chalk.yellow(`\n⚠️  Some linter tools are not available:`));
         console.log(chalk.gray(ToolChecker.formatCheckResults(toolCheck)));
@@ -910,8 +1414,8 @@ export class PRReviewer {
         })
       );
 
-      const linterResult = await this.linterIntegration.analyze(fileContents);
-      const rawComments = this.linterIntegration.convertToReviewComments(linterResult);
+      const linterResult = await linterIntegration.analyze(fileContents);
+      const rawComments = linterIntegration.convertToReviewComments(linterResult);
 
       const { filtered: filteredComments, stats: filterStats } =
         this.falsePositiveFilter.filterReviewComments(rawComments);
@@ -942,23 +1446,25 @@ export class PRReviewer {
   }
 
   /**
-   * Run SAST analysis in parallel
+   * Run SAST analysis in parallel, with the SAST settings of the files' package
    */
   private async runSASTParallel(
+    sastIntegration: SASTIntegration | undefined,
+    config: Config,
     changedFiles: ChangedFile[],
     targetBranch: string
   ): Promise<ReviewComment[]> {
     if (
-      !this.sastIntegration ||
-      !this.config.sast?.enabled ||
-      !this.config.sast.tools ||
-      this.config.sast.tools.length === 0
+      !sastIntegration ||
+      !config.sast?.enabled ||
+      !config.sast.tools ||
+      config.sast.tools.length === 0
     ) {
       return [];
     }
 
     try {
-      const toolCheck = await ToolChecker.checkSASTTools(this.config.sast.tools);
+      const toolCheck = await ToolChecker.checkSASTTools(config.sast.tools);
       if (!toolCheck.allAvailable && toolCheck.missing.length > 0) {
         console.log(chalk.yellow(`\n⚠️  Some SAST tools are not available:`));
         console.log(chalk.gray(ToolChecker.formatCheckResults(toolCheck)));
@@ -972,8 +1478,8 @@ export class PRReviewer {
         })
       );
 
-      const sastResult = await this.sastIntegration.analyze(fileContents);
-      const rawComments = this.sastIntegration.convertToReviewComments(sastResult);
+      const sastResult = await sastIntegration.analyze(fileContents);
+      const rawComments = sastIntegration.convertToReviewComments(sastResult);
 
       const { filtered: filteredComments, stats: filterStats } =
         this.falsePositiveFilter.filterReviewComments(rawComments);
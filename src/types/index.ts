@@ -8,7 +8,14 @@ import { z } from 'zod';
 // AI Provider Types
 // ============================================================================
 
-export const AIProviderSchema = z.enum(['openai', 'claude', 'ollama']);
+export const AIProviderSchema = z.enum([
+  'openai',
+  'claude',
+  'ollama',
+  'openai-compatible',
+  'gemini',
+  'azure-openai',
+]);
 export type AIProvider = z.infer<typeof AIProviderSchema>;
 
 // ============================================================================
@@ -33,6 +40,30 @@ export const OllamaConfigSchema = z.object({
 });
 export type OllamaConfig = z.infer<typeof OllamaConfigSchema>;
 
+export const OpenAICompatibleConfigSchema = z.object({
+  baseUrl: z.string().url(), // e.g. http://localhost:8000/v1 for vLLM, or an internal gateway
+  apiKey: z.string().optional(), // Many self-hosted servers accept any key
+  model: z.string().min(1, 'OpenAI-compatible model name is required'),
+  headers: z.record(z.string()).optional(), // Extra headers sent with every request
+  mode: z.enum(['chat', 'responses']).default('chat'), // /chat/completions or /responses
+});
+export type OpenAICompatibleConfig = z.infer<typeof OpenAICompatibleConfigSchema>;
+
+export const GeminiConfigSchema = z.object({
+  apiKey: z.string().min(1, 'Gemini API key is required'),
+  model: z.string().default('gemini-2.5-pro'),
+  baseUrl: z.string().url().default('https://generativelanguage.googleapis.com'), // Or a proxy
+});
+export type GeminiConfig = z.infer<typeof GeminiConfigSchema>;
+
+export const AzureOpenAIConfigSchema = z.object({
+  endpoint: z.string().url(), // e.g. https://my-resource.openai.azure.com
+  apiKey: z.string().min(1, 'Azure OpenAI API key is required'),
+  deployment: z.string().min(1, 'Azure OpenAI deployment name is required'), // Stands in for the model
+  apiVersion: z.string().default('2024-10-21'),
+});
+export type AzureOpenAIConfig = z.infer<typeof AzureOpenAIConfigSchema>;
+
 export const RepositoryConfigSchema = z.object({
   owner: z.string().min(1, 'Repository owner is required'),
   repo: z.string().min(1, 'Repository name is required'),
@@ -46,9 +77,22 @@ export const PRConfigSchema = z.object({
 });
 export type PRConfig = z.infer<typeof PRConfigSchema>;
 
-export const GitHubConfigSchema = z.object({
-  token: z.string().min(1, 'GitHub token is required'),
+export const GitHubAppConfigSchema = z.object({
+  appId: z.string().min(1, 'GitHub App ID is required'),
+  privateKey: z.string().min(1, 'GitHub App private key is required'), // PEM contents
+  installationId: z.number().optional(), // Looked up from the repository when omitted
 });
+export type GitHubAppConfig = z.infer<typeof GitHubAppConfigSchema>;
+
+export const GitHubConfigSchema = z
+  .object({
+    token: z.string().min(1, 'GitHub token is required').optional(),
+    app: GitHubAppConfigSchema.optional(), // Post as the App's bot instead of a user
+    apiUrl: z.string().url().optional(), // GitHub Enterprise API URL
+  })
+  .refine((github) => Boolean(github.token ?? github.app), {
+    message: 'Either a GitHub token or GitHub App credentials are required',
+  });
 export type GitHubConfig = z.infer<typeof GitHubConfigSchema>;
 
 export const GitLabConfigSchema = z.object({
@@ -57,6 +101,59 @@ export const GitLabConfigSchema = z.object({
 });
 export type GitLabConfig = z.infer<typeof GitLabConfigSchema>;
 
+export const BitbucketConfigSchema = z
+  .object({
+    token: z.string().min(1).optional(), // Repository or workspace access token
+    username: z.string().min(1).optional(), // Used with appPassword
+    appPassword: z.string().min(1).optional(),
+    baseUrl: z.string().url().optional(), // Defaults to https://api.bitbucket.org/2.0
+  })
+  .refine(
+    (bitbucket) => Boolean(bitbucket.token ?? (bitbucket.username && bitbucket.appPassword)),
+    {
+      message: 'Bitbucket requires an access token or a username and app password',
+    }
+  );
+export type BitbucketConfig = z.infer<typeof BitbucketConfigSchema>;
+
+export const BitbucketServerConfigSchema = z.object({
+  baseUrl: z.string().url('Bitbucket Server base URL is required'), // e.g. https://bitbucket.example.com
+  token: z.string().min(1, 'Bitbucket Server token is required'), // HTTP access token
+  projectKey: z.string().optional(), // Defaults to repository.owner
+  userSlug: z.string().optional(), // Reviewer account; looked up from the token when omitted
+});
+export type BitbucketServerConfig = z.infer<typeof BitbucketServerConfigSchema>;
+
+export const AzureDevOpsConfigSchema = z.object({
+  organization: z.string().min(1, 'Azure DevOps organization is required'),
+  project: z.string().min(1, 'Azure DevOps project is required'),
+  repositoryId: z.string().min(1, 'Azure DevOps repository ID is required'), // Name or GUID
+  pat: z.string().min(1, 'Azure DevOps personal access token is required'),
+  baseUrl: z.string().url().optional(), // Defaults to https://dev.azure.com
+});
+export type AzureDevOpsConfig = z.infer<typeof AzureDevOpsConfigSchema>;
+
+export const GiteaConfigSchema = z.object({
+  baseUrl: z.string().url('Gitea base URL is required'), // e.g. https://gitea.example.com (Forgejo too)
+  token: z.string().min(1, 'Gitea token is required'), // Access token with repository scope
+});
+export type GiteaConfig = z.infer<typeof GiteaConfigSchema>;
+
+export const BundleConfigSchema = z.object({
+  path: z.string().min(1, 'Bundle path is required'), // Directory the review bundle is written to
+});
+export type BundleConfig = z.infer<typeof BundleConfigSchema>;
+
+export const WebhookConfigSchema = z.object({
+  port: z.number().default(3000),
+  githubSecret: z.string().optional(), // HMAC secret configured on the GitHub webhook
+  gitlabSecret: z.string().optional(), // Secret token configured on the GitLab webhook
+  reviewDrafts: z.boolean().optional(), // Also review draft pull requests
+  concurrency: z.number().optional(), // Maximum PRs reviewed at the same time
+  queuePath: z.string().optional(), // Directory where pending reviews are persisted
+});
+export type WebhookConfig = z.infer<typeof WebhookConfigSchema>;
+
 export const ReviewCacheConfigSchema = z.object({
   ttl: z.number().optional(), // Time to live in milliseconds
   maxSize: z.number().optional(), // Maximum cache size
@@ -73,6 +170,81 @@ export const ParallelConfigSchema = z.object({
   timeout: z.number().optional(), // Timeout per batch in milliseconds
 });
 
+export const AIFallbackConfigSchema = z.object({
+  retries: z.number().optional(), // Retries per provider before falling back to the next one
+  baseDelay: z.number().optional(), // First backoff delay in milliseconds, doubled on each retry
+  maxDelay: z.number().optional(), // Longest wait in milliseconds, including Retry-After
+  failureThreshold: z.number().optional(), // Consecutive failures that open a provider's circuit
+  cooldown: z.number().optional(), // How long an open circuit skips its provider in milliseconds
+});
+export type AIFallbackConfig = z.infer<typeof AIFallbackConfigSchema>;
+
+export const ConsensusConfigSchema = z.object({
+  providers: z.array(AIProviderSchema).min(2), // Providers that each review every batch
+  quorum: z.number().int().min(1).optional(), // Providers that must agree (default: a majority)
+  lineTolerance: z.number().int().min(0).optional(), // Lines apart two findings may be (default 3)
+  similarityThreshold: z.number().min(0).max(1).optional(), // Text similarity to match (default 0.6)
+});
+export type ConsensusConfig = z.infer<typeof ConsensusConfigSchema>;
+
+export const RouteTargetSchema = z.object({
+  provider: AIProviderSchema,
+  model: z.string().optional(), // Overrides the provider's configured model
+});
+export type RouteTarget = z.infer<typeof RouteTargetSchema>;
+
+export const RoutingRuleSchema = z.object({
+  route: z.string(), // Name of an entry in `routing.routes`
+  critical: z.boolean().optional(), // Batch has (true) or lacks (false) a scout critical file
+  minPriority: z.number().optional(), // Some chunk has at least this priorityScore
+  minComplexity: z.number().optional(), // Scout complexity score at least this
+  maxComplexity: z.number().optional(), // Scout complexity score at most this
+  maxLines: z.number().optional(), // Batch spans at most this many lines of code
+});
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
+
+export const RoutingConfigSchema = z.object({
+  routes: z.record(RouteTargetSchema), // Named provider/model pairs, e.g. "local", "strong"
+  rules: z.array(RoutingRuleSchema).default([]), // First match wins; no match uses aiProvider
+});
+export type RoutingConfig = z.infer<typeof RoutingConfigSchema>;
+
+export const AgentConfigSchema = z.object({
+  maxToolCalls: z.number().int().positive().default(8), // Tool calls per deep-dive batch
+  maxOutputChars: z.number().int().positive().optional(), // Longest tool result sent back
+  indexerUrl: z.string().optional(), // Code indexer service giving find_symbol exact spans
+});
+export type AgentConfig = z.infer<typeof AgentConfigSchema>;
+
+export const StructuredOutputConfigSchema = z.object({
+  native: z.boolean().optional(), // Use JSON-schema / tool-calling modes (default true)
+  maxRepairs: z.number().optional(), // Times an invalid response is sent back for fixing
+});
+export type StructuredOutputConfig = z.infer<typeof StructuredOutputConfigSchema>;
+
+export const ModelPriceSchema = z.object({
+  prompt: z.number(), // USD per million prompt tokens
+  completion: z.number(), // USD per million completion tokens
+});
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+export const BudgetConfigSchema = z.object({
+  maxCost: z.number().optional(), // USD per review, priced with the `pricing` table
+  maxTokens: z.number().optional(), // Prompt + completion tokens per review
+});
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>;
+
+export const PromptsConfigSchema = z.object({
+  dir: z.string().optional(), // Template directory, relative to the repository (default .sherlock/prompts)
+});
+export type PromptsConfig = z.infer<typeof PromptsConfigSchema>;
+
+export const CassetteConfigSchema = z.object({
+  path: z.string().min(1), // Cassette file of recorded AI responses
+  mode: z.enum(['record', 'replay']).default('replay'), // Record live calls or serve recordings
+});
+export type CassetteConfig = z.infer<typeof CassetteConfigSchema>;
+
 export const IncrementalReviewConfigSchema = z.object({
   enabled: z.boolean().optional(), // Enable incremental reviews
   storagePath: z.string().optional(), // Path to store review state
@@ -224,17 +396,36 @@ export type SASTConfig = z.infer<typeof SASTConfigSchema>;
 
 export const ConfigSchema = z.object({
   aiProvider: AIProviderSchema,
+  aiProviders: z.array(AIProviderSchema).optional(), // Ordered fallback chain, first is preferred
+  aiFallback: AIFallbackConfigSchema.optional(),
+  consensus: ConsensusConfigSchema.optional(), // Keep only findings several providers agree on
+  routing: RoutingConfigSchema.optional(), // Send batches to models by scout complexity
+  agent: AgentConfigSchema.optional(), // Let deep dives look up repository code
+  structuredOutput: StructuredOutputConfigSchema.optional(),
   openai: OpenAIConfigSchema.optional(),
   claude: ClaudeConfigSchema.optional(),
   ollama: OllamaConfigSchema.optional(),
+  openaiCompatible: OpenAICompatibleConfigSchema.optional(),
+  gemini: GeminiConfigSchema.optional(),
+  azureOpenai: AzureOpenAIConfigSchema.optional(),
   globalRules: z.array(z.string()).default([]),
   repository: RepositoryConfigSchema,
   pr: PRConfigSchema,
   github: GitHubConfigSchema.optional(),
   gitlab: GitLabConfigSchema.optional(),
+  bitbucket: BitbucketConfigSchema.optional(),
+  bitbucketServer: BitbucketServerConfigSchema.optional(),
+  azureDevOps: AzureDevOpsConfigSchema.optional(),
+  gitea: GiteaConfigSchema.optional(),
+  bundle: BundleConfigSchema.optional(), // Write comments to disk instead of a forge
+  webhook: WebhookConfigSchema.optional(),
   reviewCache: ReviewCacheConfigSchema.optional(),
   batching: BatchingConfigSchema.optional(),
   parallel: ParallelConfigSchema.optional(),
+  pricing: z.record(ModelPriceSchema).optional(), // Keyed by model name (or a prefix of it)
+  budget: BudgetConfigSchema.optional(),
+  prompts: PromptsConfigSchema.optional(),
+  cassette: CassetteConfigSchema.optional(),
   incrementalReview: IncrementalReviewConfigSchema.optional(),
   linter: LinterConfigSchema.optional(),
   sast: SASTConfigSchema.optional(),
@@ -242,6 +433,19 @@ export const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+/**
+ * Settings a package of a monorepo can set in its own config file; they are merged
+ * over the root config for the package's files
+ */
+export const PackageConfigSchema = z.object({
+  globalRules: z.array(z.string()).optional(), // Added to the root rules
+  linter: LinterConfigSchema.partial().optional(),
+  sast: SASTConfigSchema.partial().optional(),
+  budget: BudgetConfigSchema.optional(),
+});
+
+export type PackageConfig = z.infer<typeof PackageConfigSchema>;
+
 // ============================================================================
 // Code Chunk Types
 // ============================================================================
@@ -344,6 +548,10 @@ export interface ReviewComment {
   category?: string;
   fix?: string;
   tool?: string; // Tool that generated this comment (e.g., 'eslint', 'prettier', 'semgrep')
+  critical?: boolean; // The model rated it Critical (mapped to 'error' with High findings)
+  agreement?: number; // Providers that reported it, in consensus mode
+  commit?: string; // Commit that introduced it, in per-commit reviews
+  package?: string; // Package directory whose config reviewed it, in monorepos
 }
 
 export interface ReviewStats {
@@ -352,6 +560,54 @@ export interface ReviewStats {
   suggestions: number;
 }
 
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number; // USD, when the model has a price
+}
+
+/** Model calls of a review, including the naming and PR title analyses */
+export type ReviewPass = 'scout' | 'review' | 'deepDive' | 'naming' | 'prTitle';
+
+/** Every prompt a template can replace: the review passes plus chat replies */
+export type PromptPass = ReviewPass | 'chat';
+
+export interface BatchUsage extends TokenUsage {
+  batch: number;
+  pass: ReviewPass;
+  model?: string;
+}
+
+export interface UnreviewedChunk {
+  id: string;
+  file: string;
+  name: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface ReviewUsage extends TokenUsage {
+  passes?: Partial<Record<ReviewPass, TokenUsage>>;
+  batches?: BatchUsage[];
+  budget?: BudgetConfig & {
+    exhausted: boolean;
+    unreviewedChunks: UnreviewedChunk[];
+  };
+}
+
+/**
+ * Where a chunk was reviewed and why; every chunk of a batch shares its batch's decision
+ */
+export interface RoutingDecision {
+  chunkId: string;
+  file: string;
+  name: string;
+  route: string; // Route name, or 'default' when no rule matched
+  provider: string;
+  model?: string;
+  reason: string;
+}
+
 export interface ReviewMetadata {
   reviewedAt: string;
   target: string;
@@ -359,6 +615,9 @@ export interface ReviewMetadata {
   duration?: number;
   aiProvider?: string;
   model?: string;
+  usage?: ReviewUsage;
+  repairs?: number; // Responses sent back to the model because they failed schema validation
+  toolCalls?: number; // Repository lookups the model made during deep dives
 }
 
 export interface ReviewResultJSON {
@@ -379,6 +638,9 @@ export interface ReviewResultJSON {
     category: string;
     message: string;
     fix: string | null;
+    agreement?: number;
+    commit?: string;
+    package?: string;
   }>;
   namingSuggestions?: Array<{
     file: string;
@@ -395,6 +657,26 @@ export interface ReviewResultJSON {
     reason: string;
     alternatives?: string[];
   };
+  routing?: RoutingDecision[];
+  commits?: CommitReview[];
+  packages?: PackageReview[];
+  skippedFiles?: SkippedFile[];
+}
+
+/**
+ * Outcome of one commit in a per-commit review
+ */
+export interface CommitReview extends CommitInfo {
+  recommendation?: string;
+  stats: ReviewStats;
+}
+
+/**
+ * Findings of one package in a monorepo review
+ */
+export interface PackageReview {
+  path: string; // Directory of the package's config; `.` for files under the root config
+  stats: ReviewStats;
 }
 
 export interface ReviewQualityMetrics {
@@ -430,10 +712,14 @@ export interface ReviewResult {
   stats: ReviewStats;
   recommendation?: string;
   topIssues?: string[];
-  metadata?: ReviewMetadata;
+  metadata?: Partial<ReviewMetadata>; // Providers stamp aiProvider/model on the results they produce
+  routing?: RoutingDecision[];
   qualityMetrics?: ReviewQualityMetrics;
   namingSuggestions?: NamingSuggestion[];
   prTitleSuggestion?: PRTitleSuggestion;
+  commits?: CommitReview[]; // Per-commit reviews only
+  packages?: PackageReview[]; // Monorepos with package configs only
+  skippedFiles?: SkippedFile[]; // Left out of the review as generated, vendored or binary
 }
 
 // ============================================================================
@@ -486,16 +772,29 @@ export interface AISummary extends z.infer<typeof AISummarySchema> {}
 // Git Types
 // ============================================================================
 
-export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+
+export interface CommitInfo {
+  sha: string; // Abbreviated
+  subject: string;
+}
 
 export interface ChangedFile {
   path: string;
   status: FileStatus;
+  previousPath?: string; // Path before a rename, or the source of a copy
   additions?: number;
   deletions?: number;
   changedLines?: Set<number>;
 }
 
+export type FileKind = 'generated' | 'vendored' | 'lockfile' | 'binary';
+
+export interface SkippedFile {
+  path: string;
+  kind: FileKind;
+}
+
 export interface DiffHunk {
   startLine: number;
   lineCount: number;
@@ -559,6 +858,20 @@ export class PRCommentError extends CodeSherlockError {
   }
 }
 
+export class CassetteMissError extends CodeSherlockError {
+  constructor(message: string) {
+    super(message, 'CASSETTE_MISS');
+    this.name = 'CassetteMissError';
+  }
+}
+
+export class ReviewCancelledError extends CodeSherlockError {
+  constructor(message: string = 'Review was cancelled') {
+    super(message, 'REVIEW_CANCELLED');
+    this.name = 'ReviewCancelledError';
+  }
+}
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -568,6 +881,11 @@ export interface LineRange {
   endLine: number;
 }
 
+/** Lines of a file that a review run actually looked at */
+export interface ReviewedRange extends LineRange {
+  file: string;
+}
+
 export interface FileLanguageMap {
   [extension: string]: string;
 }
@@ -117,7 +117,8 @@ export interface FileGroup {
 
 export interface FileChange {
   path: string;
-  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+  previousPath?: string;
   additions: number;
   deletions: number;
   language: string;
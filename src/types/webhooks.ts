@@ -92,7 +92,8 @@ export interface GitHubCommentWebhookPayload {
   action: GitHubCommentAction;
   comment: GitHubComment;
   pull_request?: GitHubPullRequest;
-  issue?: { number: number; title: string; body: string | null };
+  // `pull_request` is only set when the commented issue is a pull request
+  issue?: { number: number; title: string; body: string | null; pull_request?: { url: string } };
   repository: GitHubRepository;
   sender: GitHubUser;
   installation?: { id: number };
@@ -146,6 +147,7 @@ export interface GitLabMergeRequest {
   target_branch: string;
   author_id: number;
   url: string;
+  last_commit?: { id: string };
 }
 
 export interface GitLabNote {
@@ -170,6 +172,7 @@ export interface GitLabMRWebhookPayload {
   project: GitLabProject;
   object_attributes: GitLabMergeRequest & {
     action: GitLabMRAction;
+    oldrev?: string; // Set on `update` only when commits were pushed
   };
 }
 
@@ -195,6 +198,8 @@ export interface NormalizedWebhookEvent {
   owner: string;
   repo: string;
   sender: string;
+  /** GitHub App installation that delivered the event */
+  installationId?: number;
   comment?: {
     id: number;
     body: string;
@@ -206,6 +211,8 @@ export interface NormalizedWebhookEvent {
     body: string | null;
     baseBranch: string;
     headBranch: string;
+    /** Head commit SHA at the time of the event (used to supersede stale reviews) */
+    headSha?: string;
     isDraft: boolean;
   };
 }
@@ -0,0 +1,164 @@
+/**
+ * Cassette - Recorded AI responses for deterministic and offline reviews
+ *
+ * In record mode every model call is saved to a JSON file keyed by a hash of its
+ * normalized prompt; in replay mode calls are answered from that file and never
+ * reach the network. Each provider and model gets its own recordings back, so
+ * providers asked the same prompt at once (consensus, fallback) replay their own
+ * answers. A prompt sent several times (e.g. repair rounds) gets its recordings
+ * back in the order they were made.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { CassetteConfig, CassetteMissError, ConfigurationError, TokenUsage } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const CASSETTE_VERSION = 1;
+
+export interface CassetteRequest {
+  system?: string;
+  prompt: string;
+}
+
+export interface CassetteResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface CassetteInteraction {
+  key: string;
+  provider: string;
+  model: string;
+  system?: string;
+  prompt: string;
+  response: CassetteResponse;
+}
+
+interface CassetteFile {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+// ============================================================================
+// Cassette
+// ============================================================================
+
+export class Cassette {
+  readonly mode: CassetteConfig['mode'];
+  readonly path: string;
+  private interactions: CassetteInteraction[];
+  /** Recordings already served per provider, model and key, so repeated prompts replay in order */
+  private served = new Map<string, number>();
+
+  /**
+   * @throws ConfigurationError when replaying a missing or malformed cassette
+   */
+  constructor(config: CassetteConfig) {
+    this.mode = config.mode;
+    this.path = resolve(config.path);
+    this.interactions = this.mode === 'replay' ? this.load() : [];
+  }
+
+  /**
+   * Hash of a request's normalized text: line endings, trailing whitespace and
+   * runs of blank lines do not change the key
+   */
+  static keyOf(request: CassetteRequest): string {
+    const text = `${normalize(request.system ?? '')}\n\n${normalize(request.prompt)}`;
+    return createHash('sha256').update(text).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Recorded response of a provider and model to a request
+   * @throws CassetteMissError when that model never answered the prompt
+   */
+  replay(request: CassetteRequest, provider: string, model: string): CassetteResponse {
+    const key = Cassette.keyOf(request);
+    const recordings = this.interactions.filter(
+      (interaction) =>
+        interaction.key === key && interaction.provider === provider && interaction.model === model
+    );
+    if (recordings.length === 0) {
+      const snippet = normalize(request.prompt).slice(0, 120).replace(/\s+/g, ' ');
+      throw new CassetteMissError(
+        `No recording for prompt ${key} of ${provider} (${model}) in cassette ${this.path} ` +
+          `("${snippet}..."). Re-record the cassette with --record to capture it.`
+      );
+    }
+
+    const servedKey = `${provider}|${model}|${key}`;
+    const index = this.served.get(servedKey) ?? 0;
+    this.served.set(servedKey, index + 1);
+    // Once a key's recordings are used up, keep answering with the last one
+    const recording = recordings[index] ?? recordings[recordings.length - 1];
+    return (recording as CassetteInteraction).response;
+  }
+
+  /**
+   * Add a live response and write the cassette, so an interrupted run keeps what it got
+   */
+  record(
+    request: CassetteRequest,
+    response: CassetteResponse,
+    provider: string,
+    model: string
+  ): void {
+    this.interactions.push({
+      key: Cassette.keyOf(request),
+      provider,
+      model,
+      system: request.system,
+      prompt: request.prompt,
+      response: { text: response.text, usage: response.usage },
+    });
+    this.save();
+  }
+
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private load(): CassetteInteraction[] {
+    if (!existsSync(this.path)) {
+      throw new ConfigurationError(`Cassette not found: ${this.path}`);
+    }
+
+    try {
+      const file = JSON.parse(readFileSync(this.path, 'utf-8')) as CassetteFile;
+      if (file.version !== CASSETTE_VERSION || !Array.isArray(file.interactions)) {
+        throw new Error(`expected version ${CASSETTE_VERSION} with an interactions array`);
+      }
+      return file.interactions;
+    } catch (error) {
+      throw new ConfigurationError(
+        `Invalid cassette ${this.path}: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private save(): void {
+    const file: CassetteFile = { version: CASSETTE_VERSION, interactions: this.interactions };
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+  }
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
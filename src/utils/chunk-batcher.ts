@@ -24,6 +24,12 @@ const DEFAULT_BATCH_CONFIG: BatchConfig = {
   includeDependencies: false,
 };
 
+/**
+ * Completion tokens set aside per batch when fitting batches into a token budget;
+ * review responses rarely run longer
+ */
+const DEFAULT_COMPLETION_RESERVE = 1024;
+
 /**
  * Intelligent chunk batcher for AI reviews
  * Groups related chunks together and respects token limits
@@ -81,6 +87,28 @@ export class ChunkBatcher {
     return batches;
   }
 
+  /**
+   * Keep batches while their estimated prompt tokens, plus a completion reserve per
+   * batch, fit the tokens left in the review's budget. Batches are already in priority
+   * order, so the lowest-priority ones are dropped. The first batch is always kept -
+   * the provider's reported usage is what counts.
+   * @param maxTokens - Prompt and completion tokens left for the review passes
+   */
+  limitToTokenBudget(
+    batches: CodeChunk[][],
+    maxTokens: number,
+    completionReserve = DEFAULT_COMPLETION_RESERVE
+  ): { batches: CodeChunk[][]; unreviewed: CodeChunk[] } {
+    let estimatedTokens = 0;
+    const kept = batches.filter((batch, index) => {
+      estimatedTokens +=
+        batch.reduce((sum, chunk) => sum + this.estimateTokens(chunk), 0) + completionReserve;
+      return index === 0 || estimatedTokens <= maxTokens;
+    });
+
+    return { batches: kept, unreviewed: batches.slice(kept.length).flat() };
+  }
+
   /**
    * Group chunks by file
    */
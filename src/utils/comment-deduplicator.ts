@@ -34,7 +34,7 @@ const SEVERITY_PRIORITY: Record<Severity, number> = {
  * Calculate similarity between two strings using simple word overlap
  * Returns a score between 0 and 1
  */
-function calculateSimilarity(str1: string, str2: string): number {
+export function calculateSimilarity(str1: string, str2: string): number {
   const normalize = (s: string): string =>
     s
       .toLowerCase()
@@ -77,7 +77,7 @@ function areDuplicates(
  * Merge two duplicate comments
  * Keeps the comment with higher severity and merges other properties
  */
-function mergeComments(comment1: ReviewComment, comment2: ReviewComment): ReviewComment {
+export function mergeComments(comment1: ReviewComment, comment2: ReviewComment): ReviewComment {
   const priority1 = SEVERITY_PRIORITY[comment1.severity];
   const priority2 = SEVERITY_PRIORITY[comment2.severity];
 
@@ -0,0 +1,246 @@
+/**
+ * File Classifier - Recognizes changed files that are not worth an AI review
+ *
+ * Lockfiles, vendored code, generated sources (protobuf, GraphQL codegen, Prisma
+ * client, minified bundles) and files marked binary are detected from their path,
+ * the repository's `.gitattributes` (`linguist-generated`, `linguist-vendored`,
+ * `-diff`/`binary`) and the header of their content. Attributes win, so
+ * `linguist-generated=false` keeps a file in the review.
+ */
+
+import { FileKind, SkippedFile } from '../types';
+import { CATEGORY_EMOJI, CATEGORY_LABELS, ChangeCategory } from '../types/summary';
+import { matchesGlob } from './glob';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOCKFILE_PATTERNS = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'uv.lock',
+  'go.sum',
+  'mix.lock',
+  'Podfile.lock',
+  'packages.lock.json',
+  'flake.lock',
+];
+
+const VENDORED_PATTERNS = [
+  '**/vendor/**',
+  '**/third_party/**',
+  '**/node_modules/**',
+  '**/bower_components/**',
+];
+
+const GENERATED_PATTERNS = [
+  // protobuf / gRPC
+  '*.pb.go',
+  '*.pb.cc',
+  '*.pb.h',
+  '*_pb2.py',
+  '*_pb2_grpc.py',
+  '*_pb.js',
+  '*_pb.d.ts',
+  '*_grpc_pb.js',
+  // GraphQL codegen and Relay
+  '**/__generated__/**',
+  '*.generated.ts',
+  '*.generated.tsx',
+  // Prisma client
+  '**/.prisma/client/**',
+  '**/generated/prisma/**',
+  // Minified bundles
+  '*.min.js',
+  '*.min.css',
+  '*.min.mjs',
+];
+
+/**
+ * Markers generators put at the top of their output: `Code generated ... DO NOT EDIT.`
+ * (Go, protoc-gen-go), the protobuf compiler's notice, `@generated` (Relay, Thrift) and
+ * the notices of GraphQL Code Generator and Apollo
+ */
+const GENERATED_HEADERS = [
+  /^\/\/ Code generated .* DO NOT EDIT\.$/m,
+  /Generated by the protocol buffer compiler\. {1,2}DO NOT EDIT!/,
+  /@generated\b/,
+  /This file was (?:automatically|auto-)generated/i,
+  /THIS IS AN AUTOGENERATED FILE\. DO NOT EDIT THIS FILE DIRECTLY\./,
+];
+
+/** Only the top of a file is searched for a generator's header */
+const HEADER_LENGTH = 1024;
+
+/** Average line length above which a script or stylesheet is taken as minified */
+const MINIFIED_LINE_LENGTH = 500;
+
+/**
+ * Summary category each kind is grouped under: lockfiles and vendored code are
+ * dependencies, generated and binary files are build artifacts
+ */
+const KIND_CATEGORY: Record<FileKind, ChangeCategory> = {
+  lockfile: 'dependency',
+  vendored: 'dependency',
+  generated: 'config',
+  binary: 'config',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface AttributeRule {
+  pattern: string;
+  anchored: boolean;
+  // true/false when the rule sets or clears the attribute; absent when it doesn't mention it
+  generated?: boolean;
+  vendored?: boolean;
+  binary?: boolean;
+}
+
+// ============================================================================
+// File Classifier Class
+// ============================================================================
+
+export class FileClassifier {
+  private readonly rules: AttributeRule[];
+
+  /**
+   * @param gitattributes - Content of the repository's root `.gitattributes`, if any
+   */
+  constructor(gitattributes = '') {
+    this.rules = parseGitAttributes(gitattributes);
+  }
+
+  /**
+   * Kind of a file to leave out of the review, or undefined when it should be reviewed
+   * @param content - File content, to recognize generated headers and minified code
+   */
+  classify(filePath: string, content?: string): FileKind | undefined {
+    const attributes = this.getAttributes(filePath);
+
+    if (attributes.binary) return 'binary';
+    if (attributes.generated) return 'generated';
+    if (attributes.vendored) return 'vendored';
+
+    if (matchesGlob(filePath, LOCKFILE_PATTERNS)) return 'lockfile';
+    if (attributes.vendored === undefined && matchesGlob(filePath, VENDORED_PATTERNS)) {
+      return 'vendored';
+    }
+    if (attributes.generated === undefined && this.looksGenerated(filePath, content)) {
+      return 'generated';
+    }
+    return undefined;
+  }
+
+  /**
+   * Attributes of a path; later lines override earlier ones, as in git
+   */
+  private getAttributes(filePath: string): Omit<AttributeRule, 'pattern' | 'anchored'> {
+    const attributes: Omit<AttributeRule, 'pattern' | 'anchored'> = {};
+
+    for (const rule of this.rules) {
+      // A leading slash anchors a slash-less pattern to the root
+      const matches =
+        rule.anchored && !rule.pattern.includes('/')
+          ? !filePath.includes('/') && matchesGlob(filePath, [rule.pattern])
+          : matchesGlob(filePath, [rule.pattern]);
+      if (!matches) continue;
+
+      if (rule.generated !== undefined) attributes.generated = rule.generated;
+      if (rule.vendored !== undefined) attributes.vendored = rule.vendored;
+      if (rule.binary !== undefined) attributes.binary = rule.binary;
+    }
+
+    return attributes;
+  }
+
+  private looksGenerated(filePath: string, content?: string): boolean {
+    if (matchesGlob(filePath, GENERATED_PATTERNS)) return true;
+    if (!content) return false;
+
+    const header = content.slice(0, HEADER_LENGTH);
+    if (GENERATED_HEADERS.some((pattern) => pattern.test(header))) return true;
+
+    if (/\.(?:m?js|cjs|css)$/.test(filePath)) {
+      const lines = content.split('\n').length;
+      return content.length / lines > MINIFIED_LINE_LENGTH;
+    }
+    return false;
+  }
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * One line naming the skipped files by summary category, for the review summary
+ * @example "⏭️ Not reviewed: 📦 Dependencies (2), ⚙️ Configuration (1)"
+ */
+export function formatSkippedFiles(files: SkippedFile[]): string {
+  const counts = new Map<ChangeCategory, number>();
+  for (const file of files) {
+    const category = KIND_CATEGORY[file.kind];
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+
+  const groups = Array.from(
+    counts,
+    ([category, count]) => `${CATEGORY_EMOJI[category]} ${CATEGORY_LABELS[category]} (${count})`
+  );
+  return `⏭️ Not reviewed: ${groups.join(', ')}`;
+}
+
+// ============================================================================
+// .gitattributes
+// ============================================================================
+
+function parseGitAttributes(content: string): AttributeRule[] {
+  const rules: AttributeRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [pattern, ...attributes] = line.split(/\s+/) as [string, ...string[]];
+    const rule: AttributeRule = {
+      pattern: pattern.replace(/^\//, ''),
+      anchored: pattern.startsWith('/'),
+    };
+
+    for (const attribute of attributes) {
+      // `attr` and `attr=true` set it; `-attr`, `!attr` and `attr=false` clear it
+      const unset = attribute.startsWith('-') || attribute.startsWith('!');
+      const [name, value] = attribute.replace(/^[-!]/, '').split('=');
+      const enabled = !unset && value !== 'false';
+
+      if (name === 'linguist-generated') {
+        rule.generated = enabled;
+      } else if (name === 'linguist-vendored') {
+        rule.vendored = enabled;
+      } else if (name === 'binary') {
+        rule.binary = enabled;
+      } else if (name === 'diff') {
+        // `-diff` shows a file as binary; `diff` or a diff driver shows it as text
+        rule.binary = unset;
+      }
+    }
+
+    if (rule.generated !== undefined || rule.vendored !== undefined || rule.binary !== undefined) {
+      rules.push(rule);
+    }
+  }
+
+  return rules;
+}
@@ -0,0 +1,65 @@
+/**
+ * Glob matching for repository paths
+ *
+ * Supports `**` (any number of directories), `*` and `?` (within one path
+ * segment) and `{a,b}` alternatives. A pattern without a slash matches the file
+ * name at any depth, as in .gitignore.
+ */
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const normalized = pattern.replace(/^\.\//, '');
+  const source = normalized.includes('/') ? normalized : `**/${normalized}`;
+
+  let regex = '';
+  let inGroup = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i] as string;
+
+    if (char === '*' && source[i + 1] === '*') {
+      // `**/` matches zero or more directories; a trailing `**` matches everything below
+      if (source[i + 2] === '/') {
+        regex += '(?:.*/)?';
+        i += 2;
+      } else {
+        regex += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      regex += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      regex += ')';
+    } else if (char === ',' && inGroup) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const compiled = new RegExp(`^${regex}$`);
+  cache.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Whether a repository-relative path matches any of the patterns
+ */
+export function matchesGlob(path: string, patterns: string[]): boolean {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '');
+  return patterns.some((pattern) => globToRegExp(pattern).test(normalized));
+}
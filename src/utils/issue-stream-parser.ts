@@ -0,0 +1,132 @@
+/**
+ * Issue Stream Parser
+ * Extracts review issues from a streamed AI response as soon as each issue object closes
+ */
+
+import { AICategory, AIIssue } from '../types';
+
+const ISSUE_CATEGORIES: ReadonlySet<string> = new Set<AICategory>([
+  'bugs',
+  'security',
+  'performance',
+  'code_quality',
+  'architecture',
+]);
+
+export type IssueHandler = (category: AICategory, issue: AIIssue) => void;
+
+/**
+ * Incremental scanner for the review JSON schema.
+ *
+ * Text is fed in arbitrary fragments. The scanner tracks string/escape state and
+ * nesting so braces inside strings are ignored, and parses an issue as soon as an
+ * object directly inside a top-level category array (e.g. `"bugs": [ {...} ]`) closes.
+ * Anything before the first `{` (such as a ```json fence) is skipped.
+ */
+export class IssueStreamParser {
+  private onIssue: IssueHandler;
+  private buffer = '';
+  private position = 0;
+  private stack: Array<'{' | '['> = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastKey?: string;
+  private arrayCategory?: AICategory;
+  private issueStart = -1;
+
+  constructor(onIssue: IssueHandler) {
+    this.onIssue = onIssue;
+  }
+
+  /**
+   * Feed the next fragment of the response
+   */
+  push(text: string): void {
+    this.buffer += text;
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        this.scanString(char);
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case '{':
+          this.openObject();
+          break;
+        case '[':
+          if (this.stack.length === 1) {
+            this.arrayCategory = this.categoryFor(this.lastKey);
+          }
+          this.stack.push('[');
+          break;
+        case '}':
+          this.closeObject();
+          break;
+        case ']':
+          this.stack.pop();
+          if (this.stack.length === 1) {
+            this.arrayCategory = undefined;
+          }
+          break;
+      }
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private scanString(char: string | undefined): void {
+    if (this.escaped) {
+      this.escaped = false;
+    } else if (char === '\\') {
+      this.escaped = true;
+    } else if (char === '"') {
+      this.inString = false;
+      // Strings directly inside the top-level object are keys or scalar values;
+      // the last one before a `[` names the array
+      if (this.stack.length === 1) {
+        this.lastKey = this.buffer.slice(this.stringStart + 1, this.position);
+      }
+    }
+  }
+
+  private openObject(): void {
+    if (this.stack.length === 2 && this.stack[1] === '[' && this.arrayCategory) {
+      this.issueStart = this.position;
+    }
+    this.stack.push('{');
+  }
+
+  private closeObject(): void {
+    this.stack.pop();
+
+    if (this.stack.length !== 2 || this.issueStart < 0 || !this.arrayCategory) {
+      return;
+    }
+
+    const raw = this.buffer.slice(this.issueStart, this.position + 1);
+    this.issueStart = -1;
+
+    let issue: AIIssue;
+    try {
+      issue = JSON.parse(raw) as AIIssue;
+    } catch {
+      // Malformed issue - the final parse of the full response decides what to keep
+      return;
+    }
+    this.onIssue(this.arrayCategory, issue);
+  }
+
+  private categoryFor(key: string | undefined): AICategory | undefined {
+    return key && ISSUE_CATEGORIES.has(key) ? (key as AICategory) : undefined;
+  }
+}
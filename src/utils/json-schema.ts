@@ -0,0 +1,85 @@
+/**
+ * JSON Schema generation from Zod schemas
+ *
+ * Covers the subset of Zod used by the AI response schemas (objects, arrays,
+ * strings, numbers, booleans, enums, optional/default/nullable wrappers), which is
+ * what provider structured-output modes accept.
+ */
+
+import { z } from 'zod';
+
+// A type alias rather than an interface so it is assignable to the SDKs' Record params
+export type JSONSchema = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: string[];
+  additionalProperties?: boolean;
+};
+
+/**
+ * Convert a Zod schema to a JSON Schema object
+ * @throws Error for Zod types outside the supported subset
+ */
+export function zodToJSONSchema(schema: z.ZodTypeAny): JSONSchema {
+  const json = convert(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function convert(schema: z.ZodTypeAny): JSONSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return zodToJSONSchema(unwrap(schema));
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJSONSchema(unwrap(schema));
+    return { ...inner, type: [String(inner.type), 'null'] };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !isOptional(shape[key]));
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, zodToJSONSchema(value)])
+      ),
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: false,
+    };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToJSONSchema(schema.element as z.ZodTypeAny) };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...(schema.options as string[])] };
+  }
+
+  if (schema instanceof z.ZodString) {
+    return { type: 'string' };
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return { type: 'number' };
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  throw new Error(`Unsupported schema type for JSON Schema: ${schema.constructor.name}`);
+}
+
+function unwrap(
+  schema: z.ZodOptional<z.ZodTypeAny> | z.ZodDefault<z.ZodTypeAny> | z.ZodNullable<z.ZodTypeAny>
+): z.ZodTypeAny {
+  return schema instanceof z.ZodDefault ? schema.removeDefault() : schema.unwrap();
+}
+
+function isOptional(schema: z.ZodTypeAny | undefined): boolean {
+  return !schema || schema.isOptional();
+}
@@ -4,7 +4,8 @@
  */
 
 import { AIProviderInterface } from '../ai-provider';
-import { CodeChunk, NamingSuggestion } from '../types';
+import { CassetteMissError, CodeChunk, NamingSuggestion } from '../types';
+import type { UsageTracker } from './usage-tracker';
 
 export interface NamingAnalyzerOptions {
   aiProvider: AIProviderInterface;
@@ -22,8 +23,9 @@ export class NamingAnalyzer {
 
   /**
    * Analyze chunks for naming issues and generate suggestions
+   * @param usage - Review usage the model call counts towards; a spent budget skips it
    */
-  async analyzeNaming(chunks: CodeChunk[]): Promise<NamingSuggestion[]> {
+  async analyzeNaming(chunks: CodeChunk[], usage?: UsageTracker): Promise<NamingSuggestion[]> {
     if (!this.enabled || chunks.length === 0) {
       return [];
     }
@@ -43,9 +45,18 @@ export class NamingAnalyzer {
         return [];
       }
 
+      // Also analyze chunks directly for naming patterns
+      const directSuggestions = this.analyzeChunksDirectly(relevantChunks);
+      if (usage?.isExhausted()) {
+        return this.deduplicateSuggestions(directSuggestions);
+      }
+
       // Call AI to analyze naming
       const prompt = this.createNamingPrompt(relevantChunks);
-      const response = await this.aiProvider.reviewCode(relevantChunks, [prompt]);
+      const response = await this.aiProvider.reviewCode(relevantChunks, [prompt], {
+        pass: 'naming',
+      });
+      usage?.record('naming', response.metadata?.usage, response.metadata?.model);
 
       // Extract naming suggestions from comments
       const suggestions: NamingSuggestion[] = [];
@@ -70,12 +81,13 @@ export class NamingAnalyzer {
         }
       }
 
-      // Also analyze chunks directly for naming patterns
-      const directSuggestions = this.analyzeChunksDirectly(relevantChunks);
       suggestions.push(...directSuggestions);
 
       return this.deduplicateSuggestions(suggestions);
     } catch (error) {
+      if (error instanceof CassetteMissError) {
+        throw error;
+      }
       console.error('Error analyzing naming:', error);
       return [];
     }
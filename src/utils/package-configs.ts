@@ -0,0 +1,99 @@
+/**
+ * Package Configs - Per-package configuration for monorepos
+ *
+ * A package can carry its own `code-sherlock.config.json` with rules, linters,
+ * SAST tools and an AI budget. Each changed file is reviewed with the config of
+ * its nearest ancestor directory that has one, merged over the root config.
+ * Configs are read from the reviewed ref, so a branch can change them.
+ */
+
+import { posix } from 'path';
+import { CONFIG_FILE, ConfigLoader } from '../config';
+import type { GitService } from '../git';
+import { ChangedFile, Config, GitError } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PackageFiles {
+  path: string; // Directory of the package's config; `.` for files under the root config
+  config: Config;
+  files: ChangedFile[];
+}
+
+// ============================================================================
+// Package Config Resolver Class
+// ============================================================================
+
+export class PackageConfigResolver {
+  private git: GitService;
+  private rootConfig: Config;
+
+  constructor(git: GitService, rootConfig: Config) {
+    this.git = git;
+    this.rootConfig = rootConfig;
+  }
+
+  /**
+   * Group changed files by the package config that applies to them, in the order the
+   * packages first appear
+   * @param ref - Ref the configs are read from
+   */
+  async groupByPackage(changedFiles: ChangedFile[], ref: string): Promise<PackageFiles[]> {
+    // Keyed by directory; each directory's config file is read once
+    const configs = new Map<string, Promise<Config | undefined>>();
+    const packages = new Map<string, PackageFiles>();
+
+    for (const file of changedFiles) {
+      const { path, config } = await this.findPackage(file.path, ref, configs);
+      const existing = packages.get(path);
+      if (existing) {
+        existing.files.push(file);
+      } else {
+        packages.set(path, { path, config, files: [file] });
+      }
+    }
+
+    return Array.from(packages.values());
+  }
+
+  private async findPackage(
+    filePath: string,
+    ref: string,
+    configs: Map<string, Promise<Config | undefined>>
+  ): Promise<{ path: string; config: Config }> {
+    for (let dir = posix.dirname(filePath); dir !== '.'; dir = posix.dirname(dir)) {
+      let config = configs.get(dir);
+      if (!config) {
+        config = this.loadPackageConfig(dir, ref);
+        configs.set(dir, config);
+      }
+
+      const resolved = await config;
+      if (resolved) {
+        return { path: dir, config: resolved };
+      }
+    }
+
+    return { path: '.', config: this.rootConfig };
+  }
+
+  private async loadPackageConfig(dir: string, ref: string): Promise<Config | undefined> {
+    const path = `${dir}/${CONFIG_FILE}`;
+    let content: string;
+    try {
+      content = await this.git.getFileContent(path, ref);
+    } catch (error) {
+      if (error instanceof GitError) {
+        return undefined; // No config in this directory
+      }
+      throw error;
+    }
+
+    return ConfigLoader.mergePackageConfig(
+      this.rootConfig,
+      ConfigLoader.parsePackageConfig(content, path)
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { AIProviderInterface } from '../ai-provider';
-import { CodeChunk, ReviewResult } from '../types';
+import { CassetteMissError, CodeChunk, ReviewComment, ReviewResult } from '../types';
 import { ReviewStream } from './review-stream';
+import { ReviewTools } from './review-tools';
+import { UsageTracker } from './usage-tracker';
 
 export interface ParallelReviewerConfig {
   concurrency: number;
@@ -24,27 +26,40 @@ export class ParallelReviewer {
 
   /**
    * Review batches in parallel with a sliding window concurrency model
+   * @param usage - Records each batch's token usage; once its budget is spent no further
+   *   batches start (batches already in flight still finish) and the rest are reported
+   *   as unreviewed
+   * @param tools - Repository lookups offered to deep-dive batches, each with its own budget
    */
   async reviewBatches(
     batches: CodeChunk[][],
     aiProvider: AIProviderInterface,
     globalRules: string[],
     stream?: ReviewStream | undefined,
-    criticalFiles: string[] = []
+    criticalFiles: string[] = [],
+    usage?: UsageTracker,
+    tools?: ReviewTools
   ): Promise<ReviewResult> {
     const results: ReviewResult[] = new Array<ReviewResult>(batches.length);
     let activeCount = 0;
     let nextIndex = 0;
+    let settled = false;
 
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
       if (batches.length === 0) {
         resolve(this.createEmptyResult('No batches to review'));
         return;
       }
 
       const startNextBatch = (): void => {
+        if (nextIndex < batches.length && usage?.isExhausted()) {
+          usage.markUnreviewed(batches.slice(nextIndex).flat());
+          nextIndex = batches.length;
+        }
+
         if (nextIndex >= batches.length) {
-          if (activeCount === 0) {
+          if (activeCount === 0 && !settled) {
+            settled = true;
             const merged = this.mergeResults(results.filter(Boolean));
             if (stream) {
               stream.complete(merged);
@@ -62,16 +77,32 @@ export class ParallelReviewer {
 
         const isDeepDive = batch.some((chunk) => criticalFiles.includes(chunk.file));
 
-        this.reviewBatchWithTimeout(batch, aiProvider, globalRules, isDeepDive)
+        this.reviewBatchWithTimeout(batch, aiProvider, globalRules, isDeepDive, stream, tools)
           .then((batchResult) => {
             results[currentIndex] = batchResult;
+            usage?.record(
+              isDeepDive ? 'deepDive' : 'review',
+              batchResult.metadata?.usage,
+              batchResult.metadata?.model,
+              currentIndex
+            );
 
             if (stream) {
-              stream.batchComplete(currentIndex, batchResult.comments, batches.length);
+              // Findings the provider did not stream are emitted now
               batchResult.comments.forEach((comment) => stream.emitComment(comment));
+              stream.batchComplete(currentIndex, batchResult.comments, batches.length);
             }
           })
           .catch((error) => {
+            // A replayed review missing a recording is a broken cassette, not a bad batch
+            if (error instanceof CassetteMissError) {
+              nextIndex = batches.length;
+              if (!settled) {
+                settled = true;
+                reject(error);
+              }
+              return;
+            }
             console.error(`Batch ${currentIndex} failed:`, error);
             results[currentIndex] = this.createEmptyResult(
               error instanceof Error ? error.message : 'Unknown error'
@@ -98,16 +129,19 @@ export class ParallelReviewer {
     batch: CodeChunk[],
     aiProvider: AIProviderInterface,
     globalRules: string[],
-    isDeepDive: boolean = false
+    isDeepDive: boolean = false,
+    stream?: ReviewStream,
+    tools?: ReviewTools
   ): Promise<ReviewResult> {
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
       const timeoutId = setTimeout(() => {
         resolve(this.createEmptyResult('Review timed out'));
       }, this.config.timeout);
 
+      const options = stream ? { onComment: (c: ReviewComment) => stream.emitComment(c) } : {};
       const reviewPromise = isDeepDive
-        ? aiProvider.deepDiveReview(batch, globalRules)
-        : aiProvider.reviewCode(batch, globalRules);
+        ? aiProvider.deepDiveReview(batch, globalRules, { ...options, tools })
+        : aiProvider.reviewCode(batch, globalRules, options);
 
       reviewPromise
         .then((result) => {
@@ -116,6 +150,10 @@ export class ParallelReviewer {
         })
         .catch((error) => {
           clearTimeout(timeoutId);
+          if (error instanceof CassetteMissError) {
+            reject(error);
+            return;
+          }
           resolve(this.createEmptyResult(error instanceof Error ? error.message : 'Unknown error'));
         });
     });
@@ -133,9 +171,17 @@ export class ParallelReviewer {
     };
 
     const summaries: string[] = [];
+    const providers = new Set<string>();
+    const models = new Set<string>();
+    let repairs = 0;
+    let toolCalls = 0;
 
     for (const result of results) {
       combined.comments.push(...result.comments);
+      if (result.metadata?.aiProvider) providers.add(result.metadata.aiProvider);
+      if (result.metadata?.model) models.add(result.metadata.model);
+      repairs += result.metadata?.repairs ?? 0;
+      toolCalls += result.metadata?.toolCalls ?? 0;
       combined.stats.errors += result.stats.errors;
       combined.stats.warnings += result.stats.warnings;
       combined.stats.suggestions += result.stats.suggestions;
@@ -185,6 +231,16 @@ export class ParallelReviewer {
     combined.summary =
       summaries.length > 0 ? summaries.join('\n\n---\n\n') : 'No summaries available';
 
+    // Batches can be answered by different providers when the fallback chain kicks in
+    if (providers.size > 0) {
+      combined.metadata = {
+        aiProvider: Array.from(providers).join(', '),
+        model: Array.from(models).join(', '),
+        repairs: repairs || undefined,
+        toolCalls: toolCalls || undefined,
+      };
+    }
+
     return combined;
   }
 
@@ -0,0 +1,237 @@
+/**
+ * Patch Parser - Turns a unified diff into the changed files a review works on
+ *
+ * Accepts `git diff` / `git format-patch` output (including the mail header and
+ * signature around it) as well as plain `diff -u` output. Line numbers in
+ * `changedLines` refer to the post-image, as for a branch review.
+ */
+
+import { ChangedFile, FileStatus } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HUNK_HEADER = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const DEV_NULL = '/dev/null';
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+interface FileEntry {
+  path?: string;
+  oldPath?: string;
+  status: FileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  changedLines: Set<number>;
+}
+
+/**
+ * Parse a unified diff into changed files. Binary files are left out; a file
+ * patched more than once (e.g. across a patch series) is reported once, with
+ * the changes of every patch combined. Its `changedLines` are then only an
+ * approximation, as each patch numbers lines against the previous one's result;
+ * diff the applied series for exact lines.
+ */
+export function parsePatch(patch: string): ChangedFile[] {
+  const lines = patch.split(/\r?\n/);
+  const entries: FileEntry[] = [];
+  let entry: FileEntry | undefined;
+  // A `diff --git` line was read and its `---`/`+++` lines may follow
+  let inGitHeader = false;
+
+  const startEntry = (): FileEntry => {
+    entry = {
+      status: 'modified',
+      binary: false,
+      additions: 0,
+      deletions: 0,
+      changedLines: new Set(),
+    };
+    entries.push(entry);
+    return entry;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] as string;
+
+    if (line.startsWith('diff --git ')) {
+      const current = startEntry();
+      const paths = parseGitHeaderPaths(line.slice('diff --git '.length));
+      current.oldPath = paths?.[0];
+      current.path = paths?.[1];
+      inGitHeader = true;
+      continue;
+    }
+
+    // `---` alone separates a format-patch message from its diffstat
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      // Plain `diff -u` output has no `diff --git` line to start the file
+      const current = inGitHeader && entry ? entry : startEntry();
+      inGitHeader = false;
+      const oldPath = parseHeaderPath(line.slice(4));
+      const newPath = parseHeaderPath((lines[i + 1] as string).slice(4));
+      if (oldPath === DEV_NULL) {
+        current.status = 'added';
+      } else {
+        current.oldPath = oldPath;
+      }
+      if (newPath === DEV_NULL) {
+        current.status = 'deleted';
+        current.path = oldPath;
+      } else {
+        current.path = newPath;
+      }
+      i++;
+      continue;
+    }
+
+    if (!entry) continue;
+
+    const hunk = HUNK_HEADER.exec(line);
+    if (hunk) {
+      inGitHeader = false;
+      i = parseHunk(lines, i + 1, hunk, entry) - 1;
+      continue;
+    }
+
+    if (line.startsWith('new file mode')) {
+      entry.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      entry.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      entry.status = 'renamed';
+      entry.oldPath = unquote(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      entry.path = unquote(line.slice('rename to '.length));
+    } else if (line.startsWith('copy from ')) {
+      entry.status = 'copied';
+      entry.oldPath = unquote(line.slice('copy from '.length));
+    } else if (line.startsWith('copy to ')) {
+      entry.path = unquote(line.slice('copy to '.length));
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      entry.binary = true;
+    }
+  }
+
+  return mergeEntries(entries);
+}
+
+/**
+ * Count a hunk's lines into the entry
+ * @returns Index of the first line after the hunk
+ */
+function parseHunk(
+  lines: string[],
+  start: number,
+  header: RegExpExecArray,
+  entry: FileEntry
+): number {
+  let oldRemaining = header[1] === undefined ? 1 : Number(header[1]);
+  let newRemaining = header[3] === undefined ? 1 : Number(header[3]);
+  let newLine = Number(header[2]);
+  let i = start;
+
+  // The header's counts end the hunk, so trailing text (e.g. a `-- ` signature) is not
+  // mistaken for a change
+  while (i < lines.length && (oldRemaining > 0 || newRemaining > 0)) {
+    const line = lines[i] as string;
+    if (line.startsWith('+')) {
+      entry.additions++;
+      entry.changedLines.add(newLine++);
+      newRemaining--;
+    } else if (line.startsWith('-')) {
+      entry.deletions++;
+      oldRemaining--;
+    } else if (line.startsWith(' ') || line === '') {
+      newLine++;
+      oldRemaining--;
+      newRemaining--;
+    } else if (!line.startsWith('\\')) {
+      // `\ No newline at end of file` is skipped; anything else ends a truncated hunk
+      break;
+    }
+    i++;
+  }
+
+  return i;
+}
+
+function mergeEntries(entries: FileEntry[]): ChangedFile[] {
+  const files = new Map<string, ChangedFile>();
+
+  for (const entry of entries) {
+    if (entry.binary || !entry.path) continue;
+    // e.g. a mode change: nothing to review, as in GitService
+    if (entry.status === 'modified' && entry.additions === 0 && entry.deletions === 0) continue;
+
+    const existing = files.get(entry.path);
+    if (existing) {
+      existing.additions = (existing.additions ?? 0) + entry.additions;
+      existing.deletions = (existing.deletions ?? 0) + entry.deletions;
+      entry.changedLines.forEach((line) => existing.changedLines?.add(line));
+      if (entry.status === 'deleted') existing.status = 'deleted';
+      continue;
+    }
+
+    const previousPath =
+      (entry.status === 'renamed' || entry.status === 'copied') && entry.oldPath !== entry.path
+        ? entry.oldPath
+        : undefined;
+    files.set(entry.path, {
+      path: entry.path,
+      status: entry.status,
+      ...(previousPath && { previousPath }),
+      additions: entry.additions,
+      deletions: entry.deletions,
+      changedLines: entry.changedLines,
+    });
+  }
+
+  return Array.from(files.values());
+}
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/**
+ * Paths of `a/<old> b/<new>`; only unambiguous when both are quoted or the same
+ * length, otherwise the `---`/`+++` or rename lines supply them
+ */
+function parseGitHeaderPaths(paths: string): [string, string] | undefined {
+  const quoted = /^"(.+)" "(.+)"$/.exec(paths);
+  if (quoted) {
+    return [stripPrefix(quoted[1] as string), stripPrefix(quoted[2] as string)];
+  }
+  const separator = (paths.length - 1) / 2;
+  if (paths[separator] !== ' ') return undefined;
+
+  const oldPath = stripPrefix(paths.slice(0, separator));
+  const newPath = stripPrefix(paths.slice(separator + 1));
+  return oldPath === newPath ? [oldPath, newPath] : undefined;
+}
+
+/**
+ * Path of a `---`/`+++` line, without the `a/`/`b/` prefix or a `diff -u` timestamp
+ */
+function parseHeaderPath(value: string): string {
+  const path = unquote(value.split('\t')[0]?.trimEnd() ?? '');
+  return path === DEV_NULL ? path : stripPrefix(path);
+}
+
+/**
+ * Drop the first path component, like `patch -p1`
+ */
+function stripPrefix(path: string): string {
+  const slash = path.indexOf('/');
+  return slash === -1 ? path : path.slice(slash + 1);
+}
+
+function unquote(path: string): string {
+  return path.startsWith('"') && path.endsWith('"') ? path.slice(1, -1) : path;
+}
@@ -3,7 +3,8 @@
  */
 
 import { AIProviderInterface } from '../ai-provider';
-import { ChangedFile, CodeChunk, PRTitleSuggestion } from '../types';
+import { CassetteMissError, ChangedFile, CodeChunk, PRTitleSuggestion } from '../types';
+import type { UsageTracker } from './usage-tracker';
 
 export interface PRTitleAnalyzerOptions {
   aiProvider: AIProviderInterface;
@@ -21,13 +22,15 @@ export class PRTitleAnalyzer {
 
   /**
    * Analyze PR changes and suggest a better title
+   * @param usage - Review usage the model call counts towards; a spent budget skips it
    */
   async analyzePRTitle(
     currentTitle: string | undefined,
     changedFiles: ChangedFile[],
-    chunks: CodeChunk[]
+    chunks: CodeChunk[],
+    usage?: UsageTracker
   ): Promise<PRTitleSuggestion | null> {
-    if (!this.enabled) {
+    if (!this.enabled || usage?.isExhausted()) {
       return null;
     }
 
@@ -52,7 +55,10 @@ export class PRTitleAnalyzer {
       // Create prompt for AI with detailed requirements
       const prompt = this.createTitlePrompt(currentTitle, changeSummary);
 
-      const response = await this.aiProvider.reviewCode([summaryChunk], [prompt]);
+      const response = await this.aiProvider.reviewCode([summaryChunk], [prompt], {
+        pass: 'prTitle',
+      });
+      usage?.record('prTitle', response.metadata?.usage, response.metadata?.model);
 
       // Extract title suggestion from AI response
       const suggestedTitle = this.extractTitleFromResponse(
@@ -75,6 +81,9 @@ export class PRTitleAnalyzer {
         alternatives: alternatives.length > 0 ? alternatives : undefined,
       };
     } catch (error) {
+      if (error instanceof CassetteMissError) {
+        throw error;
+      }
       console.error('Error analyzing PR title:', error);
       return null;
     }
@@ -0,0 +1,262 @@
+/**
+ * Prompt Templates - Repository-provided replacements for the built-in prompts
+ *
+ * Templates are Markdown files, by default in `.sherlock/prompts/`, with an
+ * optional front matter block saying where they apply:
+ *
+ *   ---
+ *   pass: review, deepDive
+ *   role: system
+ *   language: python
+ *   paths: services/**, lib/**
+ *   ---
+ *   You review our Python services. {{default}}
+ *
+ * Every key is optional; a template without front matter replaces the user prompt
+ * of every pass. Bodies use `{{variable}}` placeholders, and `{{#variable}}...{{/variable}}`
+ * sections that are only kept when the variable is non-empty.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join, resolve } from 'path';
+import { ConfigurationError, PromptPass, PromptsConfig } from '../types';
+import { matchesGlob } from './glob';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEFAULT_PROMPTS_DIR = '.sherlock/prompts';
+
+export const PROMPT_PASSES: readonly PromptPass[] = [
+  'review',
+  'deepDive',
+  'scout',
+  'naming',
+  'prTitle',
+  'chat',
+] as const;
+
+export const PROMPT_VARIABLES = [
+  'chunks', // Code blocks of every chunk, with file, lines and dependencies
+  'chunkList', // One line per chunk: file (type): name
+  'rules', // Numbered global and pass-specific rules
+  'framework', // Detected framework, e.g. react
+  'language', // Languages of the chunks, comma-separated
+  'files', // Files being reviewed, one per line
+  'dependencies', // Imports used by the chunks, one per line
+  'relationships', // Related symbols found in the codebase
+  'pass', // The pass being prompted
+  'default', // The built-in prompt this template replaces
+] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+export type PromptVariables = Record<PromptVariable, string>;
+
+/** System prompts set the reviewer's role and output format; user prompts carry the code */
+export type PromptRole = 'system' | 'user';
+
+export interface PromptTemplate {
+  /** File name, used in errors and by `prompts render` */
+  name: string;
+  role: PromptRole;
+  passes?: PromptPass[];
+  languages?: string[];
+  paths?: string[];
+  body: string;
+}
+
+/**
+ * What a prompt is about, for matching templates
+ */
+export interface PromptTarget {
+  languages: string[];
+  files: string[];
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const ANY_TAG = /\{\{[#/]?\s*(\w+)\s*\}\}/g;
+
+// ============================================================================
+// Template Set
+// ============================================================================
+
+export class PromptTemplates {
+  private templates: PromptTemplate[];
+
+  constructor(templates: PromptTemplate[] = []) {
+    this.templates = templates;
+  }
+
+  /**
+   * Load every `.md` template in a directory; a missing directory yields no templates
+   * @throws ConfigurationError for malformed front matter or unknown variables
+   */
+  static load(dir: string): PromptTemplates {
+    if (!existsSync(dir)) {
+      return new PromptTemplates();
+    }
+
+    const templates = readdirSync(dir)
+      .filter((file) => file.endsWith('.md'))
+      .sort()
+      .map((file) => PromptTemplates.parse(file, readFileSync(join(dir, file), 'utf-8')));
+    return new PromptTemplates(templates);
+  }
+
+  /**
+   * Templates of a repository, from `prompts.dir` or the default `.sherlock/prompts`
+   */
+  static forRepository(repoPath: string, config?: PromptsConfig): PromptTemplates {
+    return PromptTemplates.load(resolve(repoPath, config?.dir ?? DEFAULT_PROMPTS_DIR));
+  }
+
+  /**
+   * Parse one template file
+   * @throws ConfigurationError for malformed front matter or unknown variables
+   */
+  static parse(name: string, source: string): PromptTemplate {
+    const match = FRONT_MATTER.exec(source);
+    const template: PromptTemplate = {
+      name,
+      role: 'user',
+      body: match ? source.slice(match[0].length) : source,
+    };
+
+    for (const line of match?.[1]?.split(/\r?\n/) ?? []) {
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        throw new ConfigurationError(
+          `Prompt template ${name}: expected "key: value", got "${line}"`
+        );
+      }
+      const key = line.slice(0, separator).trim();
+      const values = line
+        .slice(separator + 1)
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean);
+
+      switch (key) {
+        case 'pass':
+        case 'passes':
+          template.passes = values.map((value) => parsePass(name, value));
+          break;
+        case 'role':
+          if (values[0] !== 'system' && values[0] !== 'user') {
+            throw new ConfigurationError(
+              `Prompt template ${name}: role must be "system" or "user"`
+            );
+          }
+          template.role = values[0];
+          break;
+        case 'language':
+        case 'languages':
+          template.languages = values.map((value) => value.toLowerCase());
+          break;
+        case 'path':
+        case 'paths':
+          template.paths = values;
+          break;
+        default:
+          throw new ConfigurationError(`Prompt template ${name}: unknown key "${key}"`);
+      }
+    }
+
+    for (const [, variable] of template.body.matchAll(ANY_TAG)) {
+      if (!(PROMPT_VARIABLES as readonly string[]).includes(variable as string)) {
+        throw new ConfigurationError(
+          `Prompt template ${name}: unknown variable {{${variable}}} (available: ${PROMPT_VARIABLES.join(', ')})`
+        );
+      }
+    }
+
+    return template;
+  }
+
+  list(): PromptTemplate[] {
+    return [...this.templates];
+  }
+
+  /**
+   * The most specific template for a prompt, or undefined to use the built-in one.
+   * A path match outranks a language match, which outranks a pass match; ties go
+   * to the first file by name. Language and path constraints must hold for every
+   * chunk in the prompt.
+   */
+  select(pass: PromptPass, role: PromptRole, target: PromptTarget): PromptTemplate | undefined {
+    let best: PromptTemplate | undefined;
+    let bestScore = -1;
+
+    for (const template of this.templates) {
+      if (!this.matches(template, pass, role, target)) continue;
+
+      const score =
+        (template.paths ? 4 : 0) + (template.languages ? 2 : 0) + (template.passes ? 1 : 0);
+      if (score > bestScore) {
+        best = template;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private matches(
+    template: PromptTemplate,
+    pass: PromptPass,
+    role: PromptRole,
+    target: PromptTarget
+  ): boolean {
+    if (template.role !== role || (template.passes && !template.passes.includes(pass))) {
+      return false;
+    }
+
+    const { languages, paths } = template;
+    if (
+      languages &&
+      (target.languages.length === 0 ||
+        !target.languages.every((language) => languages.includes(language.toLowerCase())))
+    ) {
+      return false;
+    }
+
+    return (
+      !paths || (target.files.length > 0 && target.files.every((file) => matchesGlob(file, paths)))
+    );
+  }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Fill a template's sections and placeholders
+ */
+export function renderTemplate(template: PromptTemplate, variables: PromptVariables): string {
+  const value = (name: string): string => variables[name as PromptVariable] ?? '';
+
+  return template.body
+    .replace(SECTION, (_, name: string, content: string) => (value(name).trim() ? content : ''))
+    .replace(PLACEHOLDER, (_, name: string) => value(name))
+    .trim();
+}
+
+function parsePass(name: string, value: string): PromptPass {
+  const pass = PROMPT_PASSES.find((candidate) => candidate === value);
+  if (!pass) {
+    throw new ConfigurationError(
+      `Prompt template ${name}: unknown pass "${value}" (available: ${PROMPT_PASSES.join(', ')})`
+    );
+  }
+  return pass;
+}
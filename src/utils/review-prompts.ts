@@ -0,0 +1,261 @@
+/**
+ * Review Prompts - Built-in prompts for every pass, overridable by repository templates
+ *
+ * Providers ask this builder for the system and user prompt of a pass. A matching
+ * template from PromptTemplates replaces the built-in prompt, which templates can
+ * still pull in through `{{default}}`.
+ */
+
+import { CodeChunk, FileLanguageMap, PromptPass } from '../types';
+import { ContextAwarePromptBuilder } from './context-aware-prompt';
+import { PromptRole, PromptTemplates, PromptVariables, renderTemplate } from './prompt-templates';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LANGUAGE_MAP: FileLanguageMap = {
+  ts: 'typescript',
+  tsx: 'tsx',
+  js: 'javascript',
+  jsx: 'jsx',
+  vue: 'vue',
+  svelte: 'svelte',
+  py: 'python',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  kt: 'kotlin',
+  rb: 'ruby',
+  css: 'css',
+  scss: 'scss',
+  html: 'html',
+  json: 'json',
+};
+
+export const SYSTEM_PROMPT = `You are an Expert Senior Software Engineer & Code Reviewer.
+
+Your job is to analyze provided code and return a fully structured PR review.
+
+## Reasoning Process (Chain-of-Thought)
+Before providing the final JSON, you MUST internalize the following:
+1. **Analyze Context**: Understand what this code does and its role in the system.
+2. **Trace Dependencies**: Consider how changes might affect call-sites or dependent modules.
+3. **Identify Side Effects**: Look for hidden implications (e.g., race conditions, memory leaks, breaking API changes).
+4. **Evaluate Severity**: Only report issues that truly matter. Avoid bikeshedding.
+
+## JSON OUTPUT SCHEMA (MANDATORY)
+Your final answer MUST be a JSON object matching exactly this shape:
+
+{
+  "reasoning": "A brief summary of your internal analysis and chain-of-thought",
+  "bugs": [
+    {
+      "severity": "Critical | High | Medium | Low | Nitpick",
+      "file": "path/to/file",
+      "line": 0,
+      "description": "string",
+      "fix": "string",
+      "impact_analysis": "Predicted side effects of this bug or its fix"
+    }
+  ],
+  "security": [... same structure ...],
+  "performance": [... same structure ...],
+  "code_quality": [... same structure ...],
+  "architecture": [... same structure ...],
+  "summary": {
+    "recommendation": "BLOCK | REQUEST_CHANGES | APPROVE_WITH_NITS | APPROVE",
+    "top_issues": ["string", "string"],
+    "complexity_score": 0-10,
+    "critical_files": ["string"]
+  }
+}
+
+If a category has no issues, return an empty array.
+
+---
+
+## Rules
+- **Context-Aware Severity**: Be conservative with severity. If a security risk (like AllowedOrigins: ["*"]) is explicitly gated behind a development check (e.g., \`if (env === "development")\`), do NOT mark it as an Error. Use WARNING or INFO instead.
+- Do NOT hallucinate file names or line numbers.
+- Do NOT output anything except valid JSON.
+- Every issue MUST include: severity, file, line, description, fix.
+- Focus on accuracy and actionable feedback.`;
+
+const SCOUT_SYSTEM_PROMPT = 'You are a high-speed complexity analyzer.';
+
+const DEEP_DIVE_RULES = [
+  'CRITICAL: Perform an exhaustive deep-dive analysis of this code.',
+  'Trace all data flows and identify subtle race conditions or edge cases.',
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+  /** Names of the templates used, empty when both prompts are built in */
+  templates: string[];
+}
+
+// ============================================================================
+// Review Prompt Builder
+// ============================================================================
+
+export class ReviewPromptBuilder {
+  private templates: PromptTemplates;
+  private useContextAwarePrompts: boolean;
+  private contextBuilder = new ContextAwarePromptBuilder();
+
+  constructor(templates = new PromptTemplates(), useContextAwarePrompts: boolean = true) {
+    this.templates = templates;
+    this.useContextAwarePrompts = useContextAwarePrompts;
+  }
+
+  setTemplates(templates: PromptTemplates): void {
+    this.templates = templates;
+  }
+
+  /**
+   * System and user prompt for one pass over the given chunks
+   * @param globalRules - Global rules plus any pass-specific instructions
+   */
+  build(pass: PromptPass, chunks: CodeChunk[], globalRules: string[]): RenderedPrompt {
+    const rules = pass === 'deepDive' ? [...globalRules, ...DEEP_DIVE_RULES] : globalRules;
+    const variables = this.variables(pass, chunks, rules);
+    const target = {
+      languages: Array.from(new Set(chunks.map((chunk) => this.languageOf(chunk)))),
+      files: Array.from(new Set(chunks.map((chunk) => chunk.file))),
+    };
+    const templates: string[] = [];
+
+    const render = (role: PromptRole, builtIn: string): string => {
+      const template = this.templates.select(pass, role, target);
+      if (!template) {
+        return builtIn;
+      }
+      templates.push(template.name);
+      return renderTemplate(template, { ...variables, default: builtIn });
+    };
+
+    if (pass === 'scout') {
+      return {
+        system: render('system', SCOUT_SYSTEM_PROMPT),
+        user: render('user', this.buildScoutPrompt(variables.chunkList)),
+        templates,
+      };
+    }
+
+    return {
+      system: render('system', SYSTEM_PROMPT),
+      user: render('user', this.buildPrompt(chunks, rules)),
+      templates,
+    };
+  }
+
+  getLanguageFromFile(filePath: string): string {
+    const ext = filePath.split('.').pop()?.toLowerCase() ?? '';
+    return LANGUAGE_MAP[ext] ?? (ext || 'text');
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private languageOf(chunk: CodeChunk): string {
+    return chunk.language || this.getLanguageFromFile(chunk.file);
+  }
+
+  private variables(
+    pass: PromptPass,
+    chunks: CodeChunk[],
+    globalRules: string[]
+  ): Omit<PromptVariables, 'default'> {
+    const context = ContextAwarePromptBuilder.extractContext(chunks);
+    const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+    return {
+      chunks: this.formatChunks(chunks),
+      chunkList: chunks.map((c) => `- ${c.file} (${c.type}): ${c.name}`).join('\n'),
+      rules: globalRules.map((rule, index) => `${index + 1}. ${rule}`).join('\n'),
+      framework: context.framework && context.framework !== 'none' ? context.framework : '',
+      language: unique(chunks.map((chunk) => this.languageOf(chunk))).join(', '),
+      files: unique(chunks.map((chunk) => `- ${chunk.file}`)).join('\n'),
+      dependencies: unique(chunks.flatMap((chunk) => chunk.dependencies ?? []))
+        .map((dependency) => `- ${dependency}`)
+        .join('\n'),
+      relationships: (context.relationships ?? [])
+        .map((rel) => `- ${rel.symbol} (${rel.type}) in ${rel.file}`)
+        .join('\n'),
+      pass,
+    };
+  }
+
+  private buildScoutPrompt(chunkList: string): string {
+    return `Perform a high-level scout review of these code chunks.
+Identify complexity hotspots and critical files that need deep-dive analysis.
+Return ONLY JSON: { "complexityScore": 0-10, "criticalFiles": ["file1", "file2"] }
+
+Chunks:
+${chunkList}`;
+  }
+
+  private buildPrompt(chunks: CodeChunk[], globalRules: string[]): string {
+    if (this.useContextAwarePrompts) {
+      // Extract context from chunks
+      const context = ContextAwarePromptBuilder.extractContext(chunks);
+
+      // Build context-aware prompt
+      return this.contextBuilder.buildPrompt(chunks, globalRules, context);
+    }
+
+    // Fallback to simple prompt
+    return this.buildSimplePrompt(chunks, globalRules);
+  }
+
+  private buildSimplePrompt(chunks: CodeChunk[], globalRules: string[]): string {
+    let prompt = '# Code Review Request\n\n';
+
+    if (globalRules.length > 0) {
+      prompt += '## Additional Rules to Check\n\n';
+      globalRules.forEach((rule, index) => {
+        prompt += `${index + 1}. ${rule}\n`;
+      });
+      prompt += '\n';
+    }
+
+    prompt += '## Code Chunks to Review\n\n';
+    prompt += this.formatChunks(chunks);
+
+    prompt +=
+      '\n**IMPORTANT**: Only report issues on the lines shown above. Do not hallucinate file names or line numbers.\n';
+
+    return prompt;
+  }
+
+  private formatChunks(chunks: CodeChunk[]): string {
+    let text = '';
+    chunks.forEach((chunk, index) => {
+      text += `### Chunk ${index + 1}: ${chunk.name} (${chunk.type})\n`;
+      text += `**File:** ${chunk.file}\n`;
+      text += `**Lines:** ${chunk.startLine}-${chunk.endLine}\n`;
+
+      // Include language and extension information from chunkyyy
+      if (chunk.language) {
+        text += `**Language:** ${chunk.language}\n`;
+      }
+      if (chunk.extension) {
+        text += `**File Extension:** ${chunk.extension}\n`;
+      }
+
+      if (chunk.dependencies && chunk.dependencies.length > 0) {
+        text += `**Dependencies:** ${chunk.dependencies.join(', ')}\n`;
+      }
+
+      text += `\n\`\`\`${this.languageOf(chunk)}\n${chunk.content}\n\`\`\`\n\n`;
+    });
+    return text;
+  }
+}
@@ -25,6 +25,7 @@ export class ReviewStream {
   private callbacks: ReviewStreamCallbacks;
   private startTime: number = 0;
   private batchTimes: number[] = [];
+  private emittedComments = new Set<string>();
 
   constructor(callbacks: ReviewStreamCallbacks) {
     this.callbacks = callbacks;
@@ -36,6 +37,7 @@ export class ReviewStream {
   start(totalBatches: number): void {
     this.startTime = Date.now();
     this.batchTimes = [];
+    this.emittedComments.clear();
     this.emitProgress({
       totalBatches,
       completedBatches: 0,
@@ -45,9 +47,16 @@ export class ReviewStream {
   }
 
   /**
-   * Emit a comment as soon as it's generated
+   * Emit a comment as soon as it's generated.
+   * A comment already emitted while streaming is not emitted again when its batch completes.
    */
   emitComment(comment: ReviewComment): void {
+    const key = `${comment.file}:${comment.line}:${comment.body}`;
+    if (this.emittedComments.has(key)) {
+      return;
+    }
+    this.emittedComments.add(key);
+
     if (this.callbacks.onComment) {
       this.callbacks.onComment(comment);
     }
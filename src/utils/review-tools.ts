@@ -0,0 +1,381 @@
+/**
+ * Review Tools - Repository lookups a model can request during a deep dive
+ *
+ * The model sees only the batched chunks; these tools let it read other files,
+ * find where a symbol is defined or called, and grep the repository before it
+ * commits to a finding. Calls are made through a plain JSON protocol so every
+ * provider supports them:
+ *
+ *   {"tool_calls": [{"name": "find_symbol", "arguments": {"name": "sanitize"}}]}
+ *
+ * Tool failures are reported back to the model as text rather than thrown.
+ */
+
+import type { CodegraphAnalyzer } from '../analyzers/codegraph-analyzer';
+import type { GitService } from '../git';
+import { CodeIndexer } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** Argument name → description; a trailing `?` marks optional arguments */
+  arguments: Record<string, string>;
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  call: ToolCall;
+  output: string;
+}
+
+/**
+ * What a provider needs to run the tool loop
+ */
+export interface ReviewTools {
+  definitions: readonly ToolDefinition[];
+  /** Tool calls allowed per batch */
+  budget: number;
+  run(call: ToolCall): Promise<string>;
+}
+
+export interface RepositoryToolsOptions {
+  git: GitService;
+  /** Branch or commit the tools read from (defaults to HEAD) */
+  ref?: string;
+  codegraph?: CodegraphAnalyzer;
+  indexer?: CodeIndexer;
+  /** Checkout of `ref` the indexer parses (defaults to the repository) */
+  rootDir?: string;
+  /** Tool calls allowed per batch (default 8) */
+  maxToolCalls?: number;
+  /** Longest tool output sent back to the model, in characters (default 8000) */
+  maxOutputChars?: number;
+}
+
+export const REVIEW_TOOLS: readonly ToolDefinition[] = [
+  {
+    name: 'read_file',
+    description: 'Read a file of the repository, optionally only a line range',
+    arguments: { path: 'repository-relative path', 'startLine?': 'number', 'endLine?': 'number' },
+  },
+  {
+    name: 'find_symbol',
+    description: 'Show where a function, class, type or constant is defined',
+    arguments: { name: 'symbol name' },
+  },
+  {
+    name: 'find_callers',
+    description: 'List the places that call a function',
+    arguments: { name: 'function name' },
+  },
+  {
+    name: 'grep',
+    description: 'Search the repository with an extended regular expression',
+    arguments: { pattern: 'regex', 'path?': 'directory or file to search in' },
+  },
+] as const;
+
+const DEFAULT_MAX_TOOL_CALLS = 8;
+const DEFAULT_MAX_OUTPUT_CHARS = 8000;
+const MAX_MATCHES = 50;
+const MAX_DEFINITIONS = 5;
+/** Lines shown from a definition when the indexer cannot say where it ends */
+const DEFINITION_CONTEXT_LINES = 30;
+
+const DEFINITION_KEYWORDS =
+  'function|class|interface|type|enum|const|let|var|def|func|struct|trait|fn|impl';
+
+// ============================================================================
+// Repository Tools
+// ============================================================================
+
+export class RepositoryTools implements ReviewTools {
+  readonly definitions = REVIEW_TOOLS;
+  readonly budget: number;
+  private git: GitService;
+  private ref?: string;
+  private codegraph?: CodegraphAnalyzer;
+  private indexer?: CodeIndexer;
+  private rootDir: string;
+  private maxOutputChars: number;
+
+  constructor(options: RepositoryToolsOptions) {
+    this.git = options.git;
+    this.ref = options.ref;
+    this.codegraph = options.codegraph;
+    this.indexer = options.indexer;
+    this.rootDir = options.rootDir ?? options.git.repoPath;
+    this.budget = options.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS;
+    this.maxOutputChars = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+  }
+
+  /**
+   * Run one tool call; errors and bad arguments come back as text for the model
+   */
+  async run(call: ToolCall): Promise<string> {
+    try {
+      const output = await this.dispatch(call);
+      return truncate(output, this.maxOutputChars);
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async dispatch({ name, arguments: args }: ToolCall): Promise<string> {
+    switch (name) {
+      case 'read_file':
+        return this.readFile(
+          stringArg(args, 'path'),
+          numberArg(args, 'startLine'),
+          numberArg(args, 'endLine')
+        );
+      case 'find_symbol':
+        return this.findSymbol(identifierArg(args, 'name'));
+      case 'find_callers':
+        return this.findCallers(identifierArg(args, 'name'));
+      case 'grep':
+        return this.grep(stringArg(args, 'pattern'), optionalStringArg(args, 'path'));
+      default:
+        throw new Error(
+          `Unknown tool "${name}" (available: ${REVIEW_TOOLS.map((tool) => tool.name).join(', ')})`
+        );
+    }
+  }
+
+  private async readFile(path: string, startLine?: number, endLine?: number): Promise<string> {
+    const content = await this.git.getFileContent(safePath(path), this.ref);
+    const lines = content.split('\n');
+    const start = Math.max(1, startLine ?? 1);
+    const end = Math.min(lines.length, endLine ?? lines.length);
+    return numberLines(lines.slice(start - 1, end), start);
+  }
+
+  private async findSymbol(name: string): Promise<string> {
+    const hits = await this.git.grep(
+      `(${DEFINITION_KEYWORDS})[[:space:]]+${name}([^[:alnum:]_]|$)`,
+      this.ref
+    );
+    const exporters = this.codegraph?.findExporters(name) ?? [];
+    const files = new Set([...exporters, ...hits.map((hit) => hit.file)]);
+    if (files.size === 0) {
+      return `No definition of ${name} found`;
+    }
+
+    const sections: string[] = [];
+    for (const file of Array.from(files).slice(0, MAX_DEFINITIONS)) {
+      const content = (await this.git.getFileContent(file, this.ref)).split('\n');
+      const span = await this.definitionSpan(file, name, hits);
+      if (span) {
+        sections.push(
+          `${file}:${span.start}\n${numberLines(content.slice(span.start - 1, span.end), span.start)}`
+        );
+      } else {
+        sections.push(`${file} (exports ${name})`);
+      }
+    }
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Lines of a definition: the indexer's symbol span when it knows the file,
+   * otherwise a window after the grep hit
+   */
+  private async definitionSpan(
+    file: string,
+    name: string,
+    hits: Array<{ file: string; line: number }>
+  ): Promise<{ start: number; end: number } | undefined> {
+    if (this.indexer && (await this.indexer.isAvailable())) {
+      const symbols = await this.indexer.extractSymbols(this.rootDir, file);
+      const symbol = symbols.find((candidate) => candidate.name === name);
+      if (symbol) {
+        return { start: symbol.start_line, end: symbol.end_line };
+      }
+    }
+
+    const hit = hits.find((candidate) => candidate.file === file);
+    return hit ? { start: hit.line, end: hit.line + DEFINITION_CONTEXT_LINES - 1 } : undefined;
+  }
+
+  private async findCallers(name: string): Promise<string> {
+    const definition = new RegExp(`(${DEFINITION_KEYWORDS})\\s+${name}\\b`);
+    const hits = await this.git.grep(`(^|[^[:alnum:]_])${name}[[:space:]]*\\(`, this.ref);
+    const at = (file: string, line: number): string => `${file}:${line}`;
+    const definitions = new Set(
+      hits.filter((hit) => definition.test(hit.text)).map((hit) => at(hit.file, hit.line))
+    );
+
+    // The codegraph knows the enclosing function of calls within a file
+    const callers = new Map<string, string>();
+    for (const { file, caller, line } of this.codegraph?.findCallers(name) ?? []) {
+      if (!definitions.has(at(file, line)) && caller !== 'anonymous') {
+        callers.set(at(file, line), caller);
+      }
+    }
+
+    const lines = hits
+      .filter((hit) => !definitions.has(at(hit.file, hit.line)))
+      .map((hit) => {
+        const caller = callers.get(at(hit.file, hit.line));
+        return `${at(hit.file, hit.line)}: ${hit.text.trim()}${caller ? ` (in ${caller})` : ''}`;
+      });
+    return lines.length > 0 ? limitMatches(lines) : `No callers of ${name} found`;
+  }
+
+  private async grep(pattern: string, path?: string): Promise<string> {
+    const hits = await this.git.grep(pattern, this.ref, path ? safePath(path) : undefined);
+    return hits.length > 0
+      ? limitMatches(hits.map((hit) => `${hit.file}:${hit.line}: ${hit.text.trim()}`))
+      : 'No matches';
+  }
+}
+
+// ============================================================================
+// Prompting
+// ============================================================================
+
+/**
+ * Instructions appended to the system prompt when tools are available
+ */
+export function buildToolInstructions(tools: readonly ToolDefinition[], budget: number): string {
+  const list = tools
+    .map((tool) => {
+      const args = Object.entries(tool.arguments)
+        .map(([name, description]) => `${name}: ${description}`)
+        .join(', ');
+      return `- ${tool.name}(${args}): ${tool.description}`;
+    })
+    .join('\n');
+
+  return `## Repository Tools
+Before answering you may look up code outside these chunks, e.g. to check how a helper
+defined in another file behaves. Only report an issue once you are confident it is real.
+To use tools, reply with ONLY this JSON and nothing else:
+{"tool_calls": [{"name": "<tool>", "arguments": {...}}]}
+
+Available tools:
+${list}
+
+You can make at most ${budget} tool call(s) in total. When you have enough context,
+reply with the review JSON instead.`;
+}
+
+/**
+ * Tool results appended to the user prompt of the next turn
+ */
+export function formatToolResults(results: ToolResult[], remaining: number): string {
+  const sections = results.map(
+    ({ call, output }) =>
+      `### ${call.name} ${JSON.stringify(call.arguments)}\n\`\`\`\n${output}\n\`\`\``
+  );
+  const footer =
+    remaining > 0
+      ? `${remaining} tool call(s) left.`
+      : 'The tool budget is used up: reply with the final review JSON now.';
+  return `## Tool Results\n\n${sections.join('\n\n')}\n\n${footer}`;
+}
+
+/**
+ * The tool calls a response asks for, or undefined when it is not a tool request
+ */
+export function parseToolCalls(json: string): ToolCall[] | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+
+  const calls = (parsed as { tool_calls?: unknown } | null)?.tool_calls;
+  if (!Array.isArray(calls)) {
+    return undefined;
+  }
+
+  return calls
+    .filter(
+      (call): call is { name: string; arguments?: unknown } =>
+        typeof (call as { name?: unknown } | null)?.name === 'string'
+    )
+    .map((call) => ({
+      name: call.name,
+      arguments:
+        call.arguments && typeof call.arguments === 'object'
+          ? (call.arguments as Record<string, unknown>)
+          : {},
+    }));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function stringArg(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`"${name}" must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function optionalStringArg(args: Record<string, unknown>, name: string): string | undefined {
+  return args[name] === undefined ? undefined : stringArg(args, name);
+}
+
+function numberArg(args: Record<string, unknown>, name: string): number | undefined {
+  const value = args[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`"${name}" must be a positive line number`);
+  }
+  return value;
+}
+
+/** Symbol names go into regular expressions, so only identifiers are accepted */
+function identifierArg(args: Record<string, unknown>, name: string): string {
+  const value = stringArg(args, name);
+  if (!/^[A-Za-z_$][\w$]*$/.test(value)) {
+    throw new Error(`"${name}" must be an identifier, got "${value}"`);
+  }
+  return value.replace(/\$/g, '\\$');
+}
+
+/**
+ * Reject paths that leave the repository
+ */
+function safePath(path: string): string {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '');
+  if (normalized.startsWith('/') || normalized.split('/').includes('..')) {
+    throw new Error(`Path must be inside the repository: ${path}`);
+  }
+  return normalized;
+}
+
+function numberLines(lines: string[], first: number): string {
+  return lines.map((line, index) => `${first + index}: ${line}`).join('\n');
+}
+
+function limitMatches(lines: string[]): string {
+  return lines.length > MAX_MATCHES
+    ? `${lines.slice(0, MAX_MATCHES).join('\n')}\n... ${lines.length - MAX_MATCHES} more`
+    : lines.join('\n');
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max
+    ? `${text.slice(0, max)}\n... truncated ${text.length - max} characters`
+    : text;
+}
@@ -0,0 +1,189 @@
+import {
+  BatchUsage,
+  BudgetConfig,
+  CodeChunk,
+  ModelPrice,
+  ReviewPass,
+  ReviewUsage,
+  TokenUsage,
+  UnreviewedChunk,
+} from '../types';
+
+/**
+ * Usage Tracker - Totals token usage and cost for one review
+ *
+ * Usage is recorded per batch and per pass (scout, review, deep dive). Costs come
+ * from a price table keyed by model name; models without a price count as free, so
+ * a `maxCost` budget only sees priced models.
+ */
+export class UsageTracker {
+  private pricing: Record<string, ModelPrice>;
+  private budget?: BudgetConfig;
+  private parent?: UsageTracker;
+  private batches: BatchUsage[] = [];
+  private unreviewed: UnreviewedChunk[] = [];
+
+  /**
+   * @param parent - Tracker of the whole review when this one tracks a part of it; see
+   *   createChild
+   */
+  constructor(
+    pricing: Record<string, ModelPrice> = {},
+    budget?: BudgetConfig,
+    parent?: UsageTracker
+  ) {
+    this.pricing = pricing;
+    this.budget = budget;
+    this.parent = parent;
+  }
+
+  /**
+   * Tracker for part of the review (e.g. one package) under its own budget. Its usage
+   * also counts towards this tracker, whose budget still applies on top.
+   */
+  createChild(budget?: BudgetConfig): UsageTracker {
+    return new UsageTracker(this.pricing, budget, this);
+  }
+
+  /**
+   * Record the usage of one model call. A cost already on the usage (e.g. from a
+   * consensus review that priced each of its models) is kept as is.
+   * @param batch - Batch index; the scout pass uses -1
+   */
+  record(pass: ReviewPass, usage: TokenUsage | undefined, model?: string, batch = -1): void {
+    if (!usage) {
+      return;
+    }
+
+    this.add({
+      batch,
+      pass,
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: usage.cost ?? this.priceOf(usage, model),
+    });
+  }
+
+  /**
+   * Whether the budget is spent; no further batches should start
+   */
+  isExhausted(): boolean {
+    if (this.parent?.isExhausted()) {
+      return true;
+    }
+    if (!this.budget) {
+      return false;
+    }
+
+    const total = this.total(this.batches);
+    const { maxTokens, maxCost } = this.budget;
+    return (
+      (maxTokens !== undefined && total.promptTokens + total.completionTokens >= maxTokens) ||
+      (maxCost !== undefined && (total.cost ?? 0) >= maxCost)
+    );
+  }
+
+  /**
+   * Tokens left under `maxTokens` (and the parent's), or undefined without a token budget
+   */
+  remainingTokens(): number | undefined {
+    const parentRemaining = this.parent?.remainingTokens();
+    if (this.budget?.maxTokens === undefined) {
+      return parentRemaining;
+    }
+    const total = this.total(this.batches);
+    const remaining = Math.max(
+      0,
+      this.budget.maxTokens - total.promptTokens - total.completionTokens
+    );
+    return parentRemaining === undefined ? remaining : Math.min(remaining, parentRemaining);
+  }
+
+  /**
+   * Note chunks skipped because the budget ran out
+   */
+  markUnreviewed(chunks: CodeChunk[]): void {
+    this.parent?.markUnreviewed(chunks);
+    this.unreviewed.push(
+      ...chunks.map(({ id, file, name, startLine, endLine }) => ({
+        id,
+        file,
+        name,
+        startLine,
+        endLine,
+      }))
+    );
+  }
+
+  getUnreviewedChunks(): UnreviewedChunk[] {
+    return [...this.unreviewed];
+  }
+
+  /**
+   * Totals per review, per pass and per batch
+   */
+  getUsage(): ReviewUsage {
+    const passes: Partial<Record<ReviewPass, TokenUsage>> = {};
+    for (const pass of new Set(this.batches.map((entry) => entry.pass))) {
+      passes[pass] = this.total(this.batches.filter((entry) => entry.pass === pass));
+    }
+
+    return {
+      ...this.total(this.batches),
+      passes,
+      batches: [...this.batches],
+      budget: this.budget
+        ? {
+            ...this.budget,
+            exhausted: this.isExhausted() || this.unreviewed.length > 0,
+            unreviewedChunks: [...this.unreviewed],
+          }
+        : undefined,
+    };
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private add(entry: BatchUsage): void {
+    this.batches.push(entry);
+    this.parent?.add(entry);
+  }
+
+  private total(entries: TokenUsage[]): TokenUsage {
+    const priced = entries.filter((entry) => entry.cost !== undefined);
+    return {
+      promptTokens: entries.reduce((sum, entry) => sum + entry.promptTokens, 0),
+      completionTokens: entries.reduce((sum, entry) => sum + entry.completionTokens, 0),
+      cost:
+        priced.length > 0 ? priced.reduce((sum, entry) => sum + (entry.cost ?? 0), 0) : undefined,
+    };
+  }
+
+  private priceOf(usage: TokenUsage, model?: string): number | undefined {
+    const price = model ? this.findPrice(model) : undefined;
+    if (!price) {
+      return undefined;
+    }
+    return (
+      (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000
+    );
+  }
+
+  /**
+   * Exact model name first, then the longest key the model name starts with, so
+   * `gpt-4o` also prices dated snapshots such as `gpt-4o-2024-08-06`
+   */
+  private findPrice(model: string): ModelPrice | undefined {
+    if (this.pricing[model]) {
+      return this.pricing[model];
+    }
+
+    const prefix = Object.keys(this.pricing)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.pricing[prefix] : undefined;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Webhook Event Dispatcher - Routes normalized webhook events to the reviewer
+ * and to the @sherlock chat handler
+ */
+
+import chalk from 'chalk';
+import * as path from 'path';
+import { AIProviderFactory } from '../ai-provider';
+import { CommandParser, hasSherlockCommand } from '../conversation/command-parser';
+import { GitService } from '../git';
+import { PRCommentServiceFactory } from '../pr-comments';
+import {
+  CommandContext,
+  CommandType,
+  Config,
+  ConfigurationError,
+  ReviewCancelledError,
+} from '../types';
+import { NormalizedWebhookEvent } from '../types/webhooks';
+import { ReviewQueue } from './review-queue';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Hidden marker added to every reply so that our own comments
+ * (which may quote @sherlock usage) never trigger another command.
+ */
+const RESPONSE_MARKER = '<!-- code-sherlock-response -->';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+export interface WebhookEventDispatcherOptions {
+  /** Base configuration; repository and PR fields are filled in per event */
+  config: Config;
+  /** Path to the local clone used for reviews */
+  repoPath?: string;
+}
+
+// ============================================================================
+// Webhook Event Dispatcher
+// ============================================================================
+
+export class WebhookEventDispatcher {
+  private config: Config;
+  private repoPath: string;
+  private parser: CommandParser;
+  private queue: ReviewQueue;
+
+  constructor(options: WebhookEventDispatcherOptions) {
+    this.config = options.config;
+    this.repoPath = options.repoPath ?? process.cwd();
+    this.parser = new CommandParser();
+    // Reviews read git objects and use their own worktree, so PRs can be reviewed
+    // concurrently against the shared clone
+    this.queue = new ReviewQueue({
+      runner: (event, signal): Promise<void> => this.reviewPullRequest(event, signal),
+      concurrency: this.config.webhook?.concurrency,
+      // Kept inside .git so the reviewed clone's work tree stays clean
+      storagePath:
+        this.config.webhook?.queuePath ?? path.join(this.repoPath, '.git', 'sherlock-queue'),
+    });
+  }
+
+  /**
+   * Dispatch a normalized event to the matching action
+   */
+  async dispatch(event: NormalizedWebhookEvent): Promise<void> {
+    switch (event.eventType) {
+      case 'pr_opened':
+      case 'pr_updated':
+        return this.enqueueReview(event);
+      case 'comment_created':
+        return this.handleComment(event);
+      case 'comment_edited':
+        // Only freshly posted commands are acted upon
+        return;
+    }
+  }
+
+  /**
+   * Re-queue reviews that were pending when the server last stopped
+   */
+  resume(): number {
+    const restored = this.queue.resume();
+    if (restored > 0) {
+      console.log(chalk.gray(`Resumed ${restored} pending review(s)`));
+    }
+    return restored;
+  }
+
+  /**
+   * Resolves once all queued reviews have finished
+   */
+  onIdle(): Promise<void> {
+    return this.queue.onIdle();
+  }
+
+  /**
+   * Build the per-event configuration (repository, PR number, forge credentials)
+   */
+  buildEventConfig(event: NormalizedWebhookEvent): Config {
+    const baseBranch = event.pr?.baseBranch ?? this.config.repository.baseBranch;
+    const repository = {
+      ...this.config.repository,
+      owner: event.owner,
+      repo: event.repo,
+      baseBranch,
+    };
+    const pr = { number: event.prNumber, baseBranch: event.pr?.baseBranch };
+
+    if (event.platform === 'github') {
+      if (!this.config.github?.token && !this.config.github?.app) {
+        throw new ConfigurationError(
+          'A GitHub token or GitHub App is required to handle GitHub webhooks'
+        );
+      }
+      // Authenticate as the installation that sent the event
+      const app = this.config.github?.app;
+      const github =
+        app && event.installationId
+          ? { ...this.config.github, app: { ...app, installationId: event.installationId } }
+          : this.config.github;
+      return { ...this.config, repository, pr, github, gitlab: undefined };
+    }
+
+    if (!this.config.gitlab?.token) {
+      throw new ConfigurationError('GitLab token is required to handle GitLab webhooks');
+    }
+    const projectPath = event.owner ? `${event.owner}/${event.repo}` : event.repo;
+    return {
+      ...this.config,
+      repository,
+      pr,
+      github: undefined,
+      gitlab: { ...this.config.gitlab, projectId: encodeURIComponent(projectPath) },
+    };
+  }
+
+  // ============================================================================
+  // Private Methods - Reviews
+  // ============================================================================
+
+  /**
+   * Queue a review; a newer head SHA supersedes any queued or running review of the same PR
+   */
+  private enqueueReview(event: NormalizedWebhookEvent): Promise<void> {
+    if (event.pr?.isDraft && !this.config.webhook?.reviewDrafts) {
+      console.log(chalk.gray(`Skipping draft ${this.describe(event)}`));
+      return Promise.resolve();
+    }
+
+    const result = this.queue.enqueue(event);
+    if (result === 'duplicate') {
+      console.log(chalk.gray(`Review of ${this.describe(event)} is already queued`));
+    } else if (result === 'superseded') {
+      console.log(chalk.gray(`Superseded previous review of ${this.describe(event)}`));
+    }
+    return Promise.resolve();
+  }
+
+  private async reviewPullRequest(
+    event: NormalizedWebhookEvent,
+    signal: AbortSignal
+  ): Promise<void> {
+    const eventConfig = this.buildEventConfig(event);
+    const localRef = `sherlock/${event.platform}-pr-${event.prNumber}`;
+
+    console.log(chalk.blue(`\n📥 Reviewing ${this.describe(event)}`));
+
+    const git = new GitService(this.repoPath);
+    await git.fetchRef(this.getPullRequestRef(event), `refs/remotes/origin/${localRef}`);
+    if (signal.aborted) {
+      throw new ReviewCancelledError();
+    }
+
+    // Lazy-load the reviewer so the server starts quickly
+    const { PRReviewer } = await import('../reviewer');
+    const reviewer = new PRReviewer(eventConfig, this.repoPath);
+    const baseBranch = event.pr ? `origin/${event.pr.baseBranch}` : undefined;
+
+    await reviewer.reviewPR(`origin/${localRef}`, true, baseBranch, undefined, signal);
+  }
+
+  private getPullRequestRef(event: NormalizedWebhookEvent): string {
+    return event.platform === 'github'
+      ? `pull/${event.prNumber}/head`
+      : `merge-requests/${event.prNumber}/head`;
+  }
+
+  // ============================================================================
+  // Private Methods - Commands
+  // ============================================================================
+
+  private async handleComment(event: NormalizedWebhookEvent): Promise<void> {
+    const comment = event.comment;
+    if (!comment || comment.body.includes(RESPONSE_MARKER) || !hasSherlockCommand(comment.body)) {
+      return;
+    }
+
+    const context: CommandContext = {
+      prNumber: event.prNumber,
+      commentId: comment.id,
+      owner: event.owner,
+      repo: event.repo,
+      user: event.sender,
+      filePath: comment.filePath,
+      lineNumber: comment.lineNumber,
+      fullCommentBody: comment.body,
+    };
+
+    const commands = this.parser.parseAll(comment.body, context);
+    if (commands.length === 0) {
+      return;
+    }
+
+    const eventConfig = this.buildEventConfig(event);
+    const commentService = PRCommentServiceFactory.create(eventConfig);
+
+    // Lazy-load the chat handler (pulls in the chunker)
+    const { createChatHandler } = await import('../conversation/chat-handler');
+    const chatHandler = createChatHandler({
+      aiProvider: AIProviderFactory.create(eventConfig, this.repoPath),
+      config: eventConfig,
+      repoPath: this.repoPath,
+    });
+
+    for (const command of commands) {
+      const response = await chatHandler.handleCommand(command);
+      await commentService.postComment(`${RESPONSE_MARKER}\n${response.body}`, event.prNumber);
+
+      if (command.type === CommandType.REVIEW) {
+        void this.enqueueReview(event);
+      }
+    }
+  }
+
+  private describe(event: NormalizedWebhookEvent): string {
+    return `${event.platform} ${event.owner}/${event.repo}#${event.prNumber}`;
+  }
+}
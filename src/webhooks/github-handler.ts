@@ -0,0 +1,142 @@
+/**
+ * GitHub Webhook Handler - Verifies and normalizes GitHub webhook deliveries
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  GitHubCommentWebhookPayload,
+  GitHubPRWebhookPayload,
+  NormalizedWebhookEvent,
+  WebhookHandler,
+} from '../types';
+import { WebhookEventDispatcher } from './event-dispatcher';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+const OPENED_ACTIONS = new Set(['opened', 'reopened', 'ready_for_review']);
+const UPDATED_ACTIONS = new Set(['synchronize']);
+
+// ============================================================================
+// GitHub Webhook Handler
+// ============================================================================
+
+export class GitHubWebhookHandler implements WebhookHandler {
+  private dispatcher: WebhookEventDispatcher;
+
+  constructor(dispatcher: WebhookEventDispatcher) {
+    this.dispatcher = dispatcher;
+  }
+
+  /**
+   * Verify the `X-Hub-Signature-256` header against the raw request body
+   */
+  verifySignature(payload: string, signature: string, secret: string): boolean {
+    if (!signature || !secret || !signature.startsWith(SIGNATURE_PREFIX)) {
+      return false;
+    }
+
+    const expected = createHmac('sha256', secret).update(payload, 'utf8').digest('hex');
+    const received = signature.slice(SIGNATURE_PREFIX.length);
+
+    const expectedBuffer = Buffer.from(expected, 'utf8');
+    const receivedBuffer = Buffer.from(received, 'utf8');
+    if (expectedBuffer.length !== receivedBuffer.length) {
+      return false;
+    }
+
+    return timingSafeEqual(expectedBuffer, receivedBuffer);
+  }
+
+  /**
+   * Normalize a GitHub delivery. Returns null for events we don't act on.
+   */
+  parsePayload(
+    body: object | null,
+    headers: Record<string, string>
+  ): NormalizedWebhookEvent | null {
+    if (!body) return null;
+
+    const eventName = headers['x-github-event'];
+
+    switch (eventName) {
+      case 'pull_request':
+        return this.parsePullRequest(body as GitHubPRWebhookPayload);
+      case 'issue_comment':
+      case 'pull_request_review_comment':
+        return this.parseComment(body as GitHubCommentWebhookPayload);
+      default:
+        return null;
+    }
+  }
+
+  async handleEvent(event: NormalizedWebhookEvent): Promise<void> {
+    await this.dispatcher.dispatch(event);
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private parsePullRequest(payload: GitHubPRWebhookPayload): NormalizedWebhookEvent | null {
+    let eventType: NormalizedWebhookEvent['eventType'];
+    if (OPENED_ACTIONS.has(payload.action)) {
+      eventType = 'pr_opened';
+    } else if (UPDATED_ACTIONS.has(payload.action)) {
+      eventType = 'pr_updated';
+    } else {
+      return null;
+    }
+
+    const pr = payload.pull_request;
+
+    return {
+      platform: 'github',
+      eventType,
+      prNumber: pr.number,
+      owner: payload.repository.owner.login,
+      repo: payload.repository.name,
+      sender: payload.sender.login,
+      installationId: payload.installation?.id,
+      pr: {
+        title: pr.title,
+        body: pr.body,
+        baseBranch: pr.base.ref,
+        headBranch: pr.head.ref,
+        headSha: pr.head.sha,
+        isDraft: pr.draft,
+      },
+    };
+  }
+
+  private parseComment(payload: GitHubCommentWebhookPayload): NormalizedWebhookEvent | null {
+    if (payload.action === 'deleted' || payload.sender.type === 'Bot') {
+      return null;
+    }
+
+    // issue_comment also fires for plain issues, which have nothing to review
+    const prNumber =
+      payload.pull_request?.number ??
+      (payload.issue?.pull_request ? payload.issue.number : undefined);
+    if (!prNumber) return null;
+
+    return {
+      platform: 'github',
+      eventType: payload.action === 'edited' ? 'comment_edited' : 'comment_created',
+      prNumber,
+      owner: payload.repository.owner.login,
+      repo: payload.repository.name,
+      sender: payload.sender.login,
+      installationId: payload.installation?.id,
+      comment: {
+        id: payload.comment.id,
+        body: payload.comment.body,
+        filePath: payload.comment.path,
+        lineNumber: payload.comment.line,
+      },
+    };
+  }
+}
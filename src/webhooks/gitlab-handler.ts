@@ -0,0 +1,137 @@
+/**
+ * GitLab Webhook Handler - Verifies and normalizes GitLab webhook deliveries
+ */
+
+import { timingSafeEqual } from 'crypto';
+import {
+  GitLabMRWebhookPayload,
+  GitLabNoteWebhookPayload,
+  GitLabProject,
+  NormalizedWebhookEvent,
+  WebhookHandler,
+} from '../types';
+import { WebhookEventDispatcher } from './event-dispatcher';
+
+// ============================================================================
+// GitLab Webhook Handler
+// ============================================================================
+
+export class GitLabWebhookHandler implements WebhookHandler {
+  private dispatcher: WebhookEventDispatcher;
+
+  constructor(dispatcher: WebhookEventDispatcher) {
+    this.dispatcher = dispatcher;
+  }
+
+  /**
+   * GitLab sends the configured secret verbatim in `X-Gitlab-Token`,
+   * so verification is a constant-time comparison rather than an HMAC.
+   */
+  verifySignature(_payload: string, signature: string, secret: string): boolean {
+    if (!signature || !secret) {
+      return false;
+    }
+
+    const expectedBuffer = Buffer.from(secret, 'utf8');
+    const receivedBuffer = Buffer.from(signature, 'utf8');
+    if (expectedBuffer.length !== receivedBuffer.length) {
+      return false;
+    }
+
+    return timingSafeEqual(expectedBuffer, receivedBuffer);
+  }
+
+  /**
+   * Normalize a GitLab delivery. Returns null for events we don't act on.
+   */
+  parsePayload(
+    body: object | null,
+    _headers: Record<string, string>
+  ): NormalizedWebhookEvent | null {
+    if (!body) return null;
+
+    const kind = (body as { object_kind?: string }).object_kind;
+
+    switch (kind) {
+      case 'merge_request':
+        return this.parseMergeRequest(body as GitLabMRWebhookPayload);
+      case 'note':
+        return this.parseNote(body as GitLabNoteWebhookPayload);
+      default:
+        return null;
+    }
+  }
+
+  async handleEvent(event: NormalizedWebhookEvent): Promise<void> {
+    await this.dispatcher.dispatch(event);
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private parseMergeRequest(payload: GitLabMRWebhookPayload): NormalizedWebhookEvent | null {
+    const mr = payload.object_attributes;
+
+    let eventType: NormalizedWebhookEvent['eventType'];
+    if (mr.action === 'open' || mr.action === 'reopen') {
+      eventType = 'pr_opened';
+    } else if (mr.action === 'update' && mr.oldrev) {
+      // Title, description, label and assignee edits are updates without a push
+      eventType = 'pr_updated';
+    } else {
+      return null;
+    }
+
+    return {
+      platform: 'gitlab',
+      eventType,
+      prNumber: mr.iid,
+      ...this.splitProjectPath(payload.project),
+      sender: payload.user.username,
+      pr: {
+        title: mr.title,
+        body: mr.description,
+        baseBranch: mr.target_branch,
+        headBranch: mr.source_branch,
+        headSha: mr.last_commit?.id,
+        isDraft: /^(draft|wip):/i.test(mr.title),
+      },
+    };
+  }
+
+  private parseNote(payload: GitLabNoteWebhookPayload): NormalizedWebhookEvent | null {
+    const note = payload.object_attributes;
+    if (note.noteable_type !== 'MergeRequest' || !payload.merge_request) {
+      return null;
+    }
+
+    return {
+      platform: 'gitlab',
+      eventType: note.created_at === note.updated_at ? 'comment_created' : 'comment_edited',
+      prNumber: payload.merge_request.iid,
+      ...this.splitProjectPath(payload.project),
+      sender: payload.user.username,
+      comment: {
+        id: note.id,
+        body: note.body,
+        filePath: note.position?.new_path,
+        lineNumber: note.position?.new_line,
+      },
+    };
+  }
+
+  /**
+   * `group/subgroup/project` → owner `group/subgroup`, repo `project`
+   */
+  private splitProjectPath(project: GitLabProject): { owner: string; repo: string } {
+    const separator = project.path_with_namespace.lastIndexOf('/');
+    if (separator === -1) {
+      return { owner: '', repo: project.path_with_namespace };
+    }
+    return {
+      owner: project.path_with_namespace.slice(0, separator),
+      repo: project.path_with_namespace.slice(separator + 1),
+    };
+  }
+}
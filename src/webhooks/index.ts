@@ -0,0 +1,15 @@
+/**
+ * Webhooks Module - GitHub/GitLab webhook server for automatic reviews and @sherlock commands
+ */
+
+export { WebhookEventDispatcher } from './event-dispatcher';
+export type { WebhookEventDispatcherOptions } from './event-dispatcher';
+
+export { GitHubWebhookHandler } from './github-handler';
+export { GitLabWebhookHandler } from './gitlab-handler';
+
+export { ReviewQueue } from './review-queue';
+export type { EnqueueResult, ReviewJob, ReviewJobRunner, ReviewQueueOptions } from './review-queue';
+
+export { WebhookServer, createWebhookServer } from './server';
+export type { WebhookServerOptions } from './server';
@@ -0,0 +1,222 @@
+/**
+ * Review Queue - In-process job queue for webhook-triggered reviews
+ *
+ * - One job per repo+PR: a newer head SHA drops the pending job and cancels the running one
+ * - Jobs for different PRs run concurrently up to a limit
+ * - Queue state is persisted so pending reviews survive a restart
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NormalizedWebhookEvent, ReviewCancelledError } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReviewJob {
+  /** `platform:owner/repo#number` */
+  key: string;
+  /** Head SHA the job was queued for (if known) */
+  headSha?: string;
+  event: NormalizedWebhookEvent;
+  enqueuedAt: number;
+}
+
+export type ReviewJobRunner = (event: NormalizedWebhookEvent, signal: AbortSignal) => Promise<void>;
+
+export type EnqueueResult = 'queued' | 'duplicate' | 'superseded';
+
+export interface ReviewQueueOptions {
+  /** Runs a single review; should honour the abort signal */
+  runner: ReviewJobRunner;
+  /** Maximum number of PRs reviewed at the same time */
+  concurrency?: number;
+  /** Directory for the persisted queue state (disabled when omitted) */
+  storagePath?: string;
+}
+
+interface RunningJob {
+  job: ReviewJob;
+  controller: AbortController;
+}
+
+interface PersistedQueue {
+  jobs: ReviewJob[];
+}
+
+// ============================================================================
+// Review Queue
+// ============================================================================
+
+export class ReviewQueue {
+  private runner: ReviewJobRunner;
+  private concurrency: number;
+  private stateFile?: string;
+  private pending: ReviewJob[] = [];
+  private running = new Map<string, RunningJob>();
+  private idleResolvers: Array<() => void> = [];
+
+  constructor(options: ReviewQueueOptions) {
+    this.runner = options.runner;
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+
+    if (options.storagePath) {
+      this.stateFile = path.join(path.resolve(options.storagePath), 'review-queue.json');
+    }
+  }
+
+  /**
+   * Build the queue key for an event
+   */
+  static jobKey(event: NormalizedWebhookEvent): string {
+    return `${event.platform}:${event.owner}/${event.repo}#${event.prNumber}`;
+  }
+
+  /**
+   * Queue a review for an event
+   * @returns `superseded` when an older run for the same PR was dropped or cancelled
+   */
+  enqueue(event: NormalizedWebhookEvent): EnqueueResult {
+    const key = ReviewQueue.jobKey(event);
+    const headSha = event.pr?.headSha;
+    const running = this.running.get(key);
+    const pendingIndex = this.pending.findIndex((job) => job.key === key);
+    const pendingJob = pendingIndex === -1 ? undefined : this.pending[pendingIndex];
+
+    // Without a SHA (e.g. a manual @sherlock review) any queued/running job already covers it
+    if (!headSha && (running || pendingJob)) {
+      return 'duplicate';
+    }
+    if (headSha && (pendingJob?.headSha === headSha || running?.job.headSha === headSha)) {
+      return 'duplicate';
+    }
+
+    let result: EnqueueResult = 'queued';
+
+    if (pendingJob) {
+      this.pending.splice(pendingIndex, 1);
+      result = 'superseded';
+    }
+
+    if (running && !running.controller.signal.aborted) {
+      running.controller.abort();
+      result = 'superseded';
+    }
+
+    this.pending.push({ key, headSha, event, enqueuedAt: Date.now() });
+    this.persist();
+    this.pump();
+
+    return result;
+  }
+
+  /**
+   * Re-queue jobs persisted by a previous process
+   * @returns Number of jobs restored
+   */
+  resume(): number {
+    if (!this.stateFile || !fs.existsSync(this.stateFile)) {
+      return 0;
+    }
+
+    let saved: ReviewJob[] = [];
+    try {
+      const state = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8')) as PersistedQueue;
+      saved = Array.isArray(state.jobs) ? state.jobs : [];
+    } catch (error) {
+      console.warn('Failed to read persisted review queue:', error);
+      return 0;
+    }
+
+    let restored = 0;
+    for (const job of saved) {
+      if (this.enqueue(job.event) !== 'duplicate') {
+        restored++;
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Snapshot of queued and running jobs
+   */
+  getState(): { pending: ReviewJob[]; running: ReviewJob[] } {
+    return {
+      pending: [...this.pending],
+      running: Array.from(this.running.values()).map((r) => r.job),
+    };
+  }
+
+  /**
+   * Resolves once no jobs are pending or running
+   */
+  onIdle(): Promise<void> {
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleResolvers.push(resolve));
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private pump(): void {
+    while (this.running.size < this.concurrency) {
+      // Never run two jobs for the same PR at once; a superseded run must finish first
+      const index = this.pending.findIndex((job) => !this.running.has(job.key));
+      if (index === -1) break;
+
+      const [job] = this.pending.splice(index, 1);
+      if (job) this.start(job);
+    }
+
+    if (this.isIdle()) {
+      const resolvers = this.idleResolvers;
+      this.idleResolvers = [];
+      resolvers.forEach((resolve) => resolve());
+    }
+  }
+
+  private start(job: ReviewJob): void {
+    const controller = new AbortController();
+    this.running.set(job.key, { job, controller });
+    this.persist();
+
+    this.runner(job.event, controller.signal)
+      .catch((error) => {
+        if (error instanceof ReviewCancelledError || controller.signal.aborted) {
+          console.log(`Review for ${job.key} (${job.headSha ?? 'unknown sha'}) was superseded`);
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Review for ${job.key} failed: ${message}`);
+      })
+      .finally(() => {
+        this.running.delete(job.key);
+        this.persist();
+        this.pump();
+      });
+  }
+
+  private isIdle(): boolean {
+    return this.pending.length === 0 && this.running.size === 0;
+  }
+
+  private persist(): void {
+    if (!this.stateFile) return;
+
+    // Running jobs are saved too: if the process dies mid-review they are re-run
+    const state: PersistedQueue = {
+      jobs: [...Array.from(this.running.values()).map((r) => r.job), ...this.pending],
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+      fs.writeFileSync(this.stateFile, JSON.stringify(state, null, 2));
+    } catch {
+      // Persisting is best effort; the queue keeps working in memory
+    }
+  }
+}
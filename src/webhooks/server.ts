@@ -0,0 +1,194 @@
+/**
+ * Webhook Server - HTTP endpoint for GitHub and GitLab webhook deliveries
+ *
+ * Routes:
+ *   POST /webhooks/github  (verified with X-Hub-Signature-256)
+ *   POST /webhooks/gitlab  (verified with X-Gitlab-Token)
+ *   GET  /health
+ */
+
+import chalk from 'chalk';
+import express, { Express, Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { Config, ConfigurationError, WebhookHandler, WebhookResponse } from '../types';
+import { WebhookEventDispatcher } from './event-dispatcher';
+import { GitHubWebhookHandler } from './github-handler';
+import { GitLabWebhookHandler } from './gitlab-handler';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+export interface WebhookServerOptions {
+  /** Base configuration (must contain a `webhook` block with at least one secret) */
+  config: Config;
+  /** Path to the local clone used for reviews */
+  repoPath?: string;
+  /** Port override (defaults to config.webhook.port) */
+  port?: number;
+  /** Custom dispatcher (defaults to one built from config) */
+  dispatcher?: WebhookEventDispatcher;
+}
+
+// ============================================================================
+// Webhook Server
+// ============================================================================
+
+export class WebhookServer {
+  private app: Express;
+  private server?: Server;
+  private port: number;
+  private dispatcher: WebhookEventDispatcher;
+
+  constructor(options: WebhookServerOptions) {
+    const webhookConfig = options.config.webhook;
+    if (!webhookConfig?.githubSecret && !webhookConfig?.gitlabSecret) {
+      throw new ConfigurationError(
+        'A webhook secret is required (set GITHUB_WEBHOOK_SECRET or GITLAB_WEBHOOK_SECRET)'
+      );
+    }
+
+    this.port = options.port ?? webhookConfig.port ?? 3000;
+
+    const dispatcher =
+      options.dispatcher ??
+      new WebhookEventDispatcher({ config: options.config, repoPath: options.repoPath });
+    this.dispatcher = dispatcher;
+
+    this.app = express();
+    this.app.get('/health', (_req: Request, res: Response) => {
+      res.json({ status: 'ok' });
+    });
+
+    const rawBody = express.raw({ type: '*/*', limit: '10mb' });
+
+    if (webhookConfig.githubSecret) {
+      this.app.post(
+        '/webhooks/github',
+        rawBody,
+        this.createRoute(
+          new GitHubWebhookHandler(dispatcher),
+          webhookConfig.githubSecret,
+          'x-hub-signature-256'
+        )
+      );
+    }
+
+    if (webhookConfig.gitlabSecret) {
+      this.app.post(
+        '/webhooks/gitlab',
+        rawBody,
+        this.createRoute(
+          new GitLabWebhookHandler(dispatcher),
+          webhookConfig.gitlabSecret,
+          'x-gitlab-token'
+        )
+      );
+    }
+  }
+
+  /**
+   * Express application (useful for mounting into an existing server)
+   */
+  getApp(): Express {
+    return this.app;
+  }
+
+  /**
+   * Start listening. Resolves with the bound port.
+   */
+  start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(this.port, () => {
+        const address = server.address() as AddressInfo;
+        console.log(chalk.green(`🔍 Code Sherlock webhook server listening on :${address.port}`));
+        // Pick up reviews that were still queued when the previous process stopped
+        this.dispatcher.resume();
+        resolve(address.port);
+      });
+      server.on('error', reject);
+      this.server = server;
+    });
+  }
+
+  /**
+   * Stop listening
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server = undefined;
+    });
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private createRoute(
+    handler: WebhookHandler,
+    secret: string,
+    signatureHeader: string
+  ): (req: Request, res: Response) => void {
+    return (req: Request, res: Response): void => {
+      const payload = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+      const headers = this.normalizeHeaders(req.headers);
+
+      if (!handler.verifySignature(payload, headers[signatureHeader] ?? '', secret)) {
+        this.respond(res, 401, { success: false, message: 'Invalid signature' });
+        return;
+      }
+
+      let body: object | null;
+      try {
+        body = JSON.parse(payload) as object | null;
+      } catch {
+        this.respond(res, 400, { success: false, message: 'Invalid JSON payload' });
+        return;
+      }
+
+      const event = handler.parsePayload(body, headers);
+      if (!event) {
+        this.respond(res, 200, { success: true, message: 'Event ignored' });
+        return;
+      }
+
+      // Reviews take far longer than forges wait for a response, so process in background
+      handler.handleEvent(event).catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(chalk.red(`Failed to handle ${event.eventType}: ${message}`));
+      });
+
+      this.respond(res, 202, {
+        success: true,
+        message: `Accepted ${event.eventType} for ${event.owner}/${event.repo}#${event.prNumber}`,
+      });
+    };
+  }
+
+  private normalizeHeaders(headers: Request['headers']): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      if (value === undefined) continue;
+      normalized[key.toLowerCase()] = Array.isArray(value) ? value.join(',') : value;
+    }
+    return normalized;
+  }
+
+  private respond(res: Response, status: number, body: WebhookResponse): void {
+    res.status(status).json(body);
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createWebhookServer(options: WebhookServerOptions): WebhookServer {
+  return new WebhookServer(options);
+}